@@ -30,18 +30,27 @@ export default defineConfig({
 
   /* Configure projects for major browsers */
   projects: [
+    /* 브라우저 없이 Node 에서 실행하는 저장소/유틸리티 테스트 (tests/unit) */
+    {
+      name: 'unit',
+      testMatch: /unit\/.*\.spec\.ts/,
+    },
+
     {
       name: 'chromium',
+      testIgnore: /unit\//,
       use: { ...devices['Desktop Chrome'] },
     },
 
     {
       name: 'firefox',
+      testIgnore: /unit\//,
       use: { ...devices['Desktop Firefox'] },
     },
 
     {
       name: 'webkit',
+      testIgnore: /unit\//,
       use: { ...devices['Desktop Safari'] },
     },
 
@@ -71,5 +80,14 @@ export default defineConfig({
     command: 'npm run dev',
     url: 'http://localhost:3000',
     reuseExistingServer: !process.env.CI,
+    /* Supabase 없이 실행할 수 있도록 기본적으로 인메모리 저장소 사용 */
+    env: {
+      NEXT_PUBLIC_MEMO_STORE: process.env.NEXT_PUBLIC_MEMO_STORE || 'memory',
+      /* 메일 발송 없이 이메일만 입력하면 로그인되는 로컬 인증 사용 */
+      NEXT_PUBLIC_AUTH_PROVIDER:
+        process.env.NEXT_PUBLIC_AUTH_PROVIDER || 'local',
+      /* AI 요약/태그는 네트워크 없이 항상 같은 응답을 주는 mock 제공자 사용 */
+      LLM_PROVIDER: process.env.LLM_PROVIDER || 'mock',
+    },
   },
 })
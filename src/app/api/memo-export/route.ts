@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseClientForRequest } from '@/lib/supabaseClient'
+import { createMemoRepository } from '@/utils/memoRepository'
+import {
+  collectMemosForExport,
+  createMemoExport,
+  MEMO_EXPORT_FORMATS,
+  MemoExportFormat,
+} from '@/utils/memoExport'
+import { hasCategoryClause, parseSearchQuery } from '@/utils/searchQuery'
+import { TAG_FILTER_MODES, TagFilterMode } from '@/utils/tags'
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl
+    const format = searchParams.get('format') || 'zip'
+
+    // 요청 파라미터 검증
+    if (!MEMO_EXPORT_FORMATS.includes(format as MemoExportFormat)) {
+      return NextResponse.json(
+        { error: '내보내기 형식이 올바르지 않습니다.' },
+        { status: 400 }
+      )
+    }
+
+    const tagMode = searchParams.get('tagMode') || undefined
+    if (tagMode && !TAG_FILTER_MODES.includes(tagMode as TagFilterMode)) {
+      return NextResponse.json(
+        { error: '태그 필터 방식이 올바르지 않습니다.' },
+        { status: 400 }
+      )
+    }
+
+    // 요청한 사용자의 권한(RLS)으로 요청한 워크스페이스의 메모를 모음
+    const repository = createMemoRepository(
+      () => getSupabaseClientForRequest(request),
+      () => searchParams.get('workspace')
+    )
+    const query = searchParams.get('q') || undefined
+    // 검색어의 category: 조건은 요청한 범위의 카테고리 이름으로 해석
+    // (서버 검색이 잘려 전체 메모로 순위를 다시 매길 때도 같은 카테고리를 씀)
+    const categories =
+      query && hasCategoryClause(parseSearchQuery(query))
+        ? await repository.getScopeCategories()
+        : undefined
+    const memos = await collectMemosForExport(repository, {
+      query,
+      category: searchParams.get('category') || undefined,
+      folder: searchParams.get('folder') || undefined,
+      tags: searchParams.getAll('tag'),
+      tagMode: tagMode as TagFilterMode | undefined,
+      categories,
+    })
+    const file = createMemoExport(memos, format as MemoExportFormat)
+
+    return new NextResponse(file.data, {
+      headers: {
+        'Content-Type': file.mimeType,
+        'Content-Disposition': `attachment; filename="${file.fileName}"`,
+      },
+    })
+  } catch (error) {
+    console.error('메모 내보내기 오류:', error)
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : '메모 내보내기 중 오류가 발생했습니다.',
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseClientForRequest } from '@/lib/supabaseClient'
+import { createMemoRepository } from '@/utils/memoRepository'
+import { TAG_FILTER_MODES, TagFilterMode } from '@/utils/tags'
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl
+    const query = searchParams.get('q')?.trim()
+
+    // 요청 파라미터 검증
+    if (!query) {
+      return NextResponse.json(
+        { error: '검색어가 필요합니다.' },
+        { status: 400 }
+      )
+    }
+
+    const page = Number(searchParams.get('page') || 1)
+    const pageSize = searchParams.get('pageSize')
+      ? Number(searchParams.get('pageSize'))
+      : undefined
+
+    if (!Number.isInteger(page) || (pageSize && !Number.isInteger(pageSize))) {
+      return NextResponse.json(
+        { error: '페이지 번호가 올바르지 않습니다.' },
+        { status: 400 }
+      )
+    }
+
+    const tagMode = searchParams.get('tagMode') || undefined
+    if (tagMode && !TAG_FILTER_MODES.includes(tagMode as TagFilterMode)) {
+      return NextResponse.json(
+        { error: '태그 필터 방식이 올바르지 않습니다.' },
+        { status: 400 }
+      )
+    }
+
+    // 요청한 사용자의 권한(RLS)으로 요청한 워크스페이스에서 검색
+    const repository = createMemoRepository(
+      () => getSupabaseClientForRequest(request),
+      () => searchParams.get('workspace')
+    )
+    const result = await repository.searchMemos(query, {
+      page,
+      pageSize,
+      category: searchParams.get('category') || undefined,
+      folder: searchParams.get('folder') || undefined,
+      tags: searchParams.getAll('tag'),
+      tagMode: tagMode as TagFilterMode | undefined,
+    })
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('메모 검색 오류:', error)
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : '메모 검색 중 오류가 발생했습니다.',
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -1,72 +1,75 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { GoogleGenAI } from '@google/genai'
-import { supabase } from '@/lib/supabaseClient'
+import { getLlmProvider } from '@/lib/llm'
+import {
+  buildSummaryPrompt,
+  getSummaryMaxTokens,
+  parseSummaryOptions,
+} from '@/utils/memoSummary'
+
+const EMPTY_SUMMARY = '요약을 생성할 수 없습니다.'
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { memoId, title, content } = body
+    const { title, content, options: rawOptions } = body
 
     // 요청 본문 검증
-    if (!memoId || !title || !content) {
+    if (!title || !content) {
       return NextResponse.json(
-        { error: '메모 ID, 제목, 내용이 필요합니다.' },
+        { error: '제목과 내용이 필요합니다.' },
         { status: 400 }
       )
     }
 
-    // API 키 확인
-    const apiKey = process.env.GEMINI_API_KEY
-    if (!apiKey) {
+    const options = parseSummaryOptions(rawOptions)
+    if (!options) {
       return NextResponse.json(
-        { error: 'GEMINI_API_KEY가 설정되지 않았습니다.' },
-        { status: 500 }
+        { error: '요약 옵션이 올바르지 않습니다.' },
+        { status: 400 }
       )
     }
 
-    // GoogleGenAI 클라이언트 초기화
-    const ai = new GoogleGenAI({ apiKey })
-
-    // 메모 요약 프롬프트 생성
-    const prompt = `다음 메모를 간결하고 명확하게 요약해주세요. 핵심 내용만 2-3문장으로 정리해주세요.
+    // 설정된 LLM 제공자 (필요한 환경 변수가 없으면 아래 catch 에서 500 으로 응답)
+    const llm = getLlmProvider()
 
-제목: ${title}
-
-내용:
-${content}`
+    // LLM 스트리밍 호출 (요청 자체가 실패하면 아래 catch 에서 500 으로 응답)
+    const chunks = await llm.streamText({
+      task: 'summary',
+      memo: { title, content },
+      prompt: buildSummaryPrompt(title, content, options),
+      maxOutputTokens: getSummaryMaxTokens(options),
+      temperature: 0.7,
+    })
 
-    // Gemini API 호출
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.0-flash-001',
-      contents: prompt,
-      config: {
-        maxOutputTokens: 500,
-        temperature: 0.7,
+    // 생성되는 대로 텍스트 조각을 보냄
+    // (저장은 클라이언트가 메모 저장소로 하므로 여기서는 DB에 쓰지 않음)
+    const encoder = new TextEncoder()
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        let summary = ''
+        try {
+          for await (const text of chunks) {
+            summary += text
+            controller.enqueue(encoder.encode(text))
+          }
+          if (!summary.trim()) {
+            summary = EMPTY_SUMMARY
+            controller.enqueue(encoder.encode(summary))
+          }
+          controller.close()
+        } catch (streamError) {
+          console.error('메모 요약 스트리밍 오류:', streamError)
+          controller.error(streamError)
+        }
       },
     })
 
-    const summary = response.text || '요약을 생성할 수 없습니다.'
-
-    // DB에 요약 저장
-    try {
-      const { error: updateError } = await supabase
-        .from('memos')
-        .update({
-          summary,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', memoId)
-
-      if (updateError) {
-        console.error('Failed to save summary to database:', updateError)
-        // 요약 생성은 성공했지만 DB 저장에 실패한 경우에도 요약은 반환
-      }
-    } catch (dbError) {
-      console.error('Database error while saving summary:', dbError)
-      // 요약 생성은 성공했지만 DB 저장에 실패한 경우에도 요약은 반환
-    }
-
-    return NextResponse.json({ summary })
+    return new NextResponse(stream, {
+      headers: {
+        'Content-Type': 'text/plain; charset=utf-8',
+        'Cache-Control': 'no-cache',
+      },
+    })
   } catch (error) {
     console.error('메모 요약 오류:', error)
     return NextResponse.json(
@@ -80,4 +83,3 @@ ${content}`
     )
   }
 }
-
@@ -1,31 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { GoogleGenAI } from '@google/genai'
-import { supabase } from '@/lib/supabaseClient'
+import { getLlmProvider } from '@/lib/llm'
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { memoId, title, content } = body
+    const { title, content } = body
 
     // 요청 본문 검증
-    if (!memoId || !title || !content) {
+    if (!title || !content) {
       return NextResponse.json(
-        { error: '메모 ID, 제목, 내용이 필요합니다.' },
+        { error: '제목과 내용이 필요합니다.' },
         { status: 400 }
       )
     }
 
-    // API 키 확인
-    const apiKey = process.env.GEMINI_API_KEY
-    if (!apiKey) {
-      return NextResponse.json(
-        { error: 'GEMINI_API_KEY가 설정되지 않았습니다.' },
-        { status: 500 }
-      )
-    }
-
-    // GoogleGenAI 클라이언트 초기화
-    const ai = new GoogleGenAI({ apiKey })
+    // 설정된 LLM 제공자 (필요한 환경 변수가 없으면 아래 catch 에서 500 으로 응답)
+    const llm = getLlmProvider()
 
     // 태그 생성 프롬프트 생성
     const prompt = `다음 메모의 내용을 분석하여 적절한 태그를 생성해주세요. 태그는 메모의 핵심 주제와 내용을 잘 나타내는 단어나 구문이어야 합니다.
@@ -38,17 +28,15 @@ ${content}
 위 메모에 적합한 태그를 3-5개 생성해주세요. 태그는 JSON 배열 형식으로 반환해주세요. 예: ["태그1", "태그2", "태그3"]
 태그는 한글이나 영어로 작성할 수 있으며, 각 태그는 간결하고 명확해야 합니다.`
 
-    // Gemini API 호출
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.0-flash-001',
-      contents: prompt,
-      config: {
+    // LLM 호출
+    const responseText =
+      (await llm.generateText({
+        task: 'tags',
+        memo: { title, content },
+        prompt,
         maxOutputTokens: 200,
         temperature: 0.7,
-      },
-    })
-
-    const responseText = response.text || '[]'
+      })) || '[]'
 
     // JSON 배열 파싱 시도
     let tags: string[] = []
@@ -76,25 +64,7 @@ ${content}
       tags = []
     }
 
-    // DB에 태그 저장
-    try {
-      const { error: updateError } = await supabase
-        .from('memos')
-        .update({
-          tags,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', memoId)
-
-      if (updateError) {
-        console.error('Failed to save tags to database:', updateError)
-        // 태그 생성은 성공했지만 DB 저장에 실패한 경우에도 태그는 반환
-      }
-    } catch (dbError) {
-      console.error('Database error while saving tags:', dbError)
-      // 태그 생성은 성공했지만 DB 저장에 실패한 경우에도 태그는 반환
-    }
-
+    // 저장은 클라이언트가 메모 저장소로 하므로 여기서는 DB에 쓰지 않음
     return NextResponse.json({ tags })
   } catch (error) {
     console.error('메모 태그 생성 오류:', error)
@@ -109,4 +79,3 @@ ${content}
     )
   }
 }
-
@@ -0,0 +1,2 @@
+// 그래프 보기 (/graph): 메인 페이지를 그대로 그리고, 메모 그래프를 보여 줌
+export { default } from '../page'
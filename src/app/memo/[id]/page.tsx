@@ -0,0 +1,2 @@
+// 메모 링크 (/memo/<id>): 메인 페이지를 그대로 그리고, 주소의 메모를 뷰어로 엶
+export { default } from '../../page'
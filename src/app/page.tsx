@@ -1,39 +1,219 @@
 'use client'
 
-import { useState, useMemo } from 'react'
+import { useState, useMemo, useCallback, useEffect } from 'react'
 import { useMemos } from '@/hooks/useMemos'
+import { useAuth } from '@/hooks/useAuth'
+import { useWorkspaces } from '@/hooks/useWorkspaces'
+import { useShareLinks } from '@/hooks/useShareLinks'
+import { useCategories } from '@/hooks/useCategories'
+import { useFolders } from '@/hooks/useFolders'
+import { useBackups } from '@/hooks/useBackups'
+import { useViewUrl } from '@/hooks/useViewUrl'
 import { Memo, MemoFormData } from '@/types/memo'
+import { ALL_FOLDERS, Folder } from '@/types/folder'
 import MemoList from '@/components/MemoList'
 import MemoForm from '@/components/MemoForm'
 import MemoViewer from '@/components/MemoViewer'
+import MemoGraph from '@/components/MemoGraph'
+import SignInForm from '@/components/SignInForm'
+import WorkspaceSwitcher from '@/components/WorkspaceSwitcher'
+import MemoShareDialog from '@/components/MemoShareDialog'
+import CategoryManager from '@/components/CategoryManager'
+import TagManager from '@/components/TagManager'
+import FolderSidebar from '@/components/FolderSidebar'
+import MemoImportDialog from '@/components/MemoImportDialog'
+import BackupManager from '@/components/BackupManager'
+import SyncFailureBanner from '@/components/SyncFailureBanner'
+import { MemoConflictError } from '@/utils/memoErrors'
+import { MemoView, MemoViewState } from '@/utils/viewUrl'
+import { MemoExportFormat } from '@/utils/memoExport'
+import { downloadExportFile } from '@/utils/memoExportApi'
 
 export default function Home() {
+  const {
+    user,
+    loading: authLoading,
+    signInWithEmail,
+    signInWithOAuth,
+  } = useAuth()
+  const {
+    workspaces,
+    currentWorkspace,
+    currentRole,
+    canEdit,
+    selectWorkspace,
+    createWorkspace,
+    getMembers,
+    addMember,
+    updateMemberRole,
+    removeMember,
+  } = useWorkspaces(user?.id || null)
+  const {
+    categories,
+    createCategory,
+    updateCategory,
+    reorderCategories,
+    deleteCategory,
+  } = useCategories(user?.id || null, currentWorkspace?.id || null)
   const {
     memos,
     allMemos,
     loading,
     searchQuery,
     selectedCategory,
+    selectedFolder,
+    selectedTags,
+    tagFilterMode,
+    sort,
     stats,
+    tagCounts,
+    pendingMemoIds,
+    failedSyncs,
+    searchHighlights,
+    searchErrors,
+    searchTruncated,
+    isSearching,
+    hasMore,
+    loadingMore,
+    loadMore,
+    isTrashView,
     createMemo,
     updateMemo,
     deleteMemo,
+    restoreMemo,
+    purgeMemo,
+    emptyTrash,
+    showTrash,
     searchMemos,
     filterByCategory,
+    filterByFolder,
+    toggleTagFilter,
+    filterByTags,
+    clearTagFilter,
+    changeTagFilterMode,
+    changeSort,
+    fetchMemoById,
+    findMemoByTitle,
+    getBacklinks,
     updateMemoSummary,
     updateMemoTags,
-  } = useMemos()
+    toggleMemoPin,
+    getMemoRevisions,
+    restoreMemoRevision,
+    moveMemoToWorkspace,
+    reassignCategory,
+    moveMemoToFolder,
+    moveMemosToFolder,
+    replaceTag,
+    retryFailedSync,
+    discardFailedSync,
+    exportMemos,
+    previewImport,
+    importMemos,
+    restoreBackup,
+  } = useMemos(user?.id || null, currentWorkspace?.id || null, categories)
+  const { folderTree, createFolder, renameFolder, deleteFolder } = useFolders(
+    user?.id || null,
+    currentWorkspace?.id || null
+  )
+  const { backups, refreshBackups, createBackup, previewBackup, deleteBackup } =
+    useBackups(user?.id || null, currentWorkspace?.id || null)
+  const { getShareLinks, createShareLink, revokeShareLink } = useShareLinks()
 
   const [isFormOpen, setIsFormOpen] = useState(false)
   const [editingMemo, setEditingMemo] = useState<Memo | null>(null)
   const [selectedMemoId, setSelectedMemoId] = useState<string | null>(null)
   const [isViewerOpen, setIsViewerOpen] = useState(false)
+  // 링크로 열었지만 아직 불러온 목록에 없는 메모
+  const [linkedMemo, setLinkedMemo] = useState<Memo | null>(null)
+  const [sharingMemo, setSharingMemo] = useState<Memo | null>(null)
+  const [isCategoryManagerOpen, setIsCategoryManagerOpen] = useState(false)
+  const [isTagManagerOpen, setIsTagManagerOpen] = useState(false)
+  const [view, setView] = useState<MemoView>('list')
+  const [isExporting, setIsExporting] = useState(false)
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false)
+  const [isBackupManagerOpen, setIsBackupManagerOpen] = useState(false)
+
+  // 그래프는 불러온 메모 전체로 그림 (휴지통의 메모는 제외)
+  const graphMemos = useMemo(
+    () => allMemos.filter(memo => !memo.deletedAt),
+    [allMemos]
+  )
 
-  // selectedMemoId에 해당하는 최신 메모 가져오기
+  // selectedMemoId에 해당하는 최신 메모 가져오기 (실시간 변경도 반영됨)
+  // 아직 불러오지 않은 페이지의 메모는 검색 결과에서 찾음
   const selectedMemo = useMemo(() => {
     if (!selectedMemoId) return null
-    return allMemos.find(memo => memo.id === selectedMemoId) || null
-  }, [selectedMemoId, allMemos])
+    return (
+      allMemos.find(memo => memo.id === selectedMemoId) ||
+      memos.find(memo => memo.id === selectedMemoId) ||
+      (linkedMemo?.id === selectedMemoId ? linkedMemo : null)
+    )
+  }, [selectedMemoId, allMemos, memos, linkedMemo])
+
+  // 검색어, 필터, 열어 둔 메모, 그래프 보기를 주소에 반영 (/memo/<id>?q=...&tag=..., /graph)
+  useViewUrl(
+    {
+      searchQuery,
+      category: selectedCategory,
+      folder: selectedFolder,
+      tags: selectedTags,
+      tagMode: tagFilterMode,
+      memoId: isViewerOpen ? selectedMemoId : null,
+      view,
+    },
+    (view: MemoViewState) => {
+      searchMemos(view.searchQuery)
+      filterByCategory(view.category)
+      filterByFolder(view.folder)
+      filterByTags(view.tags)
+      changeTagFilterMode(view.tagMode)
+      setSelectedMemoId(view.memoId)
+      setIsViewerOpen(Boolean(view.memoId))
+      setView(view.view)
+    }
+  )
+
+  // 링크로 연 메모가 불러온 목록에 없으면 저장소에서 찾음
+  // (다른 워크스페이스의 메모면 그 워크스페이스로 전환한 뒤 다시 찾음)
+  useEffect(() => {
+    if (!user || loading || !selectedMemoId || selectedMemo) return
+
+    let cancelled = false
+    fetchMemoById(selectedMemoId).then(memo => {
+      if (cancelled) return
+      if (!memo || memo.deletedAt) {
+        alert('메모를 찾을 수 없거나 볼 수 있는 권한이 없습니다.')
+        setIsViewerOpen(false)
+        setSelectedMemoId(null)
+        return
+      }
+
+      const workspaceId = memo.workspaceId || null
+      if (
+        workspaceId !== (currentWorkspace?.id || null) &&
+        (!workspaceId ||
+          workspaces.some(workspace => workspace.id === workspaceId))
+      ) {
+        selectWorkspace(workspaceId)
+        return
+      }
+      setLinkedMemo(memo)
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [
+    user,
+    loading,
+    selectedMemoId,
+    selectedMemo,
+    currentWorkspace,
+    workspaces,
+    selectWorkspace,
+    fetchMemoById,
+  ])
 
   const handleCreateMemo = async (formData: MemoFormData) => {
     try {
@@ -45,19 +225,33 @@ export default function Home() {
     }
   }
 
-  const handleUpdateMemo = async (formData: MemoFormData) => {
+  const handleUpdateMemo = async (
+    formData: MemoFormData,
+    expectedUpdatedAt?: string
+  ) => {
     if (editingMemo) {
       try {
-        await updateMemo(editingMemo.id, formData)
+        await updateMemo(editingMemo.id, formData, expectedUpdatedAt)
         setEditingMemo(null)
         setIsFormOpen(false)
       } catch (error) {
+        // 충돌은 폼에서 병합 다이얼로그로 처리
+        if (error instanceof MemoConflictError) throw error
         console.error('Failed to update memo:', error)
         alert('메모 수정에 실패했습니다.')
       }
     }
   }
 
+  const handleLoadMore = async () => {
+    try {
+      await loadMore()
+    } catch (error) {
+      console.error('Failed to load more memos:', error)
+      alert('메모를 더 불러오지 못했습니다.')
+    }
+  }
+
   const handleEditMemo = (memo: Memo) => {
     setEditingMemo(memo)
     setIsFormOpen(true)
@@ -68,6 +262,21 @@ export default function Home() {
     setIsViewerOpen(true)
   }
 
+  // 위키 링크나 백링크로 연 메모 (불러온 목록에 없을 수 있음)
+  const handleOpenLinkedMemo = (memo: Memo) => {
+    setLinkedMemo(memo)
+    handleOpenViewer(memo)
+  }
+
+  const handleWikiLinkClick = async (title: string) => {
+    const memo = await findMemoByTitle(title)
+    if (!memo) {
+      alert(`"${title}" 메모를 찾을 수 없습니다.`)
+      return
+    }
+    handleOpenLinkedMemo(memo)
+  }
+
   const handleCloseForm = () => {
     setIsFormOpen(false)
     setEditingMemo(null)
@@ -93,6 +302,117 @@ export default function Home() {
     }
   }
 
+  // 뷰어에서 누른 태그는 필터에 추가하고 목록으로 돌아감
+  const handleViewerTagClick = (tag: string) => {
+    handleCloseViewer()
+    setView('list')
+    if (!selectedTags.includes(tag)) toggleTagFilter(tag)
+  }
+
+  const handleEmptyTrash = async () => {
+    if (
+      !window.confirm(
+        '휴지통의 모든 메모를 영구 삭제하시겠습니까? 되돌릴 수 없습니다.'
+      )
+    ) {
+      return
+    }
+    try {
+      await emptyTrash()
+    } catch (error) {
+      console.error('Failed to empty trash:', error)
+      alert('휴지통을 비우지 못했습니다.')
+    }
+  }
+
+  // 다른 워크스페이스로 옮긴 메모는 지금 목록에서 사라지므로 뷰어도 닫음
+  const handleMoveMemo = async (id: string, workspaceId: string | null) => {
+    await moveMemoToWorkspace(id, workspaceId)
+    if (workspaceId !== (currentWorkspace?.id || null)) {
+      handleCloseViewer()
+    }
+  }
+
+  // 폴더와 태그는 워크스페이스마다 다르므로 전환하면 전체 보기로
+  const handleSelectWorkspace = (workspaceId: string | null) => {
+    selectWorkspace(workspaceId)
+    filterByFolder(ALL_FOLDERS)
+    clearTagFilter()
+  }
+
+  const handleCreateWorkspace = async (name: string) => {
+    const workspace = await createWorkspace(name)
+    filterByFolder(ALL_FOLDERS)
+    clearTagFilter()
+    return workspace
+  }
+
+  const handleCloseShareDialog = useCallback(() => {
+    setSharingMemo(null)
+  }, [])
+
+  // 카테고리를 지우기 전에 해당 메모를 다른 카테고리로 옮김
+  const handleDeleteCategory = async (id: string, reassignTo: string) => {
+    await reassignCategory(id, reassignTo)
+    await deleteCategory(id)
+  }
+
+  // 폴더를 지우기 전에 안에 있는 메모를 상위 폴더로 옮김
+  const handleDeleteFolder = async (folder: Folder) => {
+    await moveMemosToFolder(folder.id, folder.parentId)
+    await deleteFolder(folder.id)
+  }
+
+  // 휴지통을 보고 있었다면 폴더를 고를 때 목록으로 돌아감
+  const handleSelectFolder = (folder: string) => {
+    showTrash(false)
+    filterByFolder(folder)
+  }
+
+  // 지금 목록의 검색어와 필터에 맞는 메모를 파일로 내려받기
+  const handleExport = async (format: MemoExportFormat) => {
+    setIsExporting(true)
+    try {
+      downloadExportFile(await exportMemos(format))
+    } catch (error) {
+      console.error('Failed to export memos:', error)
+      alert('메모를 내보내지 못했습니다.')
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  const handleCloseCategoryManager = useCallback(() => {
+    setIsCategoryManagerOpen(false)
+  }, [])
+
+  const handleCloseTagManager = useCallback(() => {
+    setIsTagManagerOpen(false)
+  }, [])
+
+  const handleCloseImportDialog = useCallback(() => {
+    setIsImportDialogOpen(false)
+  }, [])
+
+  // 일괄 작업 전에 만든 백업도 보이도록 열 때마다 목록을 다시 읽음
+  const handleOpenBackupManager = () => {
+    refreshBackups()
+    setIsBackupManagerOpen(true)
+  }
+
+  const handleCloseBackupManager = useCallback(() => {
+    setIsBackupManagerOpen(false)
+  }, [])
+
+  // 복원 직전 상태의 백업이 새로 생기므로 목록을 다시 읽음
+  const handleRestoreBackup = async (id: string) => {
+    try {
+      return await restoreBackup(id)
+    } finally {
+      refreshBackups()
+    }
+  }
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* 헤더 */}
@@ -106,9 +426,63 @@ export default function Home() {
             </div>
 
             <div className="flex items-center space-x-4">
+              {user && (
+                <WorkspaceSwitcher
+                  workspaces={workspaces}
+                  currentWorkspace={currentWorkspace}
+                  currentRole={currentRole}
+                  onSelect={handleSelectWorkspace}
+                  onCreate={handleCreateWorkspace}
+                />
+              )}
+              {user && (
+                <select
+                  value=""
+                  onChange={e =>
+                    handleExport(e.target.value as MemoExportFormat)
+                  }
+                  disabled={isExporting || isTrashView}
+                  className="text-sm text-black px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:opacity-50"
+                  aria-label="메모 내보내기"
+                  title="지금 목록의 검색어와 필터에 맞는 메모를 내보냅니다"
+                >
+                  <option value="" disabled>
+                    {isExporting ? '내보내는 중...' : '⬇️ 내보내기'}
+                  </option>
+                  <option value="zip">Markdown (ZIP)</option>
+                  <option value="json">JSON</option>
+                </select>
+              )}
+              {user && (
+                <button
+                  onClick={() => setIsImportDialogOpen(true)}
+                  disabled={!canEdit}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 border border-gray-300 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  ⬆️ 가져오기
+                </button>
+              )}
+              {user && (
+                <button
+                  onClick={handleOpenBackupManager}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 border border-gray-300 hover:bg-gray-100 rounded-lg transition-colors"
+                >
+                  🗄️ 백업
+                </button>
+              )}
+              {user && (
+                <button
+                  onClick={() => setView(view === 'graph' ? 'list' : 'graph')}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 border border-gray-300 hover:bg-gray-100 rounded-lg transition-colors"
+                  aria-pressed={view === 'graph'}
+                >
+                  {view === 'graph' ? '📋 목록' : '🕸️ 그래프'}
+                </button>
+              )}
               <button
                 onClick={() => setIsFormOpen(true)}
-                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-lg shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors"
+                disabled={!user || !canEdit}
+                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-lg shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 <svg
                   className="w-4 h-4 mr-2"
@@ -132,18 +506,82 @@ export default function Home() {
 
       {/* 메인 콘텐츠 */}
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        <MemoList
-          memos={memos}
-          loading={loading}
-          searchQuery={searchQuery}
-          selectedCategory={selectedCategory}
-          onSearchChange={searchMemos}
-          onCategoryChange={filterByCategory}
-          onEditMemo={handleEditMemo}
-          onDeleteMemo={deleteMemo}
-          onSelectMemo={handleOpenViewer}
-          stats={stats}
-        />
+        {user && (
+          <SyncFailureBanner
+            failedSyncs={failedSyncs}
+            onRetry={retryFailedSync}
+            onDiscard={discardFailedSync}
+          />
+        )}
+        {authLoading ? null : !user ? (
+          <SignInForm
+            onSignInWithEmail={signInWithEmail}
+            onSignInWithOAuth={signInWithOAuth}
+          />
+        ) : view === 'graph' ? (
+          <MemoGraph
+            memos={graphMemos}
+            categories={categories}
+            onSelectMemo={handleOpenViewer}
+          />
+        ) : (
+          <div className="flex flex-col lg:flex-row gap-6">
+            <aside className="lg:w-64 lg:shrink-0">
+              <FolderSidebar
+                folderTree={folderTree}
+                selectedFolder={isTrashView ? '' : selectedFolder}
+                counts={stats.byFolder}
+                total={stats.total}
+                onSelect={handleSelectFolder}
+                onCreate={createFolder}
+                onRename={renameFolder}
+                onDelete={handleDeleteFolder}
+                onMoveMemo={moveMemoToFolder}
+                canEdit={canEdit}
+              />
+            </aside>
+            <div className="flex-1 min-w-0">
+              <MemoList
+                memos={memos}
+                loading={loading}
+                searchQuery={searchQuery}
+                selectedCategory={selectedCategory}
+                categories={categories}
+                onSearchChange={searchMemos}
+                onCategoryChange={filterByCategory}
+                tagCounts={tagCounts}
+                selectedTags={selectedTags}
+                tagFilterMode={tagFilterMode}
+                onToggleTag={toggleTagFilter}
+                onTagFilterModeChange={changeTagFilterMode}
+                onClearTags={clearTagFilter}
+                sort={sort}
+                onSortChange={changeSort}
+                onEditMemo={handleEditMemo}
+                onDeleteMemo={deleteMemo}
+                onSelectMemo={handleOpenViewer}
+                onTogglePin={toggleMemoPin}
+                pendingMemoIds={pendingMemoIds}
+                searchHighlights={searchHighlights}
+                searchErrors={searchErrors}
+                searchTruncated={searchTruncated}
+                isSearching={isSearching}
+                hasMore={hasMore}
+                loadingMore={loadingMore}
+                onLoadMore={handleLoadMore}
+                isTrashView={isTrashView}
+                onShowTrash={showTrash}
+                onRestoreMemo={restoreMemo}
+                onPurgeMemo={purgeMemo}
+                onEmptyTrash={handleEmptyTrash}
+                onManageCategories={() => setIsCategoryManagerOpen(true)}
+                onManageTags={() => setIsTagManagerOpen(true)}
+                canEdit={canEdit}
+                stats={stats}
+              />
+            </div>
+          </div>
+        )}
       </main>
 
       {/* 모달 폼 */}
@@ -152,17 +590,90 @@ export default function Home() {
         onClose={handleCloseForm}
         onSubmit={editingMemo ? handleUpdateMemo : handleCreateMemo}
         editingMemo={editingMemo}
+        categories={categories}
+        tagSuggestions={tagCounts.map(({ tag }) => tag)}
+        linkSuggestions={allMemos
+          .filter(memo => memo.id !== editingMemo?.id)
+          .map(memo => memo.title)}
+        readOnly={!canEdit}
       />
 
       <MemoViewer
         memo={selectedMemo}
         isOpen={isViewerOpen}
+        categories={categories}
         onClose={handleCloseViewer}
         onEdit={handleViewerEdit}
         onDelete={handleViewerDelete}
         onUpdateSummary={updateMemoSummary}
         onUpdateTags={updateMemoTags}
+        onLoadRevisions={getMemoRevisions}
+        onRestoreRevision={restoreMemoRevision}
+        onShare={setSharingMemo}
+        onLoadShareLinks={getShareLinks}
+        onCreateShareLink={createShareLink}
+        onRevokeShareLink={revokeShareLink}
+        onTagClick={handleViewerTagClick}
+        onTogglePin={toggleMemoPin}
+        onWikiLinkClick={handleWikiLinkClick}
+        onLoadBacklinks={getBacklinks}
+        onSelectMemo={handleOpenLinkedMemo}
+        canEdit={canEdit}
       />
+
+      {sharingMemo && user && (
+        <MemoShareDialog
+          memo={sharingMemo}
+          workspaces={workspaces}
+          currentUserId={user.id}
+          canEdit={canEdit}
+          onMove={handleMoveMemo}
+          onLoadMembers={getMembers}
+          onAddMember={addMember}
+          onUpdateMemberRole={updateMemberRole}
+          onRemoveMember={removeMember}
+          onClose={handleCloseShareDialog}
+        />
+      )}
+
+      {isCategoryManagerOpen && user && (
+        <CategoryManager
+          categories={categories}
+          onCreate={createCategory}
+          onUpdate={updateCategory}
+          onReorder={reorderCategories}
+          onDelete={handleDeleteCategory}
+          onClose={handleCloseCategoryManager}
+        />
+      )}
+
+      {isTagManagerOpen && user && (
+        <TagManager
+          tagCounts={tagCounts}
+          onReplace={replaceTag}
+          onClose={handleCloseTagManager}
+        />
+      )}
+
+      {isImportDialogOpen && user && (
+        <MemoImportDialog
+          onPreview={previewImport}
+          onImport={importMemos}
+          onClose={handleCloseImportDialog}
+        />
+      )}
+
+      {isBackupManagerOpen && user && (
+        <BackupManager
+          backups={backups}
+          canEdit={canEdit}
+          onCreate={createBackup}
+          onPreview={previewBackup}
+          onRestore={handleRestoreBackup}
+          onDelete={deleteBackup}
+          onClose={handleCloseBackupManager}
+        />
+      )}
     </div>
   )
 }
@@ -0,0 +1,122 @@
+'use client'
+
+import { use, useEffect, useState } from 'react'
+import { SharedMemo } from '@/types/memo'
+import { getShareLinkStore } from '@/utils/shareLinkStore'
+import { resolveCategory } from '@/utils/categories'
+import CategoryBadge from '@/components/CategoryBadge'
+import MemoMarkdown from '@/components/MemoMarkdown'
+import MemoSummaryCard from '@/components/MemoSummaryCard'
+
+const shareLinkStore = getShareLinkStore()
+
+interface SharedMemoPageProps {
+  params: Promise<{ token: string }>
+}
+
+// 공유 링크로 여는 읽기 전용 메모 (로그인 불필요)
+export default function SharedMemoPage({ params }: SharedMemoPageProps) {
+  const { token } = use(params)
+  const [memo, setMemo] = useState<SharedMemo | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const loadMemo = async () => {
+      setIsLoading(true)
+      setError(null)
+      try {
+        const loaded = await shareLinkStore.getSharedMemo(token)
+        if (cancelled) return
+        setMemo(loaded)
+        if (!loaded) {
+          setError('링크가 만료되었거나 폐기되어 메모를 열 수 없습니다.')
+        }
+      } catch (err) {
+        console.error('Failed to load shared memo:', err)
+        if (!cancelled) setError('공유된 메모를 불러오지 못했습니다.')
+      } finally {
+        if (!cancelled) setIsLoading(false)
+      }
+    }
+
+    loadMemo()
+    return () => {
+      cancelled = true
+    }
+  }, [token])
+
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString)
+    return date.toLocaleString('ko-KR', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    })
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {isLoading ? (
+          <p className="text-center text-gray-500">메모를 불러오는 중...</p>
+        ) : !memo ? (
+          <div className="text-center space-y-2">
+            <h1 className="text-xl font-semibold text-gray-900">
+              메모를 찾을 수 없습니다
+            </h1>
+            <p className="text-sm text-gray-500">{error}</p>
+          </div>
+        ) : (
+          <article className="bg-white rounded-2xl shadow-sm border border-gray-200">
+            <div className="p-6 border-b border-gray-100">
+              <div className="flex items-center gap-3 mb-3">
+                <CategoryBadge
+                  category={
+                    memo.categoryInfo || resolveCategory([], memo.category)
+                  }
+                  className="px-3 py-1 text-xs font-semibold"
+                />
+                <span className="text-sm text-gray-500">
+                  마지막 수정 {formatDate(memo.updatedAt)}
+                </span>
+              </div>
+              <h1 className="text-2xl font-bold text-gray-900 break-words">
+                {memo.title}
+              </h1>
+            </div>
+
+            <div className="p-6 space-y-6">
+              <MemoMarkdown source={memo.content} />
+
+              {memo.summary && <MemoSummaryCard summary={memo.summary} />}
+
+              {memo.tags.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {memo.tags.map((tag, index) => (
+                    <span
+                      key={`${tag}-${index}`}
+                      className="px-3 py-1 bg-gray-100 text-gray-600 text-xs rounded-full"
+                    >
+                      #{tag}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="px-6 py-4 border-t border-gray-100 bg-gray-50 rounded-b-2xl">
+              <span className="text-xs text-gray-500">
+                공유 링크로 열린 읽기 전용 메모입니다.
+              </span>
+            </div>
+          </article>
+        )}
+      </main>
+    </div>
+  )
+}
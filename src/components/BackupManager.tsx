@@ -0,0 +1,305 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import {
+  MEMO_BACKUP_REASONS,
+  MemoBackupDiff,
+  MemoBackupSummary,
+} from '@/types/backup'
+import { MAX_BACKUPS_PER_SCOPE } from '@/utils/backupStore'
+
+interface BackupManagerProps {
+  // 현재 범위의 백업 (최신순)
+  backups: MemoBackupSummary[]
+  // 메모를 고칠 수 있는지 (뷰어는 복원할 수 없음)
+  canEdit: boolean
+  onCreate: () => Promise<MemoBackupSummary>
+  // 복원하면 바뀔 내용 (저장하지 않음)
+  onPreview: (id: string) => Promise<MemoBackupDiff>
+  onRestore: (id: string) => Promise<MemoBackupDiff>
+  onDelete: (id: string) => void
+  onClose: () => void
+}
+
+// 미리보기에서 제목을 보여 줄 최대 메모 수 (그룹마다)
+const PREVIEW_TITLE_LIMIT = 20
+
+const formatDate = (dateString: string) => {
+  const date = new Date(dateString)
+  return date.toLocaleString('ko-KR', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+const countChanges = (diff: MemoBackupDiff): number =>
+  diff.added.length + diff.changed.length + diff.removed.length
+
+function DiffGroup({
+  title,
+  className,
+  titles,
+}: {
+  title: string
+  className: string
+  titles: string[]
+}) {
+  if (titles.length === 0) return null
+
+  return (
+    <div>
+      <p className={`text-sm font-medium ${className}`}>
+        {title} {titles.length}개
+      </p>
+      <ul className="mt-1 text-sm text-gray-700 list-disc list-inside">
+        {titles.slice(0, PREVIEW_TITLE_LIMIT).map((memoTitle, index) => (
+          <li key={`${memoTitle}-${index}`} className="truncate">
+            {memoTitle}
+          </li>
+        ))}
+        {titles.length > PREVIEW_TITLE_LIMIT && (
+          <li className="text-gray-500">
+            외 {titles.length - PREVIEW_TITLE_LIMIT}개
+          </li>
+        )}
+      </ul>
+    </div>
+  )
+}
+
+export default function BackupManager({
+  backups,
+  canEdit,
+  onCreate,
+  onPreview,
+  onRestore,
+  onDelete,
+  onClose,
+}: BackupManagerProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [diff, setDiff] = useState<MemoBackupDiff | null>(null)
+  const [isBusy, setIsBusy] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape' && !isBusy) onClose()
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [onClose, isBusy])
+
+  const run = async (action: () => Promise<void>, errorMessage: string) => {
+    setIsBusy(true)
+    setMessage(null)
+    setError(null)
+    try {
+      await action()
+    } catch (err) {
+      console.error(errorMessage, err)
+      setError(err instanceof Error ? err.message : errorMessage)
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleCreate = () =>
+    run(async () => {
+      await onCreate()
+      setMessage('지금 메모를 백업했습니다.')
+    }, '백업하지 못했습니다.')
+
+  const handlePreview = (id: string) =>
+    run(async () => {
+      setSelectedId(id)
+      setDiff(null)
+      setDiff(await onPreview(id))
+    }, '백업을 읽지 못했습니다.')
+
+  const handleRestore = () => {
+    if (!selectedId) return
+    run(async () => {
+      const restored = await onRestore(selectedId)
+      setSelectedId(null)
+      setDiff(null)
+      setMessage(
+        `백업을 복원했습니다. (다시 만듦 ${restored.added.length}개 · 되돌림 ${restored.changed.length}개 · 휴지통으로 옮김 ${restored.removed.length}개)`
+      )
+    }, '백업을 복원하지 못했습니다.')
+  }
+
+  const handleDelete = (backup: MemoBackupSummary) => {
+    if (
+      !window.confirm(
+        `${formatDate(backup.createdAt)} 백업을 삭제하시겠습니까? 되돌릴 수 없습니다.`
+      )
+    ) {
+      return
+    }
+    onDelete(backup.id)
+    if (selectedId === backup.id) {
+      setSelectedId(null)
+      setDiff(null)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-[60]">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6 space-y-6">
+          <div className="flex justify-between items-start">
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">
+                백업과 복원
+              </h2>
+              <p className="mt-1 text-sm text-gray-600">
+                휴지통을 포함한 메모 전체를 이 브라우저에 백업합니다. 하루에 한
+                번, 그리고 가져오기나 태그 일괄 변경 같은 일괄 작업 전에
+                자동으로 백업하며 최근 {MAX_BACKUPS_PER_SCOPE}개를 보관합니다.
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              disabled={isBusy}
+              className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50"
+              aria-label="닫기"
+            >
+              <svg
+                className="w-5 h-5"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M6 18L18 6M6 6l12 12"
+                />
+              </svg>
+            </button>
+          </div>
+
+          <button
+            onClick={handleCreate}
+            disabled={isBusy}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            지금 백업
+          </button>
+
+          {message && <p className="text-sm text-green-700">{message}</p>}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          {backups.length === 0 ? (
+            <p className="text-sm text-gray-500">아직 백업이 없습니다.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+              {backups.map(backup => (
+                <li
+                  key={backup.id}
+                  className={`flex items-center justify-between gap-3 px-3 py-2 ${
+                    backup.id === selectedId ? 'bg-blue-50' : ''
+                  }`}
+                >
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900">
+                      {formatDate(backup.createdAt)}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {MEMO_BACKUP_REASONS[backup.reason]} · 메모{' '}
+                      {backup.memoCount}개
+                      {backup.deletedCount > 0 &&
+                        ` (휴지통 ${backup.deletedCount}개)`}
+                    </p>
+                  </div>
+                  <div className="flex shrink-0 gap-2">
+                    <button
+                      onClick={() => handlePreview(backup.id)}
+                      disabled={isBusy}
+                      className="px-3 py-1 text-sm text-blue-700 bg-blue-50 hover:bg-blue-100 rounded-lg transition-colors disabled:opacity-50"
+                    >
+                      미리 보기
+                    </button>
+                    <button
+                      onClick={() => handleDelete(backup)}
+                      disabled={isBusy}
+                      className="px-3 py-1 text-sm text-red-700 bg-red-50 hover:bg-red-100 rounded-lg transition-colors disabled:opacity-50"
+                    >
+                      삭제
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {/* 복원 미리보기 (아직 저장하지 않음) */}
+          {selectedId && diff && (
+            <div className="space-y-3 p-4 bg-gray-50 rounded-lg">
+              <p className="text-sm text-gray-700">
+                이 백업으로 복원하면 현재 메모가 다음과 같이 바뀝니다. (그대로인
+                메모 {diff.unchangedCount}개)
+              </p>
+              {countChanges(diff) === 0 ? (
+                <p className="text-sm text-gray-500">
+                  현재 메모와 같아서 바뀌는 내용이 없습니다.
+                </p>
+              ) : (
+                <>
+                  <DiffGroup
+                    title="다시 만들 메모"
+                    className="text-green-700"
+                    titles={diff.added.map(memo => memo.title)}
+                  />
+                  <DiffGroup
+                    title="백업 때 내용으로 되돌릴 메모"
+                    className="text-amber-700"
+                    titles={diff.changed.map(({ current, backup }) =>
+                      current.title === backup.title
+                        ? backup.title
+                        : `${current.title} → ${backup.title}`
+                    )}
+                  />
+                  <DiffGroup
+                    title="휴지통으로 옮길 메모"
+                    className="text-red-700"
+                    titles={diff.removed.map(memo => memo.title)}
+                  />
+                  <p className="text-xs text-gray-500">
+                    복원하기 직전의 메모도 백업하므로 복원을 되돌릴 수 있습니다.
+                  </p>
+                </>
+              )}
+              <div className="flex justify-end gap-3">
+                <button
+                  onClick={() => {
+                    setSelectedId(null)
+                    setDiff(null)
+                  }}
+                  disabled={isBusy}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors disabled:opacity-50"
+                >
+                  취소
+                </button>
+                <button
+                  onClick={handleRestore}
+                  disabled={isBusy || !canEdit || countChanges(diff) === 0}
+                  title={canEdit ? undefined : '뷰어는 복원할 수 없습니다.'}
+                  className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  이 백업으로 복원
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,21 @@
+import { Category, CATEGORY_COLORS } from '@/types/category'
+
+interface CategoryBadgeProps {
+  category: Pick<Category, 'name' | 'color' | 'icon'>
+  className?: string
+}
+
+// 카테고리 색상과 아이콘을 입힌 배지
+export default function CategoryBadge({
+  category,
+  className = 'px-2 py-1 text-xs font-medium',
+}: CategoryBadgeProps) {
+  return (
+    <span
+      className={`inline-flex items-center gap-1 rounded-full ${className} ${CATEGORY_COLORS[category.color]?.badge || CATEGORY_COLORS.gray.badge}`}
+    >
+      <span aria-hidden="true">{category.icon}</span>
+      {category.name}
+    </span>
+  )
+}
@@ -0,0 +1,342 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import {
+  Category,
+  CategoryColor,
+  CategoryInput,
+  CATEGORY_COLORS,
+  CATEGORY_ICONS,
+} from '@/types/category'
+import { moveCategoryId } from '@/utils/categories'
+
+interface CategoryManagerProps {
+  categories: Category[]
+  onCreate: (input: CategoryInput) => Promise<Category>
+  onUpdate: (id: string, patch: Partial<CategoryInput>) => Promise<Category>
+  onReorder: (ids: string[]) => Promise<void>
+  // 카테고리의 메모를 reassignTo 카테고리로 옮긴 뒤 삭제
+  onDelete: (id: string, reassignTo: string) => Promise<void>
+  onClose: () => void
+}
+
+const COLOR_OPTIONS = Object.keys(CATEGORY_COLORS) as CategoryColor[]
+
+export default function CategoryManager({
+  categories,
+  onCreate,
+  onUpdate,
+  onReorder,
+  onDelete,
+  onClose,
+}: CategoryManagerProps) {
+  const [names, setNames] = useState<Record<string, string>>({})
+  const [newCategory, setNewCategory] = useState<CategoryInput>({
+    name: '',
+    color: 'blue',
+    icon: CATEGORY_ICONS[0],
+  })
+  // 삭제 중인 카테고리와 메모를 옮길 카테고리
+  const [deletingId, setDeletingId] = useState<string | null>(null)
+  const [reassignTo, setReassignTo] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose()
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [onClose])
+
+  // 실패하면 오류 메시지를 표시하는 공통 처리
+  const run = async (action: () => Promise<unknown>, message: string) => {
+    setIsSaving(true)
+    setError(null)
+    try {
+      await action()
+      return true
+    } catch (err) {
+      console.error(`${message}:`, err)
+      setError(message)
+      return false
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleRename = async (category: Category) => {
+    const name = names[category.id]?.trim()
+    if (name === undefined || name === category.name) return
+    if (!name) {
+      setNames(prev => ({ ...prev, [category.id]: category.name }))
+      return
+    }
+
+    await run(
+      () => onUpdate(category.id, { name }),
+      '카테고리 이름을 바꾸지 못했습니다.'
+    )
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const name = newCategory.name.trim()
+    if (!name) return
+
+    const created = await run(
+      () => onCreate({ ...newCategory, name }),
+      '카테고리를 추가하지 못했습니다.'
+    )
+    if (created) setNewCategory(prev => ({ ...prev, name: '' }))
+  }
+
+  const handleStartDelete = (id: string) => {
+    setDeletingId(id)
+    setReassignTo(categories.find(category => category.id !== id)?.id || '')
+  }
+
+  const handleConfirmDelete = async () => {
+    if (!deletingId || !reassignTo) return
+
+    const deleted = await run(
+      () => onDelete(deletingId, reassignTo),
+      '카테고리를 삭제하지 못했습니다.'
+    )
+    if (deleted) setDeletingId(null)
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-[60]">
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6 space-y-6">
+          <div className="flex justify-between items-start">
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">
+                카테고리 관리
+              </h2>
+              <p className="mt-1 text-sm text-gray-600">
+                이름, 색상, 아이콘과 순서를 바꿀 수 있습니다.
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+              aria-label="닫기"
+            >
+              <svg
+                className="w-5 h-5"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M6 18L18 6M6 6l12 12"
+                />
+              </svg>
+            </button>
+          </div>
+
+          {/* 카테고리 목록 */}
+          <ul className="divide-y divide-gray-100">
+            {categories.map((category, index) => (
+              <li key={category.id} className="py-2 space-y-2">
+                <div className="flex items-center gap-2">
+                  <select
+                    value={category.icon}
+                    onChange={e =>
+                      run(
+                        () => onUpdate(category.id, { icon: e.target.value }),
+                        '아이콘을 바꾸지 못했습니다.'
+                      )
+                    }
+                    className="text-black px-1 py-1 border border-gray-300 rounded-lg"
+                    aria-label={`${category.name} 아이콘`}
+                  >
+                    {(CATEGORY_ICONS.includes(category.icon)
+                      ? CATEGORY_ICONS
+                      : [category.icon, ...CATEGORY_ICONS]
+                    ).map(icon => (
+                      <option key={icon} value={icon}>
+                        {icon}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    type="text"
+                    value={names[category.id] ?? category.name}
+                    onChange={e =>
+                      setNames(prev => ({
+                        ...prev,
+                        [category.id]: e.target.value,
+                      }))
+                    }
+                    onBlur={() => handleRename(category)}
+                    onKeyDown={e => {
+                      if (e.key === 'Enter') e.currentTarget.blur()
+                    }}
+                    className="text-black flex-1 min-w-0 px-2 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    aria-label="카테고리 이름"
+                  />
+                  <select
+                    value={category.color}
+                    onChange={e =>
+                      run(
+                        () =>
+                          onUpdate(category.id, {
+                            color: e.target.value as CategoryColor,
+                          }),
+                        '색상을 바꾸지 못했습니다.'
+                      )
+                    }
+                    className="text-black text-xs px-1 py-1 border border-gray-300 rounded-lg"
+                    aria-label={`${category.name} 색상`}
+                  >
+                    {COLOR_OPTIONS.map(color => (
+                      <option key={color} value={color}>
+                        {CATEGORY_COLORS[color].label}
+                      </option>
+                    ))}
+                  </select>
+                  <span
+                    className={`w-3 h-3 rounded-full shrink-0 ${CATEGORY_COLORS[category.color]?.swatch || CATEGORY_COLORS.gray.swatch}`}
+                    aria-hidden="true"
+                  />
+                  <button
+                    onClick={() =>
+                      run(
+                        () =>
+                          onReorder(
+                            moveCategoryId(categories, category.id, -1)
+                          ),
+                        '순서를 바꾸지 못했습니다.'
+                      )
+                    }
+                    disabled={isSaving || index === 0}
+                    className="p-1 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                    title="위로"
+                  >
+                    ▲
+                  </button>
+                  <button
+                    onClick={() =>
+                      run(
+                        () =>
+                          onReorder(moveCategoryId(categories, category.id, 1)),
+                        '순서를 바꾸지 못했습니다.'
+                      )
+                    }
+                    disabled={isSaving || index === categories.length - 1}
+                    className="p-1 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                    title="아래로"
+                  >
+                    ▼
+                  </button>
+                  <button
+                    onClick={() => handleStartDelete(category.id)}
+                    disabled={isSaving || categories.length <= 1}
+                    className="text-xs text-red-600 hover:underline disabled:opacity-30 disabled:no-underline"
+                  >
+                    삭제
+                  </button>
+                </div>
+
+                {deletingId === category.id && (
+                  <div className="flex flex-wrap items-center gap-2 p-2 bg-red-50 rounded-lg text-xs text-red-700">
+                    <span>이 카테고리의 메모를</span>
+                    <select
+                      value={reassignTo}
+                      onChange={e => setReassignTo(e.target.value)}
+                      className="text-black px-2 py-1 border border-gray-300 rounded-lg"
+                    >
+                      {categories
+                        .filter(target => target.id !== category.id)
+                        .map(target => (
+                          <option key={target.id} value={target.id}>
+                            {target.icon} {target.name}
+                          </option>
+                        ))}
+                    </select>
+                    <span>(으)로 옮기고</span>
+                    <button
+                      onClick={handleConfirmDelete}
+                      disabled={isSaving}
+                      className="px-2 py-1 font-medium text-white bg-red-600 hover:bg-red-700 rounded-lg disabled:opacity-50"
+                    >
+                      삭제
+                    </button>
+                    <button
+                      onClick={() => setDeletingId(null)}
+                      className="px-2 py-1 text-gray-600 hover:underline"
+                    >
+                      취소
+                    </button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          {/* 새 카테고리 */}
+          <form onSubmit={handleCreate} className="flex gap-2">
+            <select
+              value={newCategory.icon}
+              onChange={e =>
+                setNewCategory(prev => ({ ...prev, icon: e.target.value }))
+              }
+              className="text-black px-1 py-2 border border-gray-300 rounded-lg"
+              aria-label="새 카테고리 아이콘"
+            >
+              {CATEGORY_ICONS.map(icon => (
+                <option key={icon} value={icon}>
+                  {icon}
+                </option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={newCategory.name}
+              onChange={e =>
+                setNewCategory(prev => ({ ...prev, name: e.target.value }))
+              }
+              className="placeholder-gray-400 text-black flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              placeholder="새 카테고리 이름"
+              required
+            />
+            <select
+              value={newCategory.color}
+              onChange={e =>
+                setNewCategory(prev => ({
+                  ...prev,
+                  color: e.target.value as CategoryColor,
+                }))
+              }
+              className="text-black text-sm px-1 py-2 border border-gray-300 rounded-lg"
+              aria-label="새 카테고리 색상"
+            >
+              {COLOR_OPTIONS.map(color => (
+                <option key={color} value={color}>
+                  {CATEGORY_COLORS[color].label}
+                </option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="px-4 py-2 text-sm font-medium text-blue-600 bg-blue-50 hover:bg-blue-100 rounded-lg transition-colors disabled:opacity-50"
+            >
+              추가
+            </button>
+          </form>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+      </div>
+    </div>
+  )
+}
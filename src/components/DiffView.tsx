@@ -0,0 +1,45 @@
+'use client'
+
+import { DiffLine } from '@/utils/textDiff'
+
+interface DiffViewProps {
+  lines: DiffLine[]
+  emptyMessage?: string
+}
+
+const LINE_STYLES: Record<DiffLine['type'], string> = {
+  equal: 'text-gray-600',
+  added: 'bg-green-50 text-green-800',
+  removed: 'bg-red-50 text-red-800 line-through',
+}
+
+const LINE_PREFIX: Record<DiffLine['type'], string> = {
+  equal: ' ',
+  added: '+',
+  removed: '-',
+}
+
+export default function DiffView({
+  lines,
+  emptyMessage = '변경 사항이 없습니다.',
+}: DiffViewProps) {
+  if (!lines.some(line => line.type !== 'equal')) {
+    return <p className="text-sm text-gray-400">{emptyMessage}</p>
+  }
+
+  return (
+    <pre className="text-xs font-mono border border-gray-200 rounded-lg overflow-x-auto max-h-64">
+      {lines.map((line, index) => (
+        <div
+          key={index}
+          className={`px-2 whitespace-pre-wrap break-words ${LINE_STYLES[line.type]}`}
+        >
+          <span className="select-none mr-2 text-gray-400">
+            {LINE_PREFIX[line.type]}
+          </span>
+          {line.text || ' '}
+        </div>
+      ))}
+    </pre>
+  )
+}
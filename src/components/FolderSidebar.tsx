@@ -0,0 +1,254 @@
+'use client'
+
+import { DragEvent, useState } from 'react'
+import { ALL_FOLDERS, Folder, FolderNode, UNFILED_FOLDER } from '@/types/folder'
+import { MEMO_DRAG_TYPE } from '@/utils/folders'
+
+interface FolderSidebarProps {
+  folderTree: FolderNode[]
+  // ALL_FOLDERS, UNFILED_FOLDER 또는 폴더 ID
+  selectedFolder: string
+  // 폴더 ID(폴더 밖은 UNFILED_FOLDER)별 메모 수
+  counts: Record<string, number>
+  total: number
+  onSelect: (folder: string) => void
+  onCreate: (name: string, parentId: string | null) => Promise<Folder>
+  onRename: (id: string, name: string) => Promise<Folder>
+  onDelete: (folder: Folder) => Promise<void>
+  // 끌어다 놓은 메모를 폴더로 옮기기 (null 이면 폴더 밖)
+  onMoveMemo: (memoId: string, folderId: string | null) => Promise<void>
+  // 뷰어 역할이면 false (폴더 관리와 메모 이동 불가)
+  canEdit?: boolean
+}
+
+export default function FolderSidebar({
+  folderTree,
+  selectedFolder,
+  counts,
+  total,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete,
+  onMoveMemo,
+  canEdit = true,
+}: FolderSidebarProps) {
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(new Set())
+  // 메모를 끌고 있는 동안 강조할 폴더 (폴더 밖은 UNFILED_FOLDER)
+  const [dropTarget, setDropTarget] = useState<string | null>(null)
+
+  const toggleCollapsed = (id: string) => {
+    setCollapsedIds(prev => {
+      const next = new Set(prev)
+      if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      return next
+    })
+  }
+
+  const handleCreate = async (parent: Folder | null) => {
+    const name = window
+      .prompt(
+        parent
+          ? `"${parent.name}" 안에 만들 폴더 이름을 입력하세요.`
+          : '새 폴더 이름을 입력하세요.'
+      )
+      ?.trim()
+    if (!name) return
+
+    try {
+      await onCreate(name, parent?.id || null)
+      if (parent) {
+        setCollapsedIds(prev => {
+          const next = new Set(prev)
+          next.delete(parent.id)
+          return next
+        })
+      }
+    } catch (error) {
+      console.error('Failed to create folder:', error)
+      alert('폴더를 만들지 못했습니다.')
+    }
+  }
+
+  const handleRename = async (folder: Folder) => {
+    const name = window.prompt('폴더 이름을 입력하세요.', folder.name)?.trim()
+    if (!name || name === folder.name) return
+
+    try {
+      await onRename(folder.id, name)
+    } catch (error) {
+      console.error('Failed to rename folder:', error)
+      alert('폴더 이름을 바꾸지 못했습니다.')
+    }
+  }
+
+  const handleDelete = async (folder: Folder) => {
+    if (
+      !window.confirm(
+        `"${folder.name}" 폴더를 삭제하시겠습니까? 안에 있는 메모와 하위 폴더는 상위 폴더로 옮겨집니다.`
+      )
+    ) {
+      return
+    }
+
+    try {
+      await onDelete(folder)
+    } catch (error) {
+      console.error('Failed to delete folder:', error)
+      alert('폴더를 삭제하지 못했습니다.')
+    }
+  }
+
+  // 폴더(또는 폴더 밖) 항목을 메모를 놓을 수 있는 곳으로 만드는 속성
+  const dropProps = (target: string) =>
+    canEdit
+      ? {
+          onDragOver: (event: DragEvent) => {
+            if (!event.dataTransfer.types.includes(MEMO_DRAG_TYPE)) return
+            event.preventDefault()
+            event.dataTransfer.dropEffect = 'move'
+            setDropTarget(target)
+          },
+          onDragLeave: () => {
+            setDropTarget(prev => (prev === target ? null : prev))
+          },
+          onDrop: async (event: DragEvent) => {
+            event.preventDefault()
+            setDropTarget(null)
+            const memoId = event.dataTransfer.getData(MEMO_DRAG_TYPE)
+            if (!memoId) return
+
+            try {
+              await onMoveMemo(
+                memoId,
+                target === UNFILED_FOLDER ? null : target
+              )
+            } catch (error) {
+              console.error('Failed to move memo to folder:', error)
+              alert('메모를 폴더로 옮기지 못했습니다.')
+            }
+          },
+        }
+      : {}
+
+  const itemClassName = (target: string) =>
+    `flex-1 min-w-0 flex items-center justify-between gap-2 px-2 py-1.5 rounded-lg text-sm text-left transition-colors ${
+      dropTarget === target
+        ? 'bg-blue-100 ring-2 ring-blue-400'
+        : selectedFolder === target
+          ? 'bg-blue-50 text-blue-700 font-medium'
+          : 'text-gray-700 hover:bg-gray-100'
+    }`
+
+  const renderNode = (node: FolderNode) => {
+    const isCollapsed = collapsedIds.has(node.id)
+
+    return (
+      <li key={node.id}>
+        <div
+          className="group flex items-center"
+          style={{ paddingLeft: node.depth * 12 }}
+        >
+          <button
+            onClick={() => toggleCollapsed(node.id)}
+            className={`w-5 shrink-0 text-xs text-gray-400 hover:text-gray-700 ${node.children.length === 0 ? 'invisible' : ''}`}
+            aria-label={isCollapsed ? '펼치기' : '접기'}
+          >
+            {isCollapsed ? '▸' : '▾'}
+          </button>
+          <button
+            onClick={() => onSelect(node.id)}
+            className={itemClassName(node.id)}
+            {...dropProps(node.id)}
+          >
+            <span className="truncate">📁 {node.name}</span>
+            <span className="text-xs text-gray-400">
+              {counts[node.id] || 0}
+            </span>
+          </button>
+          {canEdit && (
+            <div className="hidden group-hover:flex items-center shrink-0">
+              <button
+                onClick={() => handleCreate(node)}
+                className="px-1 text-xs text-gray-400 hover:text-blue-600"
+                title="하위 폴더"
+              >
+                ＋
+              </button>
+              <button
+                onClick={() => handleRename(node)}
+                className="px-1 text-xs text-gray-400 hover:text-blue-600"
+                title="이름 변경"
+              >
+                ✎
+              </button>
+              <button
+                onClick={() => handleDelete(node)}
+                className="px-1 text-xs text-gray-400 hover:text-red-600"
+                title="삭제"
+              >
+                ✕
+              </button>
+            </div>
+          )}
+        </div>
+        {!isCollapsed && node.children.length > 0 && (
+          <ul>{node.children.map(renderNode)}</ul>
+        )}
+      </li>
+    )
+  }
+
+  return (
+    <nav className="bg-white rounded-lg shadow-sm border border-gray-200 p-3 space-y-2">
+      <div className="flex items-center justify-between px-2">
+        <h2 className="text-sm font-semibold text-gray-500">폴더</h2>
+        {canEdit && (
+          <button
+            onClick={() => handleCreate(null)}
+            className="text-xs font-medium text-blue-600 hover:underline"
+          >
+            + 새 폴더
+          </button>
+        )}
+      </div>
+
+      <ul className="space-y-0.5">
+        <li className="flex">
+          <span className="w-5 shrink-0" />
+          <button
+            onClick={() => onSelect(ALL_FOLDERS)}
+            className={itemClassName(ALL_FOLDERS)}
+          >
+            <span className="truncate">📚 모든 메모</span>
+            <span className="text-xs text-gray-400">{total}</span>
+          </button>
+        </li>
+        <li className="flex">
+          <span className="w-5 shrink-0" />
+          <button
+            onClick={() => onSelect(UNFILED_FOLDER)}
+            className={itemClassName(UNFILED_FOLDER)}
+            {...dropProps(UNFILED_FOLDER)}
+          >
+            <span className="truncate">📥 폴더 없음</span>
+            <span className="text-xs text-gray-400">
+              {counts[UNFILED_FOLDER] || 0}
+            </span>
+          </button>
+        </li>
+        {folderTree.map(renderNode)}
+      </ul>
+
+      {canEdit && folderTree.length > 0 && (
+        <p className="px-2 text-xs text-gray-400">
+          메모 카드를 폴더로 끌어다 놓으면 옮겨집니다.
+        </p>
+      )}
+    </nav>
+  )
+}
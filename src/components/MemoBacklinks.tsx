@@ -0,0 +1,76 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Memo } from '@/types/memo'
+
+interface MemoBacklinksProps {
+  memo: Memo
+  onLoadBacklinks: (memo: Memo) => Promise<Memo[]>
+  // 백링크를 눌렀을 때 (그 메모를 뷰어로 엶)
+  onSelect: (memo: Memo) => void
+}
+
+export default function MemoBacklinks({
+  memo,
+  onLoadBacklinks,
+  onSelect,
+}: MemoBacklinksProps) {
+  const [backlinks, setBacklinks] = useState<Memo[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // 메모가 바뀌거나 다른 메모가 저장될 때마다 다시 불러오기
+  useEffect(() => {
+    let cancelled = false
+
+    const loadBacklinks = async () => {
+      setIsLoading(true)
+      setError(null)
+      try {
+        const loaded = await onLoadBacklinks(memo)
+        if (!cancelled) setBacklinks(loaded)
+      } catch (err) {
+        console.error('Failed to load backlinks:', err)
+        if (!cancelled) setError('백링크를 불러오지 못했습니다.')
+      } finally {
+        if (!cancelled) setIsLoading(false)
+      }
+    }
+
+    loadBacklinks()
+    return () => {
+      cancelled = true
+    }
+  }, [memo, onLoadBacklinks])
+
+  return (
+    <div>
+      <h3 className="text-sm font-semibold text-gray-500 mb-2">
+        백링크{backlinks.length > 0 && ` (${backlinks.length})`}
+      </h3>
+      {error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : isLoading && backlinks.length === 0 ? (
+        <p className="text-sm text-gray-400">백링크를 불러오는 중...</p>
+      ) : backlinks.length === 0 ? (
+        <p className="text-sm text-gray-400">
+          이 메모를 링크한 메모가 없습니다. 다른 메모에서 [[{memo.title}]] 로
+          링크할 수 있습니다.
+        </p>
+      ) : (
+        <ul className="space-y-1">
+          {backlinks.map(backlink => (
+            <li key={backlink.id}>
+              <button
+                onClick={() => onSelect(backlink)}
+                className="w-full text-left px-3 py-2 text-sm text-gray-700 bg-gray-50 hover:bg-blue-50 hover:text-blue-700 rounded-lg transition-colors"
+              >
+                <span className="font-medium">{backlink.title}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,114 @@
+'use client'
+
+import { Memo, MemoFormData } from '@/types/memo'
+import { diffLines } from '@/utils/textDiff'
+import DiffView from './DiffView'
+
+interface MemoConflictDialogProps {
+  base: MemoFormData
+  mine: MemoFormData
+  theirs: Memo
+  onKeepMine: () => void
+  onUseTheirs: () => void
+  onMerge: () => void
+  onCancel: () => void
+}
+
+export default function MemoConflictDialog({
+  base,
+  mine,
+  theirs,
+  onKeepMine,
+  onUseTheirs,
+  onMerge,
+  onCancel,
+}: MemoConflictDialogProps) {
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString)
+    return date.toLocaleString('ko-KR', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    })
+  }
+
+  const changedFields = (data: MemoFormData) =>
+    [
+      data.title !== base.title && '제목',
+      data.category !== base.category && '카테고리',
+      data.tags.join(',') !== base.tags.join(',') && '태그',
+      data.content !== base.content && '내용',
+    ].filter(Boolean)
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-[60]">
+      <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6 space-y-6">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">
+              편집 충돌이 발생했습니다
+            </h2>
+            <p className="mt-1 text-sm text-gray-600">
+              편집하는 동안 다른 곳에서 이 메모가 수정되었습니다 (
+              {formatDate(theirs.updatedAt)}). 어떻게 처리할지 선택하세요.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <h3 className="text-sm font-semibold text-gray-700 mb-1">
+                내 변경
+              </h3>
+              <p className="text-xs text-gray-500 mb-2">
+                변경된 항목: {changedFields(mine).join(', ') || '없음'}
+              </p>
+              <DiffView lines={diffLines(base.content, mine.content)} />
+            </div>
+            <div>
+              <h3 className="text-sm font-semibold text-gray-700 mb-1">
+                다른 곳의 변경
+              </h3>
+              <p className="text-xs text-gray-500 mb-2">
+                변경된 항목: {changedFields(theirs).join(', ') || '없음'}
+              </p>
+              <DiffView lines={diffLines(base.content, theirs.content)} />
+            </div>
+          </div>
+
+          <div className="flex flex-col sm:flex-row gap-3">
+            <button
+              type="button"
+              onClick={onMerge}
+              className="flex-1 px-4 py-2 bg-blue-600 text-white hover:bg-blue-700 rounded-lg transition-colors"
+            >
+              병합하여 계속 편집
+            </button>
+            <button
+              type="button"
+              onClick={onKeepMine}
+              className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 hover:bg-gray-50 rounded-lg transition-colors"
+            >
+              내 변경으로 덮어쓰기
+            </button>
+            <button
+              type="button"
+              onClick={onUseTheirs}
+              className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 hover:bg-gray-50 rounded-lg transition-colors"
+            >
+              다른 곳의 변경 불러오기
+            </button>
+            <button
+              type="button"
+              onClick={onCancel}
+              className="px-4 py-2 text-gray-500 hover:text-gray-700 rounded-lg transition-colors"
+            >
+              취소
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,13 +1,20 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import dynamic from 'next/dynamic'
+import { Memo, MemoFormData } from '@/types/memo'
+import { Category } from '@/types/category'
+import { resolveCategory } from '@/utils/categories'
+import { MemoConflictError } from '@/utils/memoErrors'
+import { mergeMemoFormData } from '@/utils/memoMerge'
+import { suggestTags } from '@/utils/tags'
 import {
-  Memo,
-  MemoFormData,
-  MEMO_CATEGORIES,
-  DEFAULT_CATEGORIES,
-} from '@/types/memo'
+  completeWikiLink,
+  getWikiLinkQuery,
+  suggestLinkTitles,
+  WikiLinkQuery,
+} from '@/utils/wikiLinks'
+import MemoConflictDialog from './MemoConflictDialog'
 
 const MDEditor = dynamic(() => import('@uiw/react-md-editor'), {
   ssr: false,
@@ -16,8 +23,20 @@ const MDEditor = dynamic(() => import('@uiw/react-md-editor'), {
 interface MemoFormProps {
   isOpen: boolean
   onClose: () => void
-  onSubmit: (data: MemoFormData) => void
+  // expectedUpdatedAt: 편집의 기준이 된 버전 (충돌 감지용)
+  onSubmit: (
+    data: MemoFormData,
+    expectedUpdatedAt?: string
+  ) => void | Promise<void>
   editingMemo?: Memo | null
+  // 고를 수 있는 카테고리 (새 메모는 첫 번째 카테고리로 시작)
+  categories: Category[]
+  // 태그 자동 완성에 쓸 기존 태그 (많이 쓴 순)
+  tagSuggestions?: string[]
+  // 내용에 [[ 를 입력하면 자동 완성할 메모 제목
+  linkSuggestions?: string[]
+  // 뷰어 역할이면 true (저장할 수 없음)
+  readOnly?: boolean
 }
 
 export default function MemoForm({
@@ -25,14 +44,36 @@ export default function MemoForm({
   onClose,
   onSubmit,
   editingMemo,
+  categories,
+  tagSuggestions = [],
+  linkSuggestions = [],
+  readOnly = false,
 }: MemoFormProps) {
+  const defaultCategory = categories[0]?.id || 'personal'
   const [formData, setFormData] = useState<MemoFormData>({
     title: '',
     content: '',
-    category: 'personal',
+    category: defaultCategory,
     tags: [],
   })
   const [tagInput, setTagInput] = useState('')
+  // 방향키로 고른 자동 완성 후보 (-1 이면 입력한 그대로)
+  const [activeSuggestion, setActiveSuggestion] = useState(-1)
+  // 내용에서 입력 중인 위키 링크와 방향키로 고른 후보
+  const [linkQuery, setLinkQuery] = useState<WikiLinkQuery | null>(null)
+  const [activeLinkSuggestion, setActiveLinkSuggestion] = useState(0)
+  const contentRef = useRef<HTMLDivElement>(null)
+  // 충돌 병합의 기준이 되는 버전과 충돌한 최신 버전
+  const [baseMemo, setBaseMemo] = useState<Memo | null>(null)
+  const [conflictMemo, setConflictMemo] = useState<Memo | null>(null)
+  const [hasMergeConflicts, setHasMergeConflicts] = useState(false)
+
+  const toFormData = (memo: Memo): MemoFormData => ({
+    title: memo.title,
+    content: memo.content,
+    category: memo.category,
+    tags: memo.tags,
+  })
 
   // 편집 모드일 때 폼 데이터 설정
   useEffect(() => {
@@ -47,31 +88,81 @@ export default function MemoForm({
       setFormData({
         title: '',
         content: '',
-        category: 'personal',
+        category: defaultCategory,
         tags: [],
       })
     }
     setTagInput('')
-  }, [editingMemo, isOpen])
+    setLinkQuery(null)
+    setBaseMemo(editingMemo || null)
+    setConflictMemo(null)
+    setHasMergeConflicts(false)
+  }, [editingMemo, isOpen, defaultCategory])
+
+  const submitForm = async (data: MemoFormData, expectedUpdatedAt?: string) => {
+    try {
+      await onSubmit(data, expectedUpdatedAt)
+      onClose()
+    } catch (error) {
+      if (error instanceof MemoConflictError) {
+        setConflictMemo(error.currentMemo)
+        return
+      }
+      console.error('Failed to submit memo:', error)
+    }
+  }
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
+    if (readOnly) return
     if (!formData.title.trim() || !formData.content.trim()) {
       alert('제목과 내용을 모두 입력해주세요.')
       return
     }
-    onSubmit(formData)
-    onClose()
+    await submitForm(formData, baseMemo?.updatedAt)
   }
 
-  const handleAddTag = () => {
-    const tag = tagInput.trim()
+  // 충돌 해결: 최신 버전을 새 기준으로 삼아 계속 편집
+  const handleMergeConflict = () => {
+    if (!baseMemo || !conflictMemo) return
+    const merged = mergeMemoFormData(
+      toFormData(baseMemo),
+      formData,
+      toFormData(conflictMemo)
+    )
+    setFormData(merged.data)
+    setHasMergeConflicts(merged.hasConflicts)
+    setBaseMemo(conflictMemo)
+    setConflictMemo(null)
+  }
+
+  const handleKeepMine = async () => {
+    if (!conflictMemo) return
+    const latest = conflictMemo
+    setBaseMemo(latest)
+    setConflictMemo(null)
+    await submitForm(formData, latest.updatedAt)
+  }
+
+  const handleUseTheirs = () => {
+    if (!conflictMemo) return
+    setFormData(toFormData(conflictMemo))
+    setHasMergeConflicts(false)
+    setBaseMemo(conflictMemo)
+    setConflictMemo(null)
+  }
+
+  const suggestions = suggestTags(tagInput, tagSuggestions, formData.tags)
+
+  const handleAddTag = (value = tagInput) => {
+    const tag = value.trim()
     if (tag && !formData.tags.includes(tag)) {
       setFormData(prev => ({
         ...prev,
         tags: [...prev.tags, tag],
       }))
       setTagInput('')
+      setActiveSuggestion(-1)
     }
   }
 
@@ -83,12 +174,66 @@ export default function MemoForm({
   }
 
   const handleTagInputKeyDown = (e: React.KeyboardEvent) => {
-    if (e.key === 'Enter') {
+    if (e.key === 'ArrowDown' && suggestions.length > 0) {
+      e.preventDefault()
+      setActiveSuggestion(prev => (prev + 1) % suggestions.length)
+    } else if (e.key === 'ArrowUp' && suggestions.length > 0) {
       e.preventDefault()
-      handleAddTag()
+      setActiveSuggestion(prev =>
+        prev <= 0 ? suggestions.length - 1 : prev - 1
+      )
+    } else if (e.key === 'Enter') {
+      e.preventDefault()
+      handleAddTag(suggestions[activeSuggestion] ?? tagInput)
     }
   }
 
+  const linkOptions = linkQuery
+    ? suggestLinkTitles(linkQuery.query, linkSuggestions)
+    : []
+
+  // 커서 앞에 닫히지 않은 [[ 가 있으면 링크 자동 완성 열기
+  const updateLinkQuery = (textarea: HTMLTextAreaElement) => {
+    setLinkQuery(getWikiLinkQuery(textarea.value, textarea.selectionStart))
+    setActiveLinkSuggestion(0)
+  }
+
+  const handleSelectLink = (title: string) => {
+    if (!linkQuery) return
+    const completed = completeWikiLink(formData.content, linkQuery, title)
+    setFormData(prev => ({ ...prev, content: completed.content }))
+    setLinkQuery(null)
+
+    // 바뀐 내용이 편집기에 반영된 뒤 커서를 링크 뒤로 옮김
+    const textarea = contentRef.current?.querySelector('textarea')
+    requestAnimationFrame(() => {
+      textarea?.focus()
+      textarea?.setSelectionRange(completed.cursor, completed.cursor)
+    })
+  }
+
+  // 편집기보다 먼저 키를 받아 자동 완성 목록을 조작 (Enter 가 줄바꿈되지 않도록)
+  const handleContentKeyDownCapture = (e: React.KeyboardEvent) => {
+    // 한글 조합 중의 Enter 는 글자를 확정하는 키이므로 그대로 둠
+    if (linkOptions.length === 0 || e.nativeEvent.isComposing) return
+
+    if (e.key === 'ArrowDown') {
+      setActiveLinkSuggestion(prev => (prev + 1) % linkOptions.length)
+    } else if (e.key === 'ArrowUp') {
+      setActiveLinkSuggestion(prev =>
+        prev <= 0 ? linkOptions.length - 1 : prev - 1
+      )
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      handleSelectLink(linkOptions[activeLinkSuggestion] ?? linkOptions[0])
+    } else if (e.key === 'Escape') {
+      setLinkQuery(null)
+    } else {
+      return
+    }
+    e.preventDefault()
+    e.stopPropagation()
+  }
+
   if (!isOpen) return null
 
   return (
@@ -120,6 +265,12 @@ export default function MemoForm({
             </button>
           </div>
 
+          {readOnly && (
+            <p className="mb-4 p-3 text-sm text-yellow-800 bg-yellow-50 rounded-lg">
+              이 워크스페이스에서 뷰어 역할이므로 메모를 저장할 수 없습니다.
+            </p>
+          )}
+
           {/* 폼 */}
           <form onSubmit={handleSubmit} className="space-y-6">
             {/* 제목 */}
@@ -165,9 +316,16 @@ export default function MemoForm({
                 }
                 className="text-gray-400 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
               >
-                {DEFAULT_CATEGORIES.map(category => (
-                  <option key={category} value={category}>
-                    {MEMO_CATEGORIES[category]}
+                {/* 지워진 카테고리의 메모도 현재 값이 보이도록 함께 표시 */}
+                {(categories.some(category => category.id === formData.category)
+                  ? categories
+                  : [
+                      ...categories,
+                      resolveCategory(categories, formData.category),
+                    ]
+                ).map(category => (
+                  <option key={category.id} value={category.id}>
+                    {category.icon} {category.name}
                   </option>
                 ))}
               </select>
@@ -181,19 +339,60 @@ export default function MemoForm({
               >
                 내용 *
               </label>
-              <div data-color-mode="light">
+              <div
+                ref={contentRef}
+                data-color-mode="light"
+                className="relative"
+                onKeyDownCapture={handleContentKeyDownCapture}
+              >
                 <MDEditor
                   value={formData.content}
-                  onChange={(value) =>
+                  onChange={(value, event) => {
                     setFormData(prev => ({
                       ...prev,
                       content: value || '',
                     }))
-                  }
+                    if (event) updateLinkQuery(event.target)
+                  }}
+                  textareaProps={{
+                    onSelect: e => updateLinkQuery(e.currentTarget),
+                    onBlur: () => setLinkQuery(null),
+                  }}
                   preview="live"
                   height={400}
                 />
+                {/* 메모 제목 자동 완성 ([[ 입력 후) */}
+                {linkOptions.length > 0 && (
+                  <ul
+                    className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-lg shadow-lg py-1"
+                    role="listbox"
+                    aria-label="링크할 메모"
+                  >
+                    {linkOptions.map((title, index) => (
+                      <li
+                        key={title}
+                        role="option"
+                        aria-selected={index === activeLinkSuggestion}
+                        // 편집기의 포커스를 잃기 전에 고르도록 mousedown 에서 처리
+                        onMouseDown={e => {
+                          e.preventDefault()
+                          handleSelectLink(title)
+                        }}
+                        className={`px-3 py-1.5 text-sm cursor-pointer ${
+                          index === activeLinkSuggestion
+                            ? 'bg-blue-50 text-blue-700'
+                            : 'text-gray-700 hover:bg-gray-50'
+                        }`}
+                      >
+                        [[{title}]]
+                      </li>
+                    ))}
+                  </ul>
+                )}
               </div>
+              <p className="mt-1 text-xs text-gray-400">
+                [[메모 제목]] 으로 다른 메모를 링크할 수 있습니다.
+              </p>
             </div>
 
             {/* 태그 */}
@@ -202,17 +401,54 @@ export default function MemoForm({
                 태그
               </label>
               <div className="flex gap-2 mb-3">
-                <input
-                  type="text"
-                  value={tagInput}
-                  onChange={e => setTagInput(e.target.value)}
-                  onKeyDown={handleTagInputKeyDown}
-                  className="placeholder-gray-400 text-black flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
-                  placeholder="태그를 입력하고 Enter를 누르세요"
-                />
+                <div className="relative flex-1">
+                  <input
+                    type="text"
+                    value={tagInput}
+                    onChange={e => {
+                      setTagInput(e.target.value)
+                      setActiveSuggestion(-1)
+                    }}
+                    onKeyDown={handleTagInputKeyDown}
+                    className="placeholder-gray-400 text-black w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                    placeholder="태그를 입력하고 Enter를 누르세요"
+                    role="combobox"
+                    aria-controls="memo-tag-suggestions"
+                    aria-expanded={suggestions.length > 0}
+                    aria-autocomplete="list"
+                  />
+                  {/* 기존 태그 자동 완성 */}
+                  {suggestions.length > 0 && (
+                    <ul
+                      id="memo-tag-suggestions"
+                      className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-lg shadow-lg py-1"
+                      role="listbox"
+                    >
+                      {suggestions.map((suggestion, index) => (
+                        <li
+                          key={suggestion}
+                          role="option"
+                          aria-selected={index === activeSuggestion}
+                          // 입력창의 포커스를 잃기 전에 고르도록 mousedown 에서 처리
+                          onMouseDown={e => {
+                            e.preventDefault()
+                            handleAddTag(suggestion)
+                          }}
+                          className={`px-3 py-1.5 text-sm cursor-pointer ${
+                            index === activeSuggestion
+                              ? 'bg-blue-50 text-blue-700'
+                              : 'text-gray-700 hover:bg-gray-50'
+                          }`}
+                        >
+                          #{suggestion}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
                 <button
                   type="button"
-                  onClick={handleAddTag}
+                  onClick={() => handleAddTag()}
                   className="px-4 py-2 bg-gray-100 text-gray-700 hover:bg-gray-200 rounded-lg transition-colors"
                 >
                   추가
@@ -253,6 +489,15 @@ export default function MemoForm({
               )}
             </div>
 
+            {hasMergeConflicts && (
+              <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-sm text-yellow-800">
+                양쪽에서 같은 부분을 수정했습니다. 내용의 충돌 표시(
+                <code>&lt;&lt;&lt;&lt;&lt;&lt;&lt;</code> ~{' '}
+                <code>&gt;&gt;&gt;&gt;&gt;&gt;&gt;</code>)를 정리한 뒤
+                저장하세요.
+              </div>
+            )}
+
             {/* 버튼 */}
             <div className="flex gap-3">
               <button
@@ -264,7 +509,8 @@ export default function MemoForm({
               </button>
               <button
                 type="submit"
-                className="flex-1 px-4 py-2 bg-blue-600 text-white hover:bg-blue-700 rounded-lg transition-colors"
+                disabled={readOnly}
+                className="flex-1 px-4 py-2 bg-blue-600 text-white hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 {editingMemo ? '수정하기' : '저장하기'}
               </button>
@@ -272,6 +518,18 @@ export default function MemoForm({
           </form>
         </div>
       </div>
+
+      {conflictMemo && baseMemo && (
+        <MemoConflictDialog
+          base={toFormData(baseMemo)}
+          mine={formData}
+          theirs={conflictMemo}
+          onMerge={handleMergeConflict}
+          onKeepMine={handleKeepMine}
+          onUseTheirs={handleUseTheirs}
+          onCancel={() => setConflictMemo(null)}
+        />
+      )}
     </div>
   )
 }
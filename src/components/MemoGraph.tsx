@@ -0,0 +1,448 @@
+'use client'
+
+import {
+  FormEvent,
+  PointerEvent,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react'
+import { Memo } from '@/types/memo'
+import { Category, CATEGORY_COLORS } from '@/types/category'
+import { resolveCategory } from '@/utils/categories'
+import {
+  buildMemoGraph,
+  GRAPH_HEIGHT,
+  GRAPH_WIDTH,
+  GraphPoint,
+  layoutMemoGraph,
+  MemoGraphNode,
+} from '@/utils/memoGraph'
+
+interface MemoGraphProps {
+  // 그래프로 그릴 메모 (불러온 메모 전체)
+  memos: Memo[]
+  // 노드 색상에 쓸 카테고리
+  categories: Category[]
+  // 노드를 눌렀을 때 (뷰어로 엶)
+  onSelectMemo: (memo: Memo) => void
+}
+
+// 화면 이동과 확대 (레이아웃 좌표 → 화면 좌표: 좌표 * scale + x, y)
+interface GraphView {
+  x: number
+  y: number
+  scale: number
+}
+
+const DEFAULT_GRAPH_VIEW: GraphView = { x: 0, y: 0, scale: 1 }
+const MIN_SCALE = 0.3
+const MAX_SCALE = 4
+const ZOOM_STEP = 1.2
+// 검색 결과로 이동할 때의 최소 확대 비율
+const FOCUS_SCALE = 2
+// 이보다 확대하면 모든 노드에 제목 표시 (메모가 적으면 항상 표시)
+const LABEL_SCALE = 1.5
+const ALWAYS_LABEL_LIMIT = 30
+
+const clampScale = (scale: number): number =>
+  Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale))
+
+// point(viewBox 좌표)를 고정한 채로 확대/축소
+const zoomAt = (
+  view: GraphView,
+  point: GraphPoint,
+  factor: number
+): GraphView => {
+  const scale = clampScale(view.scale * factor)
+  const ratio = scale / view.scale
+  return {
+    scale,
+    x: point.x - (point.x - view.x) * ratio,
+    y: point.y - (point.y - view.y) * ratio,
+  }
+}
+
+// 화면의 마우스 위치를 SVG viewBox 좌표로 변환
+const toViewBoxPoint = (
+  svg: SVGSVGElement,
+  clientX: number,
+  clientY: number
+): GraphPoint | null => {
+  const matrix = svg.getScreenCTM()
+  if (!matrix) return null
+  const point = new DOMPoint(clientX, clientY).matrixTransform(matrix.inverse())
+  return { x: point.x, y: point.y }
+}
+
+const findMatches = (
+  nodes: MemoGraphNode[],
+  query: string
+): MemoGraphNode[] => {
+  const normalized = query.trim().toLowerCase()
+  if (!normalized) return []
+  return nodes.filter(node =>
+    node.memo.title.toLowerCase().includes(normalized)
+  )
+}
+
+const truncate = (title: string, length = 16): string =>
+  title.length > length ? `${title.slice(0, length)}…` : title
+
+export default function MemoGraph({
+  memos,
+  categories,
+  onSelectMemo,
+}: MemoGraphProps) {
+  const svgRef = useRef<SVGSVGElement>(null)
+  // 배경을 끌어 화면을 옮기는 중일 때 시작 위치
+  const panRef = useRef<{
+    pointerId: number
+    start: GraphPoint
+    view: GraphView
+  } | null>(null)
+  const [view, setView] = useState<GraphView>(DEFAULT_GRAPH_VIEW)
+  const [query, setQuery] = useState('')
+  const [matchIndex, setMatchIndex] = useState(0)
+  const [focusedId, setFocusedId] = useState<string | null>(null)
+  const [hoveredId, setHoveredId] = useState<string | null>(null)
+
+  // 메모가 바뀔 때만 다시 배치
+  const graph = useMemo(() => buildMemoGraph(memos), [memos])
+  const positions = useMemo(() => layoutMemoGraph(graph), [graph])
+
+  const matches = useMemo(() => findMatches(graph.nodes, query), [graph, query])
+  const matchIds = new Set(matches.map(node => node.id))
+
+  // 마우스를 올리거나 검색으로 고른 노드와 그 이웃을 강조
+  const activeId = hoveredId || focusedId
+  const neighborIds = useMemo(() => {
+    const ids = new Set<string>()
+    graph.edges.forEach(edge => {
+      if (edge.source === activeId) ids.add(edge.target)
+      if (edge.target === activeId) ids.add(edge.source)
+    })
+    return ids
+  }, [graph, activeId])
+
+  const legendCategories = useMemo(() => {
+    const used = new Map<string, Category>()
+    memos.forEach(memo => {
+      const category = resolveCategory(categories, memo.category)
+      used.set(category.id, category)
+    })
+    return Array.from(used.values())
+  }, [memos, categories])
+
+  const linkCount = graph.edges.filter(edge => edge.linked).length
+  const tagEdgeCount = graph.edges.filter(
+    edge => edge.sharedTags.length > 0
+  ).length
+
+  // 휠로 마우스 위치를 기준으로 확대/축소 (페이지가 스크롤되지 않도록 passive 를 끔)
+  useEffect(() => {
+    const svg = svgRef.current
+    if (!svg) return
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault()
+      const point = toViewBoxPoint(svg, event.clientX, event.clientY)
+      if (!point) return
+      setView(prev =>
+        zoomAt(prev, point, event.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP)
+      )
+    }
+
+    svg.addEventListener('wheel', handleWheel, { passive: false })
+    return () => svg.removeEventListener('wheel', handleWheel)
+  }, [])
+
+  const focusNode = (id: string) => {
+    const position = positions.get(id)
+    if (!position) return
+
+    setFocusedId(id)
+    setView(prev => {
+      const scale = Math.max(prev.scale, FOCUS_SCALE)
+      return {
+        scale,
+        x: GRAPH_WIDTH / 2 - position.x * scale,
+        y: GRAPH_HEIGHT / 2 - position.y * scale,
+      }
+    })
+  }
+
+  // 입력할 때마다 첫 번째로 찾은 메모로 이동
+  const handleQueryChange = (value: string) => {
+    setQuery(value)
+    setMatchIndex(0)
+    const [first] = findMatches(graph.nodes, value)
+    if (first) {
+      focusNode(first.id)
+    } else {
+      setFocusedId(null)
+    }
+  }
+
+  // Enter 를 누르면 다음 검색 결과로 이동
+  const handleSearchSubmit = (event: FormEvent) => {
+    event.preventDefault()
+    if (matches.length === 0) return
+    const next = (matchIndex + 1) % matches.length
+    setMatchIndex(next)
+    focusNode(matches[next].id)
+  }
+
+  // 화면 가운데를 기준으로 확대/축소
+  const zoomBy = (factor: number) => {
+    setView(prev =>
+      zoomAt(prev, { x: GRAPH_WIDTH / 2, y: GRAPH_HEIGHT / 2 }, factor)
+    )
+  }
+
+  const handleResetView = () => {
+    setView(DEFAULT_GRAPH_VIEW)
+    setFocusedId(null)
+  }
+
+  const handlePointerDown = (event: PointerEvent<SVGSVGElement>) => {
+    // 노드를 누른 것이면 화면을 옮기지 않음
+    if (
+      event.target instanceof Element &&
+      event.target.closest('[data-memo-node]')
+    ) {
+      return
+    }
+    const start = toViewBoxPoint(
+      event.currentTarget,
+      event.clientX,
+      event.clientY
+    )
+    if (!start) return
+
+    event.currentTarget.setPointerCapture(event.pointerId)
+    panRef.current = { pointerId: event.pointerId, start, view }
+  }
+
+  const handlePointerMove = (event: PointerEvent<SVGSVGElement>) => {
+    const pan = panRef.current
+    if (!pan || pan.pointerId !== event.pointerId) return
+
+    const point = toViewBoxPoint(
+      event.currentTarget,
+      event.clientX,
+      event.clientY
+    )
+    if (!point) return
+    setView({
+      ...pan.view,
+      x: pan.view.x + point.x - pan.start.x,
+      y: pan.view.y + point.y - pan.start.y,
+    })
+  }
+
+  const handlePointerUp = (event: PointerEvent<SVGSVGElement>) => {
+    if (panRef.current?.pointerId === event.pointerId) {
+      panRef.current = null
+    }
+  }
+
+  const showAllLabels =
+    view.scale >= LABEL_SCALE || graph.nodes.length <= ALWAYS_LABEL_LIMIT
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+      {/* 검색과 확대/축소 */}
+      <div className="p-4 flex flex-col sm:flex-row sm:items-center gap-3 border-b border-gray-100">
+        <form
+          onSubmit={handleSearchSubmit}
+          className="flex-1 flex items-center gap-2"
+        >
+          <input
+            type="search"
+            value={query}
+            onChange={e => handleQueryChange(e.target.value)}
+            className="placeholder-gray-400 text-black w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+            placeholder="제목으로 메모 찾기 (Enter: 다음 결과)"
+            aria-label="그래프에서 메모 찾기"
+          />
+          {query.trim() && (
+            <span className="shrink-0 text-sm text-gray-500">
+              {matches.length > 0
+                ? `${matchIndex + 1} / ${matches.length}`
+                : '결과 없음'}
+            </span>
+          )}
+        </form>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => zoomBy(1 / ZOOM_STEP)}
+            className="px-3 py-2 text-sm text-gray-600 border border-gray-300 hover:bg-gray-100 rounded-lg transition-colors"
+            aria-label="축소"
+            title="축소"
+          >
+            −
+          </button>
+          <span className="w-12 text-center text-sm text-gray-500">
+            {Math.round(view.scale * 100)}%
+          </span>
+          <button
+            onClick={() => zoomBy(ZOOM_STEP)}
+            className="px-3 py-2 text-sm text-gray-600 border border-gray-300 hover:bg-gray-100 rounded-lg transition-colors"
+            aria-label="확대"
+            title="확대"
+          >
+            +
+          </button>
+          <button
+            onClick={handleResetView}
+            className="px-3 py-2 text-sm text-gray-600 border border-gray-300 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            전체 보기
+          </button>
+        </div>
+      </div>
+
+      {/* 그래프 (배경을 끌어 이동, 휠로 확대/축소) */}
+      <div className="relative">
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${GRAPH_WIDTH} ${GRAPH_HEIGHT}`}
+          className="w-full h-[70vh] touch-none select-none cursor-grab active:cursor-grabbing"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          aria-label="메모 그래프"
+        >
+          <g transform={`translate(${view.x} ${view.y}) scale(${view.scale})`}>
+            {graph.edges.map(edge => {
+              const source = positions.get(edge.source)
+              const target = positions.get(edge.target)
+              if (!source || !target) return null
+              const isActive =
+                edge.source === activeId || edge.target === activeId
+
+              return (
+                <line
+                  key={`${edge.source}-${edge.target}`}
+                  x1={source.x}
+                  y1={source.y}
+                  x2={target.x}
+                  y2={target.y}
+                  className={
+                    edge.linked ? 'stroke-blue-400' : 'stroke-gray-300'
+                  }
+                  strokeWidth={isActive ? 2.5 : 1}
+                  strokeDasharray={edge.linked ? undefined : '4 3'}
+                  vectorEffect="non-scaling-stroke"
+                  opacity={activeId && !isActive ? 0.15 : 0.8}
+                >
+                  <title>
+                    {[
+                      edge.linked ? '링크' : '',
+                      ...edge.sharedTags.map(tag => `#${tag}`),
+                    ]
+                      .filter(Boolean)
+                      .join(' ')}
+                  </title>
+                </line>
+              )
+            })}
+
+            {graph.nodes.map(node => {
+              const position = positions.get(node.id)
+              if (!position) return null
+              const category = resolveCategory(categories, node.memo.category)
+              const radius = 5 + Math.sqrt(node.degree) * 2
+              const isMatch = matchIds.has(node.id)
+              const isDimmed =
+                (query.trim() !== '' && !isMatch) ||
+                (activeId !== null &&
+                  node.id !== activeId &&
+                  !neighborIds.has(node.id))
+
+              return (
+                <g
+                  key={node.id}
+                  data-memo-node
+                  transform={`translate(${position.x} ${position.y})`}
+                  className="cursor-pointer"
+                  opacity={isDimmed ? 0.25 : 1}
+                  role="button"
+                  tabIndex={0}
+                  aria-label={node.memo.title}
+                  onClick={() => onSelectMemo(node.memo)}
+                  onKeyDown={event => {
+                    if (event.key === 'Enter') onSelectMemo(node.memo)
+                  }}
+                  onPointerEnter={() => setHoveredId(node.id)}
+                  onPointerLeave={() =>
+                    setHoveredId(prev => (prev === node.id ? null : prev))
+                  }
+                >
+                  {node.id === focusedId && (
+                    <circle
+                      r={radius + 4}
+                      fill="none"
+                      className="stroke-blue-600"
+                      strokeWidth={2}
+                      vectorEffect="non-scaling-stroke"
+                    />
+                  )}
+                  <circle
+                    r={radius}
+                    className={`stroke-white ${CATEGORY_COLORS[category.color]?.fill || CATEGORY_COLORS.gray.fill}`}
+                    strokeWidth={1.5}
+                    vectorEffect="non-scaling-stroke"
+                  />
+                  {(showAllLabels || isMatch || node.id === activeId) && (
+                    <text
+                      y={radius + 12}
+                      textAnchor="middle"
+                      className="fill-gray-700 text-[10px] pointer-events-none"
+                    >
+                      {truncate(node.memo.title)}
+                    </text>
+                  )}
+                  <title>{node.memo.title}</title>
+                </g>
+              )
+            })}
+          </g>
+        </svg>
+
+        {graph.nodes.length === 0 && (
+          <div className="absolute inset-0 flex items-center justify-center text-gray-500">
+            그래프로 표시할 메모가 없습니다.
+          </div>
+        )}
+      </div>
+
+      {/* 범례 */}
+      <div className="p-4 flex flex-wrap items-center gap-x-4 gap-y-2 border-t border-gray-100 text-xs text-gray-600">
+        <span>
+          메모 {graph.nodes.length}개 · 링크 {linkCount}개 · 같은 태그{' '}
+          {tagEdgeCount}개
+        </span>
+        <span className="inline-flex items-center gap-1">
+          <span className="w-5 border-t-2 border-blue-400" />
+          [[링크]]
+        </span>
+        <span className="inline-flex items-center gap-1">
+          <span className="w-5 border-t-2 border-dashed border-gray-300" />
+          같은 태그
+        </span>
+        {legendCategories.map(category => (
+          <span key={category.id} className="inline-flex items-center gap-1">
+            <span
+              className={`w-3 h-3 rounded-full ${CATEGORY_COLORS[category.color]?.swatch || CATEGORY_COLORS.gray.swatch}`}
+            />
+            {category.icon} {category.name}
+          </span>
+        ))}
+      </div>
+    </div>
+  )
+}
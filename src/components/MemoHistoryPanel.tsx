@@ -0,0 +1,179 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Memo, MemoRevision } from '@/types/memo'
+import { diffLines } from '@/utils/textDiff'
+import DiffView from './DiffView'
+
+interface MemoHistoryPanelProps {
+  memo: Memo
+  onLoadRevisions: (id: string) => Promise<MemoRevision[]>
+  onRestore: (id: string, revision: MemoRevision) => Promise<void>
+  // 뷰어 역할이면 true (복원 버튼 숨김)
+  readOnly?: boolean
+}
+
+const isSameAsMemo = (revision: MemoRevision, memo: Memo) =>
+  revision.title === memo.title &&
+  revision.content === memo.content &&
+  revision.category === memo.category &&
+  revision.tags.join('\n') === memo.tags.join('\n')
+
+export default function MemoHistoryPanel({
+  memo,
+  onLoadRevisions,
+  onRestore,
+  readOnly = false,
+}: MemoHistoryPanelProps) {
+  const [revisions, setRevisions] = useState<MemoRevision[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [isRestoring, setIsRestoring] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // 메모가 저장될 때마다 기록 다시 불러오기
+  useEffect(() => {
+    let cancelled = false
+
+    const loadRevisions = async () => {
+      setIsLoading(true)
+      setError(null)
+      try {
+        const loaded = await onLoadRevisions(memo.id)
+        if (cancelled) return
+        setRevisions(loaded)
+        setSelectedId(prev =>
+          prev && loaded.some(revision => revision.id === prev)
+            ? prev
+            : loaded[0]?.id || null
+        )
+      } catch (err) {
+        console.error('Failed to load revisions:', err)
+        if (!cancelled) setError('버전 기록을 불러오지 못했습니다.')
+      } finally {
+        if (!cancelled) setIsLoading(false)
+      }
+    }
+
+    loadRevisions()
+    return () => {
+      cancelled = true
+    }
+  }, [memo.id, memo.updatedAt, onLoadRevisions])
+
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString)
+    return date.toLocaleString('ko-KR', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    })
+  }
+
+  const selectedIndex = revisions.findIndex(
+    revision => revision.id === selectedId
+  )
+  const selected = revisions[selectedIndex]
+  // 목록은 최신순이므로 바로 다음 항목이 이전 버전
+  const previous = revisions[selectedIndex + 1]
+
+  const changedFields = (revision: MemoRevision, before?: MemoRevision) =>
+    before
+      ? [
+          revision.title !== before.title && '제목',
+          revision.category !== before.category && '카테고리',
+          revision.tags.join(',') !== before.tags.join(',') && '태그',
+          revision.content !== before.content && '내용',
+        ].filter(Boolean)
+      : ['처음 기록된 버전']
+
+  const handleRestore = async () => {
+    if (!selected) return
+    if (
+      !window.confirm(
+        `${formatDate(selected.createdAt)} 버전으로 복원하시겠습니까? 현재 내용은 기록에 남습니다.`
+      )
+    ) {
+      return
+    }
+
+    setIsRestoring(true)
+    try {
+      await onRestore(memo.id, selected)
+    } catch (err) {
+      console.error('Failed to restore revision:', err)
+      alert('버전 복원에 실패했습니다.')
+    } finally {
+      setIsRestoring(false)
+    }
+  }
+
+  if (isLoading && revisions.length === 0) {
+    return <p className="text-sm text-gray-400">버전 기록을 불러오는 중...</p>
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-600">{error}</p>
+  }
+
+  if (revisions.length === 0) {
+    return <p className="text-sm text-gray-400">아직 기록된 버전이 없습니다.</p>
+  }
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+      <ul className="space-y-1 sm:max-h-72 sm:overflow-y-auto">
+        {revisions.map(revision => (
+          <li key={revision.id}>
+            <button
+              onClick={() => setSelectedId(revision.id)}
+              className={`w-full text-left px-3 py-2 rounded-lg text-xs transition-colors ${
+                revision.id === selectedId
+                  ? 'bg-blue-50 text-blue-700'
+                  : 'text-gray-600 hover:bg-gray-50'
+              }`}
+            >
+              <span className="block font-medium">
+                {formatDate(revision.createdAt)}
+                {isSameAsMemo(revision, memo) && (
+                  <span className="ml-1 text-green-600">(현재)</span>
+                )}
+              </span>
+              <span className="block text-gray-400">
+                {revision.author || '알 수 없음'}
+              </span>
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {selected && (
+        <div className="sm:col-span-2 space-y-3">
+          <div>
+            <p className="text-sm font-medium text-gray-900 break-words">
+              {selected.title}
+            </p>
+            <p className="text-xs text-gray-500">
+              변경된 항목: {changedFields(selected, previous).join(', ')}
+            </p>
+          </div>
+          <DiffView
+            lines={diffLines(previous?.content || '', selected.content)}
+            emptyMessage="내용 변경이 없습니다."
+          />
+          {!readOnly && (
+            <button
+              onClick={handleRestore}
+              disabled={isRestoring || isSameAsMemo(selected, memo)}
+              className="px-3 py-1.5 text-xs font-medium text-blue-600 bg-blue-50 hover:bg-blue-100 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isRestoring ? '복원 중...' : '이 버전으로 복원'}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
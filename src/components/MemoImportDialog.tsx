@@ -0,0 +1,327 @@
+'use client'
+
+import { ChangeEvent, useEffect, useState } from 'react'
+import { Memo } from '@/types/memo'
+import {
+  ImportedMemo,
+  MEMO_IMPORT_ACCEPT,
+  MEMO_IMPORT_SOURCES,
+  MemoImportFile,
+  MemoImportItem,
+  MemoImportPreview,
+} from '@/utils/memoImport'
+
+interface MemoImportDialogProps {
+  // 파일을 읽고 저장된 메모와 비교 (저장하지 않음)
+  onPreview: (files: MemoImportFile[]) => Promise<MemoImportPreview>
+  // 고른 메모 저장 (onProgress: 지금까지 저장한 수)
+  onImport: (
+    memos: ImportedMemo[],
+    onProgress: (saved: number) => void
+  ) => Promise<Memo[]>
+  onClose: () => void
+}
+
+const STATUS_BADGES: Record<
+  MemoImportItem['status'],
+  { label: string; className: string } | null
+> = {
+  new: null,
+  duplicate: { label: '중복', className: 'bg-gray-200 text-gray-700' },
+  sameTitle: { label: '같은 제목', className: 'bg-amber-100 text-amber-800' },
+}
+
+const describeDuplicate = (item: MemoImportItem): string | undefined => {
+  if (!item.duplicateOf) return undefined
+  const target = item.duplicateOf.fileName
+    ? `가져오는 파일 ${item.duplicateOf.fileName}`
+    : `저장된 메모 "${item.duplicateOf.title}"`
+  return item.status === 'duplicate'
+    ? `제목과 내용이 같음: ${target}`
+    : `제목이 같음: ${target}`
+}
+
+export default function MemoImportDialog({
+  onPreview,
+  onImport,
+  onClose,
+}: MemoImportDialogProps) {
+  const [preview, setPreview] = useState<MemoImportPreview | null>(null)
+  // 가져올 항목 (preview.items 의 순번)
+  const [selected, setSelected] = useState<Set<number>>(new Set())
+  const [isReading, setIsReading] = useState(false)
+  const [isImporting, setIsImporting] = useState(false)
+  const [savedCount, setSavedCount] = useState(0)
+  const [importedCount, setImportedCount] = useState<number | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const isBusy = isReading || isImporting
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape' && !isBusy) onClose()
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [onClose, isBusy])
+
+  const handleFilesChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || [])
+    if (files.length === 0) return
+
+    setIsReading(true)
+    setError(null)
+    setImportedCount(null)
+    try {
+      const loaded = await onPreview(
+        await Promise.all(
+          files.map(async file => ({
+            name: file.name,
+            data: new Uint8Array(await file.arrayBuffer()),
+          }))
+        )
+      )
+      setPreview(loaded)
+      // 중복은 기본으로 빼고 고름
+      setSelected(
+        new Set(
+          loaded.items.flatMap((item, index) =>
+            item.status === 'duplicate' ? [] : [index]
+          )
+        )
+      )
+    } catch (err) {
+      console.error('Failed to read import files:', err)
+      setError('파일을 읽지 못했습니다.')
+    } finally {
+      setIsReading(false)
+    }
+  }
+
+  const toggleItem = (index: number) => {
+    setSelected(prev => {
+      const next = new Set(prev)
+      if (next.has(index)) {
+        next.delete(index)
+      } else {
+        next.add(index)
+      }
+      return next
+    })
+  }
+
+  const toggleAll = () => {
+    if (!preview) return
+    setSelected(
+      selected.size === preview.items.length
+        ? new Set()
+        : new Set(preview.items.map((_, index) => index))
+    )
+  }
+
+  const handleImport = async () => {
+    if (!preview || selected.size === 0) return
+
+    setIsImporting(true)
+    setSavedCount(0)
+    setError(null)
+    try {
+      const saved = await onImport(
+        preview.items
+          .filter((_, index) => selected.has(index))
+          .map(item => item.memo),
+        setSavedCount
+      )
+      setImportedCount(saved.length)
+      setPreview(null)
+      setSelected(new Set())
+    } catch (err) {
+      console.error('Failed to import memos:', err)
+      setError(
+        '메모를 가져오지 못했습니다. 일부 메모만 저장되었을 수 있습니다.'
+      )
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  const counts = preview?.items.reduce(
+    (acc, item) => {
+      acc[item.status] += 1
+      return acc
+    },
+    { new: 0, duplicate: 0, sameTitle: 0 }
+  )
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-[60]">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6 space-y-6">
+          <div className="flex justify-between items-start">
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">
+                메모 가져오기
+              </h2>
+              <p className="mt-1 text-sm text-gray-600">
+                Markdown 파일이나 ZIP (front matter 지원), Notion 내보내기 ZIP,
+                Evernote ENEX, 이 앱의 JSON 내보내기를 가져올 수 있습니다.
+                저장하기 전에 가져올 메모를 확인합니다.
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              disabled={isBusy}
+              className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50"
+              aria-label="닫기"
+            >
+              <svg
+                className="w-5 h-5"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M6 18L18 6M6 6l12 12"
+                />
+              </svg>
+            </button>
+          </div>
+
+          <input
+            type="file"
+            multiple
+            accept={MEMO_IMPORT_ACCEPT}
+            onChange={handleFilesChange}
+            disabled={isBusy}
+            className="block w-full text-sm text-gray-700 file:mr-4 file:px-4 file:py-2 file:border-0 file:rounded-lg file:text-sm file:font-medium file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
+            aria-label="가져올 파일"
+          />
+
+          {isReading && (
+            <p className="text-sm text-gray-500">파일을 읽는 중...</p>
+          )}
+
+          {importedCount !== null && (
+            <p className="text-sm text-green-700">
+              메모 {importedCount}개를 가져왔습니다.
+            </p>
+          )}
+
+          {/* 미리보기 (아직 저장하지 않음) */}
+          {preview && counts && (
+            <div className="space-y-3">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <p className="text-sm text-gray-700">
+                  메모 {preview.items.length}개 · 새 메모 {counts.new}개 · 같은
+                  제목 {counts.sameTitle}개 · 중복 {counts.duplicate}개
+                </p>
+                {preview.items.length > 0 && (
+                  <label className="inline-flex items-center gap-2 text-sm text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={selected.size === preview.items.length}
+                      onChange={toggleAll}
+                      disabled={isBusy}
+                    />
+                    모두 선택
+                  </label>
+                )}
+              </div>
+
+              {preview.items.length === 0 ? (
+                <p className="text-sm text-gray-500">
+                  가져올 메모를 찾지 못했습니다.
+                </p>
+              ) : (
+                <ul className="max-h-80 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                  {preview.items.map((item, index) => {
+                    const badge = STATUS_BADGES[item.status]
+                    const { data, source, fileName } = item.memo
+
+                    return (
+                      <li key={`${fileName}-${index}`}>
+                        <label className="flex items-start gap-3 px-3 py-2 hover:bg-gray-50 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={selected.has(index)}
+                            onChange={() => toggleItem(index)}
+                            disabled={isBusy}
+                            className="mt-1"
+                          />
+                          <div className="flex-1 min-w-0">
+                            <div className="flex items-center gap-2">
+                              <span className="font-medium text-gray-900 truncate">
+                                {data.title}
+                              </span>
+                              <span className="shrink-0 px-2 py-0.5 rounded-full text-xs bg-blue-50 text-blue-700">
+                                {MEMO_IMPORT_SOURCES[source]}
+                              </span>
+                              {badge && (
+                                <span
+                                  className={`shrink-0 px-2 py-0.5 rounded-full text-xs ${badge.className}`}
+                                  title={describeDuplicate(item)}
+                                >
+                                  {badge.label}
+                                </span>
+                              )}
+                            </div>
+                            <p className="text-xs text-gray-500 truncate">
+                              {fileName}
+                              {data.tags.length > 0 &&
+                                ` · ${data.tags.map(tag => `#${tag}`).join(' ')}`}
+                            </p>
+                          </div>
+                        </label>
+                      </li>
+                    )
+                  })}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {/* 읽지 못한 파일 */}
+          {preview && preview.errors.length > 0 && (
+            <div className="p-3 bg-red-50 rounded-lg text-sm text-red-700">
+              <p className="font-medium">읽지 못한 파일</p>
+              <ul className="mt-1 list-disc list-inside">
+                {preview.errors.map((fileError, index) => (
+                  <li key={`${fileError.fileName}-${index}`}>
+                    {fileError.fileName}: {fileError.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <div className="flex justify-end gap-3">
+            <button
+              onClick={onClose}
+              disabled={isBusy}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors disabled:opacity-50"
+            >
+              {importedCount !== null ? '닫기' : '취소'}
+            </button>
+            {preview && (
+              <button
+                onClick={handleImport}
+                disabled={isBusy || selected.size === 0}
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isImporting
+                  ? `저장 중... (${savedCount}/${selected.size})`
+                  : `${selected.size}개 가져오기`}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
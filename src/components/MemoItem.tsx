@@ -1,21 +1,68 @@
 'use client'
 
-import { MouseEvent } from 'react'
-import { Memo, MEMO_CATEGORIES } from '@/types/memo'
+import { DragEvent, MouseEvent } from 'react'
+import { Memo } from '@/types/memo'
+import { Category } from '@/types/category'
+import { HighlightSegment, MemoSearchHighlights } from '@/utils/memoSearch'
+import { getDaysUntilPurge } from '@/utils/memoTrash'
+import { MEMO_DRAG_TYPE } from '@/utils/folders'
+import CategoryBadge from './CategoryBadge'
 
 interface MemoItemProps {
   memo: Memo
+  // 메모의 카테고리 (이름, 색상, 아이콘)
+  category: Category
   onEdit: (memo: Memo) => void
   onDelete: (id: string) => void
   onSelect: (memo: Memo) => void
+  // 목록 맨 위 고정 / 해제
+  onTogglePin?: (id: string) => void
+  isPendingSync?: boolean
+  highlights?: MemoSearchHighlights
+  // 휴지통에 있는 메모에서 편집/삭제 대신 표시할 액션
+  onRestore?: (id: string) => void
+  onPurge?: (id: string) => void
+  // 태그 칩을 눌렀을 때 (태그 필터에 넣거나 빼기)
+  onTagClick?: (tag: string) => void
+  // 태그 필터에 들어 있는 태그 (칩을 강조)
+  selectedTags?: string[]
+  // 뷰어 역할이면 false (액션 버튼 숨김)
+  canEdit?: boolean
+}
+
+function HighlightedText({ segments }: { segments: HighlightSegment[] }) {
+  return (
+    <>
+      {segments.map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className="bg-yellow-200 text-inherit rounded-sm">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </>
+  )
 }
 
 export default function MemoItem({
   memo,
+  category,
   onEdit,
   onDelete,
   onSelect,
+  onTogglePin,
+  isPendingSync = false,
+  highlights,
+  onRestore,
+  onPurge,
+  onTagClick,
+  selectedTags = [],
+  canEdit = true,
 }: MemoItemProps) {
+  const isTrashed = Boolean(memo.deletedAt)
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString)
     return date.toLocaleDateString('ko-KR', {
@@ -27,25 +74,54 @@ export default function MemoItem({
     })
   }
 
-  const getCategoryColor = (category: string) => {
-    const colors = {
-      personal: 'bg-blue-100 text-blue-800',
-      work: 'bg-green-100 text-green-800',
-      study: 'bg-purple-100 text-purple-800',
-      idea: 'bg-yellow-100 text-yellow-800',
-      other: 'bg-gray-100 text-gray-800',
+  const handleEditClick = (event: MouseEvent<HTMLButtonElement>) => {
+    event.stopPropagation()
+    onEdit(memo)
+  }
+
+  const handleRestoreClick = async (event: MouseEvent<HTMLButtonElement>) => {
+    event.stopPropagation()
+    try {
+      await onRestore?.(memo.id)
+    } catch (error) {
+      console.error('Failed to restore memo:', error)
+      alert('메모 복원에 실패했습니다.')
     }
-    return colors[category as keyof typeof colors] || colors.other
   }
 
-  const handleEditClick = (event: MouseEvent<HTMLButtonElement>) => {
+  const handlePurgeClick = async (event: MouseEvent<HTMLButtonElement>) => {
     event.stopPropagation()
-    onEdit(memo)
+    if (
+      window.confirm('이 메모를 영구 삭제하시겠습니까? 되돌릴 수 없습니다.')
+    ) {
+      try {
+        await onPurge?.(memo.id)
+      } catch (error) {
+        console.error('Failed to purge memo:', error)
+        alert('메모 영구 삭제에 실패했습니다.')
+      }
+    }
+  }
+
+  const handlePinClick = async (event: MouseEvent<HTMLButtonElement>) => {
+    event.stopPropagation()
+    try {
+      await onTogglePin?.(memo.id)
+    } catch (error) {
+      console.error('Failed to toggle memo pin:', error)
+      alert('메모 고정을 변경하지 못했습니다.')
+    }
+  }
+
+  // 사이드바의 폴더로 끌어다 놓을 수 있도록 메모 ID를 담음
+  const handleDragStart = (event: DragEvent<HTMLDivElement>) => {
+    event.dataTransfer.setData(MEMO_DRAG_TYPE, memo.id)
+    event.dataTransfer.effectAllowed = 'move'
   }
 
   const handleDeleteClick = async (event: MouseEvent<HTMLButtonElement>) => {
     event.stopPropagation()
-    if (window.confirm('정말로 이 메모를 삭제하시겠습니까?')) {
+    if (window.confirm('이 메모를 휴지통으로 옮기시겠습니까?')) {
       try {
         await onDelete(memo.id)
       } catch (error) {
@@ -57,89 +133,201 @@ export default function MemoItem({
 
   return (
     <div
-      className="bg-white rounded-lg shadow-md border border-gray-200 p-6 hover:shadow-lg transition-shadow duration-200 cursor-pointer"
-      onClick={() => onSelect(memo)}
+      className={`h-full overflow-hidden bg-white rounded-lg shadow-md border border-gray-200 p-6 hover:shadow-lg transition-shadow duration-200 ${isTrashed ? 'opacity-75' : 'cursor-pointer'}`}
+      onClick={() => {
+        if (!isTrashed) onSelect(memo)
+      }}
+      draggable={canEdit && !isTrashed}
+      onDragStart={handleDragStart}
     >
       {/* 헤더 */}
       <div className="flex justify-between items-start mb-3">
         <div className="flex-1">
           <h3 className="text-lg font-semibold text-gray-900 mb-2 line-clamp-2">
-            {memo.title}
+            {memo.pinned && !isTrashed && (
+              <span className="mr-1" title="고정됨" aria-label="고정됨">
+                📌
+              </span>
+            )}
+            {highlights ? (
+              <HighlightedText segments={highlights.title} />
+            ) : (
+              memo.title
+            )}
           </h3>
           <div className="flex items-center gap-2">
-            <span
-              className={`px-2 py-1 rounded-full text-xs font-medium ${getCategoryColor(memo.category)}`}
-            >
-              {MEMO_CATEGORIES[memo.category as keyof typeof MEMO_CATEGORIES] ||
-                memo.category}
-            </span>
+            <CategoryBadge category={category} />
             <span className="text-xs text-gray-500">
               {formatDate(memo.updatedAt)}
             </span>
+            {isPendingSync && (
+              <span
+                className="px-2 py-1 rounded-full text-xs font-medium bg-orange-100 text-orange-800"
+                title="아직 서버에 저장되지 않았습니다. 온라인 상태가 되면 자동으로 동기화됩니다."
+              >
+                동기화 대기
+              </span>
+            )}
+            {isTrashed && (
+              <span className="px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                {getDaysUntilPurge(memo)}일 후 영구 삭제
+              </span>
+            )}
           </div>
         </div>
 
         {/* 액션 버튼 */}
-        <div className="flex gap-2 ml-4">
-          <button
-            onClick={handleEditClick}
-            className="p-2 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
-            title="편집"
-          >
-            <svg
-              className="w-4 h-4"
-              fill="none"
-              stroke="currentColor"
-              viewBox="0 0 24 24"
+        {!canEdit ? null : isTrashed ? (
+          <div className="flex gap-2 ml-4">
+            <button
+              onClick={handleRestoreClick}
+              className="p-2 text-gray-500 hover:text-green-600 hover:bg-green-50 rounded-lg transition-colors"
+              title="복원"
             >
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                strokeWidth={2}
-                d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z"
-              />
-            </svg>
-          </button>
-          <button
-            onClick={handleDeleteClick}
-            className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
-            title="삭제"
-          >
-            <svg
-              className="w-4 h-4"
-              fill="none"
-              stroke="currentColor"
-              viewBox="0 0 24 24"
+              <svg
+                className="w-4 h-4"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6"
+                />
+              </svg>
+            </button>
+            <button
+              onClick={handlePurgeClick}
+              className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+              title="영구 삭제"
             >
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                strokeWidth={2}
-                d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
-              />
-            </svg>
-          </button>
-        </div>
+              <svg
+                className="w-4 h-4"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M6 18L18 6M6 6l12 12"
+                />
+              </svg>
+            </button>
+          </div>
+        ) : (
+          <div className="flex gap-2 ml-4">
+            {onTogglePin && (
+              <button
+                onClick={handlePinClick}
+                className={`p-2 rounded-lg transition-colors ${
+                  memo.pinned
+                    ? 'text-amber-600 bg-amber-50 hover:bg-amber-100'
+                    : 'text-gray-500 hover:text-amber-600 hover:bg-amber-50'
+                }`}
+                title={memo.pinned ? '고정 해제' : '맨 위에 고정'}
+                aria-pressed={Boolean(memo.pinned)}
+              >
+                <svg
+                  className="w-4 h-4"
+                  fill={memo.pinned ? 'currentColor' : 'none'}
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z"
+                  />
+                </svg>
+              </button>
+            )}
+            <button
+              onClick={handleEditClick}
+              className="p-2 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+              title="편집"
+            >
+              <svg
+                className="w-4 h-4"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z"
+                />
+              </svg>
+            </button>
+            <button
+              onClick={handleDeleteClick}
+              className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+              title="삭제"
+            >
+              <svg
+                className="w-4 h-4"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                />
+              </svg>
+            </button>
+          </div>
+        )}
       </div>
 
       {/* 내용 */}
       <div className="mb-4">
         <p className="text-gray-700 text-sm leading-relaxed line-clamp-3">
-          {memo.content}
+          {highlights ? (
+            <HighlightedText segments={highlights.snippet} />
+          ) : (
+            memo.content
+          )}
         </p>
       </div>
 
       {/* 태그 */}
       {memo.tags.length > 0 && (
         <div className="flex gap-2 flex-wrap">
-          {memo.tags.map((tag, index) => (
-            <span
-              key={index}
-              className="px-2 py-1 bg-gray-100 text-gray-600 text-xs rounded-md"
-            >
-              #{tag}
-            </span>
-          ))}
+          {memo.tags.map((tag, index) =>
+            onTagClick ? (
+              <button
+                key={index}
+                onClick={event => {
+                  event.stopPropagation()
+                  onTagClick(tag)
+                }}
+                className={`px-2 py-1 text-xs rounded-md transition-colors ${
+                  selectedTags.includes(tag)
+                    ? 'bg-blue-100 text-blue-800'
+                    : 'bg-gray-100 text-gray-600 hover:bg-blue-50 hover:text-blue-700'
+                }`}
+                title="이 태그로 거르기"
+              >
+                #{tag}
+              </button>
+            ) : (
+              <span
+                key={index}
+                className="px-2 py-1 bg-gray-100 text-gray-600 text-xs rounded-md"
+              >
+                #{tag}
+              </span>
+            )
+          )}
         </div>
       )}
     </div>
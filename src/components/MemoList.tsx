@@ -1,22 +1,68 @@
 'use client'
 
-import { Memo, MEMO_CATEGORIES, DEFAULT_CATEGORIES } from '@/types/memo'
+import { Memo } from '@/types/memo'
+import { Category } from '@/types/category'
+import { resolveCategory } from '@/utils/categories'
+import {
+  MemoSearchHighlights,
+  SEARCH_CANDIDATE_LIMIT,
+} from '@/utils/memoSearch'
+import { SearchQueryError } from '@/utils/searchQuery'
+import { TagCount, TagFilterMode } from '@/utils/tags'
+import { MEMO_SORT_FIELDS, MemoSort, MemoSortField } from '@/utils/memoSort'
 import MemoItem from './MemoItem'
+import VirtualGrid from './VirtualGrid'
+import TagFilterBar from './TagFilterBar'
+import { TRASH_RETENTION_DAYS } from '@/utils/memoTrash'
 
 interface MemoListProps {
   memos: Memo[]
   loading: boolean
   searchQuery: string
   selectedCategory: string
+  // 필터와 메모 카드에 표시할 카테고리 (표시 순서대로)
+  categories: Category[]
   onSearchChange: (query: string) => void
   onCategoryChange: (category: string) => void
+  // 태그 필터 (태그 칩을 누르면 필터에 추가)
+  tagCounts?: TagCount[]
+  selectedTags?: string[]
+  tagFilterMode?: TagFilterMode
+  onToggleTag?: (tag: string) => void
+  onTagFilterModeChange?: (mode: TagFilterMode) => void
+  onClearTags?: () => void
+  // 목록 정렬 (검색 중에는 관련도 순)
+  sort?: MemoSort
+  onSortChange?: (sort: MemoSort) => void
   onEditMemo: (memo: Memo) => void
   onDeleteMemo: (id: string) => void
   onSelectMemo: (memo: Memo) => void
+  onTogglePin?: (id: string) => void
+  pendingMemoIds?: string[]
+  searchHighlights?: Record<string, MemoSearchHighlights>
+  searchErrors?: SearchQueryError[]
+  // 후보가 많아 최근에 수정한 일부 메모 안에서만 검색했는지
+  searchTruncated?: boolean
+  isSearching?: boolean
+  hasMore?: boolean
+  loadingMore?: boolean
+  onLoadMore?: () => void
+  isTrashView?: boolean
+  onShowTrash?: (show: boolean) => void
+  onRestoreMemo?: (id: string) => void
+  onPurgeMemo?: (id: string) => void
+  onEmptyTrash?: () => void
+  // 카테고리 관리 대화상자 열기
+  onManageCategories?: () => void
+  // 태그 관리 대화상자 열기
+  onManageTags?: () => void
+  // 뷰어 역할이면 false (편집/삭제 버튼 숨김)
+  canEdit?: boolean
   stats: {
     total: number
     filtered: number
     byCategory: Record<string, number>
+    trash?: number
   }
 }
 
@@ -25,13 +71,44 @@ export default function MemoList({
   loading,
   searchQuery,
   selectedCategory,
+  categories,
   onSearchChange,
   onCategoryChange,
+  tagCounts = [],
+  selectedTags = [],
+  tagFilterMode = 'and',
+  onToggleTag,
+  onTagFilterModeChange,
+  onClearTags,
+  sort,
+  onSortChange,
   onEditMemo,
   onDeleteMemo,
   onSelectMemo,
+  onTogglePin,
+  pendingMemoIds = [],
+  searchHighlights = {},
+  searchErrors = [],
+  searchTruncated = false,
+  isSearching = false,
+  hasMore = false,
+  loadingMore = false,
+  onLoadMore,
+  isTrashView = false,
+  onShowTrash,
+  onRestoreMemo,
+  onPurgeMemo,
+  onEmptyTrash,
+  onManageCategories,
+  onManageTags,
+  canEdit = true,
   stats,
 }: MemoListProps) {
+  const isFiltered =
+    Boolean(searchQuery) ||
+    selectedCategory !== 'all' ||
+    selectedTags.length > 0
+
   if (loading) {
     return (
       <div className="flex items-center justify-center py-12">
@@ -43,83 +120,221 @@ export default function MemoList({
 
   return (
     <div className="space-y-6">
-      {/* 검색 및 필터 */}
-      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
-        <div className="flex flex-col sm:flex-row gap-4">
-          {/* 검색 */}
-          <div className="flex-1">
-            <div className="relative">
-              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                <svg
-                  className="h-5 w-5 text-gray-400"
-                  fill="none"
-                  stroke="currentColor"
-                  viewBox="0 0 24 24"
-                >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"
-                  />
-                </svg>
-              </div>
-              <input
-                type="text"
-                value={searchQuery}
-                onChange={e => onSearchChange(e.target.value)}
-                className="placeholder-gray-400 text-gray-400 block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
-                placeholder="메모 검색..."
-              />
-            </div>
+      {isTrashView ? (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">
+              휴지통 ({stats.filtered}개)
+            </h2>
+            <p className="text-sm text-gray-500">
+              휴지통의 메모는 {TRASH_RETENTION_DAYS}일이 지나면 자동으로 영구
+              삭제됩니다.
+            </p>
           </div>
-
-          {/* 카테고리 필터 */}
-          <div className="sm:w-48">
-            <select
-              value={selectedCategory}
-              onChange={e => onCategoryChange(e.target.value)}
-              className="text-gray-400 block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+          <div className="flex gap-3">
+            {onEmptyTrash && canEdit && memos.length > 0 && (
+              <button
+                onClick={onEmptyTrash}
+                className="px-4 py-2 text-sm font-medium text-red-600 bg-red-50 hover:bg-red-100 rounded-lg transition-colors"
+              >
+                휴지통 비우기
+              </button>
+            )}
+            <button
+              onClick={() => onShowTrash?.(false)}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
             >
-              <option value="all">전체 카테고리</option>
-              {DEFAULT_CATEGORIES.map(category => (
-                <option key={category} value={category}>
-                  {MEMO_CATEGORIES[category]} ({stats.byCategory[category] || 0}
-                  )
-                </option>
-              ))}
-            </select>
+              메모 목록으로
+            </button>
           </div>
         </div>
+      ) : (
+        /* 검색 및 필터 */
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+          <div className="flex flex-col sm:flex-row gap-4">
+            {/* 검색 */}
+            <div className="flex-1">
+              <div className="relative">
+                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                  <svg
+                    className="h-5 w-5 text-gray-400"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"
+                    />
+                  </svg>
+                </div>
+                <input
+                  type="text"
+                  value={searchQuery}
+                  onChange={e => onSearchChange(e.target.value)}
+                  className="placeholder-gray-400 text-gray-400 block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                  placeholder="메모 검색... (예: tag:React -draft updated:>2026-01-01)"
+                  aria-invalid={searchErrors.length > 0}
+                />
+              </div>
+              {searchErrors.length > 0 && (
+                <ul className="mt-2 space-y-1 text-xs text-red-600">
+                  {searchErrors.map((searchError, index) => (
+                    <li key={index}>
+                      {searchError.position + 1}번째 글자: {searchError.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {searchTruncated && (
+                <p className="mt-2 text-xs text-amber-700">
+                  일치하는 메모가 많아 최근에 수정한 {SEARCH_CANDIDATE_LIMIT}개
+                  메모 안에서만 검색했습니다. 검색어나 필터를 더 구체적으로
+                  입력하세요.
+                </p>
+              )}
+            </div>
 
-        {/* 통계 정보 */}
-        <div className="mt-4 flex items-center justify-between text-sm text-gray-600">
-          <div>
-            {searchQuery || selectedCategory !== 'all' ? (
-              <span>
-                {stats.filtered}개 메모 (전체 {stats.total}개 중)
-              </span>
-            ) : (
-              <span>총 {stats.total}개의 메모</span>
-            )}
+            {/* 카테고리 필터 */}
+            <div className="sm:w-56 flex gap-2">
+              <select
+                value={selectedCategory}
+                onChange={e => onCategoryChange(e.target.value)}
+                className="text-gray-400 block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+              >
+                <option value="all">전체 카테고리</option>
+                {categories.map(category => (
+                  <option key={category.id} value={category.id}>
+                    {category.icon} {category.name} (
+                    {stats.byCategory[category.id] || 0})
+                  </option>
+                ))}
+              </select>
+              {onManageCategories && canEdit && (
+                <button
+                  onClick={onManageCategories}
+                  className="shrink-0 px-3 py-2 text-sm text-gray-600 border border-gray-300 hover:bg-gray-100 rounded-lg transition-colors"
+                  title="카테고리 관리"
+                  aria-label="카테고리 관리"
+                >
+                  ⚙️
+                </button>
+              )}
+              {onManageTags && canEdit && (
+                <button
+                  onClick={onManageTags}
+                  className="shrink-0 px-3 py-2 text-sm text-gray-600 border border-gray-300 hover:bg-gray-100 rounded-lg transition-colors"
+                  title="태그 관리"
+                  aria-label="태그 관리"
+                >
+                  🏷️
+                </button>
+              )}
+            </div>
           </div>
 
-          {(searchQuery || selectedCategory !== 'all') && (
-            <button
-              onClick={() => {
-                onSearchChange('')
-                onCategoryChange('all')
-              }}
-              className="text-blue-600 hover:text-blue-800 hover:underline"
-            >
-              필터 초기화
-            </button>
+          {/* 태그 필터 */}
+          {onToggleTag && onTagFilterModeChange && onClearTags && (
+            <TagFilterBar
+              tagCounts={tagCounts}
+              selectedTags={selectedTags}
+              mode={tagFilterMode}
+              onToggleTag={onToggleTag}
+              onModeChange={onTagFilterModeChange}
+              onClear={onClearTags}
+            />
           )}
+
+          {/* 통계 정보 */}
+          <div className="mt-4 flex items-center justify-between text-sm text-gray-600">
+            <div>
+              {isFiltered ? (
+                <span>
+                  {stats.filtered}개 메모 (전체 {stats.total}개 중)
+                </span>
+              ) : (
+                <span>총 {stats.total}개의 메모</span>
+              )}
+            </div>
+
+            <div className="flex items-center gap-4">
+              {sort && onSortChange && (
+                <div className="flex items-center gap-1">
+                  <select
+                    value={sort.field}
+                    onChange={e =>
+                      onSortChange({
+                        ...sort,
+                        field: e.target.value as MemoSortField,
+                      })
+                    }
+                    disabled={Boolean(searchQuery)}
+                    className="text-gray-600 text-sm px-2 py-1 border border-gray-300 rounded-lg disabled:opacity-50"
+                    aria-label="정렬 기준"
+                    title={
+                      searchQuery ? '검색 중에는 관련도 순으로 표시됩니다.' : ''
+                    }
+                  >
+                    {(Object.keys(MEMO_SORT_FIELDS) as MemoSortField[]).map(
+                      field => (
+                        <option key={field} value={field}>
+                          {MEMO_SORT_FIELDS[field]}
+                        </option>
+                      )
+                    )}
+                  </select>
+                  <button
+                    onClick={() =>
+                      onSortChange({
+                        ...sort,
+                        direction: sort.direction === 'asc' ? 'desc' : 'asc',
+                      })
+                    }
+                    disabled={Boolean(searchQuery)}
+                    className="px-2 py-1 text-gray-600 border border-gray-300 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50"
+                    title={sort.direction === 'asc' ? '오름차순' : '내림차순'}
+                    aria-label={
+                      sort.direction === 'asc' ? '오름차순' : '내림차순'
+                    }
+                  >
+                    {sort.direction === 'asc' ? '↑' : '↓'}
+                  </button>
+                </div>
+              )}
+              {isFiltered && (
+                <button
+                  onClick={() => {
+                    onSearchChange('')
+                    onCategoryChange('all')
+                    onClearTags?.()
+                  }}
+                  className="text-blue-600 hover:text-blue-800 hover:underline"
+                >
+                  필터 초기화
+                </button>
+              )}
+              {onShowTrash && (
+                <button
+                  onClick={() => onShowTrash(true)}
+                  className="text-gray-500 hover:text-gray-700 hover:underline"
+                >
+                  휴지통{stats.trash ? ` (${stats.trash})` : ''}
+                </button>
+              )}
+            </div>
+          </div>
         </div>
-      </div>
+      )}
 
       {/* 메모 목록 */}
-      {memos.length === 0 ? (
+      {isSearching && memos.length === 0 ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          <span className="ml-3 text-gray-600">검색 중...</span>
+        </div>
+      ) : memos.length === 0 ? (
         <div className="text-center py-12">
           <div className="mx-auto w-24 h-24 bg-gray-100 rounded-full flex items-center justify-center mb-4">
             <svg
@@ -137,27 +352,52 @@ export default function MemoList({
             </svg>
           </div>
           <h3 className="text-lg font-medium text-gray-900 mb-2">
-            {searchQuery || selectedCategory !== 'all'
-              ? '검색 결과가 없습니다'
-              : '아직 메모가 없습니다'}
+            {isTrashView
+              ? '휴지통이 비어 있습니다'
+              : searchQuery || selectedCategory !== 'all'
+                ? '검색 결과가 없습니다'
+                : '아직 메모가 없습니다'}
           </h3>
           <p className="text-gray-600 mb-4">
-            {searchQuery || selectedCategory !== 'all'
-              ? '다른 검색어나 카테고리를 시도해보세요.'
-              : '첫 번째 메모를 작성해보세요!'}
+            {isTrashView
+              ? '삭제한 메모는 이곳에 보관됩니다.'
+              : searchQuery || selectedCategory !== 'all'
+                ? '다른 검색어나 카테고리를 시도해보세요.'
+                : '첫 번째 메모를 작성해보세요!'}
           </p>
         </div>
       ) : (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {memos.map(memo => (
+        <VirtualGrid
+          items={memos}
+          getKey={memo => memo.id}
+          renderItem={memo => (
             <MemoItem
-              key={memo.id}
               memo={memo}
+              category={resolveCategory(categories, memo.category)}
               onEdit={onEditMemo}
               onDelete={onDeleteMemo}
               onSelect={onSelectMemo}
+              onTogglePin={onTogglePin}
+              isPendingSync={pendingMemoIds.includes(memo.id)}
+              highlights={searchHighlights[memo.id]}
+              onRestore={onRestoreMemo}
+              onPurge={onPurgeMemo}
+              onTagClick={isTrashView ? undefined : onToggleTag}
+              selectedTags={selectedTags}
+              canEdit={canEdit}
             />
-          ))}
+          )}
+          onEndReached={hasMore ? onLoadMore : undefined}
+        />
+      )}
+
+      {/* 다음 페이지 불러오는 중 */}
+      {loadingMore && (
+        <div className="flex items-center justify-center py-6">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+          <span className="ml-3 text-sm text-gray-600">
+            메모를 더 불러오는 중...
+          </span>
         </div>
       )}
     </div>
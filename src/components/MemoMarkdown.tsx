@@ -0,0 +1,44 @@
+'use client'
+
+import { MouseEvent } from 'react'
+import dynamic from 'next/dynamic'
+import { parseWikiLinkHref, renderWikiLinks } from '@/utils/wikiLinks'
+
+const Markdown = dynamic(
+  () => import('@uiw/react-markdown-preview').then(mod => mod.default),
+  { ssr: false }
+)
+
+interface MemoMarkdownProps {
+  source: string
+  // [[메모 제목]] 링크를 눌렀을 때 (없으면 링크 대신 제목만 표시)
+  onWikiLinkClick?: (title: string) => void
+}
+
+// 메모 내용 마크다운 렌더링 (뷰어와 공유 페이지 공용)
+export default function MemoMarkdown({
+  source,
+  onWikiLinkClick,
+}: MemoMarkdownProps) {
+  // 렌더링된 링크마다 핸들러를 붙이지 않고 감싼 요소에서 한 번에 처리
+  const handleClick = (event: MouseEvent<HTMLDivElement>) => {
+    if (!onWikiLinkClick || !(event.target instanceof Element)) return
+
+    const anchor = event.target.closest('a')
+    const title = parseWikiLinkHref(anchor?.getAttribute('href') ?? null)
+    if (title) {
+      event.preventDefault()
+      onWikiLinkClick(title)
+    }
+  }
+
+  return (
+    <div
+      data-color-mode="light"
+      className="text-gray-800"
+      onClick={handleClick}
+    >
+      <Markdown source={renderWikiLinks(source, Boolean(onWikiLinkClick))} />
+    </div>
+  )
+}
@@ -0,0 +1,322 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Memo } from '@/types/memo'
+import {
+  Workspace,
+  WorkspaceMember,
+  WorkspaceRole,
+  WORKSPACE_ROLES,
+} from '@/types/workspace'
+import { canEditWithRole } from '@/utils/workspaceScope'
+
+interface MemoShareDialogProps {
+  memo: Memo
+  workspaces: Workspace[]
+  currentUserId: string
+  // 현재 역할로 메모를 옮길 수 있는지 (뷰어는 불가)
+  canEdit: boolean
+  onMove: (id: string, workspaceId: string | null) => Promise<void>
+  onLoadMembers: (workspaceId: string) => Promise<WorkspaceMember[]>
+  onAddMember: (
+    workspaceId: string,
+    email: string,
+    role: WorkspaceRole
+  ) => Promise<WorkspaceMember>
+  onUpdateMemberRole: (
+    workspaceId: string,
+    email: string,
+    role: WorkspaceRole
+  ) => Promise<WorkspaceMember>
+  onRemoveMember: (workspaceId: string, email: string) => Promise<void>
+  onClose: () => void
+}
+
+// 초대할 때 고를 수 있는 역할 (소유자는 워크스페이스를 만든 사람뿐)
+const INVITE_ROLES: WorkspaceRole[] = ['editor', 'viewer']
+
+// 개인 메모를 나타내는 선택지 값
+const PERSONAL = ''
+
+export default function MemoShareDialog({
+  memo,
+  workspaces,
+  currentUserId,
+  canEdit,
+  onMove,
+  onLoadMembers,
+  onAddMember,
+  onUpdateMemberRole,
+  onRemoveMember,
+  onClose,
+}: MemoShareDialogProps) {
+  const [targetId, setTargetId] = useState(memo.workspaceId || PERSONAL)
+  const [isMoving, setIsMoving] = useState(false)
+  const [members, setMembers] = useState<WorkspaceMember[]>([])
+  const [inviteEmail, setInviteEmail] = useState('')
+  const [inviteRole, setInviteRole] = useState<WorkspaceRole>('editor')
+  const [error, setError] = useState<string | null>(null)
+
+  const workspace = workspaces.find(item => item.id === memo.workspaceId)
+  const isWorkspaceOwner = workspace?.role === 'owner'
+  // 개인 메모로 되돌리는 것은 메모를 만든 사람만 가능
+  const canMoveToPersonal = !memo.ownerId || memo.ownerId === currentUserId
+  const moveTargets = workspaces.filter(item => canEditWithRole(item.role))
+
+  // 메모가 속한 워크스페이스의 멤버 불러오기
+  useEffect(() => {
+    if (!memo.workspaceId) {
+      setMembers([])
+      return
+    }
+
+    let cancelled = false
+    onLoadMembers(memo.workspaceId)
+      .then(loaded => {
+        if (!cancelled) setMembers(loaded)
+      })
+      .catch(err => {
+        console.error('Failed to load workspace members:', err)
+        if (!cancelled) setError('멤버 목록을 불러오지 못했습니다.')
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [memo.workspaceId, onLoadMembers])
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose()
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [onClose])
+
+  const handleMove = async () => {
+    setIsMoving(true)
+    setError(null)
+    try {
+      await onMove(memo.id, targetId || null)
+      onClose()
+    } catch (err) {
+      console.error('Failed to move memo:', err)
+      setError('메모를 옮기지 못했습니다.')
+    } finally {
+      setIsMoving(false)
+    }
+  }
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!memo.workspaceId || !inviteEmail.trim()) return
+
+    setError(null)
+    try {
+      const member = await onAddMember(
+        memo.workspaceId,
+        inviteEmail,
+        inviteRole
+      )
+      setMembers(prev => [...prev, member])
+      setInviteEmail('')
+    } catch (err) {
+      console.error('Failed to invite member:', err)
+      setError('멤버를 초대하지 못했습니다.')
+    }
+  }
+
+  const handleRoleChange = async (email: string, role: WorkspaceRole) => {
+    if (!memo.workspaceId) return
+
+    setError(null)
+    try {
+      const updated = await onUpdateMemberRole(memo.workspaceId, email, role)
+      setMembers(prev =>
+        prev.map(member => (member.email === email ? updated : member))
+      )
+    } catch (err) {
+      console.error('Failed to update member role:', err)
+      setError('역할을 변경하지 못했습니다.')
+    }
+  }
+
+  const handleRemove = async (email: string) => {
+    if (!memo.workspaceId) return
+    if (!window.confirm(`${email} 님을 워크스페이스에서 내보내시겠습니까?`)) {
+      return
+    }
+
+    setError(null)
+    try {
+      await onRemoveMember(memo.workspaceId, email)
+      setMembers(prev => prev.filter(member => member.email !== email))
+    } catch (err) {
+      console.error('Failed to remove member:', err)
+      setError('멤버를 내보내지 못했습니다.')
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-[60]">
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6 space-y-6">
+          <div className="flex justify-between items-start">
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">메모 공유</h2>
+              <p className="mt-1 text-sm text-gray-600">
+                현재 위치:{' '}
+                {workspace ? workspace.name : '내 메모 (나만 볼 수 있음)'}
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+              aria-label="닫기"
+            >
+              <svg
+                className="w-5 h-5"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M6 18L18 6M6 6l12 12"
+                />
+              </svg>
+            </button>
+          </div>
+
+          {/* 워크스페이스로 옮기기 */}
+          {canEdit && (
+            <div className="space-y-2">
+              <h3 className="text-sm font-semibold text-gray-500">
+                워크스페이스로 옮기기
+              </h3>
+              <div className="flex gap-2">
+                <select
+                  value={targetId}
+                  onChange={e => setTargetId(e.target.value)}
+                  className="text-black flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  {canMoveToPersonal && (
+                    <option value={PERSONAL}>내 메모 (나만 볼 수 있음)</option>
+                  )}
+                  {moveTargets.map(item => (
+                    <option key={item.id} value={item.id}>
+                      {item.name}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleMove}
+                  disabled={
+                    isMoving || targetId === (memo.workspaceId || PERSONAL)
+                  }
+                  className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isMoving ? '옮기는 중...' : '옮기기'}
+                </button>
+              </div>
+              {moveTargets.length === 0 && (
+                <p className="text-xs text-gray-400">
+                  편집 권한이 있는 워크스페이스가 없습니다. 워크스페이스를 만든
+                  뒤 멤버를 초대하세요.
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* 멤버 */}
+          {workspace && (
+            <div className="space-y-3">
+              <h3 className="text-sm font-semibold text-gray-500">
+                {workspace.name} 멤버
+              </h3>
+              <ul className="divide-y divide-gray-100">
+                {members.map(member => (
+                  <li
+                    key={member.email}
+                    className="flex items-center justify-between py-2 gap-2"
+                  >
+                    <span className="text-sm text-gray-800 truncate">
+                      {member.email}
+                    </span>
+                    {isWorkspaceOwner && member.role !== 'owner' ? (
+                      <div className="flex items-center gap-2">
+                        <select
+                          value={member.role}
+                          onChange={e =>
+                            handleRoleChange(
+                              member.email,
+                              e.target.value as WorkspaceRole
+                            )
+                          }
+                          className="text-black text-xs px-2 py-1 border border-gray-300 rounded-lg"
+                        >
+                          {INVITE_ROLES.map(role => (
+                            <option key={role} value={role}>
+                              {WORKSPACE_ROLES[role]}
+                            </option>
+                          ))}
+                        </select>
+                        <button
+                          onClick={() => handleRemove(member.email)}
+                          className="text-xs text-red-600 hover:underline"
+                        >
+                          내보내기
+                        </button>
+                      </div>
+                    ) : (
+                      <span className="text-xs text-gray-500">
+                        {WORKSPACE_ROLES[member.role]}
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+
+              {isWorkspaceOwner && (
+                <form onSubmit={handleInvite} className="flex gap-2">
+                  <input
+                    type="email"
+                    value={inviteEmail}
+                    onChange={e => setInviteEmail(e.target.value)}
+                    className="placeholder-gray-400 text-black flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    placeholder="초대할 이메일"
+                    required
+                  />
+                  <select
+                    value={inviteRole}
+                    onChange={e =>
+                      setInviteRole(e.target.value as WorkspaceRole)
+                    }
+                    className="text-black px-2 py-2 border border-gray-300 rounded-lg"
+                  >
+                    {INVITE_ROLES.map(role => (
+                      <option key={role} value={role}>
+                        {WORKSPACE_ROLES[role]}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    type="submit"
+                    className="px-4 py-2 text-sm font-medium text-blue-600 bg-blue-50 hover:bg-blue-100 rounded-lg transition-colors"
+                  >
+                    초대
+                  </button>
+                </form>
+              )}
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+      </div>
+    </div>
+  )
+}
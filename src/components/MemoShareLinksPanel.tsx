@@ -0,0 +1,199 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { MemoShareLink } from '@/types/memo'
+import {
+  SHARE_LINK_EXPIRY_OPTIONS,
+  getShareLinkExpiry,
+  getShareUrl,
+  isShareLinkActive,
+} from '@/utils/shareLinks'
+
+interface MemoShareLinksPanelProps {
+  memoId: string
+  onLoadShareLinks: (memoId: string) => Promise<MemoShareLink[]>
+  onCreateShareLink: (
+    memoId: string,
+    expiresAt?: string
+  ) => Promise<MemoShareLink>
+  onRevokeShareLink: (token: string) => Promise<MemoShareLink>
+}
+
+export default function MemoShareLinksPanel({
+  memoId,
+  onLoadShareLinks,
+  onCreateShareLink,
+  onRevokeShareLink,
+}: MemoShareLinksPanelProps) {
+  const [links, setLinks] = useState<MemoShareLink[]>([])
+  const [expiryIndex, setExpiryIndex] = useState(0)
+  const [isLoading, setIsLoading] = useState(false)
+  const [isCreating, setIsCreating] = useState(false)
+  const [copiedToken, setCopiedToken] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const loadLinks = async () => {
+      setIsLoading(true)
+      setError(null)
+      try {
+        const loaded = await onLoadShareLinks(memoId)
+        if (!cancelled) setLinks(loaded)
+      } catch (err) {
+        console.error('Failed to load share links:', err)
+        if (!cancelled) setError('공유 링크를 불러오지 못했습니다.')
+      } finally {
+        if (!cancelled) setIsLoading(false)
+      }
+    }
+
+    loadLinks()
+    return () => {
+      cancelled = true
+    }
+  }, [memoId, onLoadShareLinks])
+
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString)
+    return date.toLocaleString('ko-KR', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    })
+  }
+
+  const getStatus = (link: MemoShareLink) => {
+    if (link.revokedAt) return '폐기됨'
+    if (!isShareLinkActive(link)) return '만료됨'
+    return link.expiresAt ? `${formatDate(link.expiresAt)}까지` : '만료 없음'
+  }
+
+  const handleCreate = async () => {
+    setIsCreating(true)
+    setError(null)
+    try {
+      const link = await onCreateShareLink(
+        memoId,
+        getShareLinkExpiry(SHARE_LINK_EXPIRY_OPTIONS[expiryIndex].days)
+      )
+      setLinks(prev => [link, ...prev])
+    } catch (err) {
+      console.error('Failed to create share link:', err)
+      setError('공유 링크를 만들지 못했습니다.')
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  const handleCopy = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(getShareUrl(token))
+      setCopiedToken(token)
+    } catch (err) {
+      console.error('Failed to copy share link:', err)
+      window.prompt('공유 링크를 복사하세요.', getShareUrl(token))
+    }
+  }
+
+  const handleRevoke = async (token: string) => {
+    if (
+      !window.confirm(
+        '이 링크를 폐기하시겠습니까? 링크로 더 이상 열 수 없습니다.'
+      )
+    ) {
+      return
+    }
+
+    setError(null)
+    try {
+      const revoked = await onRevokeShareLink(token)
+      setLinks(prev =>
+        prev.map(link => (link.token === token ? revoked : link))
+      )
+    } catch (err) {
+      console.error('Failed to revoke share link:', err)
+      setError('공유 링크를 폐기하지 못했습니다.')
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-gray-500">
+        링크를 가진 사람은 로그인 없이 이 메모와 AI 요약을 읽을 수 있습니다.
+      </p>
+
+      <div className="flex gap-2">
+        <select
+          value={expiryIndex}
+          onChange={e => setExpiryIndex(Number(e.target.value))}
+          className="text-black text-sm px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          aria-label="만료 기간"
+        >
+          {SHARE_LINK_EXPIRY_OPTIONS.map((option, index) => (
+            <option key={option.label} value={index}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={handleCreate}
+          disabled={isCreating}
+          className="px-4 py-2 text-sm font-medium text-blue-600 bg-blue-50 hover:bg-blue-100 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isCreating ? '만드는 중...' : '공유 링크 만들기'}
+        </button>
+      </div>
+
+      {isLoading && links.length === 0 ? (
+        <p className="text-sm text-gray-400">공유 링크를 불러오는 중...</p>
+      ) : links.length === 0 ? (
+        <p className="text-sm text-gray-400">아직 만든 공유 링크가 없습니다.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {links.map(link => {
+            const isActive = isShareLinkActive(link)
+            return (
+              <li
+                key={link.token}
+                className="flex items-center justify-between py-2 gap-2"
+              >
+                <div className="min-w-0">
+                  <p
+                    className={`text-xs font-mono truncate ${isActive ? 'text-gray-800' : 'text-gray-400 line-through'}`}
+                  >
+                    /share/{link.token}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {formatDate(link.createdAt)} 생성 · {getStatus(link)}
+                  </p>
+                </div>
+                {isActive && (
+                  <div className="flex items-center gap-2 shrink-0">
+                    <button
+                      onClick={() => handleCopy(link.token)}
+                      className="text-xs text-blue-600 hover:underline"
+                    >
+                      {copiedToken === link.token ? '복사됨' : '복사'}
+                    </button>
+                    <button
+                      onClick={() => handleRevoke(link.token)}
+                      className="text-xs text-red-600 hover:underline"
+                    >
+                      폐기
+                    </button>
+                  </div>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  )
+}
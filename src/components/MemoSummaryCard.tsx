@@ -0,0 +1,41 @@
+interface MemoSummaryCardProps {
+  summary: string
+  // 요약이 아직 생성되는 중인지 (받은 데까지 표시)
+  isStreaming?: boolean
+}
+
+// AI 요약 카드 (뷰어와 공유 페이지 공용)
+export default function MemoSummaryCard({
+  summary,
+  isStreaming = false,
+}: MemoSummaryCardProps) {
+  return (
+    <div className="bg-gradient-to-r from-purple-50 to-blue-50 border border-purple-200 rounded-lg p-4">
+      <div className="flex items-center gap-2 mb-2">
+        <svg
+          className="w-4 h-4 text-purple-600"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z"
+          />
+        </svg>
+        <h3 className="text-sm font-semibold text-purple-700">AI 요약</h3>
+        {isStreaming && (
+          <span className="text-xs text-purple-500 animate-pulse">
+            생성 중...
+          </span>
+        )}
+      </div>
+      {/* 글머리표 형식의 요약도 줄을 나눠 표시 */}
+      <p className="text-sm text-gray-700 leading-relaxed whitespace-pre-line">
+        {summary}
+      </p>
+    </div>
+  )
+}
@@ -1,38 +1,96 @@
 'use client'
 
-import { useEffect, useState } from 'react'
-import dynamic from 'next/dynamic'
-import { Memo, MEMO_CATEGORIES, MemoCategory } from '@/types/memo'
-
-const Markdown = dynamic(
-  () => import('@uiw/react-markdown-preview').then(mod => mod.default),
-  { ssr: false }
-)
+import { useEffect, useRef, useState } from 'react'
+import { Memo, MemoRevision, MemoShareLink } from '@/types/memo'
+import { Category } from '@/types/category'
+import { getAuthHeaders } from '@/lib/auth'
+import { resolveCategory } from '@/utils/categories'
+import {
+  DEFAULT_SUMMARY_OPTIONS,
+  MemoSummaryOptions,
+  SUMMARY_FORMATS,
+  SUMMARY_LANGUAGES,
+  SUMMARY_LENGTHS,
+  SummaryFormat,
+  SummaryLanguage,
+  SummaryLength,
+} from '@/utils/memoSummary'
+import { streamMemoSummary } from '@/utils/memoSummaryApi'
+import CategoryBadge from './CategoryBadge'
+import MemoBacklinks from './MemoBacklinks'
+import MemoHistoryPanel from './MemoHistoryPanel'
+import MemoMarkdown from './MemoMarkdown'
+import MemoSummaryCard from './MemoSummaryCard'
+import MemoShareLinksPanel from './MemoShareLinksPanel'
 
 interface MemoViewerProps {
   memo: Memo | null
   isOpen: boolean
+  // 메모 카테고리의 이름, 색상, 아이콘을 찾을 카테고리 목록
+  categories: Category[]
   onClose: () => void
   onEdit: (memo: Memo) => void
   onDelete: (id: string) => void
   onUpdateSummary?: (id: string, summary: string) => void
   onUpdateTags?: (id: string, tags: string[]) => void
+  onLoadRevisions?: (id: string) => Promise<MemoRevision[]>
+  onRestoreRevision?: (id: string, revision: MemoRevision) => Promise<void>
+  // 공유 대화상자 열기
+  onShare?: (memo: Memo) => void
+  // 공개 공유 링크 관리
+  onLoadShareLinks?: (memoId: string) => Promise<MemoShareLink[]>
+  onCreateShareLink?: (
+    memoId: string,
+    expiresAt?: string
+  ) => Promise<MemoShareLink>
+  onRevokeShareLink?: (token: string) => Promise<MemoShareLink>
+  // 태그를 눌렀을 때 (뷰어를 닫고 태그 필터에 추가)
+  onTagClick?: (tag: string) => void
+  // 목록 맨 위 고정 / 해제
+  onTogglePin?: (id: string) => void
+  // 내용의 [[메모 제목]] 링크를 눌렀을 때 (링크한 메모를 엶)
+  onWikiLinkClick?: (title: string) => void
+  // 이 메모를 링크한 메모 (백링크)
+  onLoadBacklinks?: (memo: Memo) => Promise<Memo[]>
+  onSelectMemo?: (memo: Memo) => void
+  // 뷰어 역할이면 false (편집, 삭제, AI 생성, 버전 복원 불가)
+  canEdit?: boolean
 }
 
 export default function MemoViewer({
   memo,
   isOpen,
+  categories,
   onClose,
   onEdit,
   onDelete,
   onUpdateSummary,
   onUpdateTags,
+  onLoadRevisions,
+  onRestoreRevision,
+  onShare,
+  onLoadShareLinks,
+  onCreateShareLink,
+  onRevokeShareLink,
+  onTagClick,
+  onTogglePin,
+  onWikiLinkClick,
+  onLoadBacklinks,
+  onSelectMemo,
+  canEdit = true,
 }: MemoViewerProps) {
   const [summary, setSummary] = useState<string | null>(null)
   const [isLoadingSummary, setIsLoadingSummary] = useState(false)
   const [summaryError, setSummaryError] = useState<string | null>(null)
+  const [summaryOptions, setSummaryOptions] = useState<MemoSummaryOptions>(
+    DEFAULT_SUMMARY_OPTIONS
+  )
+  // 생성 중인 요약 요청 (다른 메모를 열거나 닫으면 중단)
+  const summaryAbortRef = useRef<AbortController | null>(null)
   const [isLoadingTags, setIsLoadingTags] = useState(false)
   const [tagsError, setTagsError] = useState<string | null>(null)
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false)
+  const [isShareLinksOpen, setIsShareLinksOpen] = useState(false)
 
   useEffect(() => {
     if (!isOpen) return
@@ -49,64 +107,77 @@ export default function MemoViewer({
     }
   }, [isOpen, onClose])
 
+  // 다른 메모를 열면 버전 기록, 공유 링크 패널 닫기
+  useEffect(() => {
+    setIsHistoryOpen(false)
+    setIsShareLinksOpen(false)
+  }, [memo?.id])
+
   // 모달이 열릴 때 저장된 요약 조회 또는 상태 초기화
+  const memoId = memo?.id
+  const savedSummary = memo?.summary
   useEffect(() => {
-    if (isOpen && memo) {
+    if (isOpen && memoId) {
       // 저장된 요약이 있으면 표시
-      if (memo.summary) {
-        setSummary(memo.summary)
-      } else {
-        setSummary(null)
-      }
+      setSummary(savedSummary || null)
       setSummaryError(null)
       setIsLoadingSummary(false)
     }
-  }, [isOpen, memo])
+  }, [isOpen, memoId, savedSummary])
 
+  // 다른 메모를 열거나 뷰어를 닫으면 생성 중인 요약 중단
+  useEffect(() => {
+    return () => {
+      summaryAbortRef.current?.abort()
+      summaryAbortRef.current = null
+    }
+  }, [isOpen, memoId])
+
+  // 요약 생성 (이미 요약이 있으면 새 옵션으로 다시 생성)
   const handleGenerateSummary = async () => {
     if (!memo) return
 
+    const controller = new AbortController()
+    summaryAbortRef.current?.abort()
+    summaryAbortRef.current = controller
     setIsLoadingSummary(true)
     setSummaryError(null)
+    setSummary('')
 
     try {
-      const response = await fetch('/api/memo-summary', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          memoId: memo.id,
-          title: memo.title,
-          content: memo.content,
-        }),
-      })
-
-      if (!response.ok) {
-        const errorData = await response.json()
-        throw new Error(errorData.error || '요약 생성에 실패했습니다.')
-      }
-
-      const data = await response.json()
-      const generatedSummary = data.summary
+      const generatedSummary = await streamMemoSummary(
+        memo,
+        summaryOptions,
+        setSummary,
+        controller.signal
+      )
       setSummary(generatedSummary)
 
       // 요약 저장
-      if (memo && onUpdateSummary) {
+      if (onUpdateSummary) {
         try {
           await onUpdateSummary(memo.id, generatedSummary)
         } catch (error) {
+          // 서버는 요약을 저장하지 않으므로 저장에 실패하면 알림
           console.error('Failed to save summary:', error)
-          // 요약은 생성되었지만 저장에 실패한 경우, 사용자에게 알리지 않고 계속 진행
+          setSummaryError('요약은 생성했지만 저장하지 못했습니다.')
         }
       }
     } catch (error) {
+      if (controller.signal.aborted) return
       console.error('요약 생성 오류:', error)
+      // 다시 생성하다 실패하면 저장된 요약을 그대로 표시
+      setSummary(memo.summary || null)
       setSummaryError(
-        error instanceof Error ? error.message : '요약 생성 중 오류가 발생했습니다.'
+        error instanceof Error
+          ? error.message
+          : '요약 생성 중 오류가 발생했습니다.'
       )
     } finally {
-      setIsLoadingSummary(false)
+      if (summaryAbortRef.current === controller) {
+        summaryAbortRef.current = null
+        setIsLoadingSummary(false)
+      }
     }
   }
 
@@ -121,9 +192,9 @@ export default function MemoViewer({
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...getAuthHeaders(),
         },
         body: JSON.stringify({
-          memoId: memo.id,
           title: memo.title,
           content: memo.content,
         }),
@@ -142,8 +213,9 @@ export default function MemoViewer({
         try {
           await onUpdateTags(memo.id, generatedTags)
         } catch (error) {
+          // 서버는 태그를 저장하지 않으므로 저장에 실패하면 알림
           console.error('Failed to save tags:', error)
-          // 태그는 생성되었지만 저장에 실패한 경우, 사용자에게 알리지 않고 계속 진행
+          setTagsError('태그는 생성했지만 저장하지 못했습니다.')
         }
       }
     } catch (error) {
@@ -172,7 +244,7 @@ export default function MemoViewer({
   }
 
   const handleDelete = async () => {
-    if (window.confirm('정말로 이 메모를 삭제하시겠습니까?')) {
+    if (window.confirm('이 메모를 휴지통으로 옮기시겠습니까?')) {
       try {
         await onDelete(memo.id)
       } catch (error) {
@@ -182,6 +254,15 @@ export default function MemoViewer({
     }
   }
 
+  const handleTogglePin = async () => {
+    try {
+      await onTogglePin?.(memo.id)
+    } catch (error) {
+      console.error('Failed to toggle memo pin:', error)
+      alert('메모 고정을 변경하지 못했습니다.')
+    }
+  }
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center">
       <div
@@ -195,9 +276,10 @@ export default function MemoViewer({
         <div className="flex items-start justify-between p-6 border-b border-gray-100">
           <div>
             <div className="flex items-center gap-3 mb-3">
-              <span className="px-3 py-1 text-xs font-semibold rounded-full bg-gray-100 text-gray-700">
-                {MEMO_CATEGORIES[memo.category as MemoCategory]}
-              </span>
+              <CategoryBadge
+                category={resolveCategory(categories, memo.category)}
+                className="px-3 py-1 text-xs font-semibold"
+              />
               <span className="text-sm text-gray-500">
                 마지막 수정 {formatDate(memo.updatedAt)}
               </span>
@@ -206,107 +288,175 @@ export default function MemoViewer({
               {memo.title}
             </h2>
           </div>
-          <button
-            onClick={onClose}
-            className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
-            aria-label="닫기"
-          >
-            <svg
-              className="w-5 h-5"
-              fill="none"
-              stroke="currentColor"
-              viewBox="0 0 24 24"
+          <div className="flex items-center gap-1">
+            {onTogglePin && canEdit && (
+              <button
+                onClick={handleTogglePin}
+                className={`p-2 rounded-lg transition-colors ${
+                  memo.pinned
+                    ? 'text-amber-600 bg-amber-50 hover:bg-amber-100'
+                    : 'text-gray-400 hover:text-amber-600 hover:bg-amber-50'
+                }`}
+                title={memo.pinned ? '고정 해제' : '맨 위에 고정'}
+                aria-pressed={Boolean(memo.pinned)}
+              >
+                <svg
+                  className="w-5 h-5"
+                  fill={memo.pinned ? 'currentColor' : 'none'}
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z"
+                  />
+                </svg>
+              </button>
+            )}
+            <button
+              onClick={onClose}
+              className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+              aria-label="닫기"
             >
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                strokeWidth={2}
-                d="M6 18L18 6M6 6l12 12"
-              />
-            </svg>
-          </button>
+              <svg
+                className="w-5 h-5"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M6 18L18 6M6 6l12 12"
+                />
+              </svg>
+            </button>
+          </div>
         </div>
 
         <div className="p-6 space-y-6 max-h-[70vh] overflow-y-auto">
           <div>
             <div className="flex items-center justify-between mb-2">
               <h3 className="text-sm font-semibold text-gray-500">내용</h3>
-              {!memo.summary && (
-                <button
-                  onClick={handleGenerateSummary}
-                  disabled={isLoadingSummary}
-                  className="inline-flex items-center px-3 py-1.5 text-xs font-medium text-purple-600 bg-purple-50 hover:bg-purple-100 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                >
-                {isLoadingSummary ? (
-                  <>
-                    <svg
-                      className="animate-spin -ml-1 mr-2 h-3 w-3"
-                      xmlns="http://www.w3.org/2000/svg"
-                      fill="none"
-                      viewBox="0 0 24 24"
-                    >
-                      <circle
-                        className="opacity-25"
-                        cx="12"
-                        cy="12"
-                        r="10"
-                        stroke="currentColor"
-                        strokeWidth="4"
-                      ></circle>
-                      <path
-                        className="opacity-75"
-                        fill="currentColor"
-                        d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
-                      ></path>
-                    </svg>
-                    요약 생성 중...
-                  </>
-                ) : (
-                  <>
-                    <svg
-                      className="w-3 h-3 mr-1.5"
-                      fill="none"
-                      stroke="currentColor"
-                      viewBox="0 0 24 24"
-                    >
-                      <path
-                        strokeLinecap="round"
-                        strokeLinejoin="round"
-                        strokeWidth={2}
-                        d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z"
-                      />
-                    </svg>
-                    LLM 요약
-                  </>
-                )}
-                </button>
+              {canEdit && (
+                <div className="flex flex-wrap items-center justify-end gap-2">
+                  {/* 요약 옵션 (길이, 형식, 언어) */}
+                  <select
+                    value={summaryOptions.length}
+                    onChange={e =>
+                      setSummaryOptions(prev => ({
+                        ...prev,
+                        length: e.target.value as SummaryLength,
+                      }))
+                    }
+                    disabled={isLoadingSummary}
+                    className="text-xs text-gray-700 px-2 py-1.5 border border-gray-300 rounded-lg disabled:opacity-50"
+                    aria-label="요약 길이"
+                  >
+                    {Object.entries(SUMMARY_LENGTHS).map(([value, label]) => (
+                      <option key={value} value={value}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    value={summaryOptions.format}
+                    onChange={e =>
+                      setSummaryOptions(prev => ({
+                        ...prev,
+                        format: e.target.value as SummaryFormat,
+                      }))
+                    }
+                    disabled={isLoadingSummary}
+                    className="text-xs text-gray-700 px-2 py-1.5 border border-gray-300 rounded-lg disabled:opacity-50"
+                    aria-label="요약 형식"
+                  >
+                    {Object.entries(SUMMARY_FORMATS).map(([value, label]) => (
+                      <option key={value} value={value}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    value={summaryOptions.language}
+                    onChange={e =>
+                      setSummaryOptions(prev => ({
+                        ...prev,
+                        language: e.target.value as SummaryLanguage,
+                      }))
+                    }
+                    disabled={isLoadingSummary}
+                    className="text-xs text-gray-700 px-2 py-1.5 border border-gray-300 rounded-lg disabled:opacity-50"
+                    aria-label="요약 언어"
+                  >
+                    {Object.entries(SUMMARY_LANGUAGES).map(([value, label]) => (
+                      <option key={value} value={value}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={handleGenerateSummary}
+                    disabled={isLoadingSummary}
+                    className="inline-flex items-center px-3 py-1.5 text-xs font-medium text-purple-600 bg-purple-50 hover:bg-purple-100 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isLoadingSummary ? (
+                      <>
+                        <svg
+                          className="animate-spin -ml-1 mr-2 h-3 w-3"
+                          xmlns="http://www.w3.org/2000/svg"
+                          fill="none"
+                          viewBox="0 0 24 24"
+                        >
+                          <circle
+                            className="opacity-25"
+                            cx="12"
+                            cy="12"
+                            r="10"
+                            stroke="currentColor"
+                            strokeWidth="4"
+                          ></circle>
+                          <path
+                            className="opacity-75"
+                            fill="currentColor"
+                            d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+                          ></path>
+                        </svg>
+                        요약 생성 중...
+                      </>
+                    ) : (
+                      <>
+                        <svg
+                          className="w-3 h-3 mr-1.5"
+                          fill="none"
+                          stroke="currentColor"
+                          viewBox="0 0 24 24"
+                        >
+                          <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            strokeWidth={2}
+                            d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z"
+                          />
+                        </svg>
+                        {summary ? '다시 요약' : 'LLM 요약'}
+                      </>
+                    )}
+                  </button>
+                </div>
               )}
             </div>
-            <div data-color-mode="light" className="text-gray-800">
-              <Markdown source={memo.content} />
-            </div>
+            <MemoMarkdown
+              source={memo.content}
+              onWikiLinkClick={onWikiLinkClick}
+            />
           </div>
 
           {summary && (
-            <div className="bg-gradient-to-r from-purple-50 to-blue-50 border border-purple-200 rounded-lg p-4">
-              <div className="flex items-center gap-2 mb-2">
-                <svg
-                  className="w-4 h-4 text-purple-600"
-                  fill="none"
-                  stroke="currentColor"
-                  viewBox="0 0 24 24"
-                >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z"
-                  />
-                </svg>
-                <h3 className="text-sm font-semibold text-purple-700">AI 요약</h3>
-              </div>
-              <p className="text-sm text-gray-700 leading-relaxed">{summary}</p>
-            </div>
+            <MemoSummaryCard summary={summary} isStreaming={isLoadingSummary} />
           )}
 
           {summaryError && (
@@ -336,7 +486,7 @@ export default function MemoViewer({
               <h3 className="text-sm font-semibold text-gray-500">태그</h3>
               <button
                 onClick={handleGenerateTags}
-                disabled={isLoadingTags}
+                disabled={isLoadingTags || !canEdit}
                 className="inline-flex items-center px-3 py-1.5 text-xs font-medium text-green-600 bg-green-50 hover:bg-green-100 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 {isLoadingTags ? (
@@ -385,14 +535,25 @@ export default function MemoViewer({
             </div>
             {memo.tags.length > 0 ? (
               <div className="flex flex-wrap gap-2">
-                {memo.tags.map((tag, index) => (
-                  <span
-                    key={`${tag}-${index}`}
-                    className="px-3 py-1 bg-gray-100 text-gray-600 text-xs rounded-full"
-                  >
-                    #{tag}
-                  </span>
-                ))}
+                {memo.tags.map((tag, index) =>
+                  onTagClick ? (
+                    <button
+                      key={`${tag}-${index}`}
+                      onClick={() => onTagClick(tag)}
+                      className="px-3 py-1 bg-gray-100 text-gray-600 text-xs rounded-full hover:bg-blue-50 hover:text-blue-700 transition-colors"
+                      title="이 태그로 메모 거르기"
+                    >
+                      #{tag}
+                    </button>
+                  ) : (
+                    <span
+                      key={`${tag}-${index}`}
+                      className="px-3 py-1 bg-gray-100 text-gray-600 text-xs rounded-full"
+                    >
+                      #{tag}
+                    </span>
+                  )
+                )}
               </div>
             ) : (
               <p className="text-sm text-gray-400">태그가 없습니다.</p>
@@ -419,6 +580,46 @@ export default function MemoViewer({
               </div>
             )}
           </div>
+
+          {onLoadBacklinks && onSelectMemo && (
+            <MemoBacklinks
+              memo={memo}
+              onLoadBacklinks={onLoadBacklinks}
+              onSelect={onSelectMemo}
+            />
+          )}
+
+          {isHistoryOpen && onLoadRevisions && onRestoreRevision && (
+            <div>
+              <h3 className="text-sm font-semibold text-gray-500 mb-2">
+                버전 기록
+              </h3>
+              <MemoHistoryPanel
+                memo={memo}
+                onLoadRevisions={onLoadRevisions}
+                onRestore={onRestoreRevision}
+                readOnly={!canEdit}
+              />
+            </div>
+          )}
+
+          {isShareLinksOpen &&
+            canEdit &&
+            onLoadShareLinks &&
+            onCreateShareLink &&
+            onRevokeShareLink && (
+              <div>
+                <h3 className="text-sm font-semibold text-gray-500 mb-2">
+                  공유 링크
+                </h3>
+                <MemoShareLinksPanel
+                  memoId={memo.id}
+                  onLoadShareLinks={onLoadShareLinks}
+                  onCreateShareLink={onCreateShareLink}
+                  onRevokeShareLink={onRevokeShareLink}
+                />
+              </div>
+            )}
         </div>
 
         <div className="flex justify-between items-center px-6 py-4 border-t border-gray-100 bg-gray-50 rounded-b-2xl">
@@ -426,22 +627,52 @@ export default function MemoViewer({
             생성일 {formatDate(memo.createdAt)}
           </span>
           <div className="flex gap-3">
-            <button
-              onClick={() => onEdit(memo)}
-              className="inline-flex items-center px-4 py-2 text-sm font-medium text-blue-600 bg-blue-50 hover:bg-blue-100 rounded-lg transition-colors"
-            >
-              편집
-            </button>
-            <button
-              onClick={handleDelete}
-              className="inline-flex items-center px-4 py-2 text-sm font-medium text-red-600 bg-red-50 hover:bg-red-100 rounded-lg transition-colors"
-            >
-              삭제
-            </button>
+            {onLoadRevisions && onRestoreRevision && (
+              <button
+                onClick={() => setIsHistoryOpen(prev => !prev)}
+                className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-600 bg-white border border-gray-200 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                {isHistoryOpen ? '기록 닫기' : '버전 기록'}
+              </button>
+            )}
+            {onShare && (
+              <button
+                onClick={() => onShare(memo)}
+                className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-600 bg-white border border-gray-200 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                공유
+              </button>
+            )}
+            {canEdit &&
+              onLoadShareLinks &&
+              onCreateShareLink &&
+              onRevokeShareLink && (
+                <button
+                  onClick={() => setIsShareLinksOpen(prev => !prev)}
+                  className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-600 bg-white border border-gray-200 hover:bg-gray-100 rounded-lg transition-colors"
+                >
+                  {isShareLinksOpen ? '링크 닫기' : '공유 링크'}
+                </button>
+              )}
+            {canEdit && (
+              <>
+                <button
+                  onClick={() => onEdit(memo)}
+                  className="inline-flex items-center px-4 py-2 text-sm font-medium text-blue-600 bg-blue-50 hover:bg-blue-100 rounded-lg transition-colors"
+                >
+                  편집
+                </button>
+                <button
+                  onClick={handleDelete}
+                  className="inline-flex items-center px-4 py-2 text-sm font-medium text-red-600 bg-red-50 hover:bg-red-100 rounded-lg transition-colors"
+                >
+                  삭제
+                </button>
+              </>
+            )}
           </div>
         </div>
       </div>
     </div>
   )
 }
-
@@ -0,0 +1,33 @@
+'use client'
+
+import { useAuth } from '@/hooks/useAuth'
+
+// 로그인한 사용자와 로그아웃 버튼을 보여주는 상단 바
+export default function SessionHeader() {
+  const { user, signOut } = useAuth()
+
+  if (!user) return null
+
+  const handleSignOut = async () => {
+    try {
+      await signOut()
+    } catch (error) {
+      console.error('Failed to sign out:', error)
+      alert('로그아웃에 실패했습니다.')
+    }
+  }
+
+  return (
+    <div className="bg-gray-900 text-gray-200">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 h-9 flex justify-end items-center space-x-3 text-xs">
+        <span className="truncate">{user.email}</span>
+        <button
+          onClick={handleSignOut}
+          className="px-2 py-1 rounded hover:bg-gray-700 transition-colors"
+        >
+          로그아웃
+        </button>
+      </div>
+    </div>
+  )
+}
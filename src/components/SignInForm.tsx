@@ -0,0 +1,118 @@
+'use client'
+
+import { useState } from 'react'
+import { authProviderBackend, OAuthProviderName } from '@/lib/auth'
+
+interface SignInFormProps {
+  // 매직 링크 메일을 보냈으면 true
+  onSignInWithEmail: (email: string) => Promise<boolean>
+  onSignInWithOAuth: (provider: OAuthProviderName) => Promise<void>
+}
+
+const OAUTH_PROVIDERS: { provider: OAuthProviderName; label: string }[] = [
+  { provider: 'google', label: 'Google로 계속하기' },
+  { provider: 'github', label: 'GitHub로 계속하기' },
+]
+
+export default function SignInForm({
+  onSignInWithEmail,
+  onSignInWithOAuth,
+}: SignInFormProps) {
+  const [email, setEmail] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [sentTo, setSentTo] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!email.trim()) return
+
+    setIsSubmitting(true)
+    setError(null)
+    try {
+      const emailSent = await onSignInWithEmail(email.trim())
+      if (emailSent) setSentTo(email.trim())
+    } catch (err) {
+      console.error('Failed to sign in:', err)
+      setError('로그인 링크를 보내지 못했습니다. 잠시 후 다시 시도해주세요.')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleOAuth = async (provider: OAuthProviderName) => {
+    setError(null)
+    try {
+      await onSignInWithOAuth(provider)
+    } catch (err) {
+      console.error('Failed to sign in with OAuth:', err)
+      setError('로그인에 실패했습니다.')
+    }
+  }
+
+  return (
+    <div className="max-w-sm mx-auto mt-16 bg-white rounded-lg shadow-md p-6 space-y-6">
+      <div>
+        <h2 className="text-xl font-semibold text-gray-900">로그인</h2>
+        <p className="mt-1 text-sm text-gray-600">
+          로그인하면 내 메모만 보고 관리할 수 있습니다.
+        </p>
+      </div>
+
+      {sentTo ? (
+        <p className="text-sm text-green-700 bg-green-50 rounded-lg p-3">
+          {sentTo} 로 로그인 링크를 보냈습니다. 메일의 링크를 눌러 로그인하세요.
+        </p>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <label
+            htmlFor="email"
+            className="block text-sm font-medium text-gray-700"
+          >
+            이메일
+          </label>
+          <input
+            type="email"
+            id="email"
+            value={email}
+            onChange={e => setEmail(e.target.value)}
+            className="placeholder-gray-400 text-black w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+            placeholder="you@example.com"
+            required
+          />
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50"
+          >
+            {isSubmitting
+              ? '보내는 중...'
+              : authProviderBackend === 'local'
+                ? '로그인'
+                : '로그인 링크 받기'}
+          </button>
+        </form>
+      )}
+
+      <div className="space-y-2">
+        {OAUTH_PROVIDERS.map(({ provider, label }) => (
+          <button
+            key={provider}
+            onClick={() => handleOAuth(provider)}
+            className="w-full px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 hover:bg-gray-50 rounded-lg transition-colors"
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {authProviderBackend === 'local' && (
+        <p className="text-xs text-gray-400">
+          로컬 인증 모드: 메일 발송 없이 입력한 이메일로 바로 로그인합니다.
+        </p>
+      )}
+    </div>
+  )
+}
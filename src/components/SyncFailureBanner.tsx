@@ -0,0 +1,98 @@
+'use client'
+
+import { useState } from 'react'
+import { PendingMutation } from '@/utils/syncQueue'
+
+interface SyncFailureBannerProps {
+  // 여러 번 실패해 동기화를 멈춘 변경 사항
+  failedSyncs: PendingMutation[]
+  onRetry: () => Promise<void>
+  // 로컬 변경을 버리고 서버 버전으로 되돌림
+  onDiscard: (memoId: string) => Promise<void>
+}
+
+const getMemoId = (mutation: PendingMutation): string =>
+  mutation.type === 'delete' ? mutation.memoId : mutation.memo.id
+
+const getTitle = (mutation: PendingMutation): string =>
+  mutation.type === 'delete' ? '영구 삭제한 메모' : mutation.memo.title
+
+export default function SyncFailureBanner({
+  failedSyncs,
+  onRetry,
+  onDiscard,
+}: SyncFailureBannerProps) {
+  const [isBusy, setIsBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  if (failedSyncs.length === 0) return null
+
+  const run = async (action: () => Promise<void>, errorMessage: string) => {
+    setIsBusy(true)
+    setError(null)
+    try {
+      await action()
+    } catch (err) {
+      console.error(errorMessage, err)
+      setError(err instanceof Error ? err.message : errorMessage)
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleDiscard = (mutation: PendingMutation) => {
+    if (
+      !window.confirm(
+        `"${getTitle(mutation)}"의 서버에 저장되지 않은 변경을 버리시겠습니까? 되돌릴 수 없습니다.`
+      )
+    ) {
+      return
+    }
+    run(() => onDiscard(getMemoId(mutation)), '변경을 버리지 못했습니다.')
+  }
+
+  return (
+    <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-sm text-red-800">
+          서버에 저장하지 못한 메모가 {failedSyncs.length}개 있습니다. 이 기기의
+          내용은 그대로 남아 있으니 다시 시도하거나, 필요 없으면 버려 주세요.
+        </p>
+        <button
+          onClick={() => run(onRetry, '다시 동기화하지 못했습니다.')}
+          disabled={isBusy}
+          className="px-3 py-1 text-sm font-medium text-white bg-red-600 hover:bg-red-700 rounded-lg transition-colors disabled:opacity-50"
+        >
+          다시 시도
+        </button>
+      </div>
+      <ul className="divide-y divide-red-100">
+        {failedSyncs.map(mutation => (
+          <li
+            key={mutation.id}
+            className="flex items-center justify-between gap-3 py-2"
+          >
+            <div className="min-w-0">
+              <p className="text-sm font-medium text-gray-900 truncate">
+                {getTitle(mutation)}
+              </p>
+              {mutation.lastError && (
+                <p className="text-xs text-red-700 truncate">
+                  {mutation.lastError}
+                </p>
+              )}
+            </div>
+            <button
+              onClick={() => handleDiscard(mutation)}
+              disabled={isBusy}
+              className="shrink-0 px-3 py-1 text-sm text-red-700 bg-white border border-red-200 hover:bg-red-100 rounded-lg transition-colors disabled:opacity-50"
+            >
+              변경 버리기
+            </button>
+          </li>
+        ))}
+      </ul>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  )
+}
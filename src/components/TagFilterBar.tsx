@@ -0,0 +1,125 @@
+'use client'
+
+import { useState } from 'react'
+import { TagCount, TagFilterMode } from '@/utils/tags'
+
+interface TagFilterBarProps {
+  // 태그별 사용 횟수 (많이 쓴 순)
+  tagCounts: TagCount[]
+  selectedTags: string[]
+  mode: TagFilterMode
+  onToggleTag: (tag: string) => void
+  onModeChange: (mode: TagFilterMode) => void
+  onClear: () => void
+}
+
+// 펼치기 전에 보여줄 태그 수
+const COLLAPSED_TAG_LIMIT = 20
+
+const MODE_LABELS: Record<TagFilterMode, string> = {
+  and: '모두 포함',
+  or: '하나라도 포함',
+}
+
+// 많이 쓴 태그일수록 크게 표시
+const getTagSizeClass = (count: number, maxCount: number): string => {
+  const ratio = maxCount > 1 ? (count - 1) / (maxCount - 1) : 0
+  if (ratio > 0.75) return 'text-base font-semibold'
+  if (ratio > 0.4) return 'text-sm font-medium'
+  return 'text-xs'
+}
+
+export default function TagFilterBar({
+  tagCounts,
+  selectedTags,
+  mode,
+  onToggleTag,
+  onModeChange,
+  onClear,
+}: TagFilterBarProps) {
+  const [isExpanded, setIsExpanded] = useState(false)
+
+  if (tagCounts.length === 0 && selectedTags.length === 0) return null
+
+  const maxCount = tagCounts[0]?.count || 1
+  const visibleTags = isExpanded
+    ? tagCounts
+    : tagCounts.slice(0, COLLAPSED_TAG_LIMIT)
+  // 고른 태그는 목록에서 밀려나도 항상 보이도록
+  const hiddenSelectedTags = selectedTags.filter(
+    tag => !visibleTags.some(tagCount => tagCount.tag === tag)
+  )
+
+  return (
+    <div className="mt-4 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-sm font-medium text-gray-700">태그</h3>
+        {selectedTags.length > 0 && (
+          <div className="flex items-center gap-2 text-xs">
+            {selectedTags.length > 1 && (
+              <div className="inline-flex rounded-lg border border-gray-300 overflow-hidden">
+                {(Object.keys(MODE_LABELS) as TagFilterMode[]).map(option => (
+                  <button
+                    key={option}
+                    onClick={() => onModeChange(option)}
+                    className={`px-2 py-1 transition-colors ${
+                      mode === option
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-white text-gray-600 hover:bg-gray-100'
+                    }`}
+                    aria-pressed={mode === option}
+                  >
+                    {MODE_LABELS[option]}
+                  </button>
+                ))}
+              </div>
+            )}
+            <button
+              onClick={onClear}
+              className="text-blue-600 hover:text-blue-800 hover:underline"
+            >
+              태그 해제
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* 태그 클라우드 */}
+      <div className="flex flex-wrap items-center gap-x-2 gap-y-1">
+        {[
+          ...hiddenSelectedTags.map(tag => ({ tag, count: 0 })),
+          ...visibleTags,
+        ].map(({ tag, count }) => {
+          const isSelected = selectedTags.includes(tag)
+          return (
+            <button
+              key={tag}
+              onClick={() => onToggleTag(tag)}
+              className={`px-2 py-0.5 rounded-md transition-colors ${getTagSizeClass(count, maxCount)} ${
+                isSelected
+                  ? 'bg-blue-100 text-blue-800 ring-1 ring-blue-400'
+                  : 'text-gray-600 hover:bg-gray-100'
+              }`}
+              aria-pressed={isSelected}
+            >
+              #{tag}
+              <span className="ml-1 text-xs font-normal text-gray-400">
+                {count}
+              </span>
+            </button>
+          )
+        })}
+        {tagCounts.length > COLLAPSED_TAG_LIMIT && (
+          <button
+            onClick={() => setIsExpanded(prev => !prev)}
+            className="text-xs text-gray-500 hover:text-gray-700 hover:underline"
+          >
+            {isExpanded
+              ? '접기'
+              : `+${tagCounts.length - COLLAPSED_TAG_LIMIT}개 더 보기`}
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
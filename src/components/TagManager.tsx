@@ -0,0 +1,264 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { isSimilarTag, TagCount } from '@/utils/tags'
+
+interface TagManagerProps {
+  // 태그별 사용 횟수 (불러오지 않은 메모를 포함한 저장소의 개수, 많이 쓴 순)
+  tagCounts: TagCount[]
+  // 모든 메모의 from 태그를 to 로 바꿈 (이미 있는 태그면 합치고, null 이면 삭제)
+  onReplace: (from: string, to: string | null) => Promise<void>
+  onClose: () => void
+}
+
+export default function TagManager({
+  tagCounts,
+  onReplace,
+  onClose,
+}: TagManagerProps) {
+  const [filter, setFilter] = useState('')
+  const [names, setNames] = useState<Record<string, string>>({})
+  // 합치는 중인 태그와 합칠 대상 태그
+  const [mergingTag, setMergingTag] = useState<string | null>(null)
+  const [mergeTarget, setMergeTarget] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const tags = tagCounts.map(({ tag }) => tag)
+  const visibleTags = tagCounts.filter(({ tag }) =>
+    tag.toLowerCase().includes(filter.trim().toLowerCase())
+  )
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose()
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [onClose])
+
+  // 실패하면 오류 메시지를 표시하는 공통 처리
+  const run = async (action: () => Promise<unknown>, message: string) => {
+    setIsSaving(true)
+    setError(null)
+    try {
+      await action()
+      return true
+    } catch (err) {
+      console.error(`${message}:`, err)
+      setError(message)
+      return false
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const resetName = (tag: string) => {
+    setNames(prev => {
+      const next = { ...prev }
+      delete next[tag]
+      return next
+    })
+  }
+
+  const handleRename = async (tag: string) => {
+    const name = names[tag]?.trim().replace(/^#/, '')
+    if (name === undefined || name === tag) return
+    if (!name) {
+      resetName(tag)
+      return
+    }
+    // 이미 있는 태그 이름이면 합치기
+    if (
+      tags.includes(name) &&
+      !window.confirm(`"${tag}" 태그를 "${name}" 태그와 합치시겠습니까?`)
+    ) {
+      resetName(tag)
+      return
+    }
+
+    const renamed = await run(
+      () => onReplace(tag, name),
+      '태그 이름을 바꾸지 못했습니다.'
+    )
+    if (renamed) resetName(tag)
+  }
+
+  const handleStartMerge = (tag: string) => {
+    setMergingTag(tag)
+    setMergeTarget(
+      tags.find(target => isSimilarTag(tag, target)) ||
+        tags.find(target => target !== tag) ||
+        ''
+    )
+  }
+
+  const handleConfirmMerge = async () => {
+    if (!mergingTag || !mergeTarget) return
+
+    const merged = await run(
+      () => onReplace(mergingTag, mergeTarget),
+      '태그를 합치지 못했습니다.'
+    )
+    if (merged) setMergingTag(null)
+  }
+
+  const handleDelete = async ({ tag, count }: TagCount) => {
+    if (
+      !window.confirm(
+        `메모 ${count}개에서 "${tag}" 태그를 삭제하시겠습니까? 되돌릴 수 없습니다.`
+      )
+    ) {
+      return
+    }
+
+    await run(() => onReplace(tag, null), '태그를 삭제하지 못했습니다.')
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-[60]">
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6 space-y-6">
+          <div className="flex justify-between items-start">
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">태그 관리</h2>
+              <p className="mt-1 text-sm text-gray-600">
+                이름을 바꾸거나 합치면 모든 메모에 한 번에 반영됩니다.
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+              aria-label="닫기"
+            >
+              <svg
+                className="w-5 h-5"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M6 18L18 6M6 6l12 12"
+                />
+              </svg>
+            </button>
+          </div>
+
+          <input
+            type="text"
+            value={filter}
+            onChange={e => setFilter(e.target.value)}
+            className="placeholder-gray-400 text-black w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            placeholder="태그 찾기"
+          />
+
+          {/* 태그 목록 */}
+          {visibleTags.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              {tagCounts.length === 0
+                ? '아직 태그가 붙은 메모가 없습니다.'
+                : '일치하는 태그가 없습니다.'}
+            </p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {visibleTags.map(tagCount => {
+                const { tag, count } = tagCount
+                const similarTags = tags.filter(other =>
+                  isSimilarTag(tag, other)
+                )
+
+                return (
+                  <li key={tag} className="py-2 space-y-2">
+                    <div className="flex items-center gap-2">
+                      <span className="text-gray-400">#</span>
+                      <input
+                        type="text"
+                        value={names[tag] ?? tag}
+                        onChange={e =>
+                          setNames(prev => ({
+                            ...prev,
+                            [tag]: e.target.value,
+                          }))
+                        }
+                        onBlur={() => handleRename(tag)}
+                        onKeyDown={e => {
+                          if (e.key === 'Enter') e.currentTarget.blur()
+                        }}
+                        disabled={isSaving}
+                        className="text-black flex-1 min-w-0 px-2 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        aria-label="태그 이름"
+                      />
+                      <span className="text-xs text-gray-500 shrink-0">
+                        메모 {count}개
+                      </span>
+                      <button
+                        onClick={() => handleStartMerge(tag)}
+                        disabled={isSaving || tags.length <= 1}
+                        className="text-xs text-blue-600 hover:underline disabled:opacity-30 disabled:no-underline"
+                      >
+                        합치기
+                      </button>
+                      <button
+                        onClick={() => handleDelete(tagCount)}
+                        disabled={isSaving}
+                        className="text-xs text-red-600 hover:underline disabled:opacity-30 disabled:no-underline"
+                      >
+                        삭제
+                      </button>
+                    </div>
+
+                    {similarTags.length > 0 && mergingTag !== tag && (
+                      <p className="text-xs text-amber-700">
+                        비슷한 태그:{' '}
+                        {similarTags.map(other => `#${other}`).join(', ')}
+                      </p>
+                    )}
+
+                    {mergingTag === tag && (
+                      <div className="flex flex-wrap items-center gap-2 p-2 bg-blue-50 rounded-lg text-xs text-blue-700">
+                        <span>이 태그를</span>
+                        <select
+                          value={mergeTarget}
+                          onChange={e => setMergeTarget(e.target.value)}
+                          className="text-black px-2 py-1 border border-gray-300 rounded-lg"
+                        >
+                          {tags
+                            .filter(target => target !== tag)
+                            .map(target => (
+                              <option key={target} value={target}>
+                                #{target}
+                              </option>
+                            ))}
+                        </select>
+                        <span>태그로</span>
+                        <button
+                          onClick={handleConfirmMerge}
+                          disabled={isSaving}
+                          className="px-2 py-1 font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg disabled:opacity-50"
+                        >
+                          합치기
+                        </button>
+                        <button
+                          onClick={() => setMergingTag(null)}
+                          className="px-2 py-1 text-gray-600 hover:underline"
+                        >
+                          취소
+                        </button>
+                      </div>
+                    )}
+                  </li>
+                )
+              })}
+            </ul>
+          )}
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,106 @@
+'use client'
+
+import { ReactNode, useCallback, useEffect, useRef, useState } from 'react'
+
+interface VirtualGridProps<T> {
+  items: T[]
+  getKey: (item: T) => string
+  renderItem: (item: T) => ReactNode
+  rowHeight?: number
+  gap?: number
+  // 화면 밖에 미리 그려 둘 행 수
+  overscan?: number
+  // 마지막 행이 화면에 가까워지면 호출 (다음 페이지 불러오기)
+  onEndReached?: () => void
+}
+
+// 측정 전(서버 렌더링 포함)에 그릴 행 수
+const INITIAL_ROWS = 4
+
+// Tailwind md / lg 기준에 맞춘 열 수
+const getColumnCount = (): number => {
+  if (window.innerWidth >= 1024) return 3
+  if (window.innerWidth >= 768) return 2
+  return 1
+}
+
+// 창 스크롤 기준으로 화면에 보이는 행만 그리는 그리드 (모든 카드는 같은 높이)
+export default function VirtualGrid<T>({
+  items,
+  getKey,
+  renderItem,
+  rowHeight = 272,
+  gap = 24,
+  overscan = 2,
+  onEndReached,
+}: VirtualGridProps<T>) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [columns, setColumns] = useState(1)
+  const [range, setRange] = useState({ start: 0, end: INITIAL_ROWS })
+  const onEndReachedRef = useRef(onEndReached)
+  onEndReachedRef.current = onEndReached
+
+  const rowStride = rowHeight + gap
+  const rowCount = Math.ceil(items.length / columns)
+
+  // 스크롤 위치와 창 크기로 그릴 행 범위 계산
+  const measure = useCallback(() => {
+    const container = containerRef.current
+    if (!container) return
+
+    const nextColumns = getColumnCount()
+    const top = container.getBoundingClientRect().top
+    const visibleTop = Math.max(0, -top)
+    const visibleBottom = Math.max(0, window.innerHeight - top)
+
+    setColumns(nextColumns)
+    setRange(prev => {
+      const start = Math.max(0, Math.floor(visibleTop / rowStride) - overscan)
+      const end = Math.ceil(visibleBottom / rowStride) + overscan
+      return prev.start === start && prev.end === end ? prev : { start, end }
+    })
+  }, [rowStride, overscan])
+
+  useEffect(() => {
+    measure()
+    window.addEventListener('scroll', measure, { passive: true })
+    window.addEventListener('resize', measure)
+    return () => {
+      window.removeEventListener('scroll', measure)
+      window.removeEventListener('resize', measure)
+    }
+  }, [measure])
+
+  // 그려진 범위가 마지막 행에 닿으면 다음 페이지 요청
+  // (항목 수나 범위가 바뀔 때만 호출해 실패 시 렌더링마다 재시도하지 않도록 함)
+  const reachedEnd = items.length > 0 && range.end >= rowCount
+  useEffect(() => {
+    if (reachedEnd) onEndReachedRef.current?.()
+  }, [reachedEnd, items.length])
+
+  const startRow = Math.min(range.start, rowCount)
+  const endRow = Math.min(range.end, rowCount)
+  const visibleItems = items.slice(startRow * columns, endRow * columns)
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative"
+      style={{ height: Math.max(0, rowCount * rowStride - gap) }}
+    >
+      <div
+        className="absolute inset-x-0 grid"
+        style={{
+          top: startRow * rowStride,
+          gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`,
+          gridAutoRows: rowHeight,
+          gap,
+        }}
+      >
+        {visibleItems.map(item => (
+          <div key={getKey(item)}>{renderItem(item)}</div>
+        ))}
+      </div>
+    </div>
+  )
+}
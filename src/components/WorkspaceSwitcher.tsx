@@ -0,0 +1,64 @@
+'use client'
+
+import { Workspace, WorkspaceRole, WORKSPACE_ROLES } from '@/types/workspace'
+
+interface WorkspaceSwitcherProps {
+  workspaces: Workspace[]
+  currentWorkspace: Workspace | null
+  currentRole: WorkspaceRole
+  onSelect: (workspaceId: string | null) => void
+  onCreate: (name: string) => Promise<Workspace>
+}
+
+// 개인 메모를 나타내는 선택지 값
+const PERSONAL = ''
+
+export default function WorkspaceSwitcher({
+  workspaces,
+  currentWorkspace,
+  currentRole,
+  onSelect,
+  onCreate,
+}: WorkspaceSwitcherProps) {
+  const handleCreate = async () => {
+    const name = window.prompt('새 워크스페이스 이름을 입력하세요.')?.trim()
+    if (!name) return
+
+    try {
+      await onCreate(name)
+    } catch (error) {
+      console.error('Failed to create workspace:', error)
+      alert('워크스페이스를 만들지 못했습니다.')
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <select
+        value={currentWorkspace?.id || PERSONAL}
+        onChange={e => onSelect(e.target.value || null)}
+        className="text-sm text-black px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        aria-label="워크스페이스"
+      >
+        <option value={PERSONAL}>내 메모</option>
+        {workspaces.map(workspace => (
+          <option key={workspace.id} value={workspace.id}>
+            {workspace.name}
+          </option>
+        ))}
+      </select>
+      {currentWorkspace && (
+        <span className="hidden sm:inline px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+          {WORKSPACE_ROLES[currentRole]}
+        </span>
+      )}
+      <button
+        onClick={handleCreate}
+        className="px-3 py-2 text-sm font-medium text-gray-600 bg-white border border-gray-200 hover:bg-gray-100 rounded-lg transition-colors"
+        title="새 워크스페이스"
+      >
+        + 워크스페이스
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,80 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { auth, AuthUser, OAuthProviderName } from '@/lib/auth'
+
+export const useAuth = () => {
+  const [user, setUser] = useState<AuthUser | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  // 현재 세션 확인 및 로그인/로그아웃 구독
+  useEffect(() => {
+    let cancelled = false
+
+    auth
+      .getSession()
+      .then(session => {
+        if (!cancelled) setUser(session?.user || null)
+      })
+      .catch(err => {
+        console.error('Failed to load session:', err)
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    const unsubscribe = auth.onAuthStateChange(session => {
+      setUser(session?.user || null)
+    })
+
+    return () => {
+      cancelled = true
+      unsubscribe()
+    }
+  }, [])
+
+  // 이메일로 로그인 (메일을 보냈으면 true)
+  const signInWithEmail = useCallback(
+    async (email: string): Promise<boolean> => {
+      try {
+        const { emailSent } = await auth.signInWithEmail(email)
+        return emailSent
+      } catch (err) {
+        console.error('Failed to sign in with email:', err)
+        throw err
+      }
+    },
+    []
+  )
+
+  // OAuth 로그인 (Supabase 는 제공자 페이지로 이동)
+  const signInWithOAuth = useCallback(
+    async (provider: OAuthProviderName): Promise<void> => {
+      try {
+        await auth.signInWithOAuth(provider)
+      } catch (err) {
+        console.error('Failed to sign in with OAuth:', err)
+        throw err
+      }
+    },
+    []
+  )
+
+  // 로그아웃
+  const signOut = useCallback(async (): Promise<void> => {
+    try {
+      await auth.signOut()
+    } catch (err) {
+      console.error('Failed to sign out:', err)
+      throw err
+    }
+  }, [])
+
+  return {
+    user,
+    loading,
+    signInWithEmail,
+    signInWithOAuth,
+    signOut,
+  }
+}
@@ -0,0 +1,89 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { MemoBackupDiff, MemoBackupSummary } from '@/types/backup'
+import {
+  deleteBackup as deleteStoredBackup,
+  listBackups,
+} from '@/utils/backupStore'
+import {
+  createMemoBackup,
+  previewMemoBackup,
+  runScheduledBackup,
+} from '@/utils/memoBackup'
+
+// 주기 백업이 필요한지 확인하는 간격
+const BACKUP_CHECK_INTERVAL_MS = 60 * 60 * 1000
+
+// userId: 현재 로그인한 사용자 (없으면 백업하지 않음)
+// workspaceId: 보고 있는 워크스페이스 (null 이면 개인 메모의 백업)
+export const useBackups = (
+  userId: string | null,
+  workspaceId: string | null
+) => {
+  const [backups, setBackups] = useState<MemoBackupSummary[]>([])
+
+  const refreshBackups = useCallback((): void => {
+    setBackups(listBackups())
+  }, [])
+
+  // 백업 목록을 불러오고 주기적으로 백업 (사용자나 워크스페이스가 바뀌면 다시 시작)
+  useEffect(() => {
+    if (!userId) {
+      setBackups([])
+      return
+    }
+
+    setBackups(listBackups())
+
+    const backUp = async () => {
+      try {
+        if (await runScheduledBackup()) setBackups(listBackups())
+      } catch (err) {
+        console.error('Failed to run scheduled backup:', err)
+      }
+    }
+
+    backUp()
+    const timer = setInterval(backUp, BACKUP_CHECK_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [userId, workspaceId])
+
+  // 지금 백업
+  const createBackup = useCallback(async (): Promise<MemoBackupSummary> => {
+    try {
+      const backup = await createMemoBackup('manual')
+      setBackups(listBackups())
+      return backup
+    } catch (err) {
+      console.error('Failed to create backup:', err)
+      throw err
+    }
+  }, [])
+
+  // 복원하면 바뀔 내용 미리 보기
+  const previewBackup = useCallback(
+    async (id: string): Promise<MemoBackupDiff> => {
+      try {
+        return await previewMemoBackup(id)
+      } catch (err) {
+        console.error('Failed to preview backup:', err)
+        throw err
+      }
+    },
+    []
+  )
+
+  const deleteBackup = useCallback((id: string): void => {
+    deleteStoredBackup(id)
+    setBackups(listBackups())
+  }, [])
+
+  return {
+    backups,
+    refreshBackups,
+    createBackup,
+    previewBackup,
+    deleteBackup,
+  }
+}
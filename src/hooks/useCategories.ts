@@ -0,0 +1,108 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Category, CategoryInput } from '@/types/category'
+import { getCategoryStore } from '@/utils/categoryStore'
+
+const categoryStore = getCategoryStore()
+
+// userId: 현재 로그인한 사용자 (없으면 카테고리를 불러오지 않음)
+// workspaceId: 보고 있는 워크스페이스 (null 이면 개인 메모의 카테고리)
+export const useCategories = (
+  userId: string | null,
+  workspaceId: string | null
+) => {
+  const [categories, setCategories] = useState<Category[]>([])
+
+  // 카테고리 불러오기 (사용자나 워크스페이스가 바뀌면 다시 로드)
+  useEffect(() => {
+    if (!userId) {
+      setCategories([])
+      return
+    }
+
+    let cancelled = false
+
+    const loadCategories = async () => {
+      try {
+        const loaded = await categoryStore.getCategories()
+        if (!cancelled) setCategories(loaded)
+      } catch (err) {
+        console.error('Failed to load categories:', err)
+      }
+    }
+
+    loadCategories()
+    return () => {
+      cancelled = true
+    }
+  }, [userId, workspaceId])
+
+  // 카테고리 추가
+  const createCategory = useCallback(
+    async (input: CategoryInput): Promise<Category> => {
+      try {
+        const category = await categoryStore.createCategory(input)
+        // 기본 카테고리가 처음 저장되었을 수 있으므로 목록을 다시 읽음
+        setCategories(await categoryStore.getCategories())
+        return category
+      } catch (err) {
+        console.error('Failed to create category:', err)
+        throw err
+      }
+    },
+    []
+  )
+
+  // 이름, 색상, 아이콘 변경
+  const updateCategory = useCallback(
+    async (id: string, patch: Partial<CategoryInput>): Promise<Category> => {
+      try {
+        const updated = await categoryStore.updateCategory(id, patch)
+        setCategories(prev =>
+          prev.map(category => (category.id === id ? updated : category))
+        )
+        return updated
+      } catch (err) {
+        console.error('Failed to update category:', err)
+        throw err
+      }
+    },
+    []
+  )
+
+  // 표시 순서 변경
+  const reorderCategories = useCallback(
+    async (ids: string[]): Promise<void> => {
+      try {
+        setCategories(await categoryStore.reorderCategories(ids))
+      } catch (err) {
+        console.error('Failed to reorder categories:', err)
+        throw err
+      }
+    },
+    []
+  )
+
+  // 카테고리 삭제 (메모는 호출하기 전에 다른 카테고리로 옮겨야 함)
+  const deleteCategory = useCallback(async (id: string): Promise<void> => {
+    try {
+      await categoryStore.deleteCategory(id)
+      setCategories(prev => prev.filter(category => category.id !== id))
+    } catch (err) {
+      console.error('Failed to delete category:', err)
+      throw err
+    }
+  }, [])
+
+  return {
+    // 상태
+    categories,
+
+    // 카테고리 관리
+    createCategory,
+    updateCategory,
+    reorderCategories,
+    deleteCategory,
+  }
+}
@@ -0,0 +1,106 @@
+'use client'
+
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { Folder } from '@/types/folder'
+import { getFolderStore } from '@/utils/folderStore'
+import { buildFolderTree } from '@/utils/folders'
+
+const folderStore = getFolderStore()
+
+// userId: 현재 로그인한 사용자 (없으면 폴더를 불러오지 않음)
+// workspaceId: 보고 있는 워크스페이스 (null 이면 개인 메모의 폴더)
+export const useFolders = (
+  userId: string | null,
+  workspaceId: string | null
+) => {
+  const [folders, setFolders] = useState<Folder[]>([])
+
+  // 폴더 불러오기 (사용자나 워크스페이스가 바뀌면 다시 로드)
+  useEffect(() => {
+    if (!userId) {
+      setFolders([])
+      return
+    }
+
+    let cancelled = false
+
+    const loadFolders = async () => {
+      try {
+        const loaded = await folderStore.getFolders()
+        if (!cancelled) setFolders(loaded)
+      } catch (err) {
+        console.error('Failed to load folders:', err)
+      }
+    }
+
+    loadFolders()
+    return () => {
+      cancelled = true
+    }
+  }, [userId, workspaceId])
+
+  const folderTree = useMemo(() => buildFolderTree(folders), [folders])
+
+  // 폴더 만들기 (parentId 가 null 이면 최상위)
+  const createFolder = useCallback(
+    async (name: string, parentId: string | null): Promise<Folder> => {
+      try {
+        const folder = await folderStore.createFolder(name, parentId)
+        setFolders(prev => [...prev, folder])
+        return folder
+      } catch (err) {
+        console.error('Failed to create folder:', err)
+        throw err
+      }
+    },
+    []
+  )
+
+  // 폴더 이름 변경
+  const renameFolder = useCallback(
+    async (id: string, name: string): Promise<Folder> => {
+      try {
+        const renamed = await folderStore.renameFolder(id, name)
+        setFolders(prev =>
+          prev.map(folder => (folder.id === id ? renamed : folder))
+        )
+        return renamed
+      } catch (err) {
+        console.error('Failed to rename folder:', err)
+        throw err
+      }
+    },
+    []
+  )
+
+  // 폴더 삭제 (하위 폴더는 상위 폴더로, 메모는 호출하기 전에 옮겨야 함)
+  const deleteFolder = useCallback(async (id: string): Promise<void> => {
+    try {
+      await folderStore.deleteFolder(id)
+      setFolders(prev => {
+        const parentId = prev.find(folder => folder.id === id)?.parentId
+        return prev
+          .filter(folder => folder.id !== id)
+          .map(folder =>
+            folder.parentId === id
+              ? { ...folder, parentId: parentId || null }
+              : folder
+          )
+      })
+    } catch (err) {
+      console.error('Failed to delete folder:', err)
+      throw err
+    }
+  }, [])
+
+  return {
+    // 상태
+    folders,
+    folderTree,
+
+    // 폴더 관리
+    createFolder,
+    renameFolder,
+    deleteFolder,
+  }
+}
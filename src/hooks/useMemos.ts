@@ -1,36 +1,314 @@
 'use client'
 
-import { useState, useEffect, useCallback, useMemo } from 'react'
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
 import { v4 as uuidv4 } from 'uuid'
-import { Memo, MemoFormData } from '@/types/memo'
-import { memoRepository } from '@/utils/memoRepository'
+import { Memo, MemoFormData, MemoRevision } from '@/types/memo'
+import { Category } from '@/types/category'
+import { getMemoStore, memoStoreBackend } from '@/utils/memoStore'
+import { PendingMutation, syncQueue } from '@/utils/syncQueue'
+import { MemoConflictError } from '@/utils/memoErrors'
+import { MemoSearchHighlights, MemoSearchPage } from '@/utils/memoSearch'
+import {
+  matchesMemoListFilter,
+  MemoCursor,
+  MemoListFilter,
+  readAllMemoPages,
+} from '@/utils/memoPagination'
+import { countMemos, MemoCounts } from '@/utils/memoCounts'
+import {
+  compareMemos,
+  DEFAULT_MEMO_SORT,
+  isAfterCursor,
+  isSameSort,
+  loadSortPreference,
+  MemoSort,
+  saveSortPreference,
+} from '@/utils/memoSort'
+import { applyMemoChange, MemoChange, toListChange } from '@/utils/memoChanges'
+import { getTrashPurgeCutoff } from '@/utils/memoTrash'
+import { parseSearchQuery } from '@/utils/searchQuery'
+import { isInCurrentScope } from '@/utils/workspaceScope'
+import { replaceTagInList, TagFilterMode } from '@/utils/tags'
+import { findMemoByLinkTitle } from '@/utils/wikiLinks'
+import {
+  collectMemosForExport,
+  createMemoExport,
+  MemoExportFile,
+  MemoExportFormat,
+} from '@/utils/memoExport'
+import { fetchMemoExport } from '@/utils/memoExportApi'
+import {
+  buildImportPreview,
+  ImportedMemo,
+  MemoImportFile,
+  MemoImportPreview,
+  readImportFiles,
+} from '@/utils/memoImport'
+import { createMemoBackup, restoreMemoBackup } from '@/utils/memoBackup'
+import { MemoBackupDiff } from '@/types/backup'
+import { ALL_FOLDERS, UNFILED_FOLDER } from '@/types/folder'
 
-export const useMemos = () => {
+const memoStore = getMemoStore()
+
+// 검색어 입력이 멈춘 뒤 검색을 실행하기까지의 대기 시간
+const SEARCH_DEBOUNCE_MS = 250
+const SEARCH_PAGE_SIZE = 20
+// 메모가 바뀐 뒤 개수를 다시 세기까지의 대기 시간
+const COUNTS_REFRESH_DELAY_MS = 500
+// 한 번에 불러올 메모 수 (스크롤이 끝에 닿으면 다음 페이지를 불러옴)
+const MEMO_PAGE_SIZE = 50
+// 가져온 메모를 저장할 때 한 번에 보내는 수
+const IMPORT_BATCH_SIZE = 100
+
+// userId: 현재 로그인한 사용자 (없으면 메모를 불러오지 않음)
+// workspaceId: 보고 있는 워크스페이스 (null 이면 개인 메모)
+// categories: 보고 있는 범위의 카테고리 (검색어의 category: 조건에 사용)
+export const useMemos = (
+  userId: string | null,
+  workspaceId: string | null,
+  categories: Category[]
+) => {
   const [memos, setMemos] = useState<Memo[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [searchQuery, setSearchQuery] = useState('')
   const [selectedCategory, setSelectedCategory] = useState('all')
+  const [selectedFolder, setSelectedFolder] = useState(ALL_FOLDERS)
+  // 태그 필터 (고른 태그가 없으면 거르지 않음)
+  const [selectedTags, setSelectedTags] = useState<string[]>([])
+  const [tagFilterMode, setTagFilterMode] = useState<TagFilterMode>('and')
+  const [sort, setSort] = useState<MemoSort>(DEFAULT_MEMO_SORT)
+  // 이번 로그인에서 정렬을 정했는지 (아니면 사용자가 저장해 둔 정렬로 시작)
+  const hasChosenSortRef = useRef(false)
+  const [pendingMemoIds, setPendingMemoIds] = useState<string[]>([])
+  // 여러 번 실패해 동기화를 멈춘 변경 사항 (다시 시도하거나 버릴 때까지 보관)
+  const [failedSyncs, setFailedSyncs] = useState<PendingMutation[]>([])
+  const [searchResults, setSearchResults] = useState<MemoSearchPage | null>(
+    null
+  )
+  const [isSearching, setIsSearching] = useState(false)
+  const [nextCursor, setNextCursor] = useState<MemoCursor | null>(null)
+  const [totalMemos, setTotalMemos] = useState<number | null>(null)
+  const [memoCounts, setMemoCounts] = useState<MemoCounts | null>(null)
+  // 불러온 메모가 바뀌지 않는 일괄 변경 뒤에 개수를 다시 세도록 올리는 값
+  const [countsVersion, setCountsVersion] = useState(0)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [trashedMemos, setTrashedMemos] = useState<Memo[]>([])
+  const [isTrashView, setIsTrashView] = useState(false)
+  // 저장소에서 적용하는 목록 필터 (바뀌면 첫 페이지부터 다시 불러옴)
+  const listFilter = useMemo<MemoListFilter>(
+    () => ({
+      category: selectedCategory,
+      folder: selectedFolder,
+      tags: selectedTags,
+      tagMode: tagFilterMode,
+    }),
+    [selectedCategory, selectedFolder, selectedTags, tagFilterMode]
+  )
+  // 실시간 변경 처리에서 최신 목록과 불러온 범위를 참조하기 위한 ref
+  const memosRef = useRef(memos)
+  const nextCursorRef = useRef(nextCursor)
+  const sortRef = useRef(sort)
+  const listFilterRef = useRef(listFilter)
+
+  useEffect(() => {
+    memosRef.current = memos
+    nextCursorRef.current = nextCursor
+    sortRef.current = sort
+    listFilterRef.current = listFilter
+  }, [memos, nextCursor, sort, listFilter])
 
-  // 메모 로드
+  // 메모 첫 페이지 로드 (사용자, 워크스페이스, 정렬, 필터가 바뀌면 다시 로드)
   useEffect(() => {
+    if (!userId) {
+      hasChosenSortRef.current = false
+      setMemos([])
+      setTrashedMemos([])
+      setSearchResults(null)
+      setNextCursor(null)
+      setTotalMemos(null)
+      setLoading(false)
+      return
+    }
+
+    if (!hasChosenSortRef.current) {
+      hasChosenSortRef.current = true
+      const savedSort = loadSortPreference(userId)
+      if (!isSameSort(savedSort, sort)) {
+        // 저장해 둔 정렬로 바뀐 뒤 다시 로드
+        setSort(savedSort)
+        return
+      }
+    }
+
+    let cancelled = false
+
     const loadMemos = async () => {
       setLoading(true)
       setError(null)
       try {
-        const loadedMemos = await memoRepository.getMemos()
-        setMemos(loadedMemos)
+        const page = await memoStore.getMemosPage({
+          ...listFilter,
+          limit: MEMO_PAGE_SIZE,
+          sort,
+        })
+        if (cancelled) return
+        setMemos(page.memos)
+        setNextCursor(page.nextCursor)
+        setTotalMemos(page.total ?? null)
       } catch (err) {
         console.error('Failed to load memos:', err)
-        setError('메모를 불러오는 중 오류가 발생했습니다.')
+        if (!cancelled) setError('메모를 불러오는 중 오류가 발생했습니다.')
       } finally {
-        setLoading(false)
+        if (!cancelled) setLoading(false)
       }
     }
 
     loadMemos()
+    return () => {
+      cancelled = true
+    }
+  }, [userId, workspaceId, sort, listFilter])
+
+  // 저장소에서 개수 다시 세기 (메모가 바뀌면 잠시 기다렸다가 한 번만)
+  useEffect(() => {
+    if (!userId) {
+      setMemoCounts(null)
+      return
+    }
+
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      try {
+        const loaded = await memoStore.getMemoCounts()
+        if (!cancelled) setMemoCounts(loaded)
+      } catch (err) {
+        console.error('Failed to count memos:', err)
+      }
+    }, COUNTS_REFRESH_DELAY_MS)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [userId, workspaceId, memos, countsVersion])
+
+  // 휴지통 불러오기
+  const loadTrash = useCallback(async (): Promise<void> => {
+    try {
+      setTrashedMemos(await memoStore.getDeletedMemos())
+    } catch (err) {
+      console.error('Failed to load trash:', err)
+      setError('휴지통을 불러오는 중 오류가 발생했습니다.')
+    }
   }, [])
 
+  // 보관 기간이 지난 메모를 영구 삭제한 뒤 휴지통 불러오기
+  useEffect(() => {
+    if (!userId) return
+
+    const purgeExpiredMemos = async () => {
+      try {
+        await memoStore.purgeExpiredMemos(getTrashPurgeCutoff())
+      } catch (err) {
+        console.error('Failed to purge expired memos:', err)
+      }
+      await loadTrash()
+    }
+
+    purgeExpiredMemos()
+  }, [loadTrash, userId, workspaceId])
+
+  // 동기화 대기 중인 메모 추적 및 온라인 복귀 시 동기화
+  useEffect(() => {
+    if (!memoStore.sync || !userId) return
+
+    const sync = () => {
+      memoStore.sync?.().catch(err => {
+        console.error('Failed to sync memos:', err)
+      })
+    }
+
+    const readQueue = () => {
+      setPendingMemoIds(syncQueue.getPendingMemoIds())
+      setFailedSyncs(syncQueue.getFailed())
+    }
+
+    readQueue()
+    const unsubscribe = syncQueue.subscribe(readQueue)
+
+    window.addEventListener('online', sync)
+    return () => {
+      unsubscribe()
+      window.removeEventListener('online', sync)
+    }
+  }, [userId])
+
+  // 다른 탭이나 기기에서 일어난 변경을 실시간으로 반영
+  useEffect(() => {
+    if (!memoStore.subscribe || !userId) return
+
+    const handleChange = (incoming: MemoChange) => {
+      // 다른 워크스페이스로 옮겨진 메모는 목록에서 삭제
+      const memoChange: MemoChange =
+        incoming.type === 'upsert' && !isInCurrentScope(incoming.memo)
+          ? { type: 'delete', id: incoming.memo.id }
+          : incoming
+      const change = toListChange(memoChange, false)
+      const changedId = change.type === 'delete' ? change.id : change.memo.id
+
+      setTrashedMemos(prev =>
+        applyMemoChange(prev, toListChange(memoChange, true))
+      )
+
+      // 아직 불러오지 않은 페이지의 메모가 검색 결과에 있을 수 있으므로 함께 갱신
+      setSearchResults(prev =>
+        prev
+          ? {
+              ...prev,
+              hits: prev.hits.flatMap(hit => {
+                if (hit.memo.id !== changedId) return [hit]
+                const [memo] = applyMemoChange([hit.memo], change)
+                return memo ? [{ ...hit, memo }] : []
+              }),
+            }
+          : prev
+      )
+
+      const current = memosRef.current
+      const cursor = nextCursorRef.current
+      // 아직 불러오지 않은 페이지에 들어갈 메모는 목록에 넣지 않고 그 페이지를 불러올 때 받음
+      const listChange: MemoChange =
+        change.type === 'upsert' &&
+        cursor &&
+        isAfterCursor(change.memo, cursor, sortRef.current)
+          ? { type: 'delete', id: change.memo.id }
+          : change
+
+      // 필터에 맞는 개수는 새로 만든 메모와 불러온 목록에서 빠진 메모만 반영
+      // (수정된 메모가 아직 불러오지 않은 페이지에 있어도 새 메모로 세지 않음)
+      const isLoaded = current.some(memo => memo.id === changedId)
+      const delta =
+        change.type === 'upsert'
+          ? change.created &&
+            !isLoaded &&
+            matchesMemoListFilter(change.memo, listFilterRef.current)
+            ? 1
+            : 0
+          : isLoaded
+            ? -1
+            : 0
+      if (delta !== 0) {
+        setTotalMemos(prev =>
+          prev === null ? prev : Math.max(0, prev + delta)
+        )
+      }
+      setMemos(prev => applyMemoChange(prev, listChange))
+    }
+
+    return memoStore.subscribe(handleChange)
+  }, [userId, workspaceId])
+
   // 메모 생성
   const createMemo = useCallback(
     async (formData: MemoFormData): Promise<Memo> => {
@@ -39,24 +317,45 @@ export const useMemos = () => {
         ...formData,
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
+        ownerId: userId || undefined,
+        workspaceId: workspaceId || undefined,
+        // 폴더를 보고 있으면 그 폴더에 생성
+        ...(selectedFolder !== ALL_FOLDERS &&
+          selectedFolder !== UNFILED_FOLDER && { folderId: selectedFolder }),
       }
 
       try {
-        const createdMemo = await memoRepository.addMemo(newMemo)
-        setMemos(prev => [createdMemo, ...prev])
+        const createdMemo = await memoStore.addMemo(newMemo)
+        // 실시간 변경으로 이미 추가되었을 수 있으므로 중복 제거
+        if (
+          !memosRef.current.some(memo => memo.id === createdMemo.id) &&
+          matchesMemoListFilter(createdMemo, listFilterRef.current)
+        ) {
+          setTotalMemos(prev => (prev === null ? prev : prev + 1))
+        }
+        setMemos(prev => [
+          createdMemo,
+          ...prev.filter(memo => memo.id !== createdMemo.id),
+        ])
         return createdMemo
       } catch (err) {
         console.error('Failed to create memo:', err)
         throw err
       }
     },
-    []
+    [userId, workspaceId, selectedFolder]
   )
 
-  // 메모 업데이트
+  // 메모 업데이트 (expectedUpdatedAt: 편집을 시작할 때 본 버전, 기본값은 현재 상태)
   const updateMemo = useCallback(
-    async (id: string, formData: MemoFormData): Promise<void> => {
-      const existingMemo = memos.find(memo => memo.id === id)
+    async (
+      id: string,
+      formData: MemoFormData,
+      expectedUpdatedAt?: string
+    ): Promise<void> => {
+      // 아직 불러오지 않은 페이지의 메모(검색 결과 등)는 저장소에서 조회
+      const existingMemo =
+        memos.find(memo => memo.id === id) || (await memoStore.getMemoById(id))
       if (!existingMemo) return
 
       const updatedMemo: Memo = {
@@ -66,11 +365,20 @@ export const useMemos = () => {
       }
 
       try {
-        const savedMemo = await memoRepository.updateMemo(updatedMemo)
+        const savedMemo = await memoStore.updateMemo(
+          updatedMemo,
+          expectedUpdatedAt ?? existingMemo.updatedAt
+        )
         setMemos(prev =>
           prev.map(memo => (memo.id === id ? savedMemo : memo))
         )
       } catch (err) {
+        if (err instanceof MemoConflictError) {
+          // 다른 곳에서 수정된 최신 버전을 상태에 반영
+          setMemos(prev =>
+            prev.map(memo => (memo.id === id ? err.currentMemo : memo))
+          )
+        }
         console.error('Failed to update memo:', err)
         throw err
       }
@@ -78,10 +386,186 @@ export const useMemos = () => {
     [memos]
   )
 
-  // 메모 삭제
+  // 메모를 다른 워크스페이스로 옮기기 (null 이면 내 개인 메모로)
+  const moveMemoToWorkspace = useCallback(
+    async (id: string, targetWorkspaceId: string | null): Promise<void> => {
+      const existingMemo =
+        memosRef.current.find(memo => memo.id === id) ||
+        (await memoStore.getMemoById(id))
+      if (!existingMemo) return
+
+      try {
+        await memoStore.updateMemo(
+          {
+            ...existingMemo,
+            workspaceId: targetWorkspaceId || undefined,
+            // 폴더는 워크스페이스마다 따로 있으므로 폴더 밖으로
+            folderId: undefined,
+            updatedAt: new Date().toISOString(),
+          },
+          existingMemo.updatedAt
+        )
+        // 지금 보고 있는 범위에서 벗어났으므로 목록에서 제거
+        if (targetWorkspaceId !== workspaceId) {
+          if (memosRef.current.some(memo => memo.id === id)) {
+            setTotalMemos(prev =>
+              prev === null ? prev : Math.max(0, prev - 1)
+            )
+          }
+          setMemos(prev => prev.filter(memo => memo.id !== id))
+          setSearchResults(prev =>
+            prev
+              ? { ...prev, hits: prev.hits.filter(hit => hit.memo.id !== id) }
+              : prev
+          )
+        }
+      } catch (err) {
+        console.error('Failed to move memo:', err)
+        throw err
+      }
+    },
+    [workspaceId]
+  )
+
+  // 일괄 변경된 메모를 저장소에서 다시 읽어 상태에 반영 (바뀐 updatedAt 포함)
+  const refreshLoadedMemos = useCallback(
+    async (isAffected: (memo: Memo) => boolean): Promise<void> => {
+      const affectedIds = new Set(
+        [
+          ...memosRef.current,
+          ...trashedMemos,
+          ...(searchResults?.hits.map(hit => hit.memo) || []),
+        ]
+          .filter(isAffected)
+          .map(memo => memo.id)
+      )
+      const refreshed = new Map<string, Memo>()
+      for (const id of Array.from(affectedIds)) {
+        const memo = await memoStore.getMemoById(id)
+        if (memo) refreshed.set(id, memo)
+      }
+      const refresh = (memo: Memo): Memo => refreshed.get(memo.id) || memo
+
+      setMemos(prev => prev.map(refresh))
+      setTrashedMemos(prev => prev.map(refresh))
+      setSearchResults(prev =>
+        prev
+          ? {
+              ...prev,
+              hits: prev.hits.map(hit => ({
+                ...hit,
+                memo: refresh(hit.memo),
+              })),
+            }
+          : prev
+      )
+    },
+    [trashedMemos, searchResults]
+  )
+
+  // 카테고리를 지울 때 해당 카테고리의 메모를 다른 카테고리로 옮기기
+  const reassignCategory = useCallback(
+    async (from: string, to: string): Promise<void> => {
+      try {
+        await createMemoBackup('beforeCategoryChange')
+        await memoStore.reassignCategory(from, to)
+        await refreshLoadedMemos(memo => memo.category === from)
+        setCountsVersion(prev => prev + 1)
+        setSelectedCategory(prev => (prev === from ? to : prev))
+      } catch (err) {
+        console.error('Failed to reassign category:', err)
+        throw err
+      }
+    },
+    [refreshLoadedMemos]
+  )
+
+  // 메모 하나를 폴더로 옮기기 (null 이면 폴더 밖으로)
+  const moveMemoToFolder = useCallback(
+    async (id: string, folderId: string | null): Promise<void> => {
+      const existingMemo =
+        memosRef.current.find(memo => memo.id === id) ||
+        (await memoStore.getMemoById(id))
+      if (!existingMemo || (existingMemo.folderId || null) === folderId) return
+
+      try {
+        const savedMemo = await memoStore.updateMemo(
+          {
+            ...existingMemo,
+            folderId: folderId || undefined,
+            updatedAt: new Date().toISOString(),
+          },
+          existingMemo.updatedAt
+        )
+        setMemos(prev => prev.map(memo => (memo.id === id ? savedMemo : memo)))
+        setSearchResults(prev =>
+          prev
+            ? {
+                ...prev,
+                hits: prev.hits.map(hit =>
+                  hit.memo.id === id ? { ...hit, memo: savedMemo } : hit
+                ),
+              }
+            : prev
+        )
+      } catch (err) {
+        console.error('Failed to move memo to folder:', err)
+        throw err
+      }
+    },
+    []
+  )
+
+  // 폴더를 지울 때 폴더 안의 메모를 상위 폴더로 옮기기
+  const moveMemosToFolder = useCallback(
+    async (from: string, to: string | null): Promise<void> => {
+      try {
+        await createMemoBackup('beforeFolderDelete')
+        await memoStore.moveMemosToFolder(from, to)
+        await refreshLoadedMemos(memo => memo.folderId === from)
+        setCountsVersion(prev => prev + 1)
+        setSelectedFolder(prev => (prev === from ? to || UNFILED_FOLDER : prev))
+      } catch (err) {
+        console.error('Failed to move memos to folder:', err)
+        throw err
+      }
+    },
+    [refreshLoadedMemos]
+  )
+
+  // 태그 이름 변경, 합치기(to 가 이미 있는 태그), 삭제(to 가 null)
+  const replaceTag = useCallback(
+    async (from: string, to: string | null): Promise<void> => {
+      try {
+        await createMemoBackup('beforeTagChange')
+        await memoStore.replaceTag(from, to)
+        await refreshLoadedMemos(memo => memo.tags.includes(from))
+        setCountsVersion(prev => prev + 1)
+        setSelectedTags(prev =>
+          prev.includes(from) ? replaceTagInList(prev, from, to) : prev
+        )
+      } catch (err) {
+        console.error('Failed to replace tag:', err)
+        throw err
+      }
+    },
+    [refreshLoadedMemos]
+  )
+
+  // 메모를 휴지통으로 이동
   const deleteMemo = useCallback(async (id: string): Promise<void> => {
     try {
-      await memoRepository.deleteMemo(id)
+      await memoStore.deleteMemo(id)
+      const trashed = await memoStore.getMemoById(id)
+      if (trashed) {
+        setTrashedMemos(prev => [
+          trashed,
+          ...prev.filter(memo => memo.id !== id),
+        ])
+      }
+      if (memosRef.current.some(memo => memo.id === id)) {
+        setTotalMemos(prev => (prev === null ? prev : Math.max(0, prev - 1)))
+      }
       setMemos(prev => prev.filter(memo => memo.id !== id))
     } catch (err) {
       console.error('Failed to delete memo:', err)
@@ -89,11 +573,69 @@ export const useMemos = () => {
     }
   }, [])
 
+  // 휴지통에서 복원
+  const restoreMemo = useCallback(async (id: string): Promise<void> => {
+    try {
+      const restored = await memoStore.restoreMemo(id)
+      setTrashedMemos(prev => prev.filter(memo => memo.id !== id))
+      if (
+        !memosRef.current.some(memo => memo.id === id) &&
+        matchesMemoListFilter(restored, listFilterRef.current)
+      ) {
+        setTotalMemos(prev => (prev === null ? prev : prev + 1))
+      }
+      setMemos(prev =>
+        applyMemoChange(prev, { type: 'upsert', memo: restored })
+      )
+    } catch (err) {
+      console.error('Failed to restore memo:', err)
+      throw err
+    }
+  }, [])
+
+  // 영구 삭제
+  const purgeMemo = useCallback(async (id: string): Promise<void> => {
+    try {
+      await memoStore.purgeMemo(id)
+      setTrashedMemos(prev => prev.filter(memo => memo.id !== id))
+    } catch (err) {
+      console.error('Failed to purge memo:', err)
+      throw err
+    }
+  }, [])
+
+  // 휴지통 비우기
+  const emptyTrash = useCallback(async (): Promise<void> => {
+    try {
+      await createMemoBackup('beforeEmptyTrash')
+      for (const memo of trashedMemos) {
+        await memoStore.purgeMemo(memo.id)
+      }
+      setTrashedMemos([])
+    } catch (err) {
+      console.error('Failed to empty trash:', err)
+      await loadTrash()
+      throw err
+    }
+  }, [trashedMemos, loadTrash])
+
+  // 휴지통 보기 전환 (열 때마다 최신 상태로 불러옴)
+  const showTrash = useCallback(
+    (show: boolean): void => {
+      setIsTrashView(show)
+      if (show) {
+        setSearchQuery('')
+        loadTrash()
+      }
+    },
+    [loadTrash]
+  )
+
   // 메모 요약 업데이트
   const updateMemoSummary = useCallback(
     async (id: string, summary: string): Promise<void> => {
       try {
-        const updatedMemo = await memoRepository.updateMemoSummary(id, summary)
+        const updatedMemo = await memoStore.updateMemoSummary(id, summary)
         setMemos(prev =>
           prev.map(memo => (memo.id === id ? updatedMemo : memo))
         )
@@ -105,11 +647,40 @@ export const useMemos = () => {
     []
   )
 
+  // 메모를 목록 맨 위에 고정하거나 해제
+  const toggleMemoPin = useCallback(async (id: string): Promise<void> => {
+    const existingMemo =
+      memosRef.current.find(memo => memo.id === id) ||
+      (await memoStore.getMemoById(id))
+    if (!existingMemo) return
+
+    try {
+      const updatedMemo = await memoStore.setMemoPinned(
+        id,
+        !existingMemo.pinned
+      )
+      setMemos(prev => prev.map(memo => (memo.id === id ? updatedMemo : memo)))
+      setSearchResults(prev =>
+        prev
+          ? {
+              ...prev,
+              hits: prev.hits.map(hit =>
+                hit.memo.id === id ? { ...hit, memo: updatedMemo } : hit
+              ),
+            }
+          : prev
+      )
+    } catch (err) {
+      console.error('Failed to toggle memo pin:', err)
+      throw err
+    }
+  }, [])
+
   // 메모 태그 업데이트
   const updateMemoTags = useCallback(
     async (id: string, tags: string[]): Promise<void> => {
       try {
-        const updatedMemo = await memoRepository.updateMemoTags(id, tags)
+        const updatedMemo = await memoStore.updateMemoTags(id, tags)
         setMemos(prev =>
           prev.map(memo => (memo.id === id ? updatedMemo : memo))
         )
@@ -121,6 +692,63 @@ export const useMemos = () => {
     []
   )
 
+  // 동기화를 멈춘 변경 사항 다시 시도
+  const retryFailedSync = useCallback(async (): Promise<void> => {
+    try {
+      await memoStore.retryFailedSync?.()
+    } catch (err) {
+      console.error('Failed to retry memo sync:', err)
+      throw err
+    }
+  }, [])
+
+  // 동기화를 멈춘 메모의 로컬 변경을 버리고 서버 버전으로 되돌림
+  const discardFailedSync = useCallback(
+    async (memoId: string): Promise<void> => {
+      if (!memoStore.discardFailedSync) return
+
+      try {
+        const serverMemo = await memoStore.discardFailedSync(memoId)
+        setMemos(prev =>
+          serverMemo && !serverMemo.deletedAt
+            ? prev.map(memo => (memo.id === memoId ? serverMemo : memo))
+            : prev.filter(memo => memo.id !== memoId)
+        )
+        await loadTrash()
+      } catch (err) {
+        console.error('Failed to discard unsynced memo change:', err)
+        throw err
+      }
+    },
+    [loadTrash]
+  )
+
+  // 메모 버전 기록 가져오기
+  const getMemoRevisions = useCallback(
+    async (id: string): Promise<MemoRevision[]> => {
+      try {
+        return await memoStore.getRevisions(id)
+      } catch (err) {
+        console.error('Failed to load memo revisions:', err)
+        throw err
+      }
+    },
+    []
+  )
+
+  // 이전 버전으로 복원 (복원도 새 버전으로 기록됨)
+  const restoreMemoRevision = useCallback(
+    async (id: string, revision: MemoRevision): Promise<void> => {
+      await updateMemo(id, {
+        title: revision.title,
+        content: revision.content,
+        category: revision.category,
+        tags: revision.tags,
+      })
+    },
+    [updateMemo]
+  )
+
   // 메모 검색
   const searchMemos = useCallback((query: string): void => {
     setSearchQuery(query)
@@ -131,6 +759,41 @@ export const useMemos = () => {
     setSelectedCategory(category)
   }, [])
 
+  // 폴더 필터링 (ALL_FOLDERS, UNFILED_FOLDER 또는 폴더 ID)
+  const filterByFolder = useCallback((folder: string): void => {
+    setSelectedFolder(folder)
+  }, [])
+
+  // 태그 필터에 태그를 넣거나 빼기
+  const toggleTagFilter = useCallback((tag: string): void => {
+    setSelectedTags(prev =>
+      prev.includes(tag) ? prev.filter(item => item !== tag) : [...prev, tag]
+    )
+  }, [])
+
+  const filterByTags = useCallback((tags: string[]): void => {
+    setSelectedTags(tags)
+  }, [])
+
+  const clearTagFilter = useCallback((): void => {
+    setSelectedTags([])
+  }, [])
+
+  // 여러 태그를 모두 포함(and)할지 하나라도 포함(or)할지
+  const changeTagFilterMode = useCallback((mode: TagFilterMode): void => {
+    setTagFilterMode(mode)
+  }, [])
+
+  // 정렬 변경 (사용자별로 저장해 다음 로그인에도 유지)
+  const changeSort = useCallback(
+    (next: MemoSort): void => {
+      hasChosenSortRef.current = true
+      setSort(next)
+      if (userId) saveSortPreference(userId, next)
+    },
+    [userId]
+  )
+
   // 특정 메모 가져오기
   const getMemoById = useCallback(
     (id: string): Memo | undefined => {
@@ -139,61 +802,439 @@ export const useMemos = () => {
     [memos]
   )
 
+  // 아직 불러오지 않은 메모까지 저장소에서 찾기 (메모 링크로 열 때)
+  const fetchMemoById = useCallback(
+    async (id: string): Promise<Memo | null> => {
+      try {
+        return await memoStore.getMemoById(id)
+      } catch (err) {
+        console.error('Failed to fetch memo:', err)
+        return null
+      }
+    },
+    []
+  )
+
+  // 위키 링크가 가리키는 메모 찾기 (불러온 메모에 없으면 저장소에서)
+  const findMemoByTitle = useCallback(
+    async (title: string): Promise<Memo | null> => {
+      const loadedMemo = findMemoByLinkTitle(memosRef.current, title)
+      if (loadedMemo) return loadedMemo
+
+      try {
+        return await memoStore.findMemoByTitle(title)
+      } catch (err) {
+        console.error('Failed to find memo by title:', err)
+        return null
+      }
+    },
+    []
+  )
+
+  // 메모를 위키 링크로 가리키는 메모 (백링크)
+  // 메모가 저장되면 새 함수가 되어 백링크를 다시 불러옴
+  const getBacklinks = useCallback(
+    async (memo: Memo): Promise<Memo[]> => {
+      try {
+        const backlinks = await memoStore.getBacklinks(memo)
+        // 이미 불러온 메모는 상태에 있는 최신 버전으로 표시
+        const memosById = new Map(memos.map(item => [item.id, item]))
+        return backlinks.map(item => memosById.get(item.id) || item)
+      } catch (err) {
+        console.error('Failed to load backlinks:', err)
+        throw err
+      }
+    },
+    [memos]
+  )
+
+  // 검색어가 바뀌면 순위 검색 실행 (메모가 바뀌어도 결과를 다시 계산)
+  useEffect(() => {
+    const query = searchQuery.trim()
+    if (!query) {
+      setSearchResults(null)
+      setIsSearching(false)
+      return
+    }
+
+    let cancelled = false
+    setIsSearching(true)
+    const timer = setTimeout(async () => {
+      try {
+        const result = await memoStore.searchMemos(query, {
+          category: selectedCategory,
+          folder: selectedFolder,
+          tags: selectedTags,
+          tagMode: tagFilterMode,
+          categories,
+          pageSize: SEARCH_PAGE_SIZE,
+        })
+        if (!cancelled) setSearchResults(result)
+      } catch (err) {
+        console.error('Failed to search memos:', err)
+        if (!cancelled) setError('메모를 검색하는 중 오류가 발생했습니다.')
+      } finally {
+        if (!cancelled) setIsSearching(false)
+      }
+    }, SEARCH_DEBOUNCE_MS)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [
+    searchQuery,
+    selectedCategory,
+    selectedFolder,
+    selectedTags,
+    tagFilterMode,
+    categories,
+    memos,
+  ])
+
+  // 메모 목록 다음 페이지 불러오기
+  // (받은 메모가 모두 이미 목록에 있으면 목록이 늘지 않아 끝에 닿은 것을 다시 알 수 없으므로
+  // 새 메모를 받을 때까지 다음 페이지를 이어서 불러옴)
+  const loadMoreMemos = useCallback(async (): Promise<void> => {
+    let cursor = nextCursor
+    const received: Memo[] = []
+    while (cursor) {
+      const page = await memoStore.getMemosPage({
+        ...listFilter,
+        cursor,
+        limit: MEMO_PAGE_SIZE,
+        sort,
+      })
+      received.push(...page.memos)
+      cursor = page.nextCursor
+      if (
+        page.memos.some(
+          memo => !memosRef.current.some(item => item.id === memo.id)
+        )
+      ) {
+        break
+      }
+    }
+    setMemos(prev => {
+      // 그 사이 새로 만든 메모가 다음 페이지에 다시 나오지 않도록 중복 제거
+      const loadedIds = new Set(prev.map(memo => memo.id))
+      return [...prev, ...received.filter(memo => !loadedIds.has(memo.id))]
+    })
+    setNextCursor(cursor)
+  }, [nextCursor, sort, listFilter])
+
+  // 검색 결과 다음 페이지 불러오기
+  const loadMoreSearchResults = useCallback(async (): Promise<void> => {
+    if (!searchResults?.hasMore) return
+
+    const nextPage = await memoStore.searchMemos(searchQuery.trim(), {
+      category: selectedCategory,
+      folder: selectedFolder,
+      tags: selectedTags,
+      tagMode: tagFilterMode,
+      categories,
+      page: searchResults.page + 1,
+      pageSize: searchResults.pageSize,
+    })
+    setSearchResults(prev =>
+      prev ? { ...nextPage, hits: [...prev.hits, ...nextPage.hits] } : prev
+    )
+  }, [
+    searchResults,
+    searchQuery,
+    selectedCategory,
+    selectedFolder,
+    selectedTags,
+    tagFilterMode,
+    categories,
+  ])
+
+  const hasMore = isTrashView
+    ? false
+    : searchQuery.trim()
+      ? Boolean(searchResults?.hasMore)
+      : nextCursor !== null
+
+  // 스크롤이 끝에 닿았을 때 다음 페이지 불러오기 (검색 중이면 검색 결과)
+  const loadMore = useCallback(async (): Promise<void> => {
+    if (loadingMore || !hasMore) return
+
+    setLoadingMore(true)
+    try {
+      if (searchQuery.trim()) {
+        await loadMoreSearchResults()
+      } else {
+        await loadMoreMemos()
+      }
+    } catch (err) {
+      console.error('Failed to load more memos:', err)
+      throw err
+    } finally {
+      setLoadingMore(false)
+    }
+  }, [loadingMore, hasMore, searchQuery, loadMoreSearchResults, loadMoreMemos])
+
   // 필터링된 메모 목록
   const filteredMemos = useMemo(() => {
-    let filtered = memos
-
-    // 카테고리 필터링
-    if (selectedCategory !== 'all') {
-      filtered = filtered.filter(memo => memo.category === selectedCategory)
+    // 휴지통 보기에서는 카테고리 필터만 적용
+    if (isTrashView) {
+      return selectedCategory === 'all'
+        ? trashedMemos
+        : trashedMemos.filter(memo => memo.category === selectedCategory)
     }
 
-    // 검색 필터링
+    // 검색 중이면 순위 순서대로 (상태에 있는 최신 메모 우선)
     if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase()
-      filtered = filtered.filter(
-        memo =>
-          memo.title.toLowerCase().includes(query) ||
-          memo.content.toLowerCase().includes(query) ||
-          memo.tags.some(tag => tag.toLowerCase().includes(query))
+      const memosById = new Map(memos.map(memo => [memo.id, memo]))
+      return (searchResults?.hits || []).map(
+        hit => memosById.get(hit.memo.id) || hit.memo
       )
     }
 
-    return filtered
-  }, [memos, selectedCategory, searchQuery])
+    // 저장소에서 거른 페이지에 새로 만들거나 바꾼 메모가 섞일 수 있으므로 다시 거르고
+    // 고정한 메모도 정렬 순서대로
+    return memos
+      .filter(memo => matchesMemoListFilter(memo, listFilter))
+      .sort((a, b) => compareMemos(a, b, sort))
+  }, [
+    memos,
+    sort,
+    trashedMemos,
+    isTrashView,
+    selectedCategory,
+    listFilter,
+    searchQuery,
+    searchResults,
+  ])
+
+  // 검색어 문법 오류 (입력창 아래에 표시)
+  const searchErrors = useMemo(
+    () => parseSearchQuery(searchQuery).errors,
+    [searchQuery]
+  )
+
+  // 서버 검색이 최근에 수정한 일부 메모 안에서만 이루어졌는지 (입력창 아래에 표시)
+  const searchTruncated = Boolean(
+    searchQuery.trim() && searchResults?.truncated
+  )
+
+  // 검색 결과 하이라이트 (메모 ID 기준)
+  const searchHighlights = useMemo(() => {
+    const highlights: Record<string, MemoSearchHighlights> = {}
+    if (searchQuery.trim()) {
+      searchResults?.hits.forEach(hit => {
+        highlights[hit.memo.id] = hit.highlights
+      })
+    }
+    return highlights
+  }, [searchQuery, searchResults])
+
+  // 현재 검색어와 필터에 맞는 메모 내보내기 (불러오지 않은 페이지 포함)
+  // Supabase 저장소는 서버의 내보내기 라우트에서, 나머지는 브라우저에서 파일을 만듦
+  const exportMemos = useCallback(
+    async (format: MemoExportFormat): Promise<MemoExportFile> => {
+      const options = {
+        query: searchQuery,
+        category: selectedCategory,
+        folder: selectedFolder,
+        tags: selectedTags,
+        tagMode: tagFilterMode,
+        categories,
+      }
+      try {
+        if (memoStoreBackend === 'supabase') {
+          return await fetchMemoExport(format, options)
+        }
+        return createMemoExport(
+          await collectMemosForExport(memoStore, options),
+          format
+        )
+      } catch (err) {
+        console.error('Failed to export memos:', err)
+        throw err
+      }
+    },
+    [
+      searchQuery,
+      selectedCategory,
+      selectedFolder,
+      selectedTags,
+      tagFilterMode,
+      categories,
+    ]
+  )
+
+  // 가져올 파일을 읽고 저장된 메모와 비교 (저장하지 않는 미리보기)
+  const previewImport = useCallback(
+    async (files: MemoImportFile[]): Promise<MemoImportPreview> => {
+      try {
+        const { memos: imported, errors } = await readImportFiles(files)
+        return buildImportPreview(
+          imported,
+          await readAllMemoPages(memoStore),
+          categories,
+          errors
+        )
+      } catch (err) {
+        console.error('Failed to preview import:', err)
+        throw err
+      }
+    },
+    [categories]
+  )
+
+  // 미리보기에서 고른 메모를 나눠서 저장 (onProgress: 지금까지 저장한 수)
+  const importMemos = useCallback(
+    async (
+      imported: ImportedMemo[],
+      onProgress?: (saved: number) => void
+    ): Promise<Memo[]> => {
+      const now = new Date().toISOString()
+      const newMemos: Memo[] = imported.map(item => ({
+        id: uuidv4(),
+        ...item.data,
+        summary: item.summary,
+        pinned: item.pinned || undefined,
+        createdAt: item.createdAt || now,
+        updatedAt: item.updatedAt || item.createdAt || now,
+        ownerId: userId || undefined,
+        workspaceId: workspaceId || undefined,
+        // 폴더를 보고 있으면 그 폴더로 가져옴
+        ...(selectedFolder !== ALL_FOLDERS &&
+          selectedFolder !== UNFILED_FOLDER && { folderId: selectedFolder }),
+      }))
+
+      // 가져오기는 기존 메모를 바꾸지 않으므로 백업에 실패해도 계속 진행
+      try {
+        await createMemoBackup('beforeImport')
+      } catch (err) {
+        console.warn('Importing without a backup:', err)
+      }
+
+      const saved: Memo[] = []
+      try {
+        for (let i = 0; i < newMemos.length; i += IMPORT_BATCH_SIZE) {
+          saved.push(
+            ...(await memoStore.addMemos(
+              newMemos.slice(i, i + IMPORT_BATCH_SIZE)
+            ))
+          )
+          onProgress?.(saved.length)
+        }
+        return saved
+      } catch (err) {
+        console.error('Failed to import memos:', err)
+        throw err
+      } finally {
+        // 일부만 저장되고 실패해도 저장된 메모는 목록에 반영
+        const savedIds = new Set(saved.map(memo => memo.id))
+        const added = saved.filter(
+          memo =>
+            !memosRef.current.some(item => item.id === memo.id) &&
+            matchesMemoListFilter(memo, listFilterRef.current)
+        ).length
+        setTotalMemos(prev => (prev === null ? prev : prev + added))
+        setMemos(prev => [
+          ...saved,
+          ...prev.filter(memo => !savedIds.has(memo.id)),
+        ])
+      }
+    },
+    [userId, workspaceId, selectedFolder]
+  )
 
   // 모든 메모 삭제
   const clearAllMemos = useCallback(async (): Promise<void> => {
     try {
-      // 모든 메모를 순차적으로 삭제
-      const deletePromises = memos.map(memo => memoRepository.deleteMemo(memo.id))
-      await Promise.all(deletePromises)
+      await createMemoBackup('beforeClear')
+      // 아직 불러오지 않은 페이지까지 포함해 모든 메모를 휴지통으로 이동
+      const allMemos = await readAllMemoPages(memoStore)
+      for (const memo of allMemos) {
+        await memoStore.deleteMemo(memo.id)
+      }
+      await loadTrash()
       setMemos([])
+      setNextCursor(null)
+      setTotalMemos(0)
       setSearchQuery('')
       setSelectedCategory('all')
     } catch (err) {
       console.error('Failed to clear all memos:', err)
       throw err
     }
-  }, [memos])
+  }, [loadTrash])
+
+  // 백업 복원 (복원한 뒤 첫 페이지와 휴지통을 다시 불러옴)
+  const restoreBackup = useCallback(
+    async (id: string): Promise<MemoBackupDiff> => {
+      try {
+        const diff = await restoreMemoBackup(id)
+        const page = await memoStore.getMemosPage({
+          ...listFilter,
+          limit: MEMO_PAGE_SIZE,
+          sort,
+        })
+        setMemos(page.memos)
+        setNextCursor(page.nextCursor)
+        setTotalMemos(page.total ?? null)
+        await loadTrash()
+        return diff
+      } catch (err) {
+        console.error('Failed to restore backup:', err)
+        throw err
+      }
+    },
+    [sort, listFilter, loadTrash]
+  )
+
+  // 카테고리, 폴더, 태그별 개수 (불러오지 않은 페이지 포함, 아직 받지 못했으면 불러온 메모 기준)
+  const counts = useMemo(
+    () => memoCounts ?? countMemos(memos),
+    [memoCounts, memos]
+  )
+  // 태그별 사용 횟수 (태그 필터, 태그 관리, 자동 완성에 사용)
+  const tagCounts = counts.byTag
 
   // 통계 정보
   const stats = useMemo(() => {
-    const totalMemos = memos.length
-    const categoryCounts = memos.reduce(
-      (acc, memo) => {
-        acc[memo.category] = (acc[memo.category] || 0) + 1
-        return acc
-      },
-      {} as Record<string, number>
-    )
-
     return {
-      total: totalMemos,
-      byCategory: categoryCounts,
-      filtered: filteredMemos.length,
+      // 전체 메모 수 (폴더 밖의 메모도 UNFILED_FOLDER 로 세므로 폴더별 개수의 합)
+      total: memoCounts
+        ? Object.values(memoCounts.byFolder).reduce(
+            (sum, count) => sum + count,
+            0
+          )
+        : (totalMemos ?? memos.length),
+      byCategory: counts.byCategory,
+      byFolder: counts.byFolder,
+      byTag: tagCounts.reduce(
+        (acc, { tag, count }) => {
+          acc[tag] = count
+          return acc
+        },
+        {} as Record<string, number>
+      ),
+      // 필터에 맞는 메모 수 (불러오지 않은 페이지 포함)
+      filtered:
+        searchQuery.trim() && searchResults
+          ? searchResults.total
+          : !isTrashView && totalMemos !== null
+            ? totalMemos
+            : filteredMemos.length,
+      trash: trashedMemos.length,
     }
-  }, [memos, filteredMemos])
+  }, [
+    memos,
+    counts,
+    memoCounts,
+    tagCounts,
+    totalMemos,
+    isTrashView,
+    trashedMemos,
+    filteredMemos,
+    searchQuery,
+    searchResults,
+  ])
 
   return {
     // 상태
@@ -203,21 +1244,63 @@ export const useMemos = () => {
     error,
     searchQuery,
     selectedCategory,
+    selectedFolder,
+    selectedTags,
+    tagFilterMode,
+    sort,
     stats,
+    tagCounts,
+    pendingMemoIds,
+    failedSyncs,
+    searchHighlights,
+    searchErrors,
+    searchTruncated,
+    isSearching,
+    hasMore,
+    loadingMore,
+    isTrashView,
 
     // 메모 CRUD
     createMemo,
     updateMemo,
     deleteMemo,
+    restoreMemo,
+    purgeMemo,
+    emptyTrash,
     getMemoById,
+    fetchMemoById,
+    findMemoByTitle,
+    getBacklinks,
     updateMemoSummary,
     updateMemoTags,
+    toggleMemoPin,
+    getMemoRevisions,
+    restoreMemoRevision,
+    moveMemoToWorkspace,
+    reassignCategory,
+    moveMemoToFolder,
+    moveMemosToFolder,
+    replaceTag,
+    retryFailedSync,
+    discardFailedSync,
 
     // 필터링 & 검색
     searchMemos,
+    loadMore,
     filterByCategory,
+    filterByFolder,
+    toggleTagFilter,
+    filterByTags,
+    clearTagFilter,
+    changeTagFilterMode,
+    changeSort,
+    showTrash,
 
     // 유틸리티
+    exportMemos,
+    previewImport,
+    importMemos,
     clearAllMemos,
+    restoreBackup,
   }
 }
@@ -0,0 +1,54 @@
+'use client'
+
+import { useCallback } from 'react'
+import { MemoShareLink } from '@/types/memo'
+import { getShareLinkStore } from '@/utils/shareLinkStore'
+
+const shareLinkStore = getShareLinkStore()
+
+export const useShareLinks = () => {
+  // 메모의 공유 링크 조회
+  const getShareLinks = useCallback(
+    async (memoId: string): Promise<MemoShareLink[]> => {
+      try {
+        return await shareLinkStore.getShareLinks(memoId)
+      } catch (err) {
+        console.error('Failed to load share links:', err)
+        throw err
+      }
+    },
+    []
+  )
+
+  // 공유 링크 만들기 (expiresAt 이 없으면 만료 없음)
+  const createShareLink = useCallback(
+    async (memoId: string, expiresAt?: string): Promise<MemoShareLink> => {
+      try {
+        return await shareLinkStore.createShareLink(memoId, expiresAt)
+      } catch (err) {
+        console.error('Failed to create share link:', err)
+        throw err
+      }
+    },
+    []
+  )
+
+  // 공유 링크 폐기
+  const revokeShareLink = useCallback(
+    async (token: string): Promise<MemoShareLink> => {
+      try {
+        return await shareLinkStore.revokeShareLink(token)
+      } catch (err) {
+        console.error('Failed to revoke share link:', err)
+        throw err
+      }
+    },
+    []
+  )
+
+  return {
+    getShareLinks,
+    createShareLink,
+    revokeShareLink,
+  }
+}
@@ -0,0 +1,57 @@
+'use client'
+
+import { useEffect, useRef } from 'react'
+import { buildViewUrl, MemoViewState, parseViewUrl } from '@/utils/viewUrl'
+
+const readLocation = (): MemoViewState =>
+  parseViewUrl(window.location.pathname, window.location.search)
+
+const getCurrentUrl = (): string =>
+  `${window.location.pathname}${window.location.search}`
+
+// 화면 상태를 주소와 맞춤
+// - 처음 열 때와 뒤로/앞으로 가기를 하면 주소의 상태를 onRestore 로 전달
+// - 상태가 바뀌면 주소를 고침 (메모를 열고 닫거나 목록/그래프를 바꿀 때만 방문 기록을 남기고, 필터는 현재 기록을 바꿈)
+export const useViewUrl = (
+  state: MemoViewState,
+  onRestore: (state: MemoViewState) => void
+) => {
+  const onRestoreRef = useRef(onRestore)
+  onRestoreRef.current = onRestore
+  // 처음 읽은 주소의 상태가 화면에 반영되기 전에는 기본 상태로 주소를 덮어쓰지 않도록
+  const restoredUrlRef = useRef<string | null>(null)
+  const isSyncedRef = useRef(false)
+
+  const url = buildViewUrl(state)
+  const urlRef = useRef(url)
+  urlRef.current = url
+
+  useEffect(() => {
+    if (!isSyncedRef.current) {
+      isSyncedRef.current = url === restoredUrlRef.current
+      return
+    }
+    if (url === getCurrentUrl()) return
+
+    const current = readLocation()
+    if (state.memoId !== current.memoId || state.view !== current.view) {
+      window.history.pushState(null, '', url)
+    } else {
+      window.history.replaceState(null, '', url)
+    }
+  }, [url, state.memoId, state.view])
+
+  useEffect(() => {
+    const restore = () => {
+      const restored = readLocation()
+      restoredUrlRef.current = buildViewUrl(restored)
+      // 이미 같은 상태면 다시 그려지지 않으므로 바로 맞춘 것으로 봄
+      if (restoredUrlRef.current === urlRef.current) isSyncedRef.current = true
+      onRestoreRef.current(restored)
+    }
+
+    restore()
+    window.addEventListener('popstate', restore)
+    return () => window.removeEventListener('popstate', restore)
+  }, [])
+}
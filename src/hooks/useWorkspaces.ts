@@ -0,0 +1,177 @@
+'use client'
+
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { Workspace, WorkspaceMember, WorkspaceRole } from '@/types/workspace'
+import { getWorkspaceStore } from '@/utils/workspaceStore'
+import {
+  canEditWithRole,
+  setCurrentWorkspaceId as setWorkspaceScope,
+} from '@/utils/workspaceScope'
+
+const workspaceStore = getWorkspaceStore()
+
+// 마지막으로 선택한 워크스페이스 (새로고침 후에도 유지)
+const SELECTED_WORKSPACE_KEY = 'memo-app-workspace'
+
+// userId: 현재 로그인한 사용자 (없으면 개인 메모만)
+export const useWorkspaces = (userId: string | null) => {
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([])
+  const [currentWorkspaceId, setCurrentWorkspaceId] = useState<string | null>(
+    null
+  )
+
+  // 선택한 워크스페이스를 저장소 조회 범위에도 반영
+  const applyWorkspace = useCallback((workspaceId: string | null) => {
+    setWorkspaceScope(workspaceId)
+    setCurrentWorkspaceId(workspaceId)
+    if (workspaceId) {
+      localStorage.setItem(SELECTED_WORKSPACE_KEY, workspaceId)
+    } else {
+      localStorage.removeItem(SELECTED_WORKSPACE_KEY)
+    }
+  }, [])
+
+  // 내가 속한 워크스페이스 불러오기 (사용자가 바뀌면 다시 로드)
+  useEffect(() => {
+    if (!userId) {
+      setWorkspaces([])
+      setWorkspaceScope(null)
+      setCurrentWorkspaceId(null)
+      return
+    }
+
+    let cancelled = false
+
+    const loadWorkspaces = async () => {
+      try {
+        const loaded = await workspaceStore.getWorkspaces()
+        if (cancelled) return
+        setWorkspaces(loaded)
+
+        // 더 이상 멤버가 아닌 워크스페이스는 선택 해제
+        const selected = localStorage.getItem(SELECTED_WORKSPACE_KEY)
+        applyWorkspace(
+          loaded.some(workspace => workspace.id === selected) ? selected : null
+        )
+      } catch (err) {
+        console.error('Failed to load workspaces:', err)
+      }
+    }
+
+    loadWorkspaces()
+    return () => {
+      cancelled = true
+    }
+  }, [userId, applyWorkspace])
+
+  const currentWorkspace = useMemo(
+    () =>
+      workspaces.find(workspace => workspace.id === currentWorkspaceId) || null,
+    [workspaces, currentWorkspaceId]
+  )
+
+  // 개인 메모에서는 항상 소유자
+  const currentRole: WorkspaceRole = currentWorkspace?.role || 'owner'
+
+  // 워크스페이스 전환 (null 이면 개인 메모)
+  const selectWorkspace = useCallback(
+    (workspaceId: string | null): void => {
+      applyWorkspace(workspaceId)
+    },
+    [applyWorkspace]
+  )
+
+  // 워크스페이스 생성 후 바로 전환
+  const createWorkspace = useCallback(
+    async (name: string): Promise<Workspace> => {
+      try {
+        const workspace = await workspaceStore.createWorkspace(name)
+        setWorkspaces(prev => [...prev, workspace])
+        applyWorkspace(workspace.id)
+        return workspace
+      } catch (err) {
+        console.error('Failed to create workspace:', err)
+        throw err
+      }
+    },
+    [applyWorkspace]
+  )
+
+  // 멤버 조회
+  const getMembers = useCallback(
+    async (workspaceId: string): Promise<WorkspaceMember[]> => {
+      try {
+        return await workspaceStore.getMembers(workspaceId)
+      } catch (err) {
+        console.error('Failed to load workspace members:', err)
+        throw err
+      }
+    },
+    []
+  )
+
+  // 멤버 초대
+  const addMember = useCallback(
+    async (
+      workspaceId: string,
+      email: string,
+      role: WorkspaceRole
+    ): Promise<WorkspaceMember> => {
+      try {
+        return await workspaceStore.addMember(workspaceId, email, role)
+      } catch (err) {
+        console.error('Failed to add workspace member:', err)
+        throw err
+      }
+    },
+    []
+  )
+
+  // 멤버 역할 변경
+  const updateMemberRole = useCallback(
+    async (
+      workspaceId: string,
+      email: string,
+      role: WorkspaceRole
+    ): Promise<WorkspaceMember> => {
+      try {
+        return await workspaceStore.updateMemberRole(workspaceId, email, role)
+      } catch (err) {
+        console.error('Failed to update workspace member:', err)
+        throw err
+      }
+    },
+    []
+  )
+
+  // 멤버 내보내기
+  const removeMember = useCallback(
+    async (workspaceId: string, email: string): Promise<void> => {
+      try {
+        await workspaceStore.removeMember(workspaceId, email)
+      } catch (err) {
+        console.error('Failed to remove workspace member:', err)
+        throw err
+      }
+    },
+    []
+  )
+
+  return {
+    // 상태
+    workspaces,
+    currentWorkspace,
+    currentRole,
+    canEdit: canEditWithRole(currentRole),
+
+    // 워크스페이스
+    selectWorkspace,
+    createWorkspace,
+
+    // 멤버 관리
+    getMembers,
+    addMember,
+    updateMemberRole,
+    removeMember,
+  }
+}
@@ -0,0 +1,209 @@
+import { v5 as uuidv5 } from 'uuid'
+import { getSupabaseClient, isSupabaseConfigured } from './supabaseClient'
+
+export interface AuthUser {
+  id: string
+  email: string
+}
+
+export interface AuthSession {
+  user: AuthUser
+  // Supabase 액세스 토큰 (API 라우트에 RLS 권한을 넘길 때 사용, 로컬 인증은 null)
+  accessToken: string | null
+}
+
+export type OAuthProviderName = 'google' | 'github'
+
+export type AuthListener = (session: AuthSession | null) => void
+
+// 인증 백엔드가 구현하는 공통 인터페이스
+interface AuthClient {
+  getSession(): Promise<AuthSession | null>
+  // 매직 링크 메일을 보냈으면 true, 바로 로그인되었으면 false
+  signInWithEmail(email: string): Promise<{ emailSent: boolean }>
+  signInWithOAuth(provider: OAuthProviderName): Promise<void>
+  signOut(): Promise<void>
+  onAuthStateChange(listener: AuthListener): () => void
+}
+
+export type AuthProviderBackend = 'supabase' | 'local'
+
+const LOCAL_SESSION_KEY = 'memo-app-auth-session'
+// 이메일로 로컬 사용자 ID를 만들 때 쓰는 네임스페이스 (같은 이메일이면 같은 ID)
+const LOCAL_USER_NAMESPACE = '3f6f0b1e-2c1a-4b8e-9a57-6d2f4a1c9e10'
+
+// Supabase Auth (이메일 매직 링크, OAuth)
+const supabaseAuth: AuthClient = {
+  async getSession() {
+    const { data, error } = await getSupabaseClient().auth.getSession()
+    if (error) {
+      console.error('Error loading auth session:', error)
+      throw error
+    }
+    return toSession(data.session)
+  },
+
+  async signInWithEmail(email) {
+    const { error } = await getSupabaseClient().auth.signInWithOtp({
+      email,
+      options: { emailRedirectTo: window.location.origin },
+    })
+    if (error) {
+      console.error('Error sending magic link:', error)
+      throw error
+    }
+    return { emailSent: true }
+  },
+
+  async signInWithOAuth(provider) {
+    const { error } = await getSupabaseClient().auth.signInWithOAuth({
+      provider,
+      options: { redirectTo: window.location.origin },
+    })
+    if (error) {
+      console.error('Error signing in with OAuth:', error)
+      throw error
+    }
+  },
+
+  async signOut() {
+    const { error } = await getSupabaseClient().auth.signOut()
+    if (error) {
+      console.error('Error signing out:', error)
+      throw error
+    }
+  },
+
+  onAuthStateChange(listener) {
+    const { data } = getSupabaseClient().auth.onAuthStateChange(
+      (_event, session) => listener(toSession(session))
+    )
+    return () => data.subscription.unsubscribe()
+  },
+}
+
+const toSession = (
+  session: {
+    access_token: string
+    user: { id: string; email?: string }
+  } | null
+): AuthSession | null =>
+  session
+    ? {
+        user: { id: session.user.id, email: session.user.email || '' },
+        accessToken: session.access_token,
+      }
+    : null
+
+const localListeners = new Set<AuthListener>()
+
+const readLocalSession = (): AuthSession | null => {
+  if (typeof window === 'undefined') return null
+
+  try {
+    const stored = localStorage.getItem(LOCAL_SESSION_KEY)
+    return stored ? JSON.parse(stored) : null
+  } catch (error) {
+    console.error('Error loading local auth session:', error)
+    return null
+  }
+}
+
+const writeLocalSession = (session: AuthSession | null): void => {
+  if (session) {
+    localStorage.setItem(LOCAL_SESSION_KEY, JSON.stringify(session))
+  } else {
+    localStorage.removeItem(LOCAL_SESSION_KEY)
+  }
+  localListeners.forEach(listener => listener(session))
+}
+
+// Supabase 없이 개발/테스트할 때 쓰는 로컬 인증 (메일 발송 없이 바로 로그인)
+const localAuth: AuthClient = {
+  async getSession() {
+    return readLocalSession()
+  },
+
+  async signInWithEmail(email) {
+    const normalized = email.trim().toLowerCase()
+    writeLocalSession({
+      user: { id: uuidv5(normalized, LOCAL_USER_NAMESPACE), email: normalized },
+      accessToken: null,
+    })
+    return { emailSent: false }
+  },
+
+  async signInWithOAuth(provider) {
+    await localAuth.signInWithEmail(`${provider}-user@example.com`)
+  },
+
+  async signOut() {
+    writeLocalSession(null)
+  },
+
+  onAuthStateChange(listener) {
+    localListeners.add(listener)
+    return () => {
+      localListeners.delete(listener)
+    }
+  },
+}
+
+const AUTH_PROVIDER_BACKENDS: AuthProviderBackend[] = ['supabase', 'local']
+
+// NEXT_PUBLIC_AUTH_PROVIDER 로 인증 백엔드 선택 (미설정 시 Supabase 설정 여부에 따라 결정)
+const resolveAuthProvider = (): AuthProviderBackend => {
+  const configured = process.env.NEXT_PUBLIC_AUTH_PROVIDER as
+    | AuthProviderBackend
+    | undefined
+
+  if (configured && AUTH_PROVIDER_BACKENDS.includes(configured)) {
+    return configured
+  }
+
+  if (configured) {
+    console.warn(`Unknown NEXT_PUBLIC_AUTH_PROVIDER "${configured}", ignoring.`)
+  }
+
+  return isSupabaseConfigured ? 'supabase' : 'local'
+}
+
+export const authProviderBackend = resolveAuthProvider()
+
+const authClient: AuthClient =
+  authProviderBackend === 'supabase' ? supabaseAuth : localAuth
+
+// 저장소에서 동기적으로 참조할 수 있도록 마지막으로 확인한 세션을 보관
+let currentSession: AuthSession | null = null
+
+const remember = (session: AuthSession | null): AuthSession | null => {
+  currentSession = session
+  return session
+}
+
+export const auth = {
+  // 현재 세션 확인
+  getSession: async (): Promise<AuthSession | null> =>
+    remember(await authClient.getSession()),
+
+  signInWithEmail: (email: string) => authClient.signInWithEmail(email),
+
+  signInWithOAuth: (provider: OAuthProviderName) =>
+    authClient.signInWithOAuth(provider),
+
+  signOut: () => authClient.signOut(),
+
+  // 로그인/로그아웃 구독 (구독 해제 함수 반환)
+  onAuthStateChange: (listener: AuthListener): (() => void) =>
+    authClient.onAuthStateChange(session => listener(remember(session))),
+}
+
+// 현재 로그인한 사용자 (세션을 확인하기 전이면 null)
+export const getCurrentUser = (): AuthUser | null =>
+  currentSession?.user || null
+
+// API 라우트 요청에 붙일 인증 헤더
+export const getAuthHeaders = (): Record<string, string> =>
+  currentSession?.accessToken
+    ? { Authorization: `Bearer ${currentSession.accessToken}` }
+    : {}
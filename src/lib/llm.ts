@@ -0,0 +1,279 @@
+import { GoogleGenAI } from '@google/genai'
+
+// API 라우트에서 쓰는 LLM 호출 (서버 전용, 제공자는 LLM_PROVIDER 로 선택)
+
+// 요청 종류 (제공자는 prompt 만 쓰고, mock 제공자는 종류에 맞는 응답을 만듦)
+export type LlmTask = 'summary' | 'tags'
+
+export interface LlmRequest {
+  task: LlmTask
+  // 프롬프트를 만든 메모 원문
+  memo: { title: string; content: string }
+  prompt: string
+  maxOutputTokens: number
+  temperature?: number
+}
+
+// 모든 LLM 제공자가 구현하는 공통 인터페이스
+export interface LlmProvider {
+  generateText(request: LlmRequest): Promise<string>
+  // 요청이 받아들여지면 생성되는 대로 텍스트 조각을 돌려줌
+  // (요청 자체가 실패하면 첫 조각을 읽기 전에 오류 발생)
+  streamText(request: LlmRequest): Promise<AsyncIterable<string>>
+}
+
+export type LlmProviderName = 'gemini' | 'openai' | 'ollama' | 'mock'
+
+const LLM_PROVIDERS: LlmProviderName[] = ['gemini', 'openai', 'ollama', 'mock']
+
+// LLM_MODEL 을 설정하지 않았을 때 쓰는 모델
+const DEFAULT_MODELS: Record<LlmProviderName, string> = {
+  gemini: 'gemini-2.0-flash-001',
+  openai: 'gpt-4o-mini',
+  ollama: 'llama3.2',
+  mock: 'mock',
+}
+
+const DEFAULT_TEMPERATURE = 0.7
+const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1'
+const DEFAULT_OLLAMA_BASE_URL = 'http://localhost:11434'
+
+// 응답 본문을 줄 단위로 읽기 (SSE, NDJSON 스트림)
+async function* readLines(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<string> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    buffer += decoder.decode(value, { stream: true })
+    const lines = buffer.split('\n')
+    buffer = lines.pop() || ''
+    for (const line of lines) {
+      if (line.trim()) yield line
+    }
+  }
+  buffer += decoder.decode()
+  if (buffer.trim()) yield buffer
+}
+
+const postJson = async (
+  url: string,
+  body: unknown,
+  headers: Record<string, string> = {}
+): Promise<Response> => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  })
+
+  if (!response.ok || !response.body) {
+    const detail = await response.text().catch(() => '')
+    throw new Error(
+      `LLM 요청에 실패했습니다. (${response.status}) ${detail}`.trim()
+    )
+  }
+  return response
+}
+
+// Google Gemini (@google/genai)
+const createGeminiProvider = (model: string): LlmProvider => {
+  const apiKey = process.env.GEMINI_API_KEY
+  if (!apiKey) {
+    throw new Error('GEMINI_API_KEY가 설정되지 않았습니다.')
+  }
+  const ai = new GoogleGenAI({ apiKey })
+  const toParams = (request: LlmRequest) => ({
+    model,
+    contents: request.prompt,
+    config: {
+      maxOutputTokens: request.maxOutputTokens,
+      temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+    },
+  })
+
+  return {
+    async generateText(request) {
+      const response = await ai.models.generateContent(toParams(request))
+      return response.text || ''
+    },
+
+    async streamText(request) {
+      const chunks = await ai.models.generateContentStream(toParams(request))
+      return (async function* () {
+        for await (const chunk of chunks) {
+          if (chunk.text) yield chunk.text
+        }
+      })()
+    },
+  }
+}
+
+// OpenAI 호환 Chat Completions API (OpenAI, 또는 OPENAI_BASE_URL 로 지정한 호환 서버)
+const createOpenAiProvider = (model: string): LlmProvider => {
+  const baseUrl = (
+    process.env.OPENAI_BASE_URL || DEFAULT_OPENAI_BASE_URL
+  ).replace(/\/+$/, '')
+  const apiKey = process.env.OPENAI_API_KEY
+  // 로컬 호환 서버는 키 없이도 동작하므로 OpenAI 에 보낼 때만 키를 요구
+  if (!apiKey && baseUrl === DEFAULT_OPENAI_BASE_URL) {
+    throw new Error('OPENAI_API_KEY가 설정되지 않았습니다.')
+  }
+  const headers: Record<string, string> = apiKey
+    ? { Authorization: `Bearer ${apiKey}` }
+    : {}
+  const toBody = (request: LlmRequest, stream: boolean) => ({
+    model,
+    messages: [{ role: 'user', content: request.prompt }],
+    max_tokens: request.maxOutputTokens,
+    temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+    stream,
+  })
+
+  return {
+    async generateText(request) {
+      const response = await postJson(
+        `${baseUrl}/chat/completions`,
+        toBody(request, false),
+        headers
+      )
+      const data = await response.json()
+      return data.choices?.[0]?.message?.content || ''
+    },
+
+    async streamText(request) {
+      const response = await postJson(
+        `${baseUrl}/chat/completions`,
+        toBody(request, true),
+        headers
+      )
+      return (async function* () {
+        // Server-Sent Events: "data: {...}" 줄이 이어지다 "data: [DONE]" 으로 끝남
+        for await (const line of readLines(response.body!)) {
+          if (!line.startsWith('data:')) continue
+          const data = line.slice('data:'.length).trim()
+          if (data === '[DONE]') return
+          const text = JSON.parse(data).choices?.[0]?.delta?.content
+          if (text) yield text
+        }
+      })()
+    },
+  }
+}
+
+// Ollama 형식의 로컬 HTTP API (/api/generate)
+const createOllamaProvider = (model: string): LlmProvider => {
+  const baseUrl = (
+    process.env.OLLAMA_BASE_URL || DEFAULT_OLLAMA_BASE_URL
+  ).replace(/\/+$/, '')
+  const toBody = (request: LlmRequest, stream: boolean) => ({
+    model,
+    prompt: request.prompt,
+    stream,
+    options: {
+      num_predict: request.maxOutputTokens,
+      temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+    },
+  })
+
+  return {
+    async generateText(request) {
+      const response = await postJson(
+        `${baseUrl}/api/generate`,
+        toBody(request, false)
+      )
+      const data = await response.json()
+      return data.response || ''
+    },
+
+    async streamText(request) {
+      const response = await postJson(
+        `${baseUrl}/api/generate`,
+        toBody(request, true)
+      )
+      return (async function* () {
+        // 줄마다 { response, done } JSON 객체 (NDJSON)
+        for await (const line of readLines(response.body!)) {
+          const data = JSON.parse(line)
+          if (data.error) throw new Error(data.error)
+          if (data.response) yield data.response
+          if (data.done) return
+        }
+      })()
+    },
+  }
+}
+
+// 같은 요청에는 항상 같은 응답 (네트워크 없이 개발, E2E 테스트용)
+// 태그는 제목의 단어를 최대 3개, 요약은 내용의 첫 문장을 돌려줌
+const mockRespond = ({ task, memo }: LlmRequest): string => {
+  switch (task) {
+    case 'tags': {
+      const words = memo.title
+        .split(/[\s.,!?;:()[\]{}<>"'`~#*_=+|/\\-]+/)
+        .filter(word => word.length >= 2)
+      return JSON.stringify(
+        words.length > 0 ? Array.from(new Set(words)).slice(0, 3) : ['mock']
+      )
+    }
+    case 'summary': {
+      const firstLine = memo.content.trim().split('\n')[0].trim()
+      const firstSentence =
+        firstLine.match(/^.*?[.!?。](?=\s|$)/)?.[0] || firstLine
+      return `[mock] ${firstSentence.slice(0, 100) || '요약할 내용이 없습니다.'}`
+    }
+  }
+}
+
+const mockProvider: LlmProvider = {
+  async generateText(request) {
+    return mockRespond(request)
+  },
+
+  async streamText(request) {
+    const text = mockRespond(request)
+    return (async function* () {
+      // 스트리밍 화면을 확인할 수 있도록 단어 단위로 나눠 보냄
+      for (const piece of text.match(/\S+\s*/g) || []) {
+        yield piece
+      }
+    })()
+  },
+}
+
+// LLM_PROVIDER 로 제공자 선택 (미설정 시 기존과 같이 Gemini)
+const resolveLlmProvider = (): LlmProviderName => {
+  const configured = process.env.LLM_PROVIDER as LlmProviderName | undefined
+
+  if (configured && LLM_PROVIDERS.includes(configured)) {
+    return configured
+  }
+
+  if (configured) {
+    console.warn(`Unknown LLM_PROVIDER "${configured}", ignoring.`)
+  }
+
+  return 'gemini'
+}
+
+export const llmProviderName = resolveLlmProvider()
+
+// 설정된 LLM 제공자 가져오기 (필요한 환경 변수가 없으면 오류)
+export const getLlmProvider = (): LlmProvider => {
+  const model = process.env.LLM_MODEL || DEFAULT_MODELS[llmProviderName]
+
+  switch (llmProviderName) {
+    case 'openai':
+      return createOpenAiProvider(model)
+    case 'ollama':
+      return createOllamaProvider(model)
+    case 'mock':
+      return mockProvider
+    case 'gemini':
+    default:
+      return createGeminiProvider(model)
+  }
+}
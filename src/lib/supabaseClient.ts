@@ -1,13 +1,42 @@
-import { createClient } from '@supabase/supabase-js'
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
 
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
-const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
 
-if (!supabaseUrl || !supabaseAnonKey) {
-  throw new Error(
-    'Missing Supabase environment variables. Please check your .env.local file.'
-  )
+// Supabase 환경 변수가 모두 설정되어 있는지 여부
+export const isSupabaseConfigured = Boolean(supabaseUrl && supabaseAnonKey)
+
+let client: SupabaseClient | null = null
+
+const getConfig = (): { url: string; anonKey: string } => {
+  if (!supabaseUrl || !supabaseAnonKey) {
+    throw new Error(
+      'Missing Supabase environment variables. Please check your .env.local file.'
+    )
+  }
+  return { url: supabaseUrl, anonKey: supabaseAnonKey }
 }
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey)
+// Supabase 클라이언트는 처음 사용할 때 생성 (Supabase 없이도 앱을 실행할 수 있도록)
+export const getSupabaseClient = (): SupabaseClient => {
+  const { url, anonKey } = getConfig()
 
+  if (!client) {
+    client = createClient(url, anonKey)
+  }
+
+  return client
+}
+
+// API 라우트용: 요청의 Authorization 헤더로 사용자 권한(RLS)을 적용한 클라이언트
+export const getSupabaseClientForRequest = (
+  request: Request
+): SupabaseClient => {
+  const { url, anonKey } = getConfig()
+  const authorization = request.headers.get('authorization')
+
+  return createClient(url, anonKey, {
+    global: { headers: authorization ? { Authorization: authorization } : {} },
+    auth: { persistSession: false, autoRefreshToken: false },
+  })
+}
@@ -0,0 +1,54 @@
+import type { Memo } from './memo'
+
+// 백업을 만든 이유 (주기 백업, 직접 백업, 일괄 작업 직전 자동 백업)
+export type MemoBackupReason =
+  | 'scheduled'
+  | 'manual'
+  | 'beforeClear'
+  | 'beforeReset'
+  | 'beforeImport'
+  | 'beforeRestore'
+  | 'beforeEmptyTrash'
+  | 'beforeTagChange'
+  | 'beforeCategoryChange'
+  | 'beforeFolderDelete'
+
+export const MEMO_BACKUP_REASONS: Record<MemoBackupReason, string> = {
+  scheduled: '주기 백업',
+  manual: '직접 백업',
+  beforeClear: '모두 삭제 전',
+  beforeReset: '샘플 데이터로 초기화 전',
+  beforeImport: '가져오기 전',
+  beforeRestore: '백업 복원 전',
+  beforeEmptyTrash: '휴지통 비우기 전',
+  beforeTagChange: '태그 일괄 변경 전',
+  beforeCategoryChange: '카테고리 삭제 전',
+  beforeFolderDelete: '폴더 삭제 전',
+}
+
+// 현재 범위(워크스페이스 또는 개인 메모)의 메모 전체(휴지통 포함) 스냅샷 정보
+export interface MemoBackupSummary {
+  id: string
+  createdAt: string
+  reason: MemoBackupReason
+  memoCount: number
+  // 휴지통에 있던 메모 수 (memoCount 에 포함)
+  deletedCount: number
+  // 메모 내용이 바뀌었는지 비교하는 값 (바뀐 것이 없으면 주기 백업을 건너뜀)
+  fingerprint: string
+}
+
+export interface MemoBackup extends MemoBackupSummary {
+  memos: Memo[]
+}
+
+// 백업과 현재 메모를 비교한 결과 (복원하면 일어날 일)
+export interface MemoBackupDiff {
+  // 지금은 없어서 다시 만들어질 메모
+  added: Memo[]
+  // 백업에 없어서 휴지통으로 옮겨질 메모
+  removed: Memo[]
+  // 백업 때와 내용이 달라 되돌려질 메모
+  changed: { current: Memo; backup: Memo }[]
+  unchangedCount: number
+}
@@ -0,0 +1,125 @@
+import { MEMO_CATEGORIES, MemoCategory } from './memo'
+
+export type CategoryColor =
+  | 'blue'
+  | 'green'
+  | 'purple'
+  | 'yellow'
+  | 'red'
+  | 'pink'
+  | 'orange'
+  | 'teal'
+  | 'gray'
+
+// 색상 이름과 배지 스타일 (Tailwind 가 찾을 수 있도록 클래스 이름을 그대로 적음)
+// fill: 그래프 노드 (SVG) 색상
+export const CATEGORY_COLORS: Record<
+  CategoryColor,
+  { label: string; badge: string; swatch: string; fill: string }
+> = {
+  blue: {
+    label: '파랑',
+    badge: 'bg-blue-100 text-blue-800',
+    swatch: 'bg-blue-500',
+    fill: 'fill-blue-500',
+  },
+  green: {
+    label: '초록',
+    badge: 'bg-green-100 text-green-800',
+    swatch: 'bg-green-500',
+    fill: 'fill-green-500',
+  },
+  purple: {
+    label: '보라',
+    badge: 'bg-purple-100 text-purple-800',
+    swatch: 'bg-purple-500',
+    fill: 'fill-purple-500',
+  },
+  yellow: {
+    label: '노랑',
+    badge: 'bg-yellow-100 text-yellow-800',
+    swatch: 'bg-yellow-500',
+    fill: 'fill-yellow-500',
+  },
+  red: {
+    label: '빨강',
+    badge: 'bg-red-100 text-red-800',
+    swatch: 'bg-red-500',
+    fill: 'fill-red-500',
+  },
+  pink: {
+    label: '분홍',
+    badge: 'bg-pink-100 text-pink-800',
+    swatch: 'bg-pink-500',
+    fill: 'fill-pink-500',
+  },
+  orange: {
+    label: '주황',
+    badge: 'bg-orange-100 text-orange-800',
+    swatch: 'bg-orange-500',
+    fill: 'fill-orange-500',
+  },
+  teal: {
+    label: '청록',
+    badge: 'bg-teal-100 text-teal-800',
+    swatch: 'bg-teal-500',
+    fill: 'fill-teal-500',
+  },
+  gray: {
+    label: '회색',
+    badge: 'bg-gray-100 text-gray-800',
+    swatch: 'bg-gray-500',
+    fill: 'fill-gray-500',
+  },
+}
+
+// 카테고리 아이콘으로 고를 수 있는 이모지
+export const CATEGORY_ICONS = [
+  '🏠',
+  '💼',
+  '📚',
+  '💡',
+  '📌',
+  '⭐',
+  '🎯',
+  '🛒',
+  '✈️',
+  '🎵',
+  '💰',
+  '❤️',
+]
+
+// 사용자가 만들고 고칠 수 있는 메모 카테고리 (개인 메모 또는 워크스페이스 단위)
+export interface Category {
+  // 메모의 category 필드에 저장되는 값
+  id: string
+  name: string
+  color: CategoryColor
+  icon: string
+  // 목록에 표시되는 순서 (작을수록 앞)
+  position: number
+}
+
+export type CategoryInput = Pick<Category, 'name' | 'color' | 'icon'>
+
+const DEFAULT_CATEGORY_STYLES: Record<
+  MemoCategory,
+  Pick<Category, 'color' | 'icon'>
+> = {
+  personal: { color: 'blue', icon: '🏠' },
+  work: { color: 'green', icon: '💼' },
+  study: { color: 'purple', icon: '📚' },
+  idea: { color: 'yellow', icon: '💡' },
+  other: { color: 'gray', icon: '📌' },
+}
+
+// 카테고리를 아직 저장하지 않은 범위에서 쓰는 기본 카테고리
+// (기존 메모의 category 값과 같은 ID를 사용)
+export const DEFAULT_CATEGORY_LIST: Category[] = (
+  Object.keys(MEMO_CATEGORIES) as MemoCategory[]
+).map((id, position) => ({
+  id,
+  name: MEMO_CATEGORIES[id],
+  ...DEFAULT_CATEGORY_STYLES[id],
+  position,
+}))
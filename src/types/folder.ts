@@ -0,0 +1,20 @@
+// 메모를 정리하는 폴더 (parentId 로 중첩, 개인 메모 또는 워크스페이스 단위)
+export interface Folder {
+  id: string
+  name: string
+  // 상위 폴더 (null 이면 최상위)
+  parentId: string | null
+  createdAt: string
+}
+
+// 폴더 필터 값: 모든 메모
+export const ALL_FOLDERS = 'all'
+// 폴더 필터 값: 폴더에 넣지 않은 메모
+export const UNFILED_FOLDER = 'unfiled'
+
+// 사이드바에 그리는 폴더 트리의 노드
+export interface FolderNode extends Folder {
+  children: FolderNode[]
+  // 깊이 (최상위가 0)
+  depth: number
+}
@@ -1,3 +1,5 @@
+import type { Category } from './category'
+
 export interface Memo {
   id: string
   title: string
@@ -7,6 +9,50 @@ export interface Memo {
   createdAt: string
   updatedAt: string
   summary?: string
+  // 메모를 만든 사용자 ID (로그인 기능 이전 데이터는 없음)
+  ownerId?: string
+  // 공유된 워크스페이스 (없으면 소유자만 보는 개인 메모)
+  workspaceId?: string
+  // 메모가 들어 있는 폴더 (없으면 폴더 밖)
+  folderId?: string
+  // 목록 맨 위에 고정 (정렬과 관계없이 먼저 표시)
+  pinned?: boolean
+  // 휴지통으로 옮긴 시각 (보관 기간이 지나면 영구 삭제)
+  deletedAt?: string
+}
+
+// 메모를 저장할 때마다 남는 변경 불가능한 버전 기록
+export interface MemoRevision {
+  id: string
+  memoId: string
+  title: string
+  content: string
+  category: string
+  tags: string[]
+  // 이 버전을 저장한 사람 (기록 기능 이전 데이터는 null)
+  author: string | null
+  createdAt: string
+}
+
+// 로그인 없이 메모를 읽을 수 있는 공개 공유 링크
+export interface MemoShareLink {
+  // 추측할 수 없는 무작위 토큰 (공유 URL 에 포함)
+  token: string
+  memoId: string
+  createdAt: string
+  // 만료 시각 (없으면 폐기할 때까지 유효)
+  expiresAt?: string
+  // 폐기한 시각 (폐기된 링크는 더 이상 열리지 않음)
+  revokedAt?: string
+}
+
+// 공유 링크로 공개되는 메모 내용 (읽기 전용)
+export type SharedMemo = Pick<
+  Memo,
+  'title' | 'content' | 'category' | 'tags' | 'summary' | 'updatedAt'
+> & {
+  // 메모가 속한 범위의 카테고리 표시 정보 (없으면 기본 카테고리로 표시)
+  categoryInfo?: Pick<Category, 'name' | 'color' | 'icon'>
 }
 
 export interface MemoFormData {
@@ -16,6 +62,7 @@ export interface MemoFormData {
   tags: string[]
 }
 
+// 기본 카테고리 (사용자 카테고리는 types/category.ts 참고)
 export type MemoCategory = 'personal' | 'work' | 'study' | 'idea' | 'other'
 
 export const MEMO_CATEGORIES: Record<MemoCategory, string> = {
@@ -25,5 +72,3 @@ export const MEMO_CATEGORIES: Record<MemoCategory, string> = {
   idea: '아이디어',
   other: '기타',
 }
-
-export const DEFAULT_CATEGORIES = Object.keys(MEMO_CATEGORIES) as MemoCategory[]
@@ -0,0 +1,25 @@
+export type WorkspaceRole = 'owner' | 'editor' | 'viewer'
+
+export const WORKSPACE_ROLES: Record<WorkspaceRole, string> = {
+  owner: '소유자',
+  editor: '편집자',
+  viewer: '뷰어',
+}
+
+// 여러 사용자가 함께 메모를 관리하는 공간
+export interface Workspace {
+  id: string
+  name: string
+  ownerId: string
+  createdAt: string
+  // 현재 사용자의 역할
+  role: WorkspaceRole
+}
+
+// 워크스페이스 멤버 (이메일로 초대)
+export interface WorkspaceMember {
+  workspaceId: string
+  email: string
+  role: WorkspaceRole
+  createdAt: string
+}
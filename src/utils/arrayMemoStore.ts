@@ -0,0 +1,263 @@
+import { Memo, MemoRevision } from '@/types/memo'
+import type { MemoStore } from './memoStore'
+import { DEFAULT_MEMO_PAGE_SIZE, matchesMemoListFilter } from './memoPagination'
+import {
+  compareMemos,
+  DEFAULT_MEMO_SORT,
+  isAfterCursor,
+  toSortKey,
+} from './memoSort'
+import { MemoConflictError } from './memoErrors'
+import { searchMemoCollection } from './memoSearch'
+import { countMemos } from './memoCounts'
+import { createRevision, hasRevisionChanges } from './memoRevisions'
+import { isInCurrentScope } from './workspaceScope'
+import { replaceTagInList } from './tags'
+import { findMemoByLinkTitle, linksToTitle } from './wikiLinks'
+
+// 메모 배열을 통째로 읽고 쓰는 저장 공간
+export interface MemoArrayStorage {
+  read(): Memo[]
+  write(memos: Memo[]): void
+  readRevisions(): MemoRevision[]
+  writeRevisions(revisions: MemoRevision[]): void
+}
+
+const findMemoOrThrow = (memos: Memo[], id: string): number => {
+  const index = memos.findIndex(memo => memo.id === id)
+  if (index === -1) {
+    throw new Error(`Memo not found: ${id}`)
+  }
+  return index
+}
+
+// 배열 기반 저장 공간 위에 MemoStore 구현 (LocalStorage, 인메모리 공용)
+export const createArrayMemoStore = (storage: MemoArrayStorage): MemoStore => {
+  // 기록 대상 필드가 바뀌었으면 새 버전 기록
+  // (기록이 없는 기존 메모는 바뀌기 전 상태도 함께 남김)
+  const recordRevision = (before: Memo, after: Memo): void => {
+    if (!hasRevisionChanges(before, after)) return
+
+    const revisions = storage.readRevisions()
+    if (!revisions.some(revision => revision.memoId === before.id)) {
+      revisions.push(createRevision(before, null))
+    }
+    revisions.push(createRevision(after))
+    storage.writeRevisions(revisions)
+  }
+
+  const patchMemo = (id: string, patch: Partial<Memo>): Memo => {
+    const memos = storage.read()
+    const index = findMemoOrThrow(memos, id)
+    const patched: Memo = {
+      ...memos[index],
+      ...patch,
+      updatedAt: new Date().toISOString(),
+    }
+    recordRevision(memos[index], patched)
+    memos[index] = patched
+    storage.write(memos)
+    return patched
+  }
+
+  // 현재 워크스페이스(또는 개인 메모)의 메모만 읽기
+  const readScopedMemos = (): Memo[] => storage.read().filter(isInCurrentScope)
+
+  // 휴지통을 제외한 모든 메모 가져오기 (최신 생성순, 같으면 ID 역순)
+  const getMemos = async (): Promise<Memo[]> =>
+    readScopedMemos()
+      .filter(memo => !memo.deletedAt)
+      .sort(
+        (a, b) =>
+          b.createdAt.localeCompare(a.createdAt) || b.id.localeCompare(a.id)
+      )
+
+  return {
+    getMemos,
+
+    // 필터에 맞는 메모 페이지 가져오기
+    async getMemosPage({
+      cursor,
+      limit = DEFAULT_MEMO_PAGE_SIZE,
+      sort = DEFAULT_MEMO_SORT,
+      ...filter
+    } = {}) {
+      const memos = (await getMemos())
+        .filter(memo => matchesMemoListFilter(memo, filter))
+        .sort((a, b) => compareMemos(a, b, sort))
+      const remaining = cursor
+        ? memos.filter(memo => isAfterCursor(memo, cursor, sort))
+        : memos
+      const page = remaining.slice(0, limit)
+      const last = page[page.length - 1]
+
+      return {
+        memos: page,
+        nextCursor: remaining.length > limit ? toSortKey(last, sort) : null,
+        total: memos.length,
+      }
+    },
+
+    // 메모 추가
+    async addMemo(memo) {
+      const memos = storage.read()
+      memos.unshift(memo) // 새 메모를 맨 앞에 추가
+      storage.write(memos)
+      storage.writeRevisions([...storage.readRevisions(), createRevision(memo)])
+      return memo
+    },
+
+    // 여러 메모 추가 (한 번만 읽고 씀)
+    async addMemos(newMemos) {
+      storage.write([...newMemos, ...storage.read()])
+      storage.writeRevisions([
+        ...storage.readRevisions(),
+        ...newMemos.map(memo => createRevision(memo)),
+      ])
+      return newMemos
+    },
+
+    // 메모 업데이트
+    async updateMemo(updatedMemo, expectedUpdatedAt) {
+      const memos = storage.read()
+      const index = findMemoOrThrow(memos, updatedMemo.id)
+      if (expectedUpdatedAt && memos[index].updatedAt !== expectedUpdatedAt) {
+        throw new MemoConflictError(memos[index])
+      }
+      recordRevision(memos[index], updatedMemo)
+      memos[index] = updatedMemo
+      storage.write(memos)
+      return updatedMemo
+    },
+
+    // 메모를 휴지통으로 이동
+    async deleteMemo(id) {
+      patchMemo(id, { deletedAt: new Date().toISOString() })
+    },
+
+    // 휴지통에서 복원
+    async restoreMemo(id) {
+      return patchMemo(id, { deletedAt: undefined })
+    },
+
+    // 영구 삭제 (버전 기록도 함께 삭제)
+    async purgeMemo(id) {
+      storage.write(storage.read().filter(memo => memo.id !== id))
+      storage.writeRevisions(
+        storage.readRevisions().filter(revision => revision.memoId !== id)
+      )
+    },
+
+    // 휴지통에 있는 메모
+    async getDeletedMemos() {
+      return readScopedMemos()
+        .filter(memo => memo.deletedAt)
+        .sort((a, b) => (b.deletedAt || '').localeCompare(a.deletedAt || ''))
+    },
+
+    // 보관 기간이 지난 메모 영구 삭제
+    async purgeExpiredMemos(before) {
+      const memos = storage.read()
+      const expiredIds = new Set(
+        memos
+          .filter(isInCurrentScope)
+          .filter(memo => memo.deletedAt && memo.deletedAt < before)
+          .map(memo => memo.id)
+      )
+      if (expiredIds.size === 0) return 0
+
+      storage.write(memos.filter(memo => !expiredIds.has(memo.id)))
+      storage.writeRevisions(
+        storage
+          .readRevisions()
+          .filter(revision => !expiredIds.has(revision.memoId))
+      )
+      return expiredIds.size
+    },
+
+    // 카테고리 일괄 변경 (메모마다 버전 기록)
+    async reassignCategory(from, to) {
+      const targetIds = readScopedMemos()
+        .filter(memo => memo.category === from)
+        .map(memo => memo.id)
+      targetIds.forEach(id => patchMemo(id, { category: to }))
+      return targetIds.length
+    },
+
+    // 폴더 일괄 이동
+    async moveMemosToFolder(from, to) {
+      const targetIds = readScopedMemos()
+        .filter(memo => memo.folderId === from)
+        .map(memo => memo.id)
+      targetIds.forEach(id => patchMemo(id, { folderId: to || undefined }))
+      return targetIds.length
+    },
+
+    // 태그 일괄 변경 (이름 변경, 합치기, 삭제)
+    async replaceTag(from, to) {
+      const targets = readScopedMemos().filter(memo => memo.tags.includes(from))
+      targets.forEach(memo =>
+        patchMemo(memo.id, { tags: replaceTagInList(memo.tags, from, to) })
+      )
+      return targets.length
+    },
+
+    // 메모의 버전 기록 (최신순)
+    async getRevisions(memoId) {
+      return storage
+        .readRevisions()
+        .filter(revision => revision.memoId === memoId)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    },
+
+    // 메모 검색
+    async searchMemos(query, options) {
+      return searchMemoCollection(await getMemos(), query, options)
+    },
+
+    // 카테고리별 메모 필터링
+    async getMemosByCategory(category) {
+      const memos = await getMemos()
+      return category === 'all'
+        ? memos
+        : memos.filter(memo => memo.category === category)
+    },
+
+    // 카테고리, 폴더, 태그별 메모 수
+    async getMemoCounts() {
+      return countMemos(await getMemos())
+    },
+
+    // 특정 메모 가져오기
+    async getMemoById(id) {
+      return readScopedMemos().find(memo => memo.id === id) || null
+    },
+
+    // 위키 링크 제목으로 메모 찾기
+    async findMemoByTitle(title) {
+      return findMemoByLinkTitle(await getMemos(), title)
+    },
+
+    // 백링크 (저장된 내용에서 바로 찾으므로 따로 색인하지 않음)
+    async getBacklinks(memo) {
+      return (await getMemos())
+        .filter(item => item.id !== memo.id && linksToTitle(item, memo.title))
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    },
+
+    // 요약 업데이트
+    async updateMemoSummary(id, summary) {
+      return patchMemo(id, { summary })
+    },
+
+    // 태그 업데이트
+    async updateMemoTags(id, tags) {
+      return patchMemo(id, { tags })
+    },
+
+    // 목록 맨 위 고정 / 해제
+    async setMemoPinned(id, pinned) {
+      return patchMemo(id, { pinned })
+    },
+  }
+}
@@ -0,0 +1,101 @@
+import { Memo } from '@/types/memo'
+import { MemoBackup, MemoBackupSummary } from '@/types/backup'
+import { getCurrentScopeKey } from './workspaceScope'
+
+// 백업 목록 (범위별, 최신순)과 백업마다 따로 저장하는 메모 목록
+// (목록을 읽을 때 모든 백업의 메모를 읽지 않도록 나눠 저장)
+const BACKUPS_STORAGE_KEY = 'memo-app-backups'
+const BACKUP_MEMOS_STORAGE_KEY_PREFIX = 'memo-app-backup:'
+
+// 범위마다 남겨 두는 백업 수 (넘으면 오래된 백업부터 삭제)
+export const MAX_BACKUPS_PER_SCOPE = 10
+
+// 범위별로 저장된 백업 목록 (키: 워크스페이스 ID 또는 personal:<사용자 ID>)
+type StoredBackups = Record<string, MemoBackupSummary[]>
+
+const toMemosKey = (id: string): string =>
+  `${BACKUP_MEMOS_STORAGE_KEY_PREFIX}${id}`
+
+const readStoredBackups = (): StoredBackups => {
+  if (typeof window === 'undefined') return {}
+
+  try {
+    const stored = localStorage.getItem(BACKUPS_STORAGE_KEY)
+    return stored ? JSON.parse(stored) : {}
+  } catch (error) {
+    console.error('Error loading backups from localStorage:', error)
+    return {}
+  }
+}
+
+const saveScopedBackups = (backups: MemoBackupSummary[]): void => {
+  localStorage.setItem(
+    BACKUPS_STORAGE_KEY,
+    JSON.stringify({
+      ...readStoredBackups(),
+      [getCurrentScopeKey()]: backups,
+    })
+  )
+}
+
+// 현재 범위의 백업 목록 (최신순)
+export const listBackups = (): MemoBackupSummary[] =>
+  readStoredBackups()[getCurrentScopeKey()] || []
+
+// 백업의 메모까지 읽기 (없거나 읽을 수 없으면 null)
+export const readBackup = (id: string): MemoBackup | null => {
+  if (typeof window === 'undefined') return null
+
+  const summary = listBackups().find(backup => backup.id === id)
+  if (!summary) return null
+
+  try {
+    const stored = localStorage.getItem(toMemosKey(id))
+    if (!stored) return null
+    return { ...summary, memos: JSON.parse(stored) as Memo[] }
+  } catch (error) {
+    console.error('Error loading backup from localStorage:', error)
+    return null
+  }
+}
+
+export const deleteBackup = (id: string): void => {
+  if (typeof window === 'undefined') return
+
+  try {
+    localStorage.removeItem(toMemosKey(id))
+    saveScopedBackups(listBackups().filter(backup => backup.id !== id))
+  } catch (error) {
+    console.error('Error deleting backup from localStorage:', error)
+  }
+}
+
+// 백업 저장 (보관 개수를 넘거나 저장 공간이 부족하면 오래된 백업부터 삭제)
+export const saveBackup = (backup: MemoBackup): MemoBackupSummary => {
+  if (typeof window === 'undefined') {
+    throw new Error('브라우저에서만 백업할 수 있습니다.')
+  }
+
+  const { memos, ...summary } = backup
+  const data = JSON.stringify(memos)
+
+  listBackups()
+    .slice(MAX_BACKUPS_PER_SCOPE - 1)
+    .forEach(old => deleteBackup(old.id))
+
+  for (;;) {
+    try {
+      localStorage.setItem(toMemosKey(summary.id), data)
+      saveScopedBackups([summary, ...listBackups()])
+      return summary
+    } catch (error) {
+      localStorage.removeItem(toMemosKey(summary.id))
+      const oldest = listBackups().at(-1)
+      if (!oldest) {
+        console.error('Error saving backup to localStorage:', error)
+        throw new Error('백업을 저장할 공간이 부족합니다.')
+      }
+      deleteBackup(oldest.id)
+    }
+  }
+}
@@ -0,0 +1,28 @@
+import { Category, DEFAULT_CATEGORY_LIST } from '@/types/category'
+
+// 메모의 category 값으로 카테고리 찾기
+// (목록에 없으면 기본 카테고리 이름, 그것도 없으면 값 그대로 회색으로 표시)
+export const resolveCategory = (categories: Category[], id: string): Category =>
+  categories.find(category => category.id === id) ||
+  DEFAULT_CATEGORY_LIST.find(category => category.id === id) || {
+    id,
+    name: id,
+    color: 'gray',
+    icon: '📁',
+    position: categories.length,
+  }
+
+// 카테고리를 한 칸 앞(-1) 또는 뒤(1)로 옮긴 ID 순서
+export const moveCategoryId = (
+  categories: Category[],
+  id: string,
+  offset: -1 | 1
+): string[] => {
+  const ids = categories.map(category => category.id)
+  const from = ids.indexOf(id)
+  const to = from + offset
+  if (from === -1 || to < 0 || to >= ids.length) return ids
+
+  ids.splice(to, 0, ...ids.splice(from, 1))
+  return ids
+}
@@ -0,0 +1,297 @@
+import { v4 as uuidv4 } from 'uuid'
+import {
+  Category,
+  CategoryColor,
+  CategoryInput,
+  DEFAULT_CATEGORY_LIST,
+} from '@/types/category'
+import { Memo } from '@/types/memo'
+import { getSupabaseClient } from '@/lib/supabaseClient'
+import { memoStoreBackend } from './memoStore'
+import {
+  applyWorkspaceScope,
+  getCurrentScopeKey,
+  getCurrentWorkspaceId,
+  toScopeKey,
+} from './workspaceScope'
+
+// 현재 범위(워크스페이스 또는 내 개인 메모)의 카테고리를 관리하는 저장소
+// 카테고리를 한 번도 고치지 않은 범위는 기본 카테고리를 사용하고, 처음 고칠 때 저장함
+export interface CategoryStore {
+  // 표시 순서대로 정렬된 카테고리
+  getCategories(): Promise<Category[]>
+  createCategory(input: CategoryInput): Promise<Category>
+  updateCategory(id: string, patch: Partial<CategoryInput>): Promise<Category>
+  // ids 순서대로 표시 순서 변경
+  reorderCategories(ids: string[]): Promise<Category[]>
+  // 카테고리 삭제 (메모 재지정은 MemoStore.reassignCategory 로 먼저 처리)
+  deleteCategory(id: string): Promise<void>
+}
+
+const byPosition = (a: Category, b: Category) => a.position - b.position
+
+// memo_categories 테이블의 행 구조 (key 가 메모의 category 값)
+interface CategoryRow {
+  id: string
+  key: string
+  owner_id: string
+  workspace_id: string | null
+  name: string
+  color: CategoryColor
+  icon: string
+  position: number
+  created_at: string
+}
+
+const toCategory = (row: CategoryRow): Category => ({
+  id: row.key,
+  name: row.name,
+  color: row.color,
+  icon: row.icon,
+  position: row.position,
+})
+
+const selectCategoryRows = async (): Promise<CategoryRow[]> => {
+  const { data, error } = await applyWorkspaceScope(
+    getSupabaseClient()
+      .from('memo_categories')
+      .select('*')
+      .order('position', { ascending: true })
+  )
+
+  if (error) {
+    console.error('Error loading categories from Supabase:', error)
+    throw error
+  }
+
+  return data || []
+}
+
+const insertCategories = async (
+  categories: Category[]
+): Promise<Category[]> => {
+  const { data, error } = await getSupabaseClient()
+    .from('memo_categories')
+    .insert(
+      categories.map(category => ({
+        key: category.id,
+        workspace_id: getCurrentWorkspaceId(),
+        name: category.name,
+        color: category.color,
+        icon: category.icon,
+        position: category.position,
+      }))
+    )
+    .select()
+
+  if (error) {
+    console.error('Error creating categories in Supabase:', error)
+    throw error
+  }
+
+  return (data || []).map(toCategory)
+}
+
+// 저장된 카테고리 (아직 없으면 기본 카테고리를 먼저 저장)
+const loadOrSeedCategories = async (): Promise<Category[]> => {
+  const rows = await selectCategoryRows()
+  if (rows.length > 0) return rows.map(toCategory)
+  return (await insertCategories(DEFAULT_CATEGORY_LIST)).sort(byPosition)
+}
+
+// Supabase 저장소 (편집 권한은 RLS 정책으로 검사)
+const supabaseCategoryStore: CategoryStore = {
+  async getCategories() {
+    try {
+      const rows = await selectCategoryRows()
+      return rows.length > 0 ? rows.map(toCategory) : DEFAULT_CATEGORY_LIST
+    } catch (error) {
+      console.error('Error loading categories:', error)
+      throw error
+    }
+  },
+
+  async createCategory(input) {
+    try {
+      const categories = await loadOrSeedCategories()
+      const [created] = await insertCategories([
+        {
+          id: uuidv4(),
+          ...input,
+          position:
+            Math.max(-1, ...categories.map(category => category.position)) + 1,
+        },
+      ])
+      return created
+    } catch (error) {
+      console.error('Error creating category:', error)
+      throw error
+    }
+  },
+
+  async updateCategory(id, patch) {
+    try {
+      await loadOrSeedCategories()
+      const { data, error } = await applyWorkspaceScope(
+        getSupabaseClient().from('memo_categories').update(patch).eq('key', id)
+      )
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error updating category in Supabase:', error)
+        throw error
+      }
+
+      return toCategory(data)
+    } catch (error) {
+      console.error('Error updating category:', error)
+      throw error
+    }
+  },
+
+  async reorderCategories(ids) {
+    try {
+      await loadOrSeedCategories()
+      for (const [position, id] of ids.entries()) {
+        const { error } = await applyWorkspaceScope(
+          getSupabaseClient()
+            .from('memo_categories')
+            .update({ position })
+            .eq('key', id)
+        )
+
+        if (error) {
+          console.error('Error reordering categories in Supabase:', error)
+          throw error
+        }
+      }
+      return (await selectCategoryRows()).map(toCategory)
+    } catch (error) {
+      console.error('Error reordering categories:', error)
+      throw error
+    }
+  },
+
+  async deleteCategory(id) {
+    try {
+      await loadOrSeedCategories()
+      const { error } = await applyWorkspaceScope(
+        getSupabaseClient().from('memo_categories').delete().eq('key', id)
+      )
+
+      if (error) {
+        console.error('Error deleting category in Supabase:', error)
+        throw error
+      }
+    } catch (error) {
+      console.error('Error deleting category:', error)
+      throw error
+    }
+  },
+}
+
+const CATEGORIES_STORAGE_KEY = 'memo-app-categories'
+
+// 범위별로 저장된 카테고리 (키: 워크스페이스 ID 또는 personal:<사용자 ID>)
+type StoredCategories = Record<string, Category[]>
+
+const readStoredCategories = (): StoredCategories => {
+  if (typeof window === 'undefined') return {}
+
+  try {
+    const stored = localStorage.getItem(CATEGORIES_STORAGE_KEY)
+    return stored ? JSON.parse(stored) : {}
+  } catch (error) {
+    console.error('Error loading categories from localStorage:', error)
+    return {}
+  }
+}
+
+const readScopedCategories = (): Category[] =>
+  (readStoredCategories()[getCurrentScopeKey()] || DEFAULT_CATEGORY_LIST)
+    .slice()
+    .sort(byPosition)
+
+const saveScopedCategories = (categories: Category[]): void => {
+  if (typeof window === 'undefined') return
+
+  try {
+    localStorage.setItem(
+      CATEGORIES_STORAGE_KEY,
+      JSON.stringify({
+        ...readStoredCategories(),
+        [getCurrentScopeKey()]: categories,
+      })
+    )
+  } catch (error) {
+    console.error('Error saving categories to localStorage:', error)
+  }
+}
+
+const findCategoryOrThrow = (categories: Category[], id: string): number => {
+  const index = categories.findIndex(category => category.id === id)
+  if (index === -1) {
+    throw new Error(`Category not found: ${id}`)
+  }
+  return index
+}
+
+// LocalStorage 저장소 (개발/테스트용)
+const localCategoryStore: CategoryStore = {
+  async getCategories() {
+    return readScopedCategories()
+  },
+
+  async createCategory(input) {
+    const categories = readScopedCategories()
+    const category: Category = {
+      id: uuidv4(),
+      ...input,
+      position:
+        Math.max(-1, ...categories.map(category => category.position)) + 1,
+    }
+    saveScopedCategories([...categories, category])
+    return category
+  },
+
+  async updateCategory(id, patch) {
+    const categories = readScopedCategories()
+    const index = findCategoryOrThrow(categories, id)
+    categories[index] = { ...categories[index], ...patch }
+    saveScopedCategories(categories)
+    return categories[index]
+  },
+
+  async reorderCategories(ids) {
+    const reordered = readScopedCategories()
+      .map(category => ({
+        ...category,
+        position: ids.includes(category.id)
+          ? ids.indexOf(category.id)
+          : ids.length + category.position,
+      }))
+      .sort(byPosition)
+    saveScopedCategories(reordered)
+    return reordered
+  },
+
+  async deleteCategory(id) {
+    saveScopedCategories(
+      readScopedCategories().filter(category => category.id !== id)
+    )
+  },
+}
+
+// 메모가 속한 범위의 카테고리 (LocalStorage 저장소의 공유 페이지용)
+export const readLocalCategoriesForMemo = (
+  memo: Pick<Memo, 'workspaceId' | 'ownerId'>
+): Category[] =>
+  readStoredCategories()[toScopeKey(memo.workspaceId, memo.ownerId)] ||
+  DEFAULT_CATEGORY_LIST
+
+// 메모 저장소와 같은 백엔드의 카테고리 저장소 가져오기
+export const getCategoryStore = (): CategoryStore =>
+  memoStoreBackend === 'offline' || memoStoreBackend === 'supabase'
+    ? supabaseCategoryStore
+    : localCategoryStore
@@ -0,0 +1,230 @@
+import { v4 as uuidv4 } from 'uuid'
+import { Folder } from '@/types/folder'
+import { getSupabaseClient } from '@/lib/supabaseClient'
+import { memoStoreBackend } from './memoStore'
+import {
+  applyWorkspaceScope,
+  getCurrentScopeKey,
+  getCurrentWorkspaceId,
+} from './workspaceScope'
+
+// 현재 범위(워크스페이스 또는 내 개인 메모)의 폴더를 관리하는 저장소
+export interface FolderStore {
+  getFolders(): Promise<Folder[]>
+  // parentId 가 null 이면 최상위 폴더
+  createFolder(name: string, parentId: string | null): Promise<Folder>
+  renameFolder(id: string, name: string): Promise<Folder>
+  // 폴더 삭제 (하위 폴더는 삭제한 폴더의 상위 폴더로 옮김)
+  // 폴더 안의 메모는 MemoStore.moveMemosToFolder 로 먼저 옮겨야 함
+  deleteFolder(id: string): Promise<void>
+}
+
+// memo_folders 테이블의 행 구조
+interface FolderRow {
+  id: string
+  name: string
+  parent_id: string | null
+  owner_id: string
+  workspace_id: string | null
+  created_at: string
+}
+
+const toFolder = (row: FolderRow): Folder => ({
+  id: row.id,
+  name: row.name,
+  parentId: row.parent_id,
+  createdAt: row.created_at,
+})
+
+// Supabase 저장소 (편집 권한은 RLS 정책으로 검사)
+const supabaseFolderStore: FolderStore = {
+  async getFolders() {
+    try {
+      const { data, error } = await applyWorkspaceScope(
+        getSupabaseClient()
+          .from('memo_folders')
+          .select('*')
+          .order('created_at', { ascending: true })
+      )
+
+      if (error) {
+        console.error('Error loading folders from Supabase:', error)
+        throw error
+      }
+
+      return data?.map(toFolder) || []
+    } catch (error) {
+      console.error('Error loading folders:', error)
+      throw error
+    }
+  },
+
+  async createFolder(name, parentId) {
+    try {
+      const { data, error } = await getSupabaseClient()
+        .from('memo_folders')
+        .insert({
+          name,
+          parent_id: parentId,
+          workspace_id: getCurrentWorkspaceId(),
+        })
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error creating folder in Supabase:', error)
+        throw error
+      }
+
+      return toFolder(data)
+    } catch (error) {
+      console.error('Error creating folder:', error)
+      throw error
+    }
+  },
+
+  async renameFolder(id, name) {
+    try {
+      const { data, error } = await getSupabaseClient()
+        .from('memo_folders')
+        .update({ name })
+        .eq('id', id)
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error renaming folder in Supabase:', error)
+        throw error
+      }
+
+      return toFolder(data)
+    } catch (error) {
+      console.error('Error renaming folder:', error)
+      throw error
+    }
+  },
+
+  async deleteFolder(id) {
+    try {
+      const client = getSupabaseClient()
+      const { data: folder, error: loadError } = await client
+        .from('memo_folders')
+        .select('parent_id')
+        .eq('id', id)
+        .single()
+
+      if (loadError) {
+        console.error('Error loading folder from Supabase:', loadError)
+        throw loadError
+      }
+
+      const { error: moveError } = await client
+        .from('memo_folders')
+        .update({ parent_id: folder.parent_id })
+        .eq('parent_id', id)
+
+      if (moveError) {
+        console.error('Error moving subfolders in Supabase:', moveError)
+        throw moveError
+      }
+
+      const { error } = await client.from('memo_folders').delete().eq('id', id)
+
+      if (error) {
+        console.error('Error deleting folder in Supabase:', error)
+        throw error
+      }
+    } catch (error) {
+      console.error('Error deleting folder:', error)
+      throw error
+    }
+  },
+}
+
+const FOLDERS_STORAGE_KEY = 'memo-app-folders'
+
+// 범위별로 저장된 폴더 (키: 워크스페이스 ID 또는 personal:<사용자 ID>)
+type StoredFolders = Record<string, Folder[]>
+
+const readStoredFolders = (): StoredFolders => {
+  if (typeof window === 'undefined') return {}
+
+  try {
+    const stored = localStorage.getItem(FOLDERS_STORAGE_KEY)
+    return stored ? JSON.parse(stored) : {}
+  } catch (error) {
+    console.error('Error loading folders from localStorage:', error)
+    return {}
+  }
+}
+
+const readScopedFolders = (): Folder[] =>
+  readStoredFolders()[getCurrentScopeKey()] || []
+
+const saveScopedFolders = (folders: Folder[]): void => {
+  if (typeof window === 'undefined') return
+
+  try {
+    localStorage.setItem(
+      FOLDERS_STORAGE_KEY,
+      JSON.stringify({
+        ...readStoredFolders(),
+        [getCurrentScopeKey()]: folders,
+      })
+    )
+  } catch (error) {
+    console.error('Error saving folders to localStorage:', error)
+  }
+}
+
+const findFolderOrThrow = (folders: Folder[], id: string): number => {
+  const index = folders.findIndex(folder => folder.id === id)
+  if (index === -1) {
+    throw new Error(`Folder not found: ${id}`)
+  }
+  return index
+}
+
+// LocalStorage 저장소 (개발/테스트용)
+const localFolderStore: FolderStore = {
+  async getFolders() {
+    return readScopedFolders()
+  },
+
+  async createFolder(name, parentId) {
+    const folder: Folder = {
+      id: uuidv4(),
+      name,
+      parentId,
+      createdAt: new Date().toISOString(),
+    }
+    saveScopedFolders([...readScopedFolders(), folder])
+    return folder
+  },
+
+  async renameFolder(id, name) {
+    const folders = readScopedFolders()
+    const index = findFolderOrThrow(folders, id)
+    folders[index] = { ...folders[index], name }
+    saveScopedFolders(folders)
+    return folders[index]
+  },
+
+  async deleteFolder(id) {
+    const folders = readScopedFolders()
+    const { parentId } = folders[findFolderOrThrow(folders, id)]
+    saveScopedFolders(
+      folders
+        .filter(folder => folder.id !== id)
+        .map(folder =>
+          folder.parentId === id ? { ...folder, parentId } : folder
+        )
+    )
+  },
+}
+
+// 메모 저장소와 같은 백엔드의 폴더 저장소 가져오기
+export const getFolderStore = (): FolderStore =>
+  memoStoreBackend === 'offline' || memoStoreBackend === 'supabase'
+    ? supabaseFolderStore
+    : localFolderStore
@@ -0,0 +1,31 @@
+import { Memo } from '@/types/memo'
+import { ALL_FOLDERS, Folder, FolderNode, UNFILED_FOLDER } from '@/types/folder'
+
+// 폴더 필터(ALL_FOLDERS, UNFILED_FOLDER 또는 폴더 ID)에 메모가 해당하는지
+export const isInFolder = (memo: Memo, folder?: string): boolean =>
+  !folder ||
+  folder === ALL_FOLDERS ||
+  (folder === UNFILED_FOLDER ? !memo.folderId : memo.folderId === folder)
+
+// 폴더 목록을 이름순 트리로 변환 (상위 폴더가 없어진 폴더는 최상위로)
+export const buildFolderTree = (folders: Folder[]): FolderNode[] => {
+  const ids = new Set(folders.map(folder => folder.id))
+  const childrenOf = (parentId: string | null, depth: number): FolderNode[] =>
+    folders
+      .filter(folder =>
+        parentId
+          ? folder.parentId === parentId
+          : !folder.parentId || !ids.has(folder.parentId)
+      )
+      .sort((a, b) => a.name.localeCompare(b.name, 'ko'))
+      .map(folder => ({
+        ...folder,
+        depth,
+        children: childrenOf(folder.id, depth + 1),
+      }))
+
+  return childrenOf(null, 0)
+}
+
+// 메모를 폴더로 끌어다 놓을 때 dataTransfer 에 메모 ID를 담는 형식
+export const MEMO_DRAG_TYPE = 'application/x-memo-id'
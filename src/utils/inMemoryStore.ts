@@ -0,0 +1,17 @@
+import { Memo, MemoRevision } from '@/types/memo'
+import { createArrayMemoStore } from './arrayMemoStore'
+
+// 페이지를 새로고침하면 사라지는 저장소 (테스트 및 데모용)
+let memos: Memo[] = []
+let revisions: MemoRevision[] = []
+
+export const inMemoryStore = createArrayMemoStore({
+  read: () => memos.map(memo => ({ ...memo, tags: [...memo.tags] })),
+  write: nextMemos => {
+    memos = nextMemos
+  },
+  readRevisions: () => [...revisions],
+  writeRevisions: nextRevisions => {
+    revisions = nextRevisions
+  },
+})
@@ -1,87 +1,99 @@
-import { Memo } from '@/types/memo'
+import { Memo, MemoRevision } from '@/types/memo'
+import { createArrayMemoStore } from './arrayMemoStore'
+import { diffMemoLists, MemoChangeListener } from './memoChanges'
 
 const STORAGE_KEY = 'memo-app-memos'
+const REVISIONS_STORAGE_KEY = 'memo-app-revisions'
 
-export const localStorageUtils = {
-  // 모든 메모 가져오기
-  getMemos: (): Memo[] => {
-    if (typeof window === 'undefined') return []
-
-    try {
-      const stored = localStorage.getItem(STORAGE_KEY)
-      return stored ? JSON.parse(stored) : []
-    } catch (error) {
-      console.error('Error loading memos from localStorage:', error)
-      return []
-    }
-  },
+// 모든 메모 가져오기
+const readMemos = (): Memo[] => {
+  if (typeof window === 'undefined') return []
 
-  // 모든 메모 저장하기
-  saveMemos: (memos: Memo[]): void => {
-    if (typeof window === 'undefined') return
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    return stored ? JSON.parse(stored) : []
+  } catch (error) {
+    console.error('Error loading memos from localStorage:', error)
+    return []
+  }
+}
 
-    try {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(memos))
-    } catch (error) {
-      console.error('Error saving memos to localStorage:', error)
-    }
-  },
+// 모든 메모 저장하기
+const saveMemos = (memos: Memo[]): void => {
+  if (typeof window === 'undefined') return
 
-  // 메모 추가
-  addMemo: (memo: Memo): void => {
-    const memos = localStorageUtils.getMemos()
-    memos.unshift(memo) // 새 메모를 맨 앞에 추가
-    localStorageUtils.saveMemos(memos)
-  },
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(memos))
+  } catch (error) {
+    console.error('Error saving memos to localStorage:', error)
+  }
+}
 
-  // 메모 업데이트
-  updateMemo: (updatedMemo: Memo): void => {
-    const memos = localStorageUtils.getMemos()
-    const index = memos.findIndex(memo => memo.id === updatedMemo.id)
+// 버전 기록 가져오기
+const readRevisions = (): MemoRevision[] => {
+  if (typeof window === 'undefined') return []
 
-    if (index !== -1) {
-      memos[index] = updatedMemo
-      localStorageUtils.saveMemos(memos)
-    }
-  },
+  try {
+    const stored = localStorage.getItem(REVISIONS_STORAGE_KEY)
+    return stored ? JSON.parse(stored) : []
+  } catch (error) {
+    console.error('Error loading revisions from localStorage:', error)
+    return []
+  }
+}
 
-  // 메모 삭제
-  deleteMemo: (id: string): void => {
-    const memos = localStorageUtils.getMemos()
-    const filteredMemos = memos.filter(memo => memo.id !== id)
-    localStorageUtils.saveMemos(filteredMemos)
-  },
+// 버전 기록 저장하기
+const saveRevisions = (revisions: MemoRevision[]): void => {
+  if (typeof window === 'undefined') return
 
-  // 메모 검색
-  searchMemos: (query: string): Memo[] => {
-    const memos = localStorageUtils.getMemos()
-    const lowercaseQuery = query.toLowerCase()
-
-    return memos.filter(
-      memo =>
-        memo.title.toLowerCase().includes(lowercaseQuery) ||
-        memo.content.toLowerCase().includes(lowercaseQuery) ||
-        memo.tags.some(tag => tag.toLowerCase().includes(lowercaseQuery))
-    )
-  },
+  try {
+    localStorage.setItem(REVISIONS_STORAGE_KEY, JSON.stringify(revisions))
+  } catch (error) {
+    console.error('Error saving revisions to localStorage:', error)
+  }
+}
 
-  // 카테고리별 메모 필터링
-  getMemosByCategory: (category: string): Memo[] => {
-    const memos = localStorageUtils.getMemos()
-    return category === 'all'
-      ? memos
-      : memos.filter(memo => memo.category === category)
-  },
+const parseMemos = (value: string | null): Memo[] => {
+  try {
+    return value ? JSON.parse(value) : []
+  } catch {
+    return []
+  }
+}
 
-  // 특정 메모 가져오기
-  getMemoById: (id: string): Memo | null => {
-    const memos = localStorageUtils.getMemos()
-    return memos.find(memo => memo.id === id) || null
-  },
+// 다른 탭에서 저장한 변경 구독 (storage 이벤트는 변경한 탭에는 발생하지 않음)
+const subscribe = (listener: MemoChangeListener): (() => void) => {
+  if (typeof window === 'undefined') return () => {}
+
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== STORAGE_KEY) return
+    diffMemoLists(
+      parseMemos(event.oldValue),
+      parseMemos(event.newValue)
+    ).forEach(listener)
+  }
+
+  window.addEventListener('storage', handleStorage)
+  return () => window.removeEventListener('storage', handleStorage)
+}
+
+export const localStorageUtils = {
+  ...createArrayMemoStore({
+    read: readMemos,
+    write: saveMemos,
+    readRevisions,
+    writeRevisions: saveRevisions,
+  }),
+
+  // 휴지통을 포함한 저장된 메모 그대로 읽고 쓰기 (오프라인 캐시용)
+  readMemos,
+  saveMemos,
+  subscribe,
 
   // 스토리지 클리어
   clearMemos: (): void => {
     if (typeof window === 'undefined') return
     localStorage.removeItem(STORAGE_KEY)
+    localStorage.removeItem(REVISIONS_STORAGE_KEY)
   },
 }
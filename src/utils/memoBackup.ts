@@ -0,0 +1,161 @@
+import { v4 as uuidv4 } from 'uuid'
+import { Memo } from '@/types/memo'
+import {
+  MemoBackup,
+  MemoBackupDiff,
+  MemoBackupReason,
+  MemoBackupSummary,
+} from '@/types/backup'
+import { getMemoStore } from './memoStore'
+import { readAllMemoPages } from './memoPagination'
+import { getFolderStore } from './folderStore'
+import { hashMemoContent } from './memoImport'
+import { listBackups, readBackup, saveBackup } from './backupStore'
+
+const memoStore = getMemoStore()
+
+// 주기 백업 간격 (마지막 백업 이후 이만큼 지나면 새로 백업)
+export const BACKUP_INTERVAL_MS = 24 * 60 * 60 * 1000
+
+// 현재 범위의 메모 전체 (휴지통 포함)
+const readAllMemos = async (): Promise<Memo[]> => [
+  ...(await readAllMemoPages(memoStore)),
+  ...(await memoStore.getDeletedMemos()),
+]
+
+// 복원 때 비교하는 필드 (updatedAt 만 다른 메모는 같은 것으로 봄)
+const toComparable = (memo: Memo): string =>
+  JSON.stringify([
+    memo.title,
+    memo.content,
+    memo.category,
+    memo.tags,
+    memo.summary || null,
+    memo.folderId || null,
+    Boolean(memo.pinned),
+    Boolean(memo.deletedAt),
+  ])
+
+// 메모 목록이 바뀌었는지 비교하는 값 (순서와 관계없음)
+const getFingerprint = (memos: Memo[]): string =>
+  hashMemoContent(
+    memos
+      .map(memo => `${memo.id}\n${toComparable(memo)}`)
+      .sort()
+      .join('\n')
+  )
+
+const saveMemoBackup = (
+  memos: Memo[],
+  reason: MemoBackupReason
+): MemoBackupSummary => {
+  const backup: MemoBackup = {
+    id: uuidv4(),
+    createdAt: new Date().toISOString(),
+    reason,
+    memoCount: memos.length,
+    deletedCount: memos.filter(memo => memo.deletedAt).length,
+    fingerprint: getFingerprint(memos),
+    memos,
+  }
+  return saveBackup(backup)
+}
+
+// 현재 범위의 메모 전체를 백업
+export const createMemoBackup = async (
+  reason: MemoBackupReason
+): Promise<MemoBackupSummary> => saveMemoBackup(await readAllMemos(), reason)
+
+// 마지막 백업 후 BACKUP_INTERVAL_MS 가 지났고 메모가 바뀌었으면 백업
+// (메모가 없거나 백업하지 않았으면 null)
+export const runScheduledBackup =
+  async (): Promise<MemoBackupSummary | null> => {
+    const latest = listBackups()[0]
+    if (
+      latest &&
+      Date.now() - new Date(latest.createdAt).getTime() < BACKUP_INTERVAL_MS
+    ) {
+      return null
+    }
+
+    const memos = await readAllMemos()
+    if (memos.length === 0) return null
+    if (latest && latest.fingerprint === getFingerprint(memos)) return null
+    return saveMemoBackup(memos, 'scheduled')
+  }
+
+// 백업과 현재 메모 비교
+export const diffMemoBackup = (
+  backupMemos: Memo[],
+  currentMemos: Memo[]
+): MemoBackupDiff => {
+  const currentById = new Map(currentMemos.map(memo => [memo.id, memo]))
+  const backupIds = new Set(backupMemos.map(memo => memo.id))
+  const diff: MemoBackupDiff = {
+    added: [],
+    // 이미 휴지통에 있는 메모는 그대로 둠
+    removed: currentMemos.filter(
+      memo => !backupIds.has(memo.id) && !memo.deletedAt
+    ),
+    changed: [],
+    unchangedCount: 0,
+  }
+
+  backupMemos.forEach(backup => {
+    const current = currentById.get(backup.id)
+    if (!current) {
+      diff.added.push(backup)
+    } else if (toComparable(current) !== toComparable(backup)) {
+      diff.changed.push({ current, backup })
+    } else {
+      diff.unchangedCount += 1
+    }
+  })
+
+  return diff
+}
+
+const readBackupOrThrow = (id: string): MemoBackup => {
+  const backup = readBackup(id)
+  if (!backup) {
+    throw new Error('백업을 찾을 수 없습니다.')
+  }
+  return backup
+}
+
+// 백업을 복원하면 바뀔 내용 (저장하지 않음)
+export const previewMemoBackup = async (id: string): Promise<MemoBackupDiff> =>
+  diffMemoBackup(readBackupOrThrow(id).memos, await readAllMemos())
+
+// 메모를 백업 때 상태로 되돌림 (복원 직전 상태도 먼저 백업)
+// 백업에 없는 메모는 영구 삭제하지 않고 휴지통으로 옮김
+export const restoreMemoBackup = async (
+  id: string
+): Promise<MemoBackupDiff> => {
+  const backup = readBackupOrThrow(id)
+  const currentMemos = await readAllMemos()
+  saveMemoBackup(currentMemos, 'beforeRestore')
+
+  const diff = diffMemoBackup(backup.memos, currentMemos)
+  const now = new Date().toISOString()
+  // 백업 후 삭제된 폴더를 가리키는 메모는 폴더 밖으로 복원
+  const folderIds = new Set(
+    (await getFolderStore().getFolders()).map(folder => folder.id)
+  )
+  const withExistingFolder = (memo: Memo): Memo =>
+    memo.folderId && !folderIds.has(memo.folderId)
+      ? { ...memo, folderId: undefined }
+      : memo
+
+  if (diff.added.length > 0) {
+    await memoStore.addMemos(diff.added.map(withExistingFolder))
+  }
+  for (const { backup: memo } of diff.changed) {
+    await memoStore.updateMemo({ ...withExistingFolder(memo), updatedAt: now })
+  }
+  for (const memo of diff.removed) {
+    await memoStore.deleteMemo(memo.id)
+  }
+
+  return diff
+}
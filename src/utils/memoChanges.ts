@@ -0,0 +1,64 @@
+import { Memo } from '@/types/memo'
+
+// 다른 탭이나 기기에서 일어난 메모 변경
+// (created: 새로 만든 메모이면 true, 수정이나 휴지통 이동 등이면 false)
+export type MemoChange =
+  | { type: 'upsert'; memo: Memo; created?: boolean }
+  | { type: 'delete'; id: string }
+
+export type MemoChangeListener = (change: MemoChange) => void
+
+// 타임스탬프 형식(Z, +00:00)이 달라도 비교되도록 시각으로 비교
+export const isNewerMemo = (memo: Memo, than: Memo): boolean =>
+  new Date(memo.updatedAt).getTime() > new Date(than.updatedAt).getTime()
+
+// 변경 사항을 메모 목록에 반영 (이미 반영된 변경이면 같은 배열을 그대로 반환)
+export const applyMemoChange = (memos: Memo[], change: MemoChange): Memo[] => {
+  if (change.type === 'delete') {
+    return memos.some(memo => memo.id === change.id)
+      ? memos.filter(memo => memo.id !== change.id)
+      : memos
+  }
+
+  const incoming = change.memo
+  const index = memos.findIndex(memo => memo.id === incoming.id)
+  if (index !== -1) {
+    // 자기 자신이 보낸 변경의 되울림이거나 오래된 변경이면 무시
+    if (!isNewerMemo(incoming, memos[index])) return memos
+    return memos.map(memo => (memo.id === incoming.id ? incoming : memo))
+  }
+
+  // 생성일 내림차순 위치에 삽입
+  const createdAt = new Date(incoming.createdAt).getTime()
+  const position = memos.findIndex(
+    memo => new Date(memo.createdAt).getTime() < createdAt
+  )
+  return position === -1
+    ? [...memos, incoming]
+    : [...memos.slice(0, position), incoming, ...memos.slice(position)]
+}
+
+// 두 메모 목록의 차이를 변경 목록으로 변환
+export const diffMemoLists = (before: Memo[], after: Memo[]): MemoChange[] => {
+  const beforeById = new Map(before.map(memo => [memo.id, memo]))
+  const afterIds = new Set(after.map(memo => memo.id))
+
+  return [
+    ...after.flatMap(memo => {
+      const previous = beforeById.get(memo.id)
+      return !previous || previous.updatedAt !== memo.updatedAt
+        ? [{ type: 'upsert' as const, memo, created: !previous }]
+        : []
+    }),
+    ...before.flatMap(memo =>
+      afterIds.has(memo.id) ? [] : [{ type: 'delete' as const, id: memo.id }]
+    ),
+  ]
+}
+
+// 휴지통 목록과 일반 목록 중 한쪽에 맞게 변경 변환
+// (휴지통으로 옮겨진 메모는 일반 목록에서, 복원된 메모는 휴지통에서 삭제)
+export const toListChange = (change: MemoChange, trash: boolean): MemoChange =>
+  change.type === 'upsert' && Boolean(change.memo.deletedAt) !== trash
+    ? { type: 'delete', id: change.memo.id }
+    : change
@@ -0,0 +1,24 @@
+import { Memo } from '@/types/memo'
+import { UNFILED_FOLDER } from '@/types/folder'
+import { getTagCounts, TagCount } from './tags'
+
+// 카테고리, 폴더, 태그별 메모 수 (휴지통에 있는 메모 제외)
+export interface MemoCounts {
+  byCategory: Record<string, number>
+  // 폴더 밖의 메모는 UNFILED_FOLDER 로 셈
+  byFolder: Record<string, number>
+  // 많이 쓴 태그 순
+  byTag: TagCount[]
+}
+
+// 메모 목록에서 직접 세기 (배열 기반 저장소와 아직 서버 값을 받기 전의 목록에서 사용)
+export const countMemos = (memos: Memo[]): MemoCounts => {
+  const byCategory: Record<string, number> = {}
+  const byFolder: Record<string, number> = {}
+  memos.forEach(memo => {
+    byCategory[memo.category] = (byCategory[memo.category] || 0) + 1
+    const folder = memo.folderId || UNFILED_FOLDER
+    byFolder[folder] = (byFolder[folder] || 0) + 1
+  })
+  return { byCategory, byFolder, byTag: getTagCounts(memos) }
+}
@@ -0,0 +1,9 @@
+import { Memo } from '@/types/memo'
+
+// 메모를 불러온 뒤 다른 곳에서 먼저 수정되어 업데이트가 거부된 경우
+export class MemoConflictError extends Error {
+  constructor(public readonly currentMemo: Memo) {
+    super('다른 곳에서 메모가 먼저 수정되었습니다.')
+    this.name = 'MemoConflictError'
+  }
+}
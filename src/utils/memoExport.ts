@@ -0,0 +1,169 @@
+import { Memo } from '@/types/memo'
+import type { MemoStore } from './memoStore'
+import { readAllMemoPages } from './memoPagination'
+import {
+  MAX_SEARCH_PAGE_SIZE,
+  MemoSearchOptions,
+  rankMemoCollection,
+} from './memoSearch'
+import { createZip } from './zip'
+
+// zip: 메모마다 Markdown 파일 하나 (YAML front matter 포함), json: 모든 필드를 그대로
+export type MemoExportFormat = 'zip' | 'json'
+
+export const MEMO_EXPORT_FORMATS: MemoExportFormat[] = ['zip', 'json']
+
+// 내보낼 메모 조건 (목록의 검색어와 필터, 없으면 전체)
+export type MemoExportOptions = Omit<MemoSearchOptions, 'page' | 'pageSize'> & {
+  query?: string
+}
+
+// JSON 내보내기 형식 (가져오기에서 이 형식을 그대로 읽음)
+export interface MemoJsonExport {
+  app: 'memo-app'
+  version: number
+  exportedAt: string
+  memos: Memo[]
+}
+
+export interface MemoExportFile {
+  fileName: string
+  mimeType: string
+  data: Uint8Array
+}
+
+export const MEMO_EXPORT_VERSION = 1
+
+const MIME_TYPES: Record<MemoExportFormat, string> = {
+  zip: 'application/zip',
+  json: 'application/json',
+}
+
+// 파일 이름에 쓸 수 없는 문자
+const INVALID_FILE_NAME_CHARS = '\\/:*?"<>|'
+const MAX_FILE_NAME_LENGTH = 80
+
+// 조건에 맞는 메모를 모두 모음 (검색어가 있으면 검색 순위 순, 없으면 저장소 순서)
+export const collectMemosForExport = async (
+  store: Pick<MemoStore, 'getMemosPage' | 'searchMemos'>,
+  { query, ...filter }: MemoExportOptions = {}
+): Promise<Memo[]> => {
+  if (query?.trim()) {
+    const memos: Memo[] = []
+    let page = 1
+    let hasMore = true
+    while (hasMore) {
+      const result = await store.searchMemos(query, {
+        ...filter,
+        page,
+        pageSize: MAX_SEARCH_PAGE_SIZE,
+      })
+      // 서버 검색이 일부 후보만 봤다면 필터에 맞는 메모를 모두 읽어 직접 순위를 매김
+      // (검색어의 category: 조건은 검색과 같은 범위의 카테고리로 해석)
+      if (result.truncated) {
+        return rankMemoCollection(
+          await readAllMemoPages(store, filter),
+          query,
+          filter
+        ).map(({ memo }) => memo)
+      }
+      memos.push(...result.hits.map(hit => hit.memo))
+      hasMore = result.hasMore
+      page += 1
+    }
+    return memos
+  }
+
+  return readAllMemoPages(store, filter)
+}
+
+// JSON 문자열은 그대로 YAML 값으로 쓸 수 있음 (따옴표, 줄바꿈 이스케이프)
+const toYamlValue = (value: string | string[]): string => JSON.stringify(value)
+
+// YAML front matter (메타데이터) + 메모 내용
+export const toMarkdownFile = (memo: Memo): string => {
+  const fields: [string, string | string[]][] = [
+    ['id', memo.id],
+    ['title', memo.title],
+    ['category', memo.category],
+    ['tags', memo.tags],
+    ...(memo.summary
+      ? ([['summary', memo.summary]] as [string, string][])
+      : []),
+    ['createdAt', memo.createdAt],
+    ['updatedAt', memo.updatedAt],
+  ]
+
+  const frontMatter = fields
+    .map(([key, value]) => `${key}: ${toYamlValue(value)}`)
+    .join('\n')
+  return `---\n${frontMatter}\n---\n\n${memo.content}\n`
+}
+
+const toFileName = (title: string): string => {
+  const name = Array.from(title, char =>
+    char < ' ' || INVALID_FILE_NAME_CHARS.includes(char) ? '-' : char
+  )
+    .join('')
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s.]+/, '')
+    .trim()
+    .slice(0, MAX_FILE_NAME_LENGTH)
+    .trim()
+  return name || '제목 없음'
+}
+
+// 제목이 같은 메모는 " (2)" 처럼 번호를 붙여 구분
+const toUniqueFileNames = (memos: Memo[]): string[] => {
+  const used = new Set<string>()
+  return memos.map(memo => {
+    const base = toFileName(memo.title)
+    let name = base
+    for (let index = 2; used.has(name.toLowerCase()); index++) {
+      name = `${base} (${index})`
+    }
+    used.add(name.toLowerCase())
+    return `${name}.md`
+  })
+}
+
+export const getExportFileName = (
+  format: MemoExportFormat,
+  exportedAt: Date = new Date()
+): string => `memos-${exportedAt.toISOString().slice(0, 10)}.${format}`
+
+export const createMemoExport = (
+  memos: Memo[],
+  format: MemoExportFormat,
+  exportedAt: Date = new Date()
+): MemoExportFile => {
+  const encoder = new TextEncoder()
+  const fileName = getExportFileName(format, exportedAt)
+
+  if (format === 'json') {
+    const exported: MemoJsonExport = {
+      app: 'memo-app',
+      version: MEMO_EXPORT_VERSION,
+      exportedAt: exportedAt.toISOString(),
+      memos,
+    }
+    return {
+      fileName,
+      mimeType: MIME_TYPES.json,
+      data: encoder.encode(JSON.stringify(exported, null, 2)),
+    }
+  }
+
+  const names = toUniqueFileNames(memos)
+  return {
+    fileName,
+    mimeType: MIME_TYPES.zip,
+    data: createZip(
+      memos.map((memo, index) => ({
+        name: names[index],
+        data: encoder.encode(toMarkdownFile(memo)),
+        modifiedAt: new Date(memo.updatedAt),
+      }))
+    ),
+  }
+}
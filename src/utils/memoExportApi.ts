@@ -0,0 +1,52 @@
+import { getAuthHeaders } from '@/lib/auth'
+import { getCurrentWorkspaceId } from './workspaceScope'
+import {
+  getExportFileName,
+  MemoExportFile,
+  MemoExportFormat,
+  MemoExportOptions,
+} from './memoExport'
+
+// /api/memo-export 라우트 호출
+export const fetchMemoExport = async (
+  format: MemoExportFormat,
+  options: MemoExportOptions = {}
+): Promise<MemoExportFile> => {
+  const params = new URLSearchParams({ format })
+  if (options.query) params.set('q', options.query)
+  if (options.category) params.set('category', options.category)
+  if (options.folder) params.set('folder', options.folder)
+  options.tags?.forEach(tag => params.append('tag', tag))
+  if (options.tagMode) params.set('tagMode', options.tagMode)
+  const workspaceId = getCurrentWorkspaceId()
+  if (workspaceId) params.set('workspace', workspaceId)
+
+  const response = await fetch(`/api/memo-export?${params}`, {
+    headers: getAuthHeaders(),
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.error || '메모 내보내기에 실패했습니다.')
+  }
+
+  return {
+    fileName: getExportFileName(format),
+    mimeType: response.headers.get('content-type') || '',
+    data: new Uint8Array(await response.arrayBuffer()),
+  }
+}
+
+// 내보낸 파일을 브라우저에서 내려받기
+export const downloadExportFile = (file: MemoExportFile) => {
+  const url = URL.createObjectURL(
+    new Blob([file.data], { type: file.mimeType })
+  )
+  const link = document.createElement('a')
+  link.href = url
+  link.download = file.fileName
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(url)
+}
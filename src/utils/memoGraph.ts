@@ -0,0 +1,184 @@
+import { Memo } from '@/types/memo'
+import { extractWikiLinks, normalizeLinkTitle } from './wikiLinks'
+
+export interface MemoGraphNode {
+  id: string
+  memo: Memo
+  // 연결된 메모 수 (노드 크기에 사용)
+  degree: number
+}
+
+// 두 메모 사이의 연결 (방향 없음, 메모 쌍마다 하나)
+export interface MemoGraphEdge {
+  source: string
+  target: string
+  // 어느 한쪽이 [[링크]] 로 다른 쪽을 가리키는지
+  linked: boolean
+  // 두 메모에 함께 붙은 태그
+  sharedTags: string[]
+}
+
+export interface MemoGraph {
+  nodes: MemoGraphNode[]
+  edges: MemoGraphEdge[]
+}
+
+export interface GraphPoint {
+  x: number
+  y: number
+}
+
+// 레이아웃 좌표계 크기 (화면에서는 SVG viewBox 로 맞춤)
+export const GRAPH_WIDTH = 1000
+export const GRAPH_HEIGHT = 700
+
+const edgeKey = (a: string, b: string): string =>
+  a < b ? `${a}\n${b}` : `${b}\n${a}`
+
+// 메모를 노드로, 위키 링크와 같은 태그를 엣지로 하는 그래프
+export const buildMemoGraph = (memos: Memo[]): MemoGraph => {
+  const edges = new Map<string, MemoGraphEdge>()
+  const getEdge = (a: string, b: string): MemoGraphEdge => {
+    const key = edgeKey(a, b)
+    let edge = edges.get(key)
+    if (!edge) {
+      edge = {
+        source: a < b ? a : b,
+        target: a < b ? b : a,
+        linked: false,
+        sharedTags: [],
+      }
+      edges.set(key, edge)
+    }
+    return edge
+  }
+
+  // 같은 제목이 여럿이면 최근에 수정한 메모로 링크 (findMemoByLinkTitle 과 같은 규칙)
+  const memosByTitle = new Map<string, Memo>()
+  memos.forEach(memo => {
+    const title = normalizeLinkTitle(memo.title)
+    const existing = memosByTitle.get(title)
+    if (!existing || existing.updatedAt < memo.updatedAt) {
+      memosByTitle.set(title, memo)
+    }
+  })
+
+  memos.forEach(memo => {
+    extractWikiLinks(memo.content).forEach(title => {
+      const target = memosByTitle.get(title)
+      if (target && target.id !== memo.id) {
+        getEdge(memo.id, target.id).linked = true
+      }
+    })
+  })
+
+  const memoIdsByTag = new Map<string, string[]>()
+  memos.forEach(memo => {
+    new Set(memo.tags).forEach(tag => {
+      memoIdsByTag.set(tag, [...(memoIdsByTag.get(tag) || []), memo.id])
+    })
+  })
+  memoIdsByTag.forEach((ids, tag) => {
+    ids.forEach((a, index) => {
+      ids.slice(index + 1).forEach(b => getEdge(a, b).sharedTags.push(tag))
+    })
+  })
+
+  const degrees = new Map<string, number>()
+  edges.forEach(({ source, target }) => {
+    degrees.set(source, (degrees.get(source) || 0) + 1)
+    degrees.set(target, (degrees.get(target) || 0) + 1)
+  })
+
+  return {
+    nodes: memos.map(memo => ({
+      id: memo.id,
+      memo,
+      degree: degrees.get(memo.id) || 0,
+    })),
+    edges: Array.from(edges.values()),
+  }
+}
+
+// 힘 기반 배치 (Fruchterman-Reingold)
+// 같은 그래프는 항상 같은 모양이 되도록 처음 위치를 나선형으로 고정
+export const layoutMemoGraph = (graph: MemoGraph): Map<string, GraphPoint> => {
+  const center = { x: GRAPH_WIDTH / 2, y: GRAPH_HEIGHT / 2 }
+  const count = graph.nodes.length
+  if (count === 0) return new Map()
+
+  const goldenAngle = Math.PI * (3 - Math.sqrt(5))
+  const spread = Math.min(GRAPH_WIDTH, GRAPH_HEIGHT) / 2 - 40
+  const points: GraphPoint[] = graph.nodes.map((_, index) => {
+    const radius = spread * Math.sqrt((index + 0.5) / count)
+    return {
+      x: center.x + radius * Math.cos(index * goldenAngle),
+      y: center.y + radius * Math.sin(index * goldenAngle),
+    }
+  })
+
+  const indexById = new Map(graph.nodes.map((node, index) => [node.id, index]))
+  const springs = graph.edges.map(edge => ({
+    a: indexById.get(edge.source) ?? 0,
+    b: indexById.get(edge.target) ?? 0,
+    // 링크가 같은 태그보다 강하게 당김
+    weight: (edge.linked ? 1 : 0) + Math.min(edge.sharedTags.length, 3) * 0.4,
+  }))
+
+  const k = Math.sqrt((GRAPH_WIDTH * GRAPH_HEIGHT) / count) * 0.6
+  // 노드가 많으면 반복 횟수를 줄여 화면이 멈추지 않도록
+  const iterations = Math.max(50, Math.min(300, Math.round(60000 / count)))
+  let temperature = GRAPH_WIDTH / 10
+
+  for (let step = 0; step < iterations; step++) {
+    const moves: GraphPoint[] = points.map(() => ({ x: 0, y: 0 }))
+
+    // 모든 노드 쌍은 서로 밀어냄
+    for (let i = 0; i < count; i++) {
+      for (let j = i + 1; j < count; j++) {
+        const dx = points[i].x - points[j].x
+        const dy = points[i].y - points[j].y
+        const distance = Math.max(Math.hypot(dx, dy), 0.01)
+        const force = (k * k) / distance / distance
+        moves[i].x += dx * force
+        moves[i].y += dy * force
+        moves[j].x -= dx * force
+        moves[j].y -= dy * force
+      }
+    }
+
+    // 연결된 노드는 당김
+    springs.forEach(({ a, b, weight }) => {
+      const dx = points[a].x - points[b].x
+      const dy = points[a].y - points[b].y
+      const distance = Math.max(Math.hypot(dx, dy), 0.01)
+      const force = (distance / k) * weight
+      moves[a].x -= dx * force
+      moves[a].y -= dy * force
+      moves[b].x += dx * force
+      moves[b].y += dy * force
+    })
+
+    points.forEach((point, index) => {
+      // 연결이 없는 노드도 멀리 흩어지지 않도록 가운데로 당김
+      const move = moves[index]
+      move.x += (center.x - point.x) * 0.05
+      move.y += (center.y - point.y) * 0.05
+
+      const length = Math.max(Math.hypot(move.x, move.y), 0.01)
+      const distance = Math.min(length, temperature)
+      point.x = Math.min(
+        GRAPH_WIDTH - 20,
+        Math.max(20, point.x + (move.x / length) * distance)
+      )
+      point.y = Math.min(
+        GRAPH_HEIGHT - 20,
+        Math.max(20, point.y + (move.y / length) * distance)
+      )
+    })
+
+    temperature *= 0.97
+  }
+
+  return new Map(graph.nodes.map((node, index) => [node.id, points[index]]))
+}
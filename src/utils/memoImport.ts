@@ -0,0 +1,537 @@
+import { Memo, MemoFormData } from '@/types/memo'
+import { Category } from '@/types/category'
+import { isLinkableTitle, normalizeLinkTitle } from './wikiLinks'
+import { readZip } from './zip'
+
+// 가져올 수 있는 형식
+// markdown: front matter 가 있는 Markdown (이 앱에서 내보낸 ZIP 포함), notion: Notion Markdown 내보내기
+// evernote: Evernote ENEX, json: 이 앱의 JSON 내보내기/백업
+export type MemoImportSource = 'markdown' | 'notion' | 'evernote' | 'json'
+
+export const MEMO_IMPORT_SOURCES: Record<MemoImportSource, string> = {
+  markdown: 'Markdown',
+  notion: 'Notion',
+  evernote: 'Evernote',
+  json: 'JSON 백업',
+}
+
+export const MEMO_IMPORT_ACCEPT = '.zip,.md,.markdown,.enex,.json'
+
+// 파일에서 읽은 메모 (아직 저장하지 않음)
+export interface ImportedMemo {
+  data: MemoFormData
+  summary?: string
+  createdAt?: string
+  updatedAt?: string
+  pinned?: boolean
+  source: MemoImportSource
+  // 읽어 온 파일 (ZIP 안의 파일은 "ZIP 이름/경로")
+  fileName: string
+}
+
+// new: 새 메모, duplicate: 제목과 내용이 같은 메모가 이미 있음, sameTitle: 제목만 같은 메모가 있음
+export type MemoImportStatus = 'new' | 'duplicate' | 'sameTitle'
+
+export interface MemoImportItem {
+  memo: ImportedMemo
+  status: MemoImportStatus
+  // 겹치는 메모 (fileName 이 없으면 이미 저장된 메모, 있으면 함께 가져오는 파일의 메모)
+  duplicateOf?: { title: string; fileName?: string }
+}
+
+export interface MemoImportError {
+  fileName: string
+  message: string
+}
+
+// 저장하기 전에 보여 주는 가져오기 결과 (dry run)
+export interface MemoImportPreview {
+  items: MemoImportItem[]
+  errors: MemoImportError[]
+}
+
+export interface MemoImportFile {
+  name: string
+  data: Uint8Array
+}
+
+// 카테고리가 없거나 현재 범위에 없는 카테고리의 메모는 기타로 가져옴
+const DEFAULT_IMPORT_CATEGORY = 'other'
+
+const MARKDOWN_EXTENSIONS = ['md', 'markdown']
+const SUPPORTED_EXTENSIONS = [...MARKDOWN_EXTENSIONS, 'zip', 'enex', 'json']
+// ZIP 안의 ZIP (Notion 내보내기) 은 이 깊이까지만 풂
+const MAX_ZIP_DEPTH = 2
+
+// Notion 은 페이지 파일 이름 끝에 32자리 ID 를 붙임 ("제목 0123...cdef.md")
+const NOTION_ID_PATTERN = /\s[0-9a-f]{32}$/
+// Notion 페이지 사이의 링크 ("[제목](제목%200123...cdef.md)")
+const NOTION_LINK_PATTERN = /\[([^\]\n]+)\]\([^)\s]*%20[0-9a-f]{32}\.md\)/g
+const NOTION_PROPERTY_PATTERN = /^([^:\n]{1,40}):\s+(.*)$/
+// 메모로 옮기는 Notion 속성 (소문자)
+const NOTION_PROPERTIES = [
+  'tags',
+  'tag',
+  '태그',
+  'created',
+  'created time',
+  'last edited time',
+]
+
+type FrontMatterValue = string | string[]
+
+const getExtension = (name: string): string => {
+  const baseName = name.slice(name.lastIndexOf('/') + 1)
+  return baseName.includes('.')
+    ? baseName.slice(baseName.lastIndexOf('.') + 1).toLowerCase()
+    : ''
+}
+
+// 경로와 확장자를 뺀 파일 이름
+const getBaseName = (name: string): string =>
+  name.slice(name.lastIndexOf('/') + 1).replace(/\.[^.]+$/, '')
+
+const toIsoDate = (value?: string): string | undefined => {
+  if (!value) return undefined
+  const time = Date.parse(value)
+  return Number.isNaN(time) ? undefined : new Date(time).toISOString()
+}
+
+const toTags = (value: FrontMatterValue | undefined): string[] => {
+  const tags = (Array.isArray(value) ? value : (value || '').split(','))
+    .map(tag => tag.trim().replace(/^#/, ''))
+    .filter(Boolean)
+  return Array.from(new Set(tags))
+}
+
+const parseYamlScalar = (raw: string): string => {
+  const value = raw.trim()
+  if (value.startsWith('"') && value.endsWith('"')) {
+    try {
+      return String(JSON.parse(value))
+    } catch {
+      return value.slice(1, -1)
+    }
+  }
+  if (value.startsWith("'") && value.endsWith("'")) {
+    return value.slice(1, -1).replace(/''/g, "'")
+  }
+  return value
+}
+
+const parseYamlValue = (raw: string): FrontMatterValue => {
+  const value = raw.trim()
+  if (!value.startsWith('[') || !value.endsWith(']')) {
+    return parseYamlScalar(value)
+  }
+  try {
+    const parsed: unknown = JSON.parse(value)
+    if (Array.isArray(parsed)) return parsed.map(String)
+  } catch {
+    // ["a", b] 처럼 JSON 이 아닌 목록은 쉼표로 나눔
+  }
+  return value.slice(1, -1).split(',').map(parseYamlScalar).filter(Boolean)
+}
+
+// 문서 맨 앞의 YAML front matter (--- 사이) 읽기
+// "키: 값", "키: [a, b]", "키:" 아래 "- 값" 목록만 지원 (키는 소문자로)
+export const parseFrontMatter = (
+  text: string
+): { attributes: Record<string, FrontMatterValue>; body: string } => {
+  const match = text.match(
+    /^\uFEFF?---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/
+  )
+  if (!match) return { attributes: {}, body: text }
+
+  const attributes: Record<string, FrontMatterValue> = {}
+  let listKey: string | null = null
+  match[1].split(/\r?\n/).forEach(line => {
+    const item = line.match(/^\s*-\s+(.*)$/)
+    if (item && listKey) {
+      const list = attributes[listKey]
+      attributes[listKey] = [
+        ...(Array.isArray(list) ? list : []),
+        parseYamlScalar(item[1]),
+      ]
+      return
+    }
+
+    const field = line.match(/^([\w-]+):(.*)$/)
+    if (!field) return
+    const key = field[1].toLowerCase()
+    if (field[2].trim()) {
+      attributes[key] = parseYamlValue(field[2])
+      listKey = null
+    } else {
+      attributes[key] = []
+      listKey = key
+    }
+  })
+
+  return { attributes, body: text.slice(match[0].length) }
+}
+
+const getAttribute = (
+  attributes: Record<string, FrontMatterValue>,
+  ...keys: string[]
+): string | undefined => {
+  for (const key of keys) {
+    const value = attributes[key]
+    if (typeof value === 'string' && value.trim()) return value.trim()
+  }
+  return undefined
+}
+
+// 본문 첫 줄의 "# 제목" (제목으로 쓰고 본문에서는 뺌)
+const splitHeading = (body: string): { heading?: string; rest: string } => {
+  const match = body.match(/^\s*#[ \t]+(.+?)[ \t]*(?:\r?\n|$)/)
+  return match
+    ? { heading: match[1], rest: body.slice(match[0].length) }
+    : { rest: body }
+}
+
+const parseMarkdownMemo = (fileName: string, text: string): ImportedMemo => {
+  const { attributes, body } = parseFrontMatter(text)
+  const frontMatterTitle = getAttribute(attributes, 'title')
+  const { heading, rest } = frontMatterTitle
+    ? { heading: undefined, rest: body }
+    : splitHeading(body)
+  const createdAt = toIsoDate(
+    getAttribute(attributes, 'createdat', 'created', 'created_at', 'date')
+  )
+
+  return {
+    data: {
+      title: frontMatterTitle || heading || getBaseName(fileName),
+      content: rest.trim(),
+      category: getAttribute(attributes, 'category') || DEFAULT_IMPORT_CATEGORY,
+      tags: toTags(attributes.tags || attributes.tag),
+    },
+    summary: getAttribute(attributes, 'summary'),
+    createdAt,
+    updatedAt:
+      toIsoDate(
+        getAttribute(attributes, 'updatedat', 'updated', 'updated_at')
+      ) || createdAt,
+    source: 'markdown',
+    fileName,
+  }
+}
+
+// Notion 페이지: "# 제목" 다음의 "속성: 값" 줄에서 태그와 날짜를 읽고, 페이지 링크는 [[위키 링크]] 로 바꿈
+const parseNotionMemo = (fileName: string, text: string): ImportedMemo => {
+  const { heading, rest } = splitHeading(text.replace(/^\uFEFF/, ''))
+  const lines = rest.replace(/^\s*\n/, '').split(/\r?\n/)
+
+  // 제목 바로 아래 빈 줄 전까지가 모두 "속성: 값" 이면 속성 블록
+  const blockEnd = lines.findIndex(line => !line.trim())
+  const block = lines.slice(0, blockEnd === -1 ? lines.length : blockEnd)
+  const isPropertyBlock =
+    block.length > 0 && block.every(line => NOTION_PROPERTY_PATTERN.test(line))
+
+  const properties: Record<string, string> = {}
+  // 태그와 날짜가 아닌 속성은 본문에 남김
+  const keptLines: string[] = []
+  if (isPropertyBlock) {
+    block.forEach(line => {
+      const match = line.match(NOTION_PROPERTY_PATTERN)
+      const key = match?.[1].trim().toLowerCase()
+      if (match && key && NOTION_PROPERTIES.includes(key)) {
+        properties[key] = match[2]
+      } else {
+        keptLines.push(line)
+      }
+    })
+  }
+
+  const content = [
+    ...keptLines,
+    ...(isPropertyBlock ? lines.slice(block.length) : lines),
+  ]
+    .join('\n')
+    .replace(NOTION_LINK_PATTERN, (link, title: string) =>
+      isLinkableTitle(title) ? `[[${title.trim()}]]` : link
+    )
+    .trim()
+  const createdAt = toIsoDate(properties.created || properties['created time'])
+
+  return {
+    data: {
+      title: heading || getBaseName(fileName).replace(NOTION_ID_PATTERN, ''),
+      content,
+      category: DEFAULT_IMPORT_CATEGORY,
+      tags: toTags(properties.tags || properties.tag || properties['태그']),
+    },
+    createdAt,
+    updatedAt: toIsoDate(properties['last edited time']) || createdAt,
+    source: 'notion',
+    fileName,
+  }
+}
+
+const decodeXmlEntities = (text: string): string =>
+  text.replace(
+    /&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos|nbsp);/gi,
+    (entity, code: string) => {
+      const named: Record<string, string> = {
+        amp: '&',
+        lt: '<',
+        gt: '>',
+        quot: '"',
+        apos: "'",
+        nbsp: ' ',
+      }
+      if (code.startsWith('#')) {
+        const point =
+          code[1].toLowerCase() === 'x'
+            ? parseInt(code.slice(2), 16)
+            : parseInt(code.slice(1), 10)
+        return Number.isNaN(point) ? entity : String.fromCodePoint(point)
+      }
+      return named[code.toLowerCase()] ?? entity
+    }
+  )
+
+const getXmlText = (xml: string, tag: string): string | undefined => {
+  const match = xml.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`))
+  if (!match) return undefined
+  const cdata = match[1].match(/^\s*<!\[CDATA\[([\s\S]*)\]\]>\s*$/)
+  return cdata ? cdata[1] : decodeXmlEntities(match[1])
+}
+
+// Evernote 노트 본문(ENML, HTML 의 일부)을 간단한 Markdown 으로 변환
+const enmlToMarkdown = (enml: string): string =>
+  decodeXmlEntities(
+    enml
+      .replace(/<\?xml[\s\S]*?\?>|<!DOCTYPE[\s\S]*?>/gi, '')
+      .replace(/<en-todo[^>]*checked="true"[^>]*>/gi, '[x] ')
+      .replace(/<en-todo[^>]*>/gi, '[ ] ')
+      .replace(/<en-media[^>]*>/gi, '(첨부 파일)')
+      .replace(
+        /<h([1-6])[^>]*>/gi,
+        (_, level: string) => `\n${'#'.repeat(Number(level))} `
+      )
+      .replace(/<li[^>]*>/gi, '\n- ')
+      .replace(/<(b|strong)>([\s\S]*?)<\/\1>/gi, '**$2**')
+      .replace(/<(i|em)>([\s\S]*?)<\/\1>/gi, '*$2*')
+      .replace(/<a[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, '[$2]($1)')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(div|p|h[1-6]|ul|ol|li|tr|blockquote)>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+  )
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+
+// ENEX 날짜 (20261019T090000Z)
+const toEnexDate = (value?: string): string | undefined => {
+  const match = value
+    ?.trim()
+    .match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/)
+  if (!match) return undefined
+  const [, year, month, day, hour, minute, second] = match
+  return toIsoDate(`${year}-${month}-${day}T${hour}:${minute}:${second}Z`)
+}
+
+const parseEnex = (fileName: string, text: string): ImportedMemo[] => {
+  const notes = text.match(/<note>[\s\S]*?<\/note>/g)
+  if (!notes) throw new Error('Evernote 노트가 없습니다.')
+
+  return notes.map(note => {
+    const createdAt = toEnexDate(getXmlText(note, 'created'))
+    return {
+      data: {
+        title: getXmlText(note, 'title')?.trim() || '제목 없음',
+        content: enmlToMarkdown(getXmlText(note, 'content') || ''),
+        category: DEFAULT_IMPORT_CATEGORY,
+        tags: toTags(
+          Array.from(note.matchAll(/<tag>([\s\S]*?)<\/tag>/g), match =>
+            decodeXmlEntities(match[1])
+          )
+        ),
+      },
+      createdAt,
+      updatedAt: toEnexDate(getXmlText(note, 'updated')) || createdAt,
+      source: 'evernote',
+      fileName,
+    }
+  })
+}
+
+const isMemoLike = (
+  value: unknown
+): value is Partial<Memo> & Pick<Memo, 'title' | 'content'> =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as Memo).title === 'string' &&
+  typeof (value as Memo).content === 'string'
+
+// 이 앱의 JSON 내보내기 ({ memos: [...] }) 또는 메모 배열
+const parseJsonBackup = (fileName: string, text: string): ImportedMemo[] => {
+  const parsed: unknown = JSON.parse(text)
+  const memos = Array.isArray(parsed)
+    ? parsed
+    : typeof parsed === 'object' &&
+        parsed !== null &&
+        Array.isArray((parsed as { memos?: unknown }).memos)
+      ? (parsed as { memos: unknown[] }).memos
+      : null
+  if (!memos) throw new Error('메모 백업 형식이 아닙니다.')
+
+  return memos.filter(isMemoLike).map(memo => ({
+    data: {
+      title: memo.title,
+      content: memo.content,
+      category:
+        typeof memo.category === 'string' && memo.category
+          ? memo.category
+          : DEFAULT_IMPORT_CATEGORY,
+      tags: Array.isArray(memo.tags) ? toTags(memo.tags.map(String)) : [],
+    },
+    summary: typeof memo.summary === 'string' ? memo.summary : undefined,
+    createdAt: toIsoDate(memo.createdAt),
+    updatedAt: toIsoDate(memo.updatedAt),
+    pinned: memo.pinned === true,
+    source: 'json',
+    fileName,
+  }))
+}
+
+// 파일(ZIP 은 안의 파일까지)을 읽어 메모로 변환 (읽지 못한 파일은 errors 로)
+export const readImportFiles = async (
+  files: MemoImportFile[]
+): Promise<{ memos: ImportedMemo[]; errors: MemoImportError[] }> => {
+  const memos: ImportedMemo[] = []
+  const errors: MemoImportError[] = []
+  const decoder = new TextDecoder()
+
+  const readFile = async (file: MemoImportFile, depth: number) => {
+    const extension = getExtension(file.name)
+    try {
+      if (extension === 'zip' && depth < MAX_ZIP_DEPTH) {
+        for (const entry of await readZip(file.data)) {
+          // macOS 메타데이터와 숨김 파일, 이미지 같은 첨부 파일은 건너뜀
+          if (
+            entry.name.startsWith('__MACOSX/') ||
+            getBaseName(entry.name).startsWith('.') ||
+            !SUPPORTED_EXTENSIONS.includes(getExtension(entry.name))
+          ) {
+            continue
+          }
+          await readFile(
+            { name: `${file.name}/${entry.name}`, data: entry.data },
+            depth + 1
+          )
+        }
+      } else if (MARKDOWN_EXTENSIONS.includes(extension)) {
+        const text = decoder.decode(file.data)
+        // front matter 가 없고 파일 이름에 Notion ID 가 있으면 Notion 페이지
+        memos.push(
+          NOTION_ID_PATTERN.test(getBaseName(file.name)) &&
+            !/^\uFEFF?---\r?\n/.test(text)
+            ? parseNotionMemo(file.name, text)
+            : parseMarkdownMemo(file.name, text)
+        )
+      } else if (extension === 'enex') {
+        memos.push(...parseEnex(file.name, decoder.decode(file.data)))
+      } else if (extension === 'json') {
+        memos.push(...parseJsonBackup(file.name, decoder.decode(file.data)))
+      } else {
+        errors.push({
+          fileName: file.name,
+          message: '지원하지 않는 파일 형식입니다.',
+        })
+      }
+    } catch (error) {
+      errors.push({
+        fileName: file.name,
+        message:
+          error instanceof Error ? error.message : '파일을 읽지 못했습니다.',
+      })
+    }
+  }
+
+  for (const file of files) {
+    await readFile(file, 0)
+  }
+  return { memos, errors }
+}
+
+// 내용 비교용 해시 (FNV-1a, 줄바꿈 형식과 앞뒤 공백은 무시)
+export const hashMemoContent = (content: string): string => {
+  const text = content.replace(/\r\n/g, '\n').trim()
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0')
+}
+
+const getDuplicateKey = (title: string, content: string): string =>
+  `${normalizeLinkTitle(title)}\n${hashMemoContent(content)}`
+
+const normalizeCategoryName = (name: string): string =>
+  name.normalize('NFC').trim().toLowerCase()
+
+// 가져온 카테고리 값을 현재 범위의 카테고리 키로 바꿈
+// (다른 범위에서 내보낸 파일은 키가 달라도 이름이 같으면 같은 카테고리로 봄)
+export const toImportCategory = (
+  value: string,
+  categories: Category[]
+): string => {
+  const byKey = categories.find(category => category.id === value)
+  if (byKey) return byKey.id
+
+  const name = normalizeCategoryName(value)
+  const byName = categories.find(
+    category =>
+      normalizeCategoryName(category.name) === name ||
+      normalizeCategoryName(category.id) === name
+  )
+  return byName ? byName.id : DEFAULT_IMPORT_CATEGORY
+}
+
+// 저장된 메모, 그리고 앞서 읽은 파일과 비교해 중복 표시
+// (카테고리는 현재 범위의 카테고리로 바꿔 둠)
+export const buildImportPreview = (
+  memos: ImportedMemo[],
+  existing: Memo[],
+  categories: Category[],
+  errors: MemoImportError[] = []
+): MemoImportPreview => {
+  const byKey = new Map<string, { title: string; fileName?: string }>()
+  const byTitle = new Map<string, { title: string; fileName?: string }>()
+  const remember = (title: string, content: string, fileName?: string) => {
+    const key = getDuplicateKey(title, content)
+    if (!byKey.has(key)) byKey.set(key, { title, fileName })
+    if (!byTitle.has(normalizeLinkTitle(title))) {
+      byTitle.set(normalizeLinkTitle(title), { title, fileName })
+    }
+  }
+  existing.forEach(memo => remember(memo.title, memo.content))
+
+  const items = memos.map((imported): MemoImportItem => {
+    const memo: ImportedMemo = {
+      ...imported,
+      data: {
+        ...imported.data,
+        category: toImportCategory(imported.data.category, categories),
+      },
+    }
+    const { title, content } = memo.data
+    const duplicate = byKey.get(getDuplicateKey(title, content))
+    const sameTitle = byTitle.get(normalizeLinkTitle(title))
+    remember(title, content, memo.fileName)
+
+    if (duplicate) {
+      return { memo, status: 'duplicate', duplicateOf: duplicate }
+    }
+    if (sameTitle) {
+      return { memo, status: 'sameTitle', duplicateOf: sameTitle }
+    }
+    return { memo, status: 'new' }
+  })
+
+  return { items, errors }
+}
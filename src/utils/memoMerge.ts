@@ -0,0 +1,46 @@
+import { MemoFormData } from '@/types/memo'
+import { mergeText } from './textDiff'
+
+export interface MemoMergeResult {
+  data: MemoFormData
+  hasConflicts: boolean
+}
+
+// 한쪽만 바꾼 값은 그 값을, 양쪽이 모두 바꿨다면 내 값을 사용
+const mergeValue = (base: string, mine: string, theirs: string): string =>
+  mine === base ? theirs : mine
+
+// 양쪽에서 추가한 태그는 모두 남기고, 어느 한쪽에서라도 지운 태그는 제거
+const mergeTags = (
+  base: string[],
+  mine: string[],
+  theirs: string[]
+): string[] => {
+  const removed = new Set([
+    ...base.filter(tag => !mine.includes(tag)),
+    ...base.filter(tag => !theirs.includes(tag)),
+  ])
+
+  return Array.from(new Set([...mine, ...theirs])).filter(
+    tag => !removed.has(tag)
+  )
+}
+
+// 편집을 시작한 버전(base)을 기준으로 내 변경과 다른 곳의 변경을 3-way 병합
+export const mergeMemoFormData = (
+  base: MemoFormData,
+  mine: MemoFormData,
+  theirs: MemoFormData
+): MemoMergeResult => {
+  const content = mergeText(base.content, mine.content, theirs.content)
+
+  return {
+    data: {
+      title: mergeValue(base.title, mine.title, theirs.title),
+      content: content.text,
+      category: mergeValue(base.category, mine.category, theirs.category),
+      tags: mergeTags(base.tags, mine.tags, theirs.tags),
+    },
+    hasConflicts: content.hasConflicts,
+  }
+}
@@ -0,0 +1,71 @@
+import { Memo } from '@/types/memo'
+import { isInFolder } from './folders'
+import type { MemoSort } from './memoSort'
+import type { MemoStore } from './memoStore'
+import { matchesTagFilter, TagFilterMode } from './tags'
+
+// 키셋 페이지네이션 커서 (마지막으로 받은 메모의 고정 여부, 정렬 기준 값, ID)
+export interface MemoCursor {
+  pinned: boolean
+  value: string
+  id: string
+}
+
+// 메모 목록 필터 (저장소에서 적용해 불러오지 않은 페이지의 메모도 거름)
+export interface MemoListFilter {
+  // 카테고리 키 ('all' 이면 거르지 않음)
+  category?: string
+  // 폴더 필터 (ALL_FOLDERS, UNFILED_FOLDER 또는 폴더 ID)
+  folder?: string
+  // 태그 필터 (tagMode 가 and 면 모든 태그, or 면 하나 이상)
+  tags?: string[]
+  tagMode?: TagFilterMode
+}
+
+export interface MemoPageOptions extends MemoListFilter {
+  cursor?: MemoCursor | null
+  limit?: number
+  // 정렬 기준 (고정한 메모가 항상 먼저, 기본은 작성일 내림차순)
+  sort?: MemoSort
+}
+
+export interface MemoPage {
+  memos: Memo[]
+  nextCursor: MemoCursor | null
+  // 필터에 맞는 전체 메모 수 (첫 페이지에서만 제공될 수 있음)
+  total?: number
+}
+
+export const DEFAULT_MEMO_PAGE_SIZE = 50
+
+// 메모가 목록 필터에 해당하는지
+export const matchesMemoListFilter = (
+  memo: Memo,
+  { category, folder, tags, tagMode }: MemoListFilter
+): boolean =>
+  (!category || category === 'all' || memo.category === category) &&
+  isInFolder(memo, folder) &&
+  matchesTagFilter(memo, tags, tagMode)
+
+// 모든 메모를 읽을 때 한 번에 받는 수 (Supabase 의 한 번 조회 행 수 제한보다 작게)
+const ALL_MEMOS_PAGE_SIZE = 500
+
+// 휴지통을 뺀 메모(필터가 있으면 필터에 맞는 메모)를 키셋 커서로 끝까지 넘겨 가며 모두 읽음
+// (getMemos 는 한 번의 조회라 행 수 제한에서 잘릴 수 있음)
+export const readAllMemoPages = async (
+  store: Pick<MemoStore, 'getMemosPage'>,
+  filter: MemoListFilter = {}
+): Promise<Memo[]> => {
+  const memos: Memo[] = []
+  let cursor: MemoCursor | null = null
+  do {
+    const page: MemoPage = await store.getMemosPage({
+      ...filter,
+      cursor,
+      limit: ALL_MEMOS_PAGE_SIZE,
+    })
+    memos.push(...page.memos)
+    cursor = page.nextCursor
+  } while (cursor)
+  return memos
+}
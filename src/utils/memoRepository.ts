@@ -1,315 +1,853 @@
-import { Memo } from '@/types/memo'
-import { supabase } from '@/lib/supabaseClient'
-
-export const memoRepository = {
-  // 모든 메모 가져오기
-  async getMemos(): Promise<Memo[]> {
-    try {
-      const { data, error } = await supabase
-        .from('memos')
+import { Memo, MemoRevision } from '@/types/memo'
+import { Category, DEFAULT_CATEGORY_LIST } from '@/types/category'
+import { ALL_FOLDERS, UNFILED_FOLDER } from '@/types/folder'
+import { SupabaseClient } from '@supabase/supabase-js'
+import { getSupabaseClient } from '@/lib/supabaseClient'
+import type { MemoStore } from './memoStore'
+import {
+  DEFAULT_MEMO_PAGE_SIZE,
+  MemoListFilter,
+  MemoPage,
+  MemoPageOptions,
+} from './memoPagination'
+import { DEFAULT_MEMO_SORT, MemoSortField, toSortKey } from './memoSort'
+import { MemoConflictError } from './memoErrors'
+import { MemoChangeListener } from './memoChanges'
+import { MemoCounts } from './memoCounts'
+import { getCurrentWorkspaceId } from './workspaceScope'
+import { compareTagCounts } from './tags'
+import { normalizeLinkTitle } from './wikiLinks'
+import {
+  getPrefilterTerms,
+  MemoSearchOptions,
+  MemoSearchPage,
+  SEARCH_CANDIDATE_LIMIT,
+  searchMemoCollection,
+} from './memoSearch'
+import { hasCategoryClause, parseSearchQuery } from './searchQuery'
+
+// 정렬 기준별 memos 테이블 컬럼
+const SORT_COLUMNS: Record<MemoSortField, string> = {
+  updatedAt: 'updated_at',
+  createdAt: 'created_at',
+  title: 'title',
+  category: 'category',
+}
+
+// PostgREST 필터 값으로 쓰도록 따옴표로 감쌈 (제목에 쉼표나 괄호가 있을 수 있음)
+const quoteFilterValue = (value: string): string =>
+  `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+
+// 목록 필터(카테고리, 폴더, 태그)를 조회 조건으로 적용
+const applyListFilter = <
+  Q extends {
+    eq(column: string, value: string): Q
+    is(column: string, value: null): Q
+    overlaps(column: string, value: string[]): Q
+    contains(column: string, value: string[]): Q
+  },
+>(
+  query: Q,
+  { category, folder, tags, tagMode }: MemoListFilter
+): Q => {
+  let filtered = query
+  if (category && category !== 'all') {
+    filtered = filtered.eq('category', category)
+  }
+
+  if (folder === UNFILED_FOLDER) {
+    filtered = filtered.is('folder_id', null)
+  } else if (folder && folder !== ALL_FOLDERS) {
+    filtered = filtered.eq('folder_id', folder)
+  }
+
+  if (tags?.length) {
+    filtered =
+      tagMode === 'or'
+        ? filtered.overlaps('tags', tags)
+        : filtered.contains('tags', tags)
+  }
+  return filtered
+}
+
+// 같은 탭에서 여러 번 구독해도 채널이 겹치지 않도록 붙이는 번호
+let channelCount = 0
+
+// memos 테이블의 행 구조
+interface MemoRow {
+  id: string
+  title: string
+  content: string
+  category: string
+  tags: string[] | null
+  summary: string | null
+  created_at: string
+  updated_at: string
+  deleted_at: string | null
+  owner_id: string | null
+  workspace_id: string | null
+  folder_id: string | null
+  pinned: boolean | null
+}
+
+// memo_revisions 테이블의 행 구조
+interface MemoRevisionRow {
+  id: string
+  memo_id: string
+  title: string
+  content: string
+  category: string
+  tags: string[] | null
+  author: string | null
+  created_at: string
+}
+
+const toRevision = (row: MemoRevisionRow): MemoRevision => ({
+  id: row.id,
+  memoId: row.memo_id,
+  title: row.title,
+  content: row.content,
+  category: row.category,
+  tags: row.tags || [],
+  author: row.author,
+  createdAt: row.created_at,
+})
+
+// Supabase 데이터를 Memo 타입으로 변환
+const toMemo = (row: MemoRow): Memo => ({
+  id: row.id,
+  title: row.title,
+  content: row.content,
+  category: row.category,
+  tags: row.tags || [],
+  summary: row.summary || undefined,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+  deletedAt: row.deleted_at || undefined,
+  ownerId: row.owner_id || undefined,
+  workspaceId: row.workspace_id || undefined,
+  folderId: row.folder_id || undefined,
+  pinned: row.pinned || undefined,
+})
+
+// 새 메모를 추가할 때의 행
+const toInsertRow = (memo: Memo) => ({
+  id: memo.id,
+  title: memo.title,
+  content: memo.content,
+  category: memo.category,
+  tags: memo.tags,
+  summary: memo.summary || null,
+  created_at: memo.createdAt,
+  updated_at: memo.updatedAt,
+  deleted_at: memo.deletedAt || null,
+  // 없으면 DB 기본값(auth.uid())으로 현재 사용자가 소유자가 됨
+  ...(memo.ownerId && { owner_id: memo.ownerId }),
+  workspace_id: memo.workspaceId || null,
+  folder_id: memo.folderId || null,
+  pinned: Boolean(memo.pinned),
+})
+
+// count_memos RPC 가 돌려주는 행 (kind 별 key: 카테고리 값, 폴더 ID(폴더 밖이면 null), 태그)
+interface MemoCountRow {
+  kind: 'category' | 'folder' | 'tag'
+  key: string | null
+  memo_count: number
+}
+
+// Supabase 저장소 (API 라우트가 검색어의 category: 조건에 쓸 범위의 카테고리도 읽음)
+export interface MemoRepository extends MemoStore {
+  // 현재 범위의 카테고리 (저장한 적이 없으면 기본 카테고리)
+  getScopeCategories(): Promise<Category[]>
+}
+
+// Supabase 클라이언트와 조회할 워크스페이스를 받아 MemoStore 구현 생성
+// (API 라우트는 요청한 사용자의 권한이 적용된 클라이언트와 요청의 워크스페이스를 넘김)
+export const createMemoRepository = (
+  getClient: () => SupabaseClient = getSupabaseClient,
+  getWorkspaceId: () => string | null = getCurrentWorkspaceId
+): MemoRepository => {
+  // 목록 조회를 현재 워크스페이스(없으면 개인 메모)로 한정
+  const scoped = <
+    Q extends {
+      eq(column: string, value: string): Q
+      is(column: string, value: null): Q
+    },
+  >(
+    query: Q
+  ): Q => {
+    const workspaceId = getWorkspaceId()
+    return workspaceId
+      ? query.eq('workspace_id', workspaceId)
+      : query.is('workspace_id', null)
+  }
+
+  // 검색어의 category: 조건에 쓸 현재 범위의 카테고리 (저장한 적이 없으면 기본 카테고리)
+  const getScopeCategories = async (): Promise<Category[]> => {
+    const { data, error } = await scoped(
+      getClient()
+        .from('memo_categories')
         .select('*')
-        .order('created_at', { ascending: false })
+        .order('position', { ascending: true })
+    )
 
-      if (error) {
-        console.error('Error loading memos from Supabase:', error)
+    if (error) {
+      console.error('Error loading categories for search:', error)
+      throw error
+    }
+
+    return data?.length
+      ? data.map(row => ({
+          id: row.key,
+          name: row.name,
+          color: row.color,
+          icon: row.icon,
+          position: row.position,
+        }))
+      : DEFAULT_CATEGORY_LIST
+  }
+
+  const repository: MemoRepository = {
+    getScopeCategories,
+
+    // 모든 메모 가져오기
+    async getMemos(): Promise<Memo[]> {
+      try {
+        const { data, error } = await scoped(
+          getClient().from('memos').select('*').is('deleted_at', null)
+        )
+          .order('created_at', { ascending: false })
+          .order('id', { ascending: false })
+
+        if (error) {
+          console.error('Error loading memos from Supabase:', error)
+          throw error
+        }
+
+        // Supabase 데이터를 Memo 타입으로 변환
+        return data?.map(toMemo) || []
+      } catch (error) {
+        console.error('Error loading memos:', error)
         throw error
       }
+    },
 
-      // Supabase 데이터를 Memo 타입으로 변환
-      return (
-        data?.map(memo => ({
-          id: memo.id,
-          title: memo.title,
-          content: memo.content,
-          category: memo.category,
-          tags: memo.tags || [],
-          summary: memo.summary || undefined,
-          createdAt: memo.created_at,
-          updatedAt: memo.updated_at,
-        })) || []
-      )
-    } catch (error) {
-      console.error('Error loading memos:', error)
-      return []
-    }
-  },
+    // 필터에 맞는 메모 페이지 가져오기 (pinned, 정렬 컬럼, id 기준 키셋 페이지네이션)
+    async getMemosPage({
+      cursor,
+      limit = DEFAULT_MEMO_PAGE_SIZE,
+      sort = DEFAULT_MEMO_SORT,
+      ...filter
+    }: MemoPageOptions = {}): Promise<MemoPage> {
+      const column = SORT_COLUMNS[sort.field]
+      const ascending = sort.direction === 'asc'
 
-  // 메모 추가
-  async addMemo(memo: Memo): Promise<Memo> {
-    try {
-      const { data, error } = await supabase
-        .from('memos')
-        .insert({
-          id: memo.id,
-          title: memo.title,
-          content: memo.content,
-          category: memo.category,
-          tags: memo.tags,
-          summary: memo.summary || null,
-          created_at: memo.createdAt,
-          updated_at: memo.updatedAt,
-        })
-        .select()
-        .single()
+      try {
+        // 전체 개수는 첫 페이지에서만 계산
+        let request = applyListFilter(
+          scoped(
+            getClient()
+              .from('memos')
+              .select('*', cursor ? undefined : { count: 'exact' })
+              .is('deleted_at', null)
+          ),
+          filter
+        )
+          .order('pinned', { ascending: false })
+          .order(column, { ascending })
+          .order('id', { ascending })
+          .limit(limit + 1)
 
-      if (error) {
-        console.error('Error adding memo to Supabase:', error)
+        if (cursor) {
+          const op = ascending ? 'gt' : 'lt'
+          const value = quoteFilterValue(cursor.value)
+          const id = quoteFilterValue(cursor.id)
+          const rest = `${column}.${op}.${value},and(${column}.eq.${value},id.${op}.${id})`
+
+          // 고정한 메모 다음에는 고정하지 않은 메모가 모두 이어짐
+          request = cursor.pinned
+            ? request.or(`pinned.eq.false,and(pinned.eq.true,or(${rest}))`)
+            : request.eq('pinned', false).or(rest)
+        }
+
+        const { data, error, count } = await request
+
+        if (error) {
+          console.error('Error loading memo page from Supabase:', error)
+          throw error
+        }
+
+        const rows = (data || []) as MemoRow[]
+        const memos = rows.slice(0, limit).map(toMemo)
+        const last = memos[memos.length - 1]
+
+        return {
+          memos,
+          nextCursor: rows.length > limit ? toSortKey(last, sort) : null,
+          total: count ?? undefined,
+        }
+      } catch (error) {
+        console.error('Error loading memo page:', error)
         throw error
       }
+    },
+
+    // 메모 추가
+    async addMemo(memo: Memo): Promise<Memo> {
+      try {
+        const { data, error } = await getClient()
+          .from('memos')
+          .insert(toInsertRow(memo))
+          .select()
+          .single()
+
+        if (error) {
+          console.error('Error adding memo to Supabase:', error)
+          throw error
+        }
 
-      return {
-        id: data.id,
-        title: data.title,
-        content: data.content,
-        category: data.category,
-        tags: data.tags || [],
-        summary: data.summary || undefined,
-        createdAt: data.created_at,
-        updatedAt: data.updated_at,
+        return toMemo(data)
+      } catch (error) {
+        console.error('Error adding memo:', error)
+        throw error
       }
-    } catch (error) {
-      console.error('Error adding memo:', error)
-      throw error
-    }
-  },
+    },
 
-  // 메모 업데이트
-  async updateMemo(updatedMemo: Memo): Promise<Memo> {
-    try {
-      const { data, error } = await supabase
-        .from('memos')
-        .update({
-          title: updatedMemo.title,
-          content: updatedMemo.content,
-          category: updatedMemo.category,
-          tags: updatedMemo.tags,
-          summary: updatedMemo.summary || null,
-          updated_at: updatedMemo.updatedAt,
-        })
-        .eq('id', updatedMemo.id)
-        .select()
-        .single()
+    // 여러 메모 추가 (한 번의 insert 요청)
+    async addMemos(memos: Memo[]): Promise<Memo[]> {
+      if (memos.length === 0) return []
+      try {
+        const { data, error } = await getClient()
+          .from('memos')
+          .insert(memos.map(toInsertRow))
+          .select()
 
-      if (error) {
-        console.error('Error updating memo in Supabase:', error)
+        if (error) {
+          console.error('Error adding memos to Supabase:', error)
+          throw error
+        }
+
+        return (data || []).map(toMemo)
+      } catch (error) {
+        console.error('Error adding memos:', error)
         throw error
       }
+    },
+
+    // 메모 업데이트
+    async updateMemo(
+      updatedMemo: Memo,
+      expectedUpdatedAt?: string
+    ): Promise<Memo> {
+      try {
+        let query = getClient()
+          .from('memos')
+          .update({
+            title: updatedMemo.title,
+            content: updatedMemo.content,
+            category: updatedMemo.category,
+            tags: updatedMemo.tags,
+            summary: updatedMemo.summary || null,
+            updated_at: updatedMemo.updatedAt,
+            deleted_at: updatedMemo.deletedAt || null,
+            workspace_id: updatedMemo.workspaceId || null,
+            folder_id: updatedMemo.folderId || null,
+            pinned: Boolean(updatedMemo.pinned),
+          })
+          .eq('id', updatedMemo.id)
+
+        // 마지막으로 본 버전일 때만 업데이트 (낙관적 동시성 제어)
+        if (expectedUpdatedAt) {
+          query = query.eq('updated_at', expectedUpdatedAt)
+        }
 
-      return {
-        id: data.id,
-        title: data.title,
-        content: data.content,
-        category: data.category,
-        tags: data.tags || [],
-        summary: data.summary || undefined,
-        createdAt: data.created_at,
-        updatedAt: data.updated_at,
+        const { data, error } = await query.select().single()
+
+        if (error) {
+          if (expectedUpdatedAt && error.code === 'PGRST116') {
+            // 조건에 맞는 행이 없음: 메모가 존재하면 다른 곳에서 수정된 것
+            const currentMemo = await repository.getMemoById(updatedMemo.id)
+            if (currentMemo) {
+              throw new MemoConflictError(currentMemo)
+            }
+          }
+          console.error('Error updating memo in Supabase:', error)
+          throw error
+        }
+
+        return toMemo(data)
+      } catch (error) {
+        console.error('Error updating memo:', error)
+        throw error
       }
-    } catch (error) {
-      console.error('Error updating memo:', error)
-      throw error
-    }
-  },
+    },
 
-  // 메모 삭제
-  async deleteMemo(id: string): Promise<void> {
-    try {
-      const { error } = await supabase.from('memos').delete().eq('id', id)
+    // 메모를 휴지통으로 이동
+    async deleteMemo(id: string): Promise<void> {
+      try {
+        const now = new Date().toISOString()
+        const { error } = await getClient()
+          .from('memos')
+          .update({ deleted_at: now, updated_at: now })
+          .eq('id', id)
 
-      if (error) {
-        console.error('Error deleting memo from Supabase:', error)
+        if (error) {
+          console.error('Error moving memo to trash in Supabase:', error)
+          throw error
+        }
+      } catch (error) {
+        console.error('Error deleting memo:', error)
         throw error
       }
-    } catch (error) {
-      console.error('Error deleting memo:', error)
-      throw error
-    }
-  },
+    },
 
-  // 메모 검색
-  async searchMemos(query: string): Promise<Memo[]> {
-    try {
-      const lowercaseQuery = query.toLowerCase()
+    // 휴지통에서 복원
+    async restoreMemo(id: string): Promise<Memo> {
+      try {
+        const { data, error } = await getClient()
+          .from('memos')
+          .update({ deleted_at: null, updated_at: new Date().toISOString() })
+          .eq('id', id)
+          .select()
+          .single()
 
-      const { data, error } = await supabase
-        .from('memos')
-        .select('*')
-        .order('created_at', { ascending: false })
+        if (error) {
+          console.error('Error restoring memo in Supabase:', error)
+          throw error
+        }
 
-      if (error) {
-        console.error('Error searching memos:', error)
+        return toMemo(data)
+      } catch (error) {
+        console.error('Error restoring memo:', error)
         throw error
       }
+    },
 
-      // 클라이언트 사이드 필터링 (Supabase의 full-text search를 사용할 수도 있음)
-      return (
-        data
-          ?.filter(
-            memo =>
-              memo.title.toLowerCase().includes(lowercaseQuery) ||
-              memo.content.toLowerCase().includes(lowercaseQuery) ||
-              (memo.tags &&
-                Array.isArray(memo.tags) &&
-                memo.tags.some((tag: string) =>
-                  tag.toLowerCase().includes(lowercaseQuery)
-                ))
-          )
-          .map(memo => ({
-            id: memo.id,
-            title: memo.title,
-            content: memo.content,
-            category: memo.category,
-            tags: memo.tags || [],
-            summary: memo.summary || undefined,
-            createdAt: memo.created_at,
-            updatedAt: memo.updated_at,
-          })) || []
-      )
-    } catch (error) {
-      console.error('Error searching memos:', error)
-      return []
-    }
-  },
+    // 영구 삭제 (버전 기록은 외래 키로 함께 삭제됨)
+    async purgeMemo(id: string): Promise<void> {
+      try {
+        const { error } = await getClient().from('memos').delete().eq('id', id)
 
-  // 카테고리별 메모 필터링
-  async getMemosByCategory(category: string): Promise<Memo[]> {
-    try {
-      const query = supabase
-        .from('memos')
-        .select('*')
-        .order('created_at', { ascending: false })
+        if (error) {
+          console.error('Error purging memo from Supabase:', error)
+          throw error
+        }
+      } catch (error) {
+        console.error('Error purging memo:', error)
+        throw error
+      }
+    },
+
+    // 휴지통에 있는 메모
+    async getDeletedMemos(): Promise<Memo[]> {
+      try {
+        const { data, error } = await scoped(
+          getClient().from('memos').select('*').not('deleted_at', 'is', null)
+        ).order('deleted_at', { ascending: false })
 
-      if (category !== 'all') {
-        query.eq('category', category)
+        if (error) {
+          console.error('Error loading trash from Supabase:', error)
+          throw error
+        }
+
+        return data?.map(toMemo) || []
+      } catch (error) {
+        console.error('Error loading trash:', error)
+        throw error
       }
+    },
 
-      const { data, error } = await query
+    // 현재 범위에서 보관 기간이 지난 메모 영구 삭제 (다른 워크스페이스의 휴지통은 그대로)
+    async purgeExpiredMemos(before: string): Promise<number> {
+      try {
+        const { data, error } = await scoped(
+          getClient().from('memos').delete().lt('deleted_at', before)
+        ).select('id')
 
-      if (error) {
-        console.error('Error filtering memos by category:', error)
+        if (error) {
+          console.error('Error purging expired memos from Supabase:', error)
+          throw error
+        }
+
+        return data?.length || 0
+      } catch (error) {
+        console.error('Error purging expired memos:', error)
         throw error
       }
+    },
 
-      return (
-        data?.map(memo => ({
-          id: memo.id,
-          title: memo.title,
-          content: memo.content,
-          category: memo.category,
-          tags: memo.tags || [],
-          summary: memo.summary || undefined,
-          createdAt: memo.created_at,
-          updatedAt: memo.updated_at,
-        })) || []
-      )
-    } catch (error) {
-      console.error('Error filtering memos by category:', error)
-      return []
-    }
-  },
+    // 카테고리 일괄 변경
+    async reassignCategory(from: string, to: string): Promise<number> {
+      try {
+        const { data, error } = await scoped(
+          getClient()
+            .from('memos')
+            .update({ category: to, updated_at: new Date().toISOString() })
+            .eq('category', from)
+        ).select('id')
 
-  // 특정 메모 가져오기
-  async getMemoById(id: string): Promise<Memo | null> {
-    try {
-      const { data, error } = await supabase
-        .from('memos')
-        .select('*')
-        .eq('id', id)
-        .single()
+        if (error) {
+          console.error('Error reassigning category in Supabase:', error)
+          throw error
+        }
 
-      if (error) {
-        if (error.code === 'PGRST116') {
-          // 레코드를 찾을 수 없음
-          return null
+        return data?.length || 0
+      } catch (error) {
+        console.error('Error reassigning category:', error)
+        throw error
+      }
+    },
+
+    // 폴더 일괄 이동
+    async moveMemosToFolder(from: string, to: string | null): Promise<number> {
+      try {
+        const { data, error } = await scoped(
+          getClient()
+            .from('memos')
+            .update({ folder_id: to, updated_at: new Date().toISOString() })
+            .eq('folder_id', from)
+        ).select('id')
+
+        if (error) {
+          console.error('Error moving memos to folder in Supabase:', error)
+          throw error
         }
-        console.error('Error getting memo by id:', error)
+
+        return data?.length || 0
+      } catch (error) {
+        console.error('Error moving memos to folder:', error)
         throw error
       }
+    },
 
-      if (!data) return null
-
-      return {
-        id: data.id,
-        title: data.title,
-        content: data.content,
-        category: data.category,
-        tags: data.tags || [],
-        summary: data.summary || undefined,
-        createdAt: data.created_at,
-        updatedAt: data.updated_at,
+    // 태그 일괄 변경: 배열 안의 태그를 바꾸고 중복을 없애는 일은 한 번의 RPC 로 처리
+    async replaceTag(from: string, to: string | null): Promise<number> {
+      try {
+        const { data, error } = await getClient().rpc('replace_memo_tag', {
+          old_tag: from,
+          new_tag: to,
+          target_workspace: getWorkspaceId(),
+        })
+
+        if (error) {
+          console.error('Error replacing tag in Supabase:', error)
+          throw error
+        }
+
+        return data || 0
+      } catch (error) {
+        console.error('Error replacing tag:', error)
+        throw error
       }
-    } catch (error) {
-      console.error('Error getting memo by id:', error)
-      return null
-    }
-  },
+    },
+
+    // 메모 검색: search_text 트라이그램 인덱스로 후보를 좁힌 뒤
+    // 검색어 조건 평가와 순위 계산은 브라우저와 같은 코드(searchMemoCollection)로 처리
+    async searchMemos(
+      query: string,
+      options: MemoSearchOptions = {}
+    ): Promise<MemoSearchPage> {
+      try {
+        const terms = getPrefilterTerms(query)
+
+        let candidateQuery = scoped(
+          getClient().from('memos').select('*').is('deleted_at', null)
+        )
+          .order('updated_at', { ascending: false })
+          // 후보가 한도를 넘는지 알 수 있도록 하나 더 읽음
+          .limit(SEARCH_CANDIDATE_LIMIT + 1)
+
+        if (terms.length > 0) {
+          candidateQuery = candidateQuery.or(
+            terms.map(term => `search_text.ilike.*${term}*`).join(',')
+          )
+        }
+
+        candidateQuery = applyListFilter(candidateQuery, options)
+
+        const { data, error } = await candidateQuery
+
+        if (error) {
+          console.error('Error searching memos:', error)
+          throw error
+        }
 
-  // 요약 업데이트
-  async updateMemoSummary(id: string, summary: string): Promise<Memo> {
-    try {
-      const { data, error } = await supabase
-        .from('memos')
-        .update({
-          summary,
-          updated_at: new Date().toISOString(),
+        const rows = data || []
+        const categories =
+          options.categories ||
+          (hasCategoryClause(parseSearchQuery(query))
+            ? await getScopeCategories()
+            : undefined)
+        return {
+          ...searchMemoCollection(
+            rows.slice(0, SEARCH_CANDIDATE_LIMIT).map(toMemo),
+            query,
+            { ...options, categories }
+          ),
+          truncated: rows.length > SEARCH_CANDIDATE_LIMIT,
+        }
+      } catch (error) {
+        console.error('Error searching memos:', error)
+        throw error
+      }
+    },
+
+    // 카테고리, 폴더, 태그별 메모 수는 DB 에서 한 번에 집계 (count_memos RPC)
+    async getMemoCounts(): Promise<MemoCounts> {
+      try {
+        const { data, error } = await getClient().rpc('count_memos', {
+          target_workspace: getWorkspaceId(),
         })
-        .eq('id', id)
-        .select()
-        .single()
 
-      if (error) {
+        if (error) {
+          console.error('Error counting memos in Supabase:', error)
+          throw error
+        }
+
+        const rows: MemoCountRow[] = data || []
+        const counts: MemoCounts = { byCategory: {}, byFolder: {}, byTag: [] }
+        rows.forEach(({ kind, key, memo_count: count }) => {
+          if (kind === 'tag') {
+            if (key) counts.byTag.push({ tag: key, count })
+          } else if (kind === 'folder') {
+            counts.byFolder[key || UNFILED_FOLDER] = count
+          } else {
+            counts.byCategory[key || ''] = count
+          }
+        })
+        counts.byTag.sort(compareTagCounts)
+        return counts
+      } catch (error) {
+        console.error('Error counting memos:', error)
+        throw error
+      }
+    },
+
+    // 카테고리별 메모 필터링
+    async getMemosByCategory(category: string): Promise<Memo[]> {
+      try {
+        const query = scoped(
+          getClient().from('memos').select('*').is('deleted_at', null)
+        ).order('created_at', { ascending: false })
+
+        if (category !== 'all') {
+          query.eq('category', category)
+        }
+
+        const { data, error } = await query
+
+        if (error) {
+          console.error('Error filtering memos by category:', error)
+          throw error
+        }
+
+        return data?.map(toMemo) || []
+      } catch (error) {
+        console.error('Error filtering memos by category:', error)
+        return []
+      }
+    },
+
+    // 특정 메모 가져오기
+    async getMemoById(id: string): Promise<Memo | null> {
+      try {
+        const { data, error } = await getClient()
+          .from('memos')
+          .select('*')
+          .eq('id', id)
+          .single()
+
+        if (error) {
+          if (error.code === 'PGRST116') {
+            // 레코드를 찾을 수 없음
+            return null
+          }
+          console.error('Error getting memo by id:', error)
+          throw error
+        }
+
+        if (!data) return null
+
+        return toMemo(data)
+      } catch (error) {
+        console.error('Error getting memo by id:', error)
+        return null
+      }
+    },
+
+    // 위키 링크 제목으로 메모 찾기 (대소문자 무시, ilike 의 특수 문자는 이스케이프)
+    async findMemoByTitle(title: string): Promise<Memo | null> {
+      try {
+        const { data, error } = await scoped(
+          getClient().from('memos').select('*').is('deleted_at', null)
+        )
+          .ilike('title', title.trim().replace(/[\\%_]/g, '\\$&'))
+          .order('updated_at', { ascending: false })
+          .limit(1)
+          .maybeSingle()
+
+        if (error) {
+          console.error('Error finding memo by title:', error)
+          throw error
+        }
+
+        return data ? toMemo(data) : null
+      } catch (error) {
+        console.error('Error finding memo by title:', error)
+        return null
+      }
+    },
+
+    // 백링크: 저장할 때 트리거가 채우는 links 컬럼(링크한 제목, 소문자)으로 찾음
+    async getBacklinks(memo: Memo): Promise<Memo[]> {
+      try {
+        const { data, error } = await scoped(
+          getClient().from('memos').select('*').is('deleted_at', null)
+        )
+          .contains('links', [normalizeLinkTitle(memo.title)])
+          .neq('id', memo.id)
+          .order('updated_at', { ascending: false })
+
+        if (error) {
+          console.error('Error loading backlinks:', error)
+          throw error
+        }
+
+        return data?.map(toMemo) || []
+      } catch (error) {
+        console.error('Error loading backlinks:', error)
+        throw error
+      }
+    },
+
+    // 요약 업데이트
+    async updateMemoSummary(id: string, summary: string): Promise<Memo> {
+      try {
+        const { data, error } = await getClient()
+          .from('memos')
+          .update({
+            summary,
+            updated_at: new Date().toISOString(),
+          })
+          .eq('id', id)
+          .select()
+          .single()
+
+        if (error) {
+          console.error('Error updating memo summary:', error)
+          throw error
+        }
+
+        return toMemo(data)
+      } catch (error) {
         console.error('Error updating memo summary:', error)
         throw error
       }
+    },
+
+    // 목록 맨 위 고정 / 해제
+    async setMemoPinned(id: string, pinned: boolean): Promise<Memo> {
+      try {
+        const { data, error } = await getClient()
+          .from('memos')
+          .update({
+            pinned,
+            updated_at: new Date().toISOString(),
+          })
+          .eq('id', id)
+          .select()
+          .single()
 
-      return {
-        id: data.id,
-        title: data.title,
-        content: data.content,
-        category: data.category,
-        tags: data.tags || [],
-        summary: data.summary || undefined,
-        createdAt: data.created_at,
-        updatedAt: data.updated_at,
+        if (error) {
+          console.error('Error updating memo pin:', error)
+          throw error
+        }
+
+        return toMemo(data)
+      } catch (error) {
+        console.error('Error updating memo pin:', error)
+        throw error
       }
-    } catch (error) {
-      console.error('Error updating memo summary:', error)
-      throw error
-    }
-  },
+    },
 
-  // 태그 업데이트
-  async updateMemoTags(id: string, tags: string[]): Promise<Memo> {
-    try {
-      const { data, error } = await supabase
-        .from('memos')
-        .update({
-          tags,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', id)
-        .select()
-        .single()
+    // 태그 업데이트
+    async updateMemoTags(id: string, tags: string[]): Promise<Memo> {
+      try {
+        const { data, error } = await getClient()
+          .from('memos')
+          .update({
+            tags,
+            updated_at: new Date().toISOString(),
+          })
+          .eq('id', id)
+          .select()
+          .single()
+
+        if (error) {
+          console.error('Error updating memo tags:', error)
+          throw error
+        }
 
-      if (error) {
+        return toMemo(data)
+      } catch (error) {
         console.error('Error updating memo tags:', error)
         throw error
       }
+    },
 
-      return {
-        id: data.id,
-        title: data.title,
-        content: data.content,
-        category: data.category,
-        tags: data.tags || [],
-        summary: data.summary || undefined,
-        createdAt: data.created_at,
-        updatedAt: data.updated_at,
+    // 메모의 버전 기록 (저장 시 트리거가 memo_revisions 에 남김)
+    async getRevisions(memoId: string): Promise<MemoRevision[]> {
+      try {
+        const { data, error } = await getClient()
+          .from('memo_revisions')
+          .select('*')
+          .eq('memo_id', memoId)
+          .order('created_at', { ascending: false })
+
+        if (error) {
+          console.error('Error loading memo revisions from Supabase:', error)
+          throw error
+        }
+
+        return data?.map(toRevision) || []
+      } catch (error) {
+        console.error('Error loading memo revisions:', error)
+        throw error
       }
-    } catch (error) {
-      console.error('Error updating memo tags:', error)
-      throw error
-    }
-  },
+    },
+
+    // memos 테이블의 추가/수정/삭제 구독 (Supabase Realtime)
+    subscribe(listener: MemoChangeListener): () => void {
+      const client = getClient()
+      const channel = client
+        .channel(`memos-changes-${++channelCount}`)
+        .on<MemoRow>(
+          'postgres_changes',
+          { event: '*', schema: 'public', table: 'memos' },
+          payload => {
+            if (payload.eventType === 'DELETE') {
+              if (payload.old.id)
+                listener({ type: 'delete', id: payload.old.id })
+              return
+            }
+            listener({
+              type: 'upsert',
+              memo: toMemo(payload.new),
+              created: payload.eventType === 'INSERT',
+            })
+          }
+        )
+        .subscribe((status, error) => {
+          if (error) console.error('Error subscribing to memo changes:', error)
+        })
+
+      return () => {
+        client.removeChannel(channel)
+      }
+    },
+  }
+
+  return repository
 }
 
+export const memoRepository = createMemoRepository()
@@ -0,0 +1,36 @@
+import { v4 as uuidv4 } from 'uuid'
+import { Memo, MemoRevision } from '@/types/memo'
+import { getCurrentUser } from '@/lib/auth'
+
+const AUTHOR_STORAGE_KEY = 'memo-app-author'
+const DEFAULT_AUTHOR = '익명'
+
+// 버전 기록에 남길 작성자 이름 (로그인한 경우 이메일)
+export const getCurrentAuthor = (): string => {
+  const user = getCurrentUser()
+  if (user?.email) return user.email
+  if (typeof window === 'undefined') return DEFAULT_AUTHOR
+  return localStorage.getItem(AUTHOR_STORAGE_KEY) || DEFAULT_AUTHOR
+}
+
+// 메모의 현재 상태로 버전 기록 생성 (저장 시각을 기록 시각으로 사용)
+export const createRevision = (
+  memo: Memo,
+  author: string | null = getCurrentAuthor()
+): MemoRevision => ({
+  id: uuidv4(),
+  memoId: memo.id,
+  title: memo.title,
+  content: memo.content,
+  category: memo.category,
+  tags: [...memo.tags],
+  author,
+  createdAt: memo.updatedAt,
+})
+
+// 기록 대상 필드(제목, 내용, 카테고리, 태그)가 바뀌었는지
+export const hasRevisionChanges = (before: Memo, after: Memo): boolean =>
+  before.title !== after.title ||
+  before.content !== after.content ||
+  before.category !== after.category ||
+  before.tags.join('\n') !== after.tags.join('\n')
@@ -0,0 +1,324 @@
+import { Memo } from '@/types/memo'
+import { Category, DEFAULT_CATEGORY_LIST } from '@/types/category'
+import { isInFolder } from './folders'
+import { matchesTagFilter, TagFilterMode } from './tags'
+import {
+  getPositiveTerms,
+  matchesSearchQuery,
+  parseSearchQuery,
+  ParsedSearchQuery,
+} from './searchQuery'
+
+export interface MemoSearchOptions {
+  page?: number
+  pageSize?: number
+  category?: string
+  // 폴더 필터 (ALL_FOLDERS, UNFILED_FOLDER 또는 폴더 ID)
+  folder?: string
+  // 태그 필터 (tagMode 가 and 면 모든 태그, or 면 하나 이상)
+  tags?: string[]
+  tagMode?: TagFilterMode
+  // 검색어의 category: 조건에 쓰는 현재 범위의 카테고리 (없으면 기본 카테고리)
+  categories?: Category[]
+}
+
+// 하이라이트 표시를 위해 일치 여부로 나눈 텍스트 조각
+export interface HighlightSegment {
+  text: string
+  match: boolean
+}
+
+export interface MemoSearchHighlights {
+  title: HighlightSegment[]
+  snippet: HighlightSegment[]
+}
+
+export interface MemoSearchHit {
+  memo: Memo
+  score: number
+  highlights: MemoSearchHighlights
+}
+
+export interface MemoSearchPage {
+  hits: MemoSearchHit[]
+  total: number
+  page: number
+  pageSize: number
+  hasMore: boolean
+  // 후보가 너무 많아 최근에 수정한 SEARCH_CANDIDATE_LIMIT 개 메모 안에서만 순위를 매겼는지
+  // (true 면 total 과 hasMore 도 그 안에서의 값)
+  truncated?: boolean
+}
+
+export const DEFAULT_SEARCH_PAGE_SIZE = 20
+export const MAX_SEARCH_PAGE_SIZE = 50
+// 서버 검색에서 순위를 매길 최대 후보 수
+export const SEARCH_CANDIDATE_LIMIT = 500
+
+// 필드별 가중치 (제목과 태그 일치를 본문보다 높게 평가)
+const FIELD_WEIGHTS = {
+  title: 3,
+  tags: 2.5,
+  summary: 1.5,
+  content: 1,
+}
+
+type SearchField = keyof typeof FIELD_WEIGHTS
+
+const SNIPPET_LENGTH = 140
+
+// 한글/한자/가나는 띄어쓰기와 조사 때문에 단어 단위로는 잘 맞지 않으므로 2-gram으로 분해
+const CJK_PATTERN =
+  /[\u1100-\u11ff\u3040-\u30ff\u3130-\u318f\u3400-\u9fff\uac00-\ud7af]/
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu
+
+const normalize = (text: string): string => text.normalize('NFC').toLowerCase()
+
+const toBigrams = (word: string): string[] => {
+  if (word.length <= 2) return [word]
+  const bigrams: string[] = []
+  for (let i = 0; i < word.length - 1; i++) {
+    bigrams.push(word.slice(i, i + 2))
+  }
+  return bigrams
+}
+
+// 텍스트를 검색 토큰으로 분해 (라틴 문자는 단어, CJK는 2-gram)
+export const tokenize = (text: string): string[] =>
+  (normalize(text).match(WORD_PATTERN) || []).flatMap(word =>
+    CJK_PATTERN.test(word) ? toBigrams(word) : [word]
+  )
+
+// 순위 계산과 하이라이트에 쓸 토큰 목록
+const getRankingTerms = (parsed: ParsedSearchQuery): string[] =>
+  Array.from(new Set(getPositiveTerms(parsed).flatMap(tokenize)))
+
+// DB 사전 필터에 쓸 토큰 목록
+// 검색어가 없는 OR 그룹이 있으면 텍스트로 후보를 좁힐 수 없으므로 빈 배열
+export const getPrefilterTerms = (query: string): string[] => {
+  const parsed = parseSearchQuery(query)
+  const everyGroupHasTerm = parsed.groups.every(
+    group =>
+      getPositiveTerms({ groups: [group], errors: [] }).flatMap(tokenize)
+        .length > 0
+  )
+  return everyGroupHasTerm ? getRankingTerms(parsed) : []
+}
+
+const stripMarkdown = (text: string): string =>
+  text
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, ' ')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[#>*_`~|-]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+
+// 검색어와 일치하는 구간을 표시한 텍스트 조각 목록
+export const highlightText = (
+  text: string,
+  terms: string[]
+): HighlightSegment[] => {
+  const lowered = normalize(text)
+  const ranges: [number, number][] = []
+
+  terms.forEach(term => {
+    let index = lowered.indexOf(term)
+    while (term && index !== -1) {
+      ranges.push([index, index + term.length])
+      index = lowered.indexOf(term, index + term.length)
+    }
+  })
+
+  ranges.sort((a, b) => a[0] - b[0])
+
+  const segments: HighlightSegment[] = []
+  let cursor = 0
+  ranges.forEach(([start, end]) => {
+    if (end <= cursor) return
+    if (start > cursor) {
+      segments.push({ text: text.slice(cursor, start), match: false })
+    }
+    segments.push({
+      text: text.slice(Math.max(start, cursor), end),
+      match: true,
+    })
+    cursor = end
+  })
+  if (cursor < text.length) {
+    segments.push({ text: text.slice(cursor), match: false })
+  }
+
+  return segments
+}
+
+// 첫 번째 일치 위치 주변을 잘라낸 본문 발췌
+const buildSnippet = (memo: Memo, terms: string[]): HighlightSegment[] => {
+  const sources = [stripMarkdown(memo.content), memo.summary || '']
+  const source =
+    sources.find(text => terms.some(term => normalize(text).includes(term))) ??
+    sources[0]
+
+  const lowered = normalize(source)
+  const firstMatch = Math.min(
+    ...terms.map(term => lowered.indexOf(term)).filter(index => index >= 0),
+    source.length
+  )
+  const start = Math.max(
+    0,
+    Math.min(firstMatch - 40, source.length - SNIPPET_LENGTH)
+  )
+  const end = Math.min(source.length, start + SNIPPET_LENGTH)
+  const excerpt =
+    (start > 0 ? '…' : '') +
+    source.slice(start, end) +
+    (end < source.length ? '…' : '')
+
+  return highlightText(excerpt, terms)
+}
+
+const getFieldTokens = (memo: Memo): Record<SearchField, string[]> => ({
+  title: tokenize(memo.title),
+  tags: memo.tags.flatMap(tokenize),
+  summary: tokenize(memo.summary || ''),
+  content: tokenize(memo.content),
+})
+
+const countOccurrences = (tokens: string[], term: string): number => {
+  let count = 0
+  tokens.forEach(token => {
+    if (token === term) count += 1
+    // 입력 중인 라틴 단어는 접두어 일치도 절반으로 인정
+    else if (!CJK_PATTERN.test(term) && token.startsWith(term)) count += 0.5
+  })
+  return count
+}
+
+// 메모 목록에서 검색어 조건에 맞는 메모를 모두 골라 순위 순으로 반환 (BM25 방식의 점수)
+export const rankMemoCollection = (
+  memos: Memo[],
+  query: string,
+  options: MemoSearchOptions = {}
+): { memo: Memo; score: number }[] => {
+  const parsed = parseSearchQuery(query)
+  const terms = getRankingTerms(parsed)
+
+  if (parsed.groups.length === 0) return []
+
+  const fieldTokens = new Map<Memo, Record<SearchField, string[]>>()
+  const getTokens = (memo: Memo) => {
+    let tokens = fieldTokens.get(memo)
+    if (!tokens) {
+      tokens = getFieldTokens(memo)
+      fieldTokens.set(memo, tokens)
+    }
+    return tokens
+  }
+
+  const containsTerm = (memo: Memo, term: string): boolean =>
+    Object.values(getTokens(memo)).some(
+      tokens => countOccurrences(tokens, term) > 0
+    )
+
+  // 일반 검색어는 n-gram 의 절반 이상이 일치하면 포함된 것으로 판단
+  const matchesText = (memo: Memo, text: string): boolean => {
+    const textTerms = tokenize(text)
+    if (textTerms.length === 0) return true
+    const matched = textTerms.filter(term => containsTerm(memo, term)).length
+    return matched / textTerms.length >= 0.5
+  }
+
+  const candidates = memos.filter(
+    memo =>
+      (!options.category ||
+        options.category === 'all' ||
+        memo.category === options.category) &&
+      isInFolder(memo, options.folder) &&
+      matchesTagFilter(memo, options.tags, options.tagMode) &&
+      matchesSearchQuery(
+        memo,
+        parsed,
+        matchesText,
+        options.categories || DEFAULT_CATEGORY_LIST
+      )
+  )
+
+  const documentFrequency = new Map<string, number>()
+  terms.forEach(term => {
+    documentFrequency.set(
+      term,
+      candidates.filter(memo => containsTerm(memo, term)).length
+    )
+  })
+
+  const phrases = getPositiveTerms(parsed).map(normalize)
+  return candidates
+    .map(memo => {
+      const fields = getTokens(memo)
+      let score = 0
+      let matchedTerms = 0
+
+      terms.forEach(term => {
+        const df = documentFrequency.get(term) || 0
+        const idf = Math.log(1 + (candidates.length - df + 0.5) / (df + 0.5))
+        let termScore = 0
+
+        for (const field of Object.keys(FIELD_WEIGHTS) as SearchField[]) {
+          const tf = countOccurrences(fields[field], term)
+          if (tf > 0) {
+            termScore += FIELD_WEIGHTS[field] * (tf / (tf + 1.2)) * idf
+          }
+        }
+
+        if (termScore > 0) matchedTerms += 1
+        score += termScore
+      })
+
+      // 검색어가 그대로 들어 있으면 가산점
+      phrases.forEach(phrase => {
+        if (normalize(memo.title).includes(phrase)) score += 2
+        if (normalize(memo.content).includes(phrase)) score += 1
+      })
+
+      const coverage = terms.length > 0 ? matchedTerms / terms.length : 1
+      return { memo, score: score * coverage }
+    })
+    .sort(
+      (a, b) =>
+        b.score - a.score || b.memo.updatedAt.localeCompare(a.memo.updatedAt)
+    )
+}
+
+// 순위를 매긴 검색 결과를 페이지 단위로 반환 (하이라이트 포함)
+export const searchMemoCollection = (
+  memos: Memo[],
+  query: string,
+  options: MemoSearchOptions = {}
+): MemoSearchPage => {
+  const page = Math.max(1, options.page || 1)
+  const pageSize = Math.min(
+    MAX_SEARCH_PAGE_SIZE,
+    Math.max(1, options.pageSize || DEFAULT_SEARCH_PAGE_SIZE)
+  )
+  const terms = getRankingTerms(parseSearchQuery(query))
+  const scored = rankMemoCollection(memos, query, options)
+
+  const hits = scored
+    .slice((page - 1) * pageSize, page * pageSize)
+    .map(({ memo, score }) => ({
+      memo,
+      score,
+      highlights: {
+        title: highlightText(memo.title, terms),
+        snippet: buildSnippet(memo, terms),
+      },
+    }))
+
+  return {
+    hits,
+    total: scored.length,
+    page,
+    pageSize,
+    hasMore: page * pageSize < scored.length,
+  }
+}
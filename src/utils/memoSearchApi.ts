@@ -0,0 +1,30 @@
+import { getAuthHeaders } from '@/lib/auth'
+import { getCurrentWorkspaceId } from './workspaceScope'
+import { MemoSearchOptions, MemoSearchPage } from './memoSearch'
+
+// /api/memo-search 라우트 호출
+export const fetchMemoSearch = async (
+  query: string,
+  options: MemoSearchOptions = {}
+): Promise<MemoSearchPage> => {
+  const params = new URLSearchParams({ q: query })
+  if (options.page) params.set('page', String(options.page))
+  if (options.pageSize) params.set('pageSize', String(options.pageSize))
+  if (options.category) params.set('category', options.category)
+  if (options.folder) params.set('folder', options.folder)
+  options.tags?.forEach(tag => params.append('tag', tag))
+  if (options.tagMode) params.set('tagMode', options.tagMode)
+  const workspaceId = getCurrentWorkspaceId()
+  if (workspaceId) params.set('workspace', workspaceId)
+
+  const response = await fetch(`/api/memo-search?${params}`, {
+    headers: getAuthHeaders(),
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.error || '메모 검색에 실패했습니다.')
+  }
+
+  return response.json()
+}
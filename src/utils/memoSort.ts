@@ -0,0 +1,111 @@
+import { Memo } from '@/types/memo'
+import { MemoCursor } from './memoPagination'
+
+export type MemoSortField = 'updatedAt' | 'createdAt' | 'title' | 'category'
+export type MemoSortDirection = 'asc' | 'desc'
+
+export interface MemoSort {
+  field: MemoSortField
+  direction: MemoSortDirection
+}
+
+export const MEMO_SORT_FIELDS: Record<MemoSortField, string> = {
+  updatedAt: '수정일',
+  createdAt: '작성일',
+  title: '제목',
+  category: '카테고리',
+}
+
+export const DEFAULT_MEMO_SORT: MemoSort = {
+  field: 'createdAt',
+  direction: 'desc',
+}
+
+export const isSameSort = (a: MemoSort, b: MemoSort): boolean =>
+  a.field === b.field && a.direction === b.direction
+
+// 주소나 저장소에 담는 정렬 값 (예: title-asc)
+export const formatSort = (sort: MemoSort): string =>
+  `${sort.field}-${sort.direction}`
+
+export const parseSort = (value: string | null): MemoSort | null => {
+  const [field, direction] = (value || '').split('-')
+  if (
+    !Object.keys(MEMO_SORT_FIELDS).includes(field) ||
+    (direction !== 'asc' && direction !== 'desc')
+  ) {
+    return null
+  }
+  return { field: field as MemoSortField, direction }
+}
+
+// 정렬 순서상 메모의 위치 (고정 여부, 정렬 기준 값, ID)
+export const toSortKey = (memo: Memo, sort: MemoSort): MemoCursor => ({
+  pinned: Boolean(memo.pinned),
+  value: memo[sort.field],
+  id: memo.id,
+})
+
+// 제목과 카테고리는 한국어 순서, 날짜와 ID 는 문자열 순서로 비교
+const compareValues = (a: string, b: string, field: MemoSortField): number =>
+  field === 'title' || field === 'category'
+    ? a.localeCompare(b, 'ko')
+    : a < b
+      ? -1
+      : a > b
+        ? 1
+        : 0
+
+// 고정한 메모를 먼저, 그다음 정렬 기준, 같으면 ID 순 (ID 도 정렬 방향을 따름)
+export const compareSortKeys = (
+  a: MemoCursor,
+  b: MemoCursor,
+  sort: MemoSort
+): number => {
+  if (a.pinned !== b.pinned) return a.pinned ? -1 : 1
+  const order =
+    compareValues(a.value, b.value, sort.field) ||
+    compareValues(a.id, b.id, 'createdAt')
+  return sort.direction === 'asc' ? order : -order
+}
+
+export const compareMemos = (a: Memo, b: Memo, sort: MemoSort): number =>
+  compareSortKeys(toSortKey(a, sort), toSortKey(b, sort), sort)
+
+// 정렬 순서상 메모가 커서보다 뒤에 있는지
+export const isAfterCursor = (
+  memo: Memo,
+  cursor: MemoCursor,
+  sort: MemoSort
+): boolean => compareSortKeys(toSortKey(memo, sort), cursor, sort) > 0
+
+// 사용자별로 마지막에 고른 정렬 (이 브라우저에 저장)
+const SORT_STORAGE_KEY = 'memo-app-sort'
+
+const readSortPreferences = (): Record<string, string> => {
+  if (typeof window === 'undefined') return {}
+
+  try {
+    const stored = localStorage.getItem(SORT_STORAGE_KEY)
+    return stored ? JSON.parse(stored) : {}
+  } catch (error) {
+    console.error('Error loading sort preferences from localStorage:', error)
+    return {}
+  }
+}
+
+export const loadSortPreference = (userId: string): MemoSort =>
+  parseSort(readSortPreferences()[userId] || null) || DEFAULT_MEMO_SORT
+
+export const saveSortPreference = (userId: string, sort: MemoSort): void => {
+  if (typeof window === 'undefined') return
+
+  try {
+    localStorage.setItem(
+      SORT_STORAGE_KEY,
+      JSON.stringify({ ...readSortPreferences(), [userId]: formatSort(sort) })
+    )
+  } catch (error) {
+    console.error('Error saving sort preference to localStorage:', error)
+  }
+}
@@ -0,0 +1,117 @@
+import { Memo, MemoRevision } from '@/types/memo'
+import { isSupabaseConfigured } from '@/lib/supabaseClient'
+import { memoRepository } from './memoRepository'
+import { localStorageUtils } from './localStorage'
+import { inMemoryStore } from './inMemoryStore'
+import { offlineStore } from './offlineStore'
+import { fetchMemoSearch } from './memoSearchApi'
+import { MemoSearchOptions, MemoSearchPage } from './memoSearch'
+import { MemoPage, MemoPageOptions } from './memoPagination'
+import { MemoChangeListener } from './memoChanges'
+import { MemoCounts } from './memoCounts'
+
+// 모든 저장소 백엔드가 구현하는 공통 인터페이스
+// 목록, 페이지, 검색, 카테고리 조회는 휴지통에 있는 메모를 제외함
+export interface MemoStore {
+  getMemos(): Promise<Memo[]>
+  // 정렬 기준(기본: 생성일 내림차순)에 따른 페이지 단위 조회 (고정한 메모가 먼저)
+  getMemosPage(options?: MemoPageOptions): Promise<MemoPage>
+  addMemo(memo: Memo): Promise<Memo>
+  // 여러 메모를 한 번에 추가 (가져오기)
+  addMemos(memos: Memo[]): Promise<Memo[]>
+  // expectedUpdatedAt 이 현재 updatedAt 과 다르면 MemoConflictError 발생
+  updateMemo(updatedMemo: Memo, expectedUpdatedAt?: string): Promise<Memo>
+  // 휴지통으로 이동 (deletedAt 설정)
+  deleteMemo(id: string): Promise<void>
+  // 휴지통에서 복원
+  restoreMemo(id: string): Promise<Memo>
+  // 영구 삭제
+  purgeMemo(id: string): Promise<void>
+  // 휴지통에 있는 메모 (최근에 삭제한 순)
+  getDeletedMemos(): Promise<Memo[]>
+  // 현재 범위에서 before 이전에 휴지통으로 옮긴 메모를 영구 삭제하고 삭제한 개수 반환
+  purgeExpiredMemos(before: string): Promise<number>
+  // from 카테고리의 메모(휴지통 포함)를 to 카테고리로 옮기고 옮긴 개수 반환
+  reassignCategory(from: string, to: string): Promise<number>
+  // from 폴더의 메모(휴지통 포함)를 to 폴더로 옮기고 옮긴 개수 반환 (null 이면 폴더 밖)
+  moveMemosToFolder(from: string, to: string | null): Promise<number>
+  // 모든 메모(휴지통 포함)의 from 태그를 to 로 바꾸고 바뀐 메모 수 반환
+  // (to 가 이미 붙은 메모는 하나로 합치고, null 이면 태그 삭제)
+  replaceTag(from: string, to: string | null): Promise<number>
+  // 제목, 내용, 태그, 요약 대상 순위 검색 (페이지 단위)
+  searchMemos(
+    query: string,
+    options?: MemoSearchOptions
+  ): Promise<MemoSearchPage>
+  getMemosByCategory(category: string): Promise<Memo[]>
+  // 카테고리, 폴더, 태그별 메모 수 (불러오지 않은 페이지 포함)
+  getMemoCounts(): Promise<MemoCounts>
+  getMemoById(id: string): Promise<Memo | null>
+  // 위키 링크([[제목]])가 가리키는 메모 (같은 제목이 여럿이면 최근에 수정한 메모)
+  findMemoByTitle(title: string): Promise<Memo | null>
+  // memo 를 위키 링크로 가리키는 메모 (백링크, 최근에 수정한 순)
+  getBacklinks(memo: Memo): Promise<Memo[]>
+  updateMemoSummary(id: string, summary: string): Promise<Memo>
+  updateMemoTags(id: string, tags: string[]): Promise<Memo>
+  // 목록 맨 위 고정 / 해제
+  setMemoPinned(id: string, pinned: boolean): Promise<Memo>
+  // 메모의 버전 기록 (최신순)
+  getRevisions(memoId: string): Promise<MemoRevision[]>
+  // 로컬 변경 사항을 원격에 반영 (오프라인 우선 저장소만 구현)
+  sync?(): Promise<void>
+  // 여러 번 실패해 동기화를 멈춘 변경 사항을 다시 시도
+  retryFailedSync?(): Promise<void>
+  // 동기화를 멈춘 메모의 로컬 변경을 버리고 서버 버전으로 되돌림 (서버에 없으면 null)
+  discardFailedSync?(memoId: string): Promise<Memo | null>
+  // 다른 탭이나 기기에서 일어난 변경 구독 (구독 해제 함수 반환)
+  subscribe?(listener: MemoChangeListener): () => void
+}
+
+export type MemoStoreBackend = 'offline' | 'supabase' | 'local' | 'memory'
+
+const MEMO_STORE_BACKENDS: MemoStoreBackend[] = [
+  'offline',
+  'supabase',
+  'local',
+  'memory',
+]
+
+// NEXT_PUBLIC_MEMO_STORE 로 백엔드 선택 (미설정 시 Supabase 설정 여부에 따라 결정)
+const resolveBackend = (): MemoStoreBackend => {
+  const configured = process.env.NEXT_PUBLIC_MEMO_STORE as
+    | MemoStoreBackend
+    | undefined
+
+  if (configured && MEMO_STORE_BACKENDS.includes(configured)) {
+    return configured
+  }
+
+  if (configured) {
+    console.warn(`Unknown NEXT_PUBLIC_MEMO_STORE "${configured}", ignoring.`)
+  }
+
+  return isSupabaseConfigured ? 'offline' : 'local'
+}
+
+export const memoStoreBackend = resolveBackend()
+
+// 브라우저에서는 검색 API 라우트를 거쳐 서버에서 순위를 매김
+const supabaseStore: MemoStore = {
+  ...memoRepository,
+  searchMemos: fetchMemoSearch,
+}
+
+// 설정된 백엔드의 메모 저장소 가져오기
+export const getMemoStore = (): MemoStore => {
+  switch (memoStoreBackend) {
+    case 'offline':
+      return offlineStore
+    case 'supabase':
+      return supabaseStore
+    case 'memory':
+      return inMemoryStore
+    case 'local':
+    default:
+      return localStorageUtils
+  }
+}
@@ -0,0 +1,121 @@
+// AI 요약 옵션과 프롬프트 (브라우저와 /api/memo-summary 공용)
+
+export type SummaryLength = 'oneLine' | 'short' | 'detailed'
+export type SummaryFormat = 'prose' | 'bullets'
+export type SummaryLanguage = 'ko' | 'en' | 'ja' | 'zh' | 'auto'
+
+export const SUMMARY_LENGTHS: Record<SummaryLength, string> = {
+  oneLine: '한 줄',
+  short: '짧게',
+  detailed: '자세히',
+}
+
+export const SUMMARY_FORMATS: Record<SummaryFormat, string> = {
+  prose: '문장',
+  bullets: '글머리표',
+}
+
+export const SUMMARY_LANGUAGES: Record<SummaryLanguage, string> = {
+  ko: '한국어',
+  en: 'English',
+  ja: '日本語',
+  zh: '中文',
+  auto: '메모와 같은 언어',
+}
+
+export interface MemoSummaryOptions {
+  length: SummaryLength
+  format: SummaryFormat
+  language: SummaryLanguage
+}
+
+// 예전과 같은 2-3문장 한국어 요약
+export const DEFAULT_SUMMARY_OPTIONS: MemoSummaryOptions = {
+  length: 'short',
+  format: 'prose',
+  language: 'ko',
+}
+
+// 길이별 최대 출력 토큰
+const MAX_OUTPUT_TOKENS: Record<SummaryLength, number> = {
+  oneLine: 100,
+  short: 500,
+  detailed: 1500,
+}
+
+const LENGTH_INSTRUCTIONS: Record<
+  SummaryLength,
+  Record<SummaryFormat, string>
+> = {
+  oneLine: {
+    prose: '핵심 내용만 한 문장으로 정리해주세요.',
+    bullets: '핵심 내용만 글머리표 한 개로 정리해주세요.',
+  },
+  short: {
+    prose: '핵심 내용만 2-3문장으로 정리해주세요.',
+    bullets: '핵심 내용만 글머리표 3개 이내로 정리해주세요.',
+  },
+  detailed: {
+    prose:
+      '주요 내용과 세부 사항을 빠짐없이 한두 문단으로 자세히 정리해주세요.',
+    bullets: '주요 내용과 세부 사항을 글머리표 5-8개로 자세히 정리해주세요.',
+  },
+}
+
+const LANGUAGE_INSTRUCTIONS: Record<SummaryLanguage, string> = {
+  ko: '요약은 한국어로 작성해주세요.',
+  en: '요약은 영어(English)로 작성해주세요.',
+  ja: '요약은 일본어(日本語)로 작성해주세요.',
+  zh: '요약은 중국어 간체(简体中文)로 작성해주세요.',
+  auto: '요약은 메모 내용과 같은 언어로 작성해주세요.',
+}
+
+const isOneOf = <T extends string>(
+  values: Record<T, string>,
+  value: unknown
+): value is T =>
+  typeof value === 'string' && Object.keys(values).includes(value)
+
+// 요청 본문의 옵션 읽기 (빠진 값은 기본값, 잘못된 값이 있으면 null)
+export const parseSummaryOptions = (
+  value: unknown = {}
+): MemoSummaryOptions | null => {
+  if (typeof value !== 'object' || value === null) return null
+
+  const {
+    length = DEFAULT_SUMMARY_OPTIONS.length,
+    format = DEFAULT_SUMMARY_OPTIONS.format,
+    language = DEFAULT_SUMMARY_OPTIONS.language,
+  } = value as Partial<Record<keyof MemoSummaryOptions, unknown>>
+  if (
+    !isOneOf(SUMMARY_LENGTHS, length) ||
+    !isOneOf(SUMMARY_FORMATS, format) ||
+    !isOneOf(SUMMARY_LANGUAGES, language)
+  ) {
+    return null
+  }
+  return { length, format, language }
+}
+
+export const getSummaryMaxTokens = (options: MemoSummaryOptions): number =>
+  MAX_OUTPUT_TOKENS[options.length]
+
+export const buildSummaryPrompt = (
+  title: string,
+  content: string,
+  options: MemoSummaryOptions
+): string => {
+  const formatInstruction =
+    options.format === 'bullets'
+      ? '각 항목은 "- " 로 시작하는 한 줄로 쓰고, 다른 설명은 붙이지 마세요.'
+      : '글머리표나 제목 없이 문장으로만 쓰세요.'
+
+  return `다음 메모를 간결하고 명확하게 요약해주세요. ${LENGTH_INSTRUCTIONS[options.length][options.format]}
+${formatInstruction}
+${LANGUAGE_INSTRUCTIONS[options.language]}
+
+제목: ${title}
+
+내용:
+${content}`
+}
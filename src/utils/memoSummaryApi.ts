@@ -0,0 +1,45 @@
+import { Memo } from '@/types/memo'
+import { getAuthHeaders } from '@/lib/auth'
+import { MemoSummaryOptions } from './memoSummary'
+
+// /api/memo-summary 라우트 호출
+// 요약이 생성되는 대로 지금까지 받은 요약을 onText 로 넘기고, 끝나면 전체 요약 반환
+// (라우트는 요약을 저장하지 않으므로 저장은 호출한 쪽에서 메모 저장소로)
+export const streamMemoSummary = async (
+  memo: Pick<Memo, 'title' | 'content'>,
+  options: MemoSummaryOptions,
+  onText: (summary: string) => void,
+  signal?: AbortSignal
+): Promise<string> => {
+  const response = await fetch('/api/memo-summary', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...getAuthHeaders(),
+    },
+    body: JSON.stringify({
+      title: memo.title,
+      content: memo.content,
+      options,
+    }),
+    signal,
+  })
+
+  if (!response.ok || !response.body) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.error || '요약 생성에 실패했습니다.')
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let summary = ''
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    summary += decoder.decode(value, { stream: true })
+    onText(summary)
+  }
+  summary += decoder.decode()
+
+  return summary.trim()
+}
@@ -0,0 +1,26 @@
+import { Memo } from '@/types/memo'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// 휴지통 보관 기간 (NEXT_PUBLIC_TRASH_RETENTION_DAYS, 기본 30일)
+const resolveRetentionDays = (): number => {
+  const configured = Number(process.env.NEXT_PUBLIC_TRASH_RETENTION_DAYS)
+  return Number.isFinite(configured) && configured > 0 ? configured : 30
+}
+
+export const TRASH_RETENTION_DAYS = resolveRetentionDays()
+
+// 이 시각 이전에 휴지통으로 옮긴 메모는 영구 삭제 대상
+export const getTrashPurgeCutoff = (now: Date = new Date()): string =>
+  new Date(now.getTime() - TRASH_RETENTION_DAYS * DAY_MS).toISOString()
+
+// 영구 삭제까지 남은 일수 (휴지통에 없는 메모는 null)
+export const getDaysUntilPurge = (
+  memo: Memo,
+  now: Date = new Date()
+): number | null => {
+  if (!memo.deletedAt) return null
+  const purgeAt =
+    new Date(memo.deletedAt).getTime() + TRASH_RETENTION_DAYS * DAY_MS
+  return Math.max(0, Math.ceil((purgeAt - now.getTime()) / DAY_MS))
+}
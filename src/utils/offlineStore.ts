@@ -0,0 +1,551 @@
+import { v4 as uuidv4 } from 'uuid'
+import { Memo } from '@/types/memo'
+import type { MemoStore } from './memoStore'
+import { localStorageUtils } from './localStorage'
+import { memoRepository } from './memoRepository'
+import { MemoConflictError } from './memoErrors'
+import {
+  matchesMemoListFilter,
+  MemoPage,
+  MemoPageOptions,
+} from './memoPagination'
+import { DEFAULT_MEMO_SORT, isAfterCursor } from './memoSort'
+import { applyMemoChange, MemoChange } from './memoChanges'
+import { PendingMutation, syncQueue } from './syncQueue'
+import { fetchMemoSearch } from './memoSearchApi'
+import { isInCurrentScope } from './workspaceScope'
+
+// 이 횟수만큼 실패한 변경 사항은 자동 재시도를 멈춤 (잘못된 데이터로 큐가 막히지 않도록)
+// 멈춘 변경 사항도 큐에 남아, 사용자가 다시 시도하거나 버릴 때까지 로컬 수정을 보호함
+const MAX_SYNC_ATTEMPTS = 5
+
+const isOnline = (): boolean =>
+  typeof navigator === 'undefined' || navigator.onLine
+
+const getErrorCode = (error: unknown): string | undefined =>
+  typeof error === 'object' && error !== null && 'code' in error
+    ? String((error as { code: unknown }).code)
+    : undefined
+
+// 오프라인 수정이 다른 곳의 수정과 충돌하면, 서버 버전을 유지하고 로컬 수정은 사본으로 보존
+const keepConflictCopy = async (
+  localMemo: Memo,
+  currentMemo: Memo
+): Promise<void> => {
+  const now = new Date().toISOString()
+  const conflictCopy: Memo = {
+    ...localMemo,
+    id: uuidv4(),
+    title: `${localMemo.title} (충돌 사본)`,
+    createdAt: now,
+    updatedAt: now,
+  }
+
+  await memoRepository.addMemo(conflictCopy)
+
+  const localMemos = localStorageUtils.readMemos()
+  localStorageUtils.saveMemos([
+    conflictCopy,
+    ...localMemos.map(memo =>
+      memo.id === currentMemo.id ? currentMemo : memo
+    ),
+  ])
+}
+
+// 대기 중인 변경 사항 하나를 Supabase에 반영
+const replayMutation = async (mutation: PendingMutation): Promise<void> => {
+  switch (mutation.type) {
+    case 'add':
+      try {
+        await memoRepository.addMemo(mutation.memo)
+      } catch (error) {
+        // 이전 동기화에서 이미 추가되었지만 응답을 받지 못한 경우
+        if (getErrorCode(error) !== '23505') throw error
+        await memoRepository.updateMemo(mutation.memo)
+      }
+      return
+    case 'update':
+      try {
+        await memoRepository.updateMemo(mutation.memo, mutation.baseUpdatedAt)
+      } catch (error) {
+        if (error instanceof MemoConflictError) {
+          console.warn('Sync conflict, keeping local edit as a copy:', error)
+          await keepConflictCopy(mutation.memo, error.currentMemo)
+          return
+        }
+        // 원격에 아직 없는 메모라면 새로 추가
+        if (getErrorCode(error) !== 'PGRST116') throw error
+        await memoRepository.addMemo(mutation.memo)
+      }
+      return
+    case 'delete':
+      await memoRepository.deleteMemo(mutation.memoId)
+      return
+  }
+}
+
+// 대기 중인 변경 사항을 순서대로 Supabase에 반영 (실패하면 다음 기회에 재시도)
+const replayPending = async (): Promise<void> => {
+  // 동기화 도중 새로 쌓인 변경 사항도 이어서 처리하도록 매번 큐의 맨 앞을 읽음
+  const getNext = () =>
+    syncQueue.getPending().find(mutation => !mutation.failedAt)
+  let mutation = getNext()
+  while (mutation) {
+    if (!isOnline()) return
+
+    try {
+      await replayMutation(mutation)
+      syncQueue.complete(mutation)
+    } catch (error) {
+      const attempts = syncQueue.markFailed(mutation.id)
+      if (attempts < MAX_SYNC_ATTEMPTS) {
+        // 순서를 지키기 위해 나머지 변경 사항은 다음 동기화로 미룸
+        return
+      }
+      console.error('Parking mutation after repeated failures:', error)
+      syncQueue.park(
+        mutation.id,
+        error instanceof Error ? error.message : String(error)
+      )
+    }
+
+    mutation = getNext()
+  }
+}
+
+let flushing: Promise<void> | null = null
+
+// 동기화는 한 번에 하나만 실행 (진행 중이면 그 동기화를 기다림)
+// 바로 끝나는 동기화도 할당이 끝난 뒤에 비우도록 finally 콜백에서 정리
+const flush = (): Promise<void> => {
+  if (flushing) return flushing
+
+  flushing = replayPending().finally(() => {
+    flushing = null
+  })
+  return flushing
+}
+
+// 백그라운드 동기화 시작 (실패해도 로컬 변경은 큐에 남아 있음)
+const scheduleFlush = (): void => {
+  flush().catch(error => {
+    console.error('Background sync failed:', error)
+  })
+}
+
+// 원격 메모 목록에 아직 동기화되지 않은 로컬 변경을 덮어씀
+const mergeWithPending = (remoteMemos: Memo[], localMemos: Memo[]): Memo[] => {
+  const pending = syncQueue.getPending()
+  const deletedIds = new Set(
+    pending.flatMap(mutation =>
+      mutation.type === 'delete' ? [mutation.memoId] : []
+    )
+  )
+  const pendingMemos = localMemos.filter(memo =>
+    pending.some(
+      mutation => mutation.type !== 'delete' && mutation.memo.id === memo.id
+    )
+  )
+  const pendingIds = new Set(pendingMemos.map(memo => memo.id))
+
+  return [
+    ...pendingMemos,
+    ...remoteMemos.filter(
+      memo => !pendingIds.has(memo.id) && !deletedIds.has(memo.id)
+    ),
+  ].sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+}
+
+// 원격에서 받은 페이지로 로컬 캐시의 같은 구간을 교체 (원격에서 삭제된 메모 정리)
+const cacheRemotePage = async (
+  page: MemoPage,
+  { cursor, sort = DEFAULT_MEMO_SORT, ...filter }: MemoPageOptions
+): Promise<void> => {
+  // 휴지통, 다른 워크스페이스, 필터에 맞지 않는 메모는 페이지에 포함되지 않으므로 그대로 둠
+  const localMemos = localStorageUtils.readMemos()
+  const inRange = (memo: Memo): boolean =>
+    !memo.deletedAt &&
+    isInCurrentScope(memo) &&
+    matchesMemoListFilter(memo, filter) &&
+    (!cursor || isAfterCursor(memo, cursor, sort)) &&
+    (!page.nextCursor || !isAfterCursor(memo, page.nextCursor, sort))
+
+  const outside = localMemos.filter(memo => !inRange(memo))
+  const merged = mergeWithPending(page.memos, localMemos.filter(inRange))
+  localStorageUtils.saveMemos([...merged, ...outside])
+}
+
+// 원격 변경을 로컬 캐시에 반영 (동기화 대기 중인 메모는 로컬 수정이 우선)
+const applyRemoteChange = async (change: MemoChange): Promise<boolean> => {
+  const memoId = change.type === 'delete' ? change.id : change.memo.id
+  if (syncQueue.getPendingMemoIds().includes(memoId)) return false
+
+  const localMemos = localStorageUtils.readMemos()
+  const updated = applyMemoChange(localMemos, change)
+  if (updated === localMemos) return false
+
+  localStorageUtils.saveMemos(updated)
+  return true
+}
+
+// 로컬에 먼저 저장하고, 변경 사항을 큐에 쌓아 Supabase와 동기화하는 저장소
+export const offlineStore: MemoStore = {
+  // 모든 메모 가져오기 (온라인이면 원격 데이터로 로컬 캐시 갱신)
+  async getMemos() {
+    if (!isOnline()) return localStorageUtils.getMemos()
+
+    try {
+      await flush()
+      const localMemos = localStorageUtils.readMemos()
+      const remoteMemos = await memoRepository.getMemos()
+      const merged = mergeWithPending(
+        remoteMemos,
+        localMemos.filter(isInCurrentScope)
+      )
+      // 원격 목록에는 휴지통과 다른 워크스페이스의 메모가 없으므로 캐시에 유지
+      const mergedIds = new Set(merged.map(memo => memo.id))
+      localStorageUtils.saveMemos([
+        ...merged,
+        ...localMemos.filter(
+          memo =>
+            (memo.deletedAt || !isInCurrentScope(memo)) &&
+            !mergedIds.has(memo.id)
+        ),
+      ])
+      return merged.filter(memo => !memo.deletedAt)
+    } catch (error) {
+      console.error('Falling back to local memos:', error)
+      return localStorageUtils.getMemos()
+    }
+  },
+
+  // 메모 페이지 가져오기 (동기화할 변경이 없을 때만 원격에서 읽고 캐시에 반영)
+  async getMemosPage(options = {}) {
+    if (isOnline()) {
+      try {
+        await flush()
+        if (syncQueue.getPending().length === 0) {
+          const page = await memoRepository.getMemosPage(options)
+          await cacheRemotePage(page, options)
+          return page
+        }
+      } catch (error) {
+        console.error('Falling back to local memo page:', error)
+      }
+    }
+    return localStorageUtils.getMemosPage(options)
+  },
+
+  // 메모 추가
+  async addMemo(memo) {
+    const savedMemo = await localStorageUtils.addMemo(memo)
+    syncQueue.enqueueAdd(savedMemo)
+    scheduleFlush()
+    return savedMemo
+  },
+
+  // 여러 메모 추가 (원격에는 큐에 쌓인 순서대로 하나씩 반영)
+  async addMemos(memos) {
+    const savedMemos = await localStorageUtils.addMemos(memos)
+    savedMemos.forEach(memo => syncQueue.enqueueAdd(memo))
+    scheduleFlush()
+    return savedMemos
+  },
+
+  // 메모 업데이트
+  async updateMemo(updatedMemo, expectedUpdatedAt) {
+    const baseMemo = await localStorageUtils.getMemoById(updatedMemo.id)
+    const savedMemo = await localStorageUtils.updateMemo(
+      updatedMemo,
+      expectedUpdatedAt
+    )
+    syncQueue.enqueueUpdate(savedMemo, baseMemo?.updatedAt)
+    scheduleFlush()
+    return savedMemo
+  },
+
+  // 메모를 휴지통으로 이동 (원격에는 deleted_at 업데이트로 반영)
+  async deleteMemo(id) {
+    const baseMemo = await localStorageUtils.getMemoById(id)
+    await localStorageUtils.deleteMemo(id)
+    const savedMemo = await localStorageUtils.getMemoById(id)
+    if (savedMemo) syncQueue.enqueueUpdate(savedMemo, baseMemo?.updatedAt)
+    scheduleFlush()
+  },
+
+  // 휴지통에서 복원
+  async restoreMemo(id) {
+    const baseMemo = await localStorageUtils.getMemoById(id)
+    const savedMemo = await localStorageUtils.restoreMemo(id)
+    syncQueue.enqueueUpdate(savedMemo, baseMemo?.updatedAt)
+    scheduleFlush()
+    return savedMemo
+  },
+
+  // 영구 삭제
+  async purgeMemo(id) {
+    await localStorageUtils.purgeMemo(id)
+    syncQueue.enqueueDelete(id)
+    scheduleFlush()
+  },
+
+  // 휴지통은 동기화가 끝났으면 서버 기준으로 캐시를 갱신한 뒤 조회
+  async getDeletedMemos() {
+    if (isOnline() && syncQueue.getPending().length === 0) {
+      try {
+        const remoteTrash = await memoRepository.getDeletedMemos()
+        const trashIds = new Set(remoteTrash.map(memo => memo.id))
+        localStorageUtils.saveMemos([
+          ...localStorageUtils
+            .readMemos()
+            .filter(
+              memo =>
+                (!memo.deletedAt || !isInCurrentScope(memo)) &&
+                !trashIds.has(memo.id)
+            ),
+          ...remoteTrash,
+        ])
+        return remoteTrash
+      } catch (error) {
+        console.error('Falling back to local trash:', error)
+      }
+    }
+    return localStorageUtils.getDeletedMemos()
+  },
+
+  // 보관 기간이 지난 메모 영구 삭제 (원격은 온라인일 때만)
+  async purgeExpiredMemos(before) {
+    const purgedLocally = await localStorageUtils.purgeExpiredMemos(before)
+    if (!isOnline()) return purgedLocally
+
+    try {
+      return await memoRepository.purgeExpiredMemos(before)
+    } catch (error) {
+      console.error('Failed to purge expired memos remotely:', error)
+      return purgedLocally
+    }
+  },
+
+  // 카테고리 일괄 변경 (캐시에 있는 메모는 큐로, 나머지는 온라인일 때 원격에서 한 번에)
+  async reassignCategory(from, to) {
+    const baseMemos = new Map(
+      localStorageUtils
+        .readMemos()
+        .filter(memo => isInCurrentScope(memo) && memo.category === from)
+        .map(memo => [memo.id, memo])
+    )
+    const reassignedLocally = await localStorageUtils.reassignCategory(from, to)
+    localStorageUtils
+      .readMemos()
+      .filter(memo => baseMemos.has(memo.id))
+      .forEach(memo =>
+        syncQueue.enqueueUpdate(memo, baseMemos.get(memo.id)?.updatedAt)
+      )
+    if (!isOnline()) return reassignedLocally
+
+    try {
+      await flush()
+      return (
+        reassignedLocally + (await memoRepository.reassignCategory(from, to))
+      )
+    } catch (error) {
+      console.error('Failed to reassign category remotely:', error)
+      return reassignedLocally
+    }
+  },
+
+  // 폴더 일괄 이동 (카테고리 일괄 변경과 같은 방식으로 동기화)
+  async moveMemosToFolder(from, to) {
+    const baseMemos = new Map(
+      localStorageUtils
+        .readMemos()
+        .filter(memo => isInCurrentScope(memo) && memo.folderId === from)
+        .map(memo => [memo.id, memo])
+    )
+    const movedLocally = await localStorageUtils.moveMemosToFolder(from, to)
+    localStorageUtils
+      .readMemos()
+      .filter(memo => baseMemos.has(memo.id))
+      .forEach(memo =>
+        syncQueue.enqueueUpdate(memo, baseMemos.get(memo.id)?.updatedAt)
+      )
+    if (!isOnline()) return movedLocally
+
+    try {
+      await flush()
+      return movedLocally + (await memoRepository.moveMemosToFolder(from, to))
+    } catch (error) {
+      console.error('Failed to move memos to folder remotely:', error)
+      return movedLocally
+    }
+  },
+
+  // 태그 일괄 변경 (카테고리 일괄 변경과 같은 방식으로 동기화)
+  async replaceTag(from, to) {
+    const baseMemos = new Map(
+      localStorageUtils
+        .readMemos()
+        .filter(memo => isInCurrentScope(memo) && memo.tags.includes(from))
+        .map(memo => [memo.id, memo])
+    )
+    const replacedLocally = await localStorageUtils.replaceTag(from, to)
+    localStorageUtils
+      .readMemos()
+      .filter(memo => baseMemos.has(memo.id))
+      .forEach(memo =>
+        syncQueue.enqueueUpdate(memo, baseMemos.get(memo.id)?.updatedAt)
+      )
+    if (!isOnline()) return replacedLocally
+
+    try {
+      await flush()
+      return replacedLocally + (await memoRepository.replaceTag(from, to))
+    } catch (error) {
+      console.error('Failed to replace tag remotely:', error)
+      return replacedLocally
+    }
+  },
+
+  // 검색은 온라인이면 서버에서, 오프라인이면 로컬 캐시에서 처리
+  async searchMemos(query, options) {
+    if (isOnline() && syncQueue.getPending().length === 0) {
+      try {
+        return await fetchMemoSearch(query, options)
+      } catch (error) {
+        console.error('Falling back to local search:', error)
+      }
+    }
+    return localStorageUtils.searchMemos(query, options)
+  },
+
+  // 원격 변경은 로컬 캐시에 반영한 뒤 전달하고, 다른 탭의 변경은 캐시에서 감지
+  subscribe(listener) {
+    const unsubscribeRemote = memoRepository.subscribe?.(change => {
+      applyRemoteChange(change)
+        .then(applied => {
+          if (applied) listener(change)
+        })
+        .catch(error => {
+          console.error('Failed to apply remote memo change:', error)
+        })
+    })
+    const unsubscribeLocal = localStorageUtils.subscribe(listener)
+
+    return () => {
+      unsubscribeRemote?.()
+      unsubscribeLocal()
+    }
+  },
+
+  // 버전 기록은 동기화가 끝났으면 서버에서, 아니면 이 기기의 기록에서 조회
+  async getRevisions(memoId) {
+    if (isOnline() && syncQueue.getPending().length === 0) {
+      try {
+        return await memoRepository.getRevisions(memoId)
+      } catch (error) {
+        console.error('Falling back to local revisions:', error)
+      }
+    }
+    return localStorageUtils.getRevisions(memoId)
+  },
+
+  // 조회는 로컬 캐시에서 처리
+  getMemosByCategory: category =>
+    localStorageUtils.getMemosByCategory(category),
+
+  // 개수는 검색처럼 온라인이면 서버에서, 오프라인이거나 보내지 않은 변경이 있으면 로컬 캐시에서 셈
+  async getMemoCounts() {
+    if (isOnline() && syncQueue.getPending().length === 0) {
+      try {
+        return await memoRepository.getMemoCounts()
+      } catch (error) {
+        console.error('Falling back to local memo counts:', error)
+      }
+    }
+    return localStorageUtils.getMemoCounts()
+  },
+
+  // 로컬 캐시에 없는 메모(다른 워크스페이스 메모 링크 등)는 온라인이면 서버에서 찾음
+  async getMemoById(id) {
+    const cachedMemo = await localStorageUtils.getMemoById(id)
+    if (cachedMemo || !isOnline()) return cachedMemo
+    return memoRepository.getMemoById(id)
+  },
+
+  // 위키 링크 대상은 로컬 캐시에서 먼저 찾고, 없으면 온라인일 때 서버에서 찾음
+  async findMemoByTitle(title) {
+    const cachedMemo = await localStorageUtils.findMemoByTitle(title)
+    if (cachedMemo || !isOnline()) return cachedMemo
+    return memoRepository.findMemoByTitle(title)
+  },
+
+  // 백링크는 동기화가 끝났으면 서버의 링크 색인에서, 아니면 로컬 캐시에서 조회
+  async getBacklinks(memo) {
+    if (isOnline() && syncQueue.getPending().length === 0) {
+      try {
+        return await memoRepository.getBacklinks(memo)
+      } catch (error) {
+        console.error('Falling back to local backlinks:', error)
+      }
+    }
+    return localStorageUtils.getBacklinks(memo)
+  },
+
+  // 요약 업데이트
+  async updateMemoSummary(id, summary) {
+    const baseMemo = await localStorageUtils.getMemoById(id)
+    const savedMemo = await localStorageUtils.updateMemoSummary(id, summary)
+    syncQueue.enqueueUpdate(savedMemo, baseMemo?.updatedAt)
+    scheduleFlush()
+    return savedMemo
+  },
+
+  // 목록 맨 위 고정 / 해제
+  async setMemoPinned(id, pinned) {
+    const baseMemo = await localStorageUtils.getMemoById(id)
+    const savedMemo = await localStorageUtils.setMemoPinned(id, pinned)
+    syncQueue.enqueueUpdate(savedMemo, baseMemo?.updatedAt)
+    scheduleFlush()
+    return savedMemo
+  },
+
+  // 태그 업데이트
+  async updateMemoTags(id, tags) {
+    const baseMemo = await localStorageUtils.getMemoById(id)
+    const savedMemo = await localStorageUtils.updateMemoTags(id, tags)
+    syncQueue.enqueueUpdate(savedMemo, baseMemo?.updatedAt)
+    scheduleFlush()
+    return savedMemo
+  },
+
+  // 대기 중인 변경 사항 동기화
+  sync: flush,
+
+  // 동기화를 멈춘 변경 사항을 다시 시도
+  async retryFailedSync() {
+    syncQueue.retryFailed()
+    await flush()
+  },
+
+  // 동기화를 멈춘 메모의 로컬 변경을 버리고 서버 버전으로 되돌림
+  // (서버에 없는 메모면 로컬에서도 삭제하고 null 반환)
+  async discardFailedSync(memoId) {
+    const serverMemo = await memoRepository.getMemoById(memoId)
+    syncQueue
+      .getFailed()
+      .filter(
+        mutation =>
+          (mutation.type === 'delete' ? mutation.memoId : mutation.memo.id) ===
+          memoId
+      )
+      .forEach(mutation => syncQueue.remove(mutation.id))
+
+    const localMemos = localStorageUtils.readMemos()
+    localStorageUtils.saveMemos(
+      serverMemo
+        ? [serverMemo, ...localMemos.filter(memo => memo.id !== memoId)]
+        : localMemos.filter(memo => memo.id !== memoId)
+    )
+    return serverMemo
+  },
+}
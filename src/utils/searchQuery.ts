@@ -0,0 +1,306 @@
+import { Memo } from '@/types/memo'
+import { Category } from '@/types/category'
+import { resolveCategory } from './categories'
+
+// 검색어 문법
+//   react 회의          두 단어 모두 포함 (AND)
+//   react OR vue        둘 중 하나 포함
+//   "exact phrase"      구문 그대로 포함
+//   -draft              제외
+//   tag:React           태그 일치 (tag:"React Native" 처럼 따옴표 사용 가능)
+//   category:study      카테고리 일치 (키 또는 표시 이름)
+//   title:회의           제목에 포함
+//   updated:>2026-01-01 수정일 비교 (>, >=, <, <=, 생략 시 해당 날짜)
+//   created:<=2026-01-31 생성일 비교
+
+export type SearchTextField = 'tag' | 'category' | 'title'
+export type SearchDateField = 'updated' | 'created'
+export type SearchDateOperator = '>' | '>=' | '<' | '<=' | '='
+
+export type SearchClause = { negated: boolean } & (
+  | { type: 'text'; value: string }
+  | { type: 'phrase'; value: string }
+  | { type: 'field'; field: SearchTextField; value: string }
+  | {
+      type: 'date'
+      field: SearchDateField
+      operator: SearchDateOperator
+      value: string
+    }
+)
+
+export interface SearchQueryError {
+  message: string
+  position: number
+}
+
+export interface ParsedSearchQuery {
+  // OR 로 나뉜 그룹 (그룹 안의 조건은 모두 만족해야 함)
+  groups: SearchClause[][]
+  errors: SearchQueryError[]
+}
+
+const FIELD_ALIASES: Record<string, SearchTextField | SearchDateField> = {
+  tag: 'tag',
+  tags: 'tag',
+  category: 'category',
+  cat: 'category',
+  title: 'title',
+  updated: 'updated',
+  created: 'created',
+}
+
+const DATE_PATTERN = /^(>=|<=|>|<|=)?(\d{4}-\d{2}-\d{2})$/
+
+const isValidDate = (value: string): boolean => {
+  const date = new Date(`${value}T00:00:00Z`)
+  return (
+    !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value
+  )
+}
+
+interface RawToken {
+  text: string
+  quoted: boolean
+  negated: boolean
+  position: number
+}
+
+// 검색어를 공백/따옴표 기준으로 토큰화
+const scan = (query: string, errors: SearchQueryError[]): RawToken[] => {
+  const tokens: RawToken[] = []
+  let i = 0
+
+  const readQuoted = (start: number): string => {
+    const end = query.indexOf('"', start + 1)
+    if (end === -1) {
+      errors.push({ message: '닫는 따옴표(")가 없습니다.', position: start })
+      i = query.length
+      return query.slice(start + 1)
+    }
+    i = end + 1
+    return query.slice(start + 1, end)
+  }
+
+  while (i < query.length) {
+    if (/\s/.test(query[i])) {
+      i++
+      continue
+    }
+
+    const position = i
+    const negated = query[i] === '-' && i + 1 < query.length
+    if (negated) i++
+
+    if (query[i] === '"') {
+      tokens.push({ text: readQuoted(i), quoted: true, negated, position })
+      continue
+    }
+
+    let text = ''
+    while (i < query.length && !/\s/.test(query[i])) {
+      // field:"quoted value"
+      if (query[i] === '"' && text.endsWith(':')) {
+        text += readQuoted(i)
+        tokens.push({ text, quoted: true, negated, position })
+        text = ''
+        break
+      }
+      text += query[i]
+      i++
+    }
+    if (text) tokens.push({ text, quoted: false, negated, position })
+  }
+
+  return tokens
+}
+
+const toClause = (
+  token: RawToken,
+  errors: SearchQueryError[]
+): SearchClause | null => {
+  const fieldMatch = token.text.match(/^([a-zA-Z]+):([\s\S]*)$/)
+
+  if (!fieldMatch) {
+    if (!token.text.trim()) return null
+    return {
+      type: token.quoted ? 'phrase' : 'text',
+      value: token.text,
+      negated: token.negated,
+    }
+  }
+
+  const [, rawField, value] = fieldMatch
+  const field = FIELD_ALIASES[rawField.toLowerCase()]
+
+  if (!field) {
+    errors.push({
+      message: `알 수 없는 필드 "${rawField}" (사용 가능: tag, category, title, updated, created)`,
+      position: token.position,
+    })
+    return null
+  }
+
+  if (!value.trim()) {
+    errors.push({
+      message: `"${rawField}:" 뒤에 값을 입력하세요.`,
+      position: token.position,
+    })
+    return null
+  }
+
+  if (field === 'updated' || field === 'created') {
+    const dateMatch = value.match(DATE_PATTERN)
+    if (!dateMatch || !isValidDate(dateMatch[2])) {
+      errors.push({
+        message: `날짜 형식이 올바르지 않습니다: "${value}" (예: ${rawField}:>2026-01-01)`,
+        position: token.position,
+      })
+      return null
+    }
+    return {
+      type: 'date',
+      field,
+      operator: (dateMatch[1] as SearchDateOperator) || '=',
+      value: dateMatch[2],
+      negated: token.negated,
+    }
+  }
+
+  return { type: 'field', field, value, negated: token.negated }
+}
+
+// 검색어 파싱 (오류가 있어도 해석 가능한 부분은 최대한 살림)
+export const parseSearchQuery = (query: string): ParsedSearchQuery => {
+  const errors: SearchQueryError[] = []
+  const groups: SearchClause[][] = [[]]
+
+  scan(query, errors).forEach((token, index, tokens) => {
+    if (!token.quoted && !token.negated && token.text === 'OR') {
+      const isEdge = index === 0 || index === tokens.length - 1
+      if (isEdge || groups[groups.length - 1].length === 0) {
+        errors.push({
+          message: 'OR 양쪽에 검색 조건이 필요합니다.',
+          position: token.position,
+        })
+        return
+      }
+      groups.push([])
+      return
+    }
+
+    // AND 는 기본 동작이므로 무시
+    if (!token.quoted && !token.negated && token.text === 'AND') return
+
+    const clause = toClause(token, errors)
+    if (clause) groups[groups.length - 1].push(clause)
+  })
+
+  return {
+    groups: groups.filter(group => group.length > 0),
+    errors: errors.sort((a, b) => a.position - b.position),
+  }
+}
+
+// 순위 계산과 하이라이트에 쓰는 (제외 조건이 아닌) 검색어 목록
+export const getPositiveTerms = (parsed: ParsedSearchQuery): string[] =>
+  parsed.groups.flatMap(group =>
+    group.flatMap(clause =>
+      !clause.negated &&
+      (clause.type === 'text' ||
+        clause.type === 'phrase' ||
+        (clause.type === 'field' && clause.field !== 'category'))
+        ? [clause.value]
+        : []
+    )
+  )
+
+const normalize = (text: string): string => text.normalize('NFC').toLowerCase()
+
+// 카테고리 키 또는 현재 범위에서 쓰는 표시 이름과 비교
+const matchesCategory = (
+  memo: Memo,
+  value: string,
+  categories: Category[]
+): boolean => {
+  const target = normalize(value)
+  return (
+    normalize(memo.category) === target ||
+    normalize(resolveCategory(categories, memo.category).name) === target
+  )
+}
+
+const compareDate = (
+  dateString: string,
+  operator: SearchDateOperator,
+  value: string
+): boolean => {
+  // 서버와 브라우저에서 같은 결과가 나오도록 UTC 날짜 기준으로 비교
+  const day = new Date(dateString).toISOString().slice(0, 10)
+  switch (operator) {
+    case '>':
+      return day > value
+    case '>=':
+      return day >= value
+    case '<':
+      return day < value
+    case '<=':
+      return day <= value
+    case '=':
+      return day === value
+  }
+}
+
+const clauseMatches = (
+  memo: Memo,
+  clause: SearchClause,
+  matchesText: (memo: Memo, text: string) => boolean,
+  categories: Category[]
+): boolean => {
+  switch (clause.type) {
+    case 'text':
+      return matchesText(memo, clause.value)
+    case 'phrase': {
+      const phrase = normalize(clause.value)
+      return [memo.title, memo.content, memo.summary || '', ...memo.tags].some(
+        text => normalize(text).includes(phrase)
+      )
+    }
+    case 'field':
+      if (clause.field === 'tag') {
+        return memo.tags.some(tag => normalize(tag) === normalize(clause.value))
+      }
+      if (clause.field === 'category') {
+        return matchesCategory(memo, clause.value, categories)
+      }
+      return normalize(memo.title).includes(normalize(clause.value))
+    case 'date':
+      return compareDate(
+        clause.field === 'updated' ? memo.updatedAt : memo.createdAt,
+        clause.operator,
+        clause.value
+      )
+  }
+}
+
+// category: 조건이 있는지 (카테고리 목록을 불러와야 하는지)
+export const hasCategoryClause = (parsed: ParsedSearchQuery): boolean =>
+  parsed.groups.some(group =>
+    group.some(clause => clause.type === 'field' && clause.field === 'category')
+  )
+
+// 파싱된 검색어 조건을 메모가 만족하는지 검사
+// matchesText: 일반 검색어 일치 판정 (n-gram 검색 규칙은 호출하는 쪽에서 제공)
+// categories: category: 조건의 이름을 키로 바꿀 때 쓰는 현재 범위의 카테고리
+export const matchesSearchQuery = (
+  memo: Memo,
+  parsed: ParsedSearchQuery,
+  matchesText: (memo: Memo, text: string) => boolean,
+  categories: Category[]
+): boolean =>
+  parsed.groups.some(group =>
+    group.every(
+      clause =>
+        clauseMatches(memo, clause, matchesText, categories) !== clause.negated
+    )
+  )
@@ -1,5 +1,9 @@
 import { Memo } from '@/types/memo'
-import { memoRepository } from './memoRepository'
+import { getMemoStore } from './memoStore'
+import { readAllMemoPages } from './memoPagination'
+import { createMemoBackup } from './memoBackup'
+
+const memoStore = getMemoStore()
 
 export const sampleMemos: Memo[] = [
   {
@@ -67,11 +71,11 @@ export const sampleMemos: Memo[] = [
 export const seedSampleData = async (): Promise<boolean> => {
   // 기존 데이터가 없을 때만 샘플 데이터 추가
   try {
-    const existingMemos = await memoRepository.getMemos()
+    const existingMemos = await memoStore.getMemos()
     if (existingMemos.length === 0) {
       // 모든 샘플 메모를 순차적으로 추가
       for (const memo of sampleMemos) {
-        await memoRepository.addMemo(memo)
+        await memoStore.addMemo(memo)
       }
       console.log('Sample data seeded successfully!')
       return true
@@ -83,11 +87,21 @@ export const seedSampleData = async (): Promise<boolean> => {
   }
 }
 
+// 휴지통을 거치지 않고 모든 메모를 영구 삭제
+const purgeAllMemos = async (): Promise<void> => {
+  const memos = [
+    ...(await readAllMemoPages(memoStore)),
+    ...(await memoStore.getDeletedMemos()),
+  ]
+  const deletePromises = memos.map(memo => memoStore.purgeMemo(memo.id))
+  await Promise.all(deletePromises)
+}
+
 export const clearAllData = async (): Promise<void> => {
   try {
-    const memos = await memoRepository.getMemos()
-    const deletePromises = memos.map(memo => memoRepository.deleteMemo(memo.id))
-    await Promise.all(deletePromises)
+    // 개발용 초기화이므로 휴지통을 거치지 않음 (백업에서 되돌릴 수 있음)
+    await createMemoBackup('beforeClear')
+    await purgeAllMemos()
     console.log('All data cleared!')
   } catch (error) {
     console.error('Failed to clear all data:', error)
@@ -97,11 +111,12 @@ export const clearAllData = async (): Promise<void> => {
 
 export const resetToSampleData = async (): Promise<void> => {
   try {
-    // 기존 데이터 삭제
-    await clearAllData()
+    // 기존 데이터를 백업하고 삭제
+    await createMemoBackup('beforeReset')
+    await purgeAllMemos()
     // 샘플 데이터 추가
     for (const memo of sampleMemos) {
-      await memoRepository.addMemo(memo)
+      await memoStore.addMemo(memo)
     }
     console.log('Data reset to sample data!')
   } catch (error) {
@@ -0,0 +1,238 @@
+import { MemoShareLink, SharedMemo } from '@/types/memo'
+import { CategoryColor } from '@/types/category'
+import { getSupabaseClient } from '@/lib/supabaseClient'
+import { localStorageUtils } from './localStorage'
+import { memoStoreBackend } from './memoStore'
+import { createShareToken, isShareLinkActive } from './shareLinks'
+import { readLocalCategoriesForMemo } from './categoryStore'
+import { resolveCategory } from './categories'
+
+// 메모의 공개 공유 링크를 관리하는 저장소
+export interface ShareLinkStore {
+  // 메모에 만든 공유 링크 (폐기된 링크 포함, 최신순)
+  getShareLinks(memoId: string): Promise<MemoShareLink[]>
+  createShareLink(memoId: string, expiresAt?: string): Promise<MemoShareLink>
+  revokeShareLink(token: string): Promise<MemoShareLink>
+  // 토큰으로 공개된 메모 조회 (폐기/만료/삭제된 경우 null)
+  getSharedMemo(token: string): Promise<SharedMemo | null>
+}
+
+// memo_share_links 테이블의 행 구조
+interface ShareLinkRow {
+  token: string
+  memo_id: string
+  created_at: string
+  expires_at: string | null
+  revoked_at: string | null
+}
+
+// get_shared_memo 함수가 돌려주는 행 구조
+interface SharedMemoRow {
+  title: string
+  content: string
+  category: string
+  tags: string[] | null
+  summary: string | null
+  updated_at: string
+  category_name: string | null
+  category_color: CategoryColor | null
+  category_icon: string | null
+}
+
+const toShareLink = (row: ShareLinkRow): MemoShareLink => ({
+  token: row.token,
+  memoId: row.memo_id,
+  createdAt: row.created_at,
+  expiresAt: row.expires_at || undefined,
+  revokedAt: row.revoked_at || undefined,
+})
+
+// Supabase 저장소 (링크 관리는 RLS, 공개 조회는 get_shared_memo 함수로 검사)
+const supabaseShareLinkStore: ShareLinkStore = {
+  async getShareLinks(memoId) {
+    try {
+      const { data, error } = await getSupabaseClient()
+        .from('memo_share_links')
+        .select('*')
+        .eq('memo_id', memoId)
+        .order('created_at', { ascending: false })
+
+      if (error) {
+        console.error('Error loading share links from Supabase:', error)
+        throw error
+      }
+
+      return data?.map(toShareLink) || []
+    } catch (error) {
+      console.error('Error loading share links:', error)
+      throw error
+    }
+  },
+
+  async createShareLink(memoId, expiresAt) {
+    try {
+      const { data, error } = await getSupabaseClient()
+        .from('memo_share_links')
+        .insert({
+          token: createShareToken(),
+          memo_id: memoId,
+          expires_at: expiresAt || null,
+        })
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error creating share link in Supabase:', error)
+        throw error
+      }
+
+      return toShareLink(data)
+    } catch (error) {
+      console.error('Error creating share link:', error)
+      throw error
+    }
+  },
+
+  async revokeShareLink(token) {
+    try {
+      const { data, error } = await getSupabaseClient()
+        .from('memo_share_links')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('token', token)
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error revoking share link in Supabase:', error)
+        throw error
+      }
+
+      return toShareLink(data)
+    } catch (error) {
+      console.error('Error revoking share link:', error)
+      throw error
+    }
+  },
+
+  async getSharedMemo(token) {
+    try {
+      const { data, error } = await getSupabaseClient().rpc('get_shared_memo', {
+        share_token: token,
+      })
+
+      if (error) {
+        console.error('Error loading shared memo from Supabase:', error)
+        throw error
+      }
+
+      const row = (data as SharedMemoRow[] | null)?.[0]
+      if (!row) return null
+
+      return {
+        title: row.title,
+        content: row.content,
+        category: row.category,
+        tags: row.tags || [],
+        summary: row.summary || undefined,
+        updatedAt: row.updated_at,
+        ...(row.category_name && {
+          categoryInfo: {
+            name: row.category_name,
+            color: row.category_color || 'gray',
+            icon: row.category_icon || '📁',
+          },
+        }),
+      }
+    } catch (error) {
+      console.error('Error loading shared memo:', error)
+      throw error
+    }
+  },
+}
+
+const SHARE_LINKS_STORAGE_KEY = 'memo-app-share-links'
+
+const readShareLinks = (): MemoShareLink[] => {
+  if (typeof window === 'undefined') return []
+
+  try {
+    const stored = localStorage.getItem(SHARE_LINKS_STORAGE_KEY)
+    return stored ? JSON.parse(stored) : []
+  } catch (error) {
+    console.error('Error loading share links from localStorage:', error)
+    return []
+  }
+}
+
+const saveShareLinks = (links: MemoShareLink[]): void => {
+  if (typeof window === 'undefined') return
+
+  try {
+    localStorage.setItem(SHARE_LINKS_STORAGE_KEY, JSON.stringify(links))
+  } catch (error) {
+    console.error('Error saving share links to localStorage:', error)
+  }
+}
+
+// LocalStorage 저장소 (같은 브라우저에서만 열리는 링크, 개발/테스트용)
+const localShareLinkStore: ShareLinkStore = {
+  async getShareLinks(memoId) {
+    return readShareLinks()
+      .filter(link => link.memoId === memoId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+  },
+
+  async createShareLink(memoId, expiresAt) {
+    const link: MemoShareLink = {
+      token: createShareToken(),
+      memoId,
+      createdAt: new Date().toISOString(),
+      ...(expiresAt && { expiresAt }),
+    }
+    saveShareLinks([...readShareLinks(), link])
+    return link
+  },
+
+  async revokeShareLink(token) {
+    const links = readShareLinks()
+    const index = links.findIndex(link => link.token === token)
+    if (index === -1) {
+      throw new Error(`Share link not found: ${token}`)
+    }
+
+    links[index] = { ...links[index], revokedAt: new Date().toISOString() }
+    saveShareLinks(links)
+    return links[index]
+  },
+
+  async getSharedMemo(token) {
+    const link = readShareLinks().find(item => item.token === token)
+    if (!link || !isShareLinkActive(link)) return null
+
+    // 워크스페이스 범위와 상관없이 저장된 메모를 그대로 조회
+    const memo = localStorageUtils
+      .readMemos()
+      .find(item => item.id === link.memoId && !item.deletedAt)
+    if (!memo) return null
+
+    const { name, color, icon } = resolveCategory(
+      readLocalCategoriesForMemo(memo),
+      memo.category
+    )
+    return {
+      title: memo.title,
+      content: memo.content,
+      category: memo.category,
+      tags: memo.tags,
+      summary: memo.summary,
+      updatedAt: memo.updatedAt,
+      categoryInfo: { name, color, icon },
+    }
+  },
+}
+
+// 메모 저장소와 같은 백엔드의 공유 링크 저장소 가져오기
+export const getShareLinkStore = (): ShareLinkStore =>
+  memoStoreBackend === 'offline' || memoStoreBackend === 'supabase'
+    ? supabaseShareLinkStore
+    : localShareLinkStore
@@ -0,0 +1,43 @@
+import { MemoShareLink } from '@/types/memo'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// 공유 링크 만료 선택지 (일 단위, null 이면 만료 없음)
+export const SHARE_LINK_EXPIRY_OPTIONS: {
+  label: string
+  days: number | null
+}[] = [
+  { label: '만료 없음', days: null },
+  { label: '1일', days: 1 },
+  { label: '7일', days: 7 },
+  { label: '30일', days: 30 },
+]
+
+// 추측할 수 없는 공유 토큰 (256비트 난수를 base64url 로 인코딩)
+export const createShareToken = (): string => {
+  const bytes = new Uint8Array(32)
+  crypto.getRandomValues(bytes)
+  return btoa(String.fromCharCode(...Array.from(bytes)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '')
+}
+
+// 지금부터 days 일 뒤의 만료 시각 (null 이면 만료 없음)
+export const getShareLinkExpiry = (
+  days: number | null,
+  now: Date = new Date()
+): string | undefined =>
+  days ? new Date(now.getTime() + days * DAY_MS).toISOString() : undefined
+
+// 폐기되지 않았고 만료되지 않은 링크인지
+export const isShareLinkActive = (
+  link: MemoShareLink,
+  now: Date = new Date()
+): boolean =>
+  !link.revokedAt &&
+  (!link.expiresAt || new Date(link.expiresAt).getTime() > now.getTime())
+
+// 공개 공유 페이지 주소
+export const getShareUrl = (token: string): string =>
+  `${window.location.origin}/share/${token}`
@@ -0,0 +1,218 @@
+import { v4 as uuidv4 } from 'uuid'
+import { Memo } from '@/types/memo'
+
+const STORAGE_KEY = 'memo-app-pending-mutations'
+
+// 원격 저장소에 아직 반영되지 않은 변경 사항
+export type PendingMutation = {
+  id: string
+  queuedAt: string
+  attempts: number
+  // 여러 번 실패해 자동 재시도를 멈춘 시각 (사용자가 다시 시도하거나 버릴 때까지 보관)
+  failedAt?: string
+  lastError?: string
+} & (
+  | { type: 'add'; memo: Memo }
+  | { type: 'update'; memo: Memo; baseUpdatedAt?: string }
+  | { type: 'delete'; memoId: string }
+)
+
+type Listener = () => void
+
+const listeners = new Set<Listener>()
+
+const getMutationMemoId = (mutation: PendingMutation): string =>
+  mutation.type === 'delete' ? mutation.memoId : mutation.memo.id
+
+const readQueue = (): PendingMutation[] => {
+  if (typeof window === 'undefined') return []
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    return stored ? JSON.parse(stored) : []
+  } catch (error) {
+    console.error('Error loading pending mutations from localStorage:', error)
+    return []
+  }
+}
+
+const writeQueue = (queue: PendingMutation[]): void => {
+  if (typeof window === 'undefined') return
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(queue))
+  } catch (error) {
+    console.error('Error saving pending mutations to localStorage:', error)
+  }
+  listeners.forEach(listener => listener())
+}
+
+export const syncQueue = {
+  // 대기 중인 변경 사항 (큐에 들어온 순서)
+  getPending: (): PendingMutation[] => readQueue(),
+
+  // 동기화 대기 중인 메모 ID 목록 (동기화를 멈춘 메모 포함)
+  getPendingMemoIds: (): string[] =>
+    Array.from(new Set(readQueue().map(getMutationMemoId))),
+
+  // 메모 추가 대기
+  enqueueAdd: (memo: Memo): void => {
+    writeQueue([
+      ...readQueue(),
+      {
+        id: uuidv4(),
+        type: 'add',
+        memo,
+        queuedAt: new Date().toISOString(),
+        attempts: 0,
+      },
+    ])
+  },
+
+  // 메모 수정 대기 (같은 메모의 대기 중인 추가/수정은 최신 내용으로 합침)
+  // baseUpdatedAt: 수정을 시작한 시점의 updatedAt (동기화 시 충돌 감지용)
+  enqueueUpdate: (memo: Memo, baseUpdatedAt?: string): void => {
+    const queue = readQueue()
+    const pending = queue.find(
+      mutation =>
+        mutation.type !== 'delete' && getMutationMemoId(mutation) === memo.id
+    )
+
+    if (pending && pending.type !== 'delete') {
+      pending.memo = memo
+      // 다시 수정했으면 멈춰 둔 동기화도 처음부터 다시 시도
+      pending.attempts = 0
+      pending.failedAt = undefined
+      pending.lastError = undefined
+      writeQueue(queue)
+      return
+    }
+
+    writeQueue([
+      ...queue,
+      {
+        id: uuidv4(),
+        type: 'update',
+        memo,
+        baseUpdatedAt,
+        queuedAt: new Date().toISOString(),
+        attempts: 0,
+      },
+    ])
+  },
+
+  // 메모 삭제 대기 (아직 올라가지 않은 메모라면 대기 중인 변경만 취소)
+  enqueueDelete: (memoId: string): void => {
+    const queue = readQueue()
+    const wasPendingAdd = queue.some(
+      mutation => mutation.type === 'add' && mutation.memo.id === memoId
+    )
+    const remaining = queue.filter(
+      mutation => getMutationMemoId(mutation) !== memoId
+    )
+
+    if (wasPendingAdd) {
+      writeQueue(remaining)
+      return
+    }
+
+    writeQueue([
+      ...remaining,
+      {
+        id: uuidv4(),
+        type: 'delete',
+        memoId,
+        queuedAt: new Date().toISOString(),
+        attempts: 0,
+      },
+    ])
+  },
+
+  // 반영이 끝난 변경 사항 정리 (반영 도중 내용이 바뀌었다면 수정으로 남겨둠)
+  complete: (replayed: PendingMutation): void => {
+    const queue = readQueue()
+    const current = queue.find(mutation => mutation.id === replayed.id)
+    if (!current) return
+
+    if (
+      current.type !== 'delete' &&
+      replayed.type !== 'delete' &&
+      current.memo.updatedAt !== replayed.memo.updatedAt
+    ) {
+      writeQueue(
+        queue.map(mutation =>
+          mutation.id === current.id
+            ? {
+                ...current,
+                type: 'update',
+                baseUpdatedAt: replayed.memo.updatedAt,
+                attempts: 0,
+              }
+            : mutation
+        )
+      )
+      return
+    }
+
+    writeQueue(queue.filter(mutation => mutation.id !== replayed.id))
+  },
+
+  // 큐에서 변경 사항 제거
+  remove: (mutationId: string): void => {
+    writeQueue(readQueue().filter(mutation => mutation.id !== mutationId))
+  },
+
+  // 재시도 횟수 기록
+  markFailed: (mutationId: string): number => {
+    const queue = readQueue()
+    const mutation = queue.find(item => item.id === mutationId)
+    if (!mutation) return 0
+
+    mutation.attempts += 1
+    writeQueue(queue)
+    return mutation.attempts
+  },
+
+  // 동기화를 멈춘 변경 사항으로 표시 (큐에는 남아 로컬 수정을 계속 보호)
+  park: (mutationId: string, error: string): void => {
+    writeQueue(
+      readQueue().map(mutation =>
+        mutation.id === mutationId
+          ? {
+              ...mutation,
+              failedAt: new Date().toISOString(),
+              lastError: error,
+            }
+          : mutation
+      )
+    )
+  },
+
+  // 동기화를 멈춘 변경 사항
+  getFailed: (): PendingMutation[] =>
+    readQueue().filter(mutation => mutation.failedAt),
+
+  // 멈춘 변경 사항을 다시 자동 동기화 대상으로
+  retryFailed: (): void => {
+    writeQueue(
+      readQueue().map(mutation =>
+        mutation.failedAt
+          ? {
+              ...mutation,
+              attempts: 0,
+              failedAt: undefined,
+              lastError: undefined,
+            }
+          : mutation
+      )
+    )
+  },
+
+  // 큐 변경 구독 (구독 해제 함수 반환)
+  subscribe: (listener: Listener): (() => void) => {
+    listeners.add(listener)
+    return () => {
+      listeners.delete(listener)
+    }
+  },
+}
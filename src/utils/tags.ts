@@ -0,0 +1,79 @@
+import { Memo } from '@/types/memo'
+
+export interface TagCount {
+  tag: string
+  count: number
+}
+
+// 여러 태그로 거를 때 모두 붙은 메모(and)만 볼지, 하나라도 붙은 메모(or)를 볼지
+export type TagFilterMode = 'and' | 'or'
+
+export const TAG_FILTER_MODES: TagFilterMode[] = ['and', 'or']
+
+// 메모가 태그 필터에 해당하는지 (고른 태그가 없으면 모두 해당)
+export const matchesTagFilter = (
+  memo: Memo,
+  tags: string[] = [],
+  mode: TagFilterMode = 'and'
+): boolean =>
+  tags.length === 0 ||
+  (mode === 'and'
+    ? tags.every(tag => memo.tags.includes(tag))
+    : tags.some(tag => memo.tags.includes(tag)))
+
+// 많이 쓴 태그 먼저, 같으면 이름순
+export const compareTagCounts = (a: TagCount, b: TagCount): number =>
+  b.count - a.count || a.tag.localeCompare(b.tag, 'ko')
+
+// 메모들의 태그별 사용 횟수 (많이 쓴 순, 같으면 이름순)
+export const getTagCounts = (memos: Memo[]): TagCount[] => {
+  const counts = new Map<string, number>()
+  memos.forEach(memo =>
+    memo.tags.forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1))
+  )
+  return Array.from(counts, ([tag, count]) => ({ tag, count })).sort(
+    compareTagCounts
+  )
+}
+
+// 태그 목록에서 from 을 to 로 바꿈
+// (to 가 이미 있으면 하나로 합치고, null 이면 from 을 지움)
+export const replaceTagInList = (
+  tags: string[],
+  from: string,
+  to: string | null
+): string[] => {
+  const replaced: string[] = []
+  tags.forEach(tag => {
+    const next = tag === from ? to : tag
+    if (next && !replaced.includes(next)) replaced.push(next)
+  })
+  return replaced
+}
+
+// 비교용 태그 (대소문자와 공백 무시)
+const normalizeTag = (tag: string): string =>
+  tag.toLowerCase().replace(/\s+/g, '')
+
+// 대소문자나 공백만 다른 태그 (예: React, react)
+export const isSimilarTag = (a: string, b: string): boolean =>
+  a !== b && normalizeTag(a) === normalizeTag(b)
+
+// 태그 입력 자동 완성 후보 (입력으로 시작하는 태그를 먼저, 이미 붙인 태그는 제외)
+export const suggestTags = (
+  input: string,
+  tags: string[],
+  selected: string[],
+  limit = 8
+): string[] => {
+  const query = normalizeTag(input)
+  if (!query) return []
+
+  const candidates = tags.filter(
+    tag => !selected.includes(tag) && normalizeTag(tag).includes(query)
+  )
+  return [
+    ...candidates.filter(tag => normalizeTag(tag).startsWith(query)),
+    ...candidates.filter(tag => !normalizeTag(tag).startsWith(query)),
+  ].slice(0, limit)
+}
@@ -0,0 +1,148 @@
+export interface DiffLine {
+  type: 'equal' | 'added' | 'removed'
+  text: string
+}
+
+export interface MergeResult {
+  text: string
+  hasConflicts: boolean
+}
+
+export const CONFLICT_MARKERS = {
+  start: '<<<<<<< 내 변경',
+  separator: '=======',
+  end: '>>>>>>> 다른 곳의 변경',
+}
+
+const splitLines = (text: string): string[] =>
+  text === '' ? [] : text.split('\n')
+
+// 최장 공통 부분 수열 기준으로 a[i] 와 짝지어진 b 의 인덱스 (없으면 -1)
+const matchLines = (a: string[], b: string[]): number[] => {
+  const lengths = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  )
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  const matches = new Array<number>(a.length).fill(-1)
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      matches[i] = j
+      i++
+      j++
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++
+    } else {
+      j++
+    }
+  }
+
+  return matches
+}
+
+// 두 텍스트의 줄 단위 차이
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const a = splitLines(before)
+  const b = splitLines(after)
+  const matches = matchLines(a, b)
+  const result: DiffLine[] = []
+
+  let j = 0
+  a.forEach((line, i) => {
+    if (matches[i] === -1) {
+      result.push({ type: 'removed', text: line })
+      return
+    }
+    while (j < matches[i]) {
+      result.push({ type: 'added', text: b[j++] })
+    }
+    result.push({ type: 'equal', text: line })
+    j++
+  })
+  while (j < b.length) {
+    result.push({ type: 'added', text: b[j++] })
+  }
+
+  return result
+}
+
+const sameLines = (a: string[], b: string[]): boolean =>
+  a.length === b.length && a.every((line, index) => line === b[index])
+
+// 공통 조상(base)을 기준으로 두 변경을 줄 단위로 병합 (diff3)
+// 양쪽이 같은 부분을 다르게 바꾼 경우 충돌 마커를 남김
+export const mergeText = (
+  base: string,
+  mine: string,
+  theirs: string
+): MergeResult => {
+  const baseLines = splitLines(base)
+  const mineLines = splitLines(mine)
+  const theirLines = splitLines(theirs)
+  const mineMatches = matchLines(baseLines, mineLines)
+  const theirMatches = matchLines(baseLines, theirLines)
+
+  const output: string[] = []
+  let hasConflicts = false
+
+  const resolveChunk = (
+    baseChunk: string[],
+    mineChunk: string[],
+    theirChunk: string[]
+  ) => {
+    if (sameLines(mineChunk, baseChunk)) {
+      output.push(...theirChunk)
+    } else if (
+      sameLines(theirChunk, baseChunk) ||
+      sameLines(mineChunk, theirChunk)
+    ) {
+      output.push(...mineChunk)
+    } else {
+      hasConflicts = true
+      output.push(
+        CONFLICT_MARKERS.start,
+        ...mineChunk,
+        CONFLICT_MARKERS.separator,
+        ...theirChunk,
+        CONFLICT_MARKERS.end
+      )
+    }
+  }
+
+  let baseIndex = 0
+  let mineIndex = 0
+  let theirIndex = 0
+
+  for (let i = 0; i < baseLines.length; i++) {
+    // 양쪽 모두 그대로 유지한 줄을 기준점으로 사이 구간을 병합
+    if (mineMatches[i] === -1 || theirMatches[i] === -1) continue
+
+    resolveChunk(
+      baseLines.slice(baseIndex, i),
+      mineLines.slice(mineIndex, mineMatches[i]),
+      theirLines.slice(theirIndex, theirMatches[i])
+    )
+    output.push(baseLines[i])
+    baseIndex = i + 1
+    mineIndex = mineMatches[i] + 1
+    theirIndex = theirMatches[i] + 1
+  }
+
+  resolveChunk(
+    baseLines.slice(baseIndex),
+    mineLines.slice(mineIndex),
+    theirLines.slice(theirIndex)
+  )
+
+  return { text: output.join('\n'), hasConflicts }
+}
@@ -0,0 +1,87 @@
+import { ALL_FOLDERS } from '@/types/folder'
+import { TAG_FILTER_MODES, TagFilterMode } from './tags'
+
+// 메모 목록 또는 그래프 (/graph)
+export type MemoView = 'list' | 'graph'
+
+// 주소에 담는 화면 상태 (새로고침하거나 링크로 공유해도 그대로 열림)
+export interface MemoViewState {
+  searchQuery: string
+  category: string
+  folder: string
+  tags: string[]
+  tagMode: TagFilterMode
+  // 뷰어로 열어 둔 메모 (/memo/<id>)
+  memoId: string | null
+  view: MemoView
+}
+
+export const DEFAULT_VIEW_STATE: MemoViewState = {
+  searchQuery: '',
+  category: 'all',
+  folder: ALL_FOLDERS,
+  tags: [],
+  tagMode: 'and',
+  memoId: null,
+  view: 'list',
+}
+
+const MEMO_PATH_PATTERN = /^\/memo\/([^/]+)\/?$/
+const GRAPH_PATH_PATTERN = /^\/graph\/?$/
+const GRAPH_PATH = '/graph'
+
+// 메모 하나를 바로 여는 경로
+export const getMemoPath = (id: string): string =>
+  `/memo/${encodeURIComponent(id)}`
+
+// 주소(경로와 쿼리)에서 화면 상태 읽기 (없거나 잘못된 값은 기본값)
+export const parseViewUrl = (
+  pathname: string,
+  search: string
+): MemoViewState => {
+  const params = new URLSearchParams(search)
+  const memoMatch = pathname.match(MEMO_PATH_PATTERN)
+  const tagMode = params.get('tagMode') as TagFilterMode | null
+
+  return {
+    searchQuery: params.get('q') || DEFAULT_VIEW_STATE.searchQuery,
+    category: params.get('category') || DEFAULT_VIEW_STATE.category,
+    folder: params.get('folder') || DEFAULT_VIEW_STATE.folder,
+    tags: params.getAll('tag').filter(Boolean),
+    tagMode:
+      tagMode && TAG_FILTER_MODES.includes(tagMode)
+        ? tagMode
+        : DEFAULT_VIEW_STATE.tagMode,
+    memoId: memoMatch ? decodeURIComponent(memoMatch[1]) : null,
+    // 그래프에서 메모를 열면 경로가 /memo/<id> 이므로 view 로 구분
+    view:
+      GRAPH_PATH_PATTERN.test(pathname) || params.get('view') === 'graph'
+        ? 'graph'
+        : DEFAULT_VIEW_STATE.view,
+  }
+}
+
+// 화면 상태를 주소로 변환 (기본값은 생략)
+export const buildViewUrl = (state: MemoViewState): string => {
+  const params = new URLSearchParams()
+  if (state.searchQuery) params.set('q', state.searchQuery)
+  if (state.category !== DEFAULT_VIEW_STATE.category) {
+    params.set('category', state.category)
+  }
+  if (state.folder !== DEFAULT_VIEW_STATE.folder) {
+    params.set('folder', state.folder)
+  }
+  state.tags.forEach(tag => params.append('tag', tag))
+  if (state.tags.length > 1 && state.tagMode !== DEFAULT_VIEW_STATE.tagMode) {
+    params.set('tagMode', state.tagMode)
+  }
+  if (state.memoId && state.view === 'graph') params.set('view', 'graph')
+
+  const path = state.memoId
+    ? getMemoPath(state.memoId)
+    : state.view === 'graph'
+      ? GRAPH_PATH
+      : '/'
+  const query = params.toString()
+  return `${path}${query ? `?${query}` : ''}`
+}
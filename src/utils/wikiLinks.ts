@@ -0,0 +1,115 @@
+import { Memo } from '@/types/memo'
+
+// [[메모 제목]] 형식의 위키 링크 (제목에는 대괄호와 줄바꿈을 쓸 수 없음)
+// supabase/migrations 의 extract_memo_links 와 같은 규칙
+const WIKI_LINK_PATTERN = /\[\[([^[\]\n]+)\]\]/g
+
+// 마크다운으로 렌더링한 위키 링크의 주소 (누르면 제목으로 메모를 찾아 엶)
+const WIKI_LINK_HREF_PREFIX = '#wiki:'
+
+// 입력 중인 위키 링크 (content 의 start ~ end 가 "[[검색어")
+export interface WikiLinkQuery {
+  start: number
+  end: number
+  query: string
+}
+
+// 링크 제목 비교용 (앞뒤 공백과 대소문자 무시)
+export const normalizeLinkTitle = (title: string): string =>
+  title.trim().toLowerCase()
+
+// 위키 링크로 걸 수 있는 제목인지
+export const isLinkableTitle = (title: string): boolean =>
+  Boolean(title.trim()) && !/[[\]\n]/.test(title)
+
+// 내용에서 링크한 제목 목록 (정규화, 중복 제거)
+export const extractWikiLinks = (content: string): string[] => {
+  const titles = Array.from(content.matchAll(WIKI_LINK_PATTERN), match =>
+    normalizeLinkTitle(match[1])
+  ).filter(Boolean)
+  return Array.from(new Set(titles))
+}
+
+// memo 가 title 제목의 메모를 링크하는지
+export const linksToTitle = (memo: Memo, title: string): boolean =>
+  extractWikiLinks(memo.content).includes(normalizeLinkTitle(title))
+
+// 링크 제목으로 메모 찾기 (같은 제목이 여럿이면 최근에 수정한 메모)
+export const findMemoByLinkTitle = (
+  memos: Memo[],
+  title: string
+): Memo | null => {
+  const target = normalizeLinkTitle(title)
+  return (
+    memos
+      .filter(memo => normalizeLinkTitle(memo.title) === target)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0] || null
+  )
+}
+
+// 마크다운 렌더링 전에 [[제목]] 을 링크로 바꿈 (linkable 이 false 면 제목만 남김)
+export const renderWikiLinks = (source: string, linkable = true): string =>
+  source.replace(WIKI_LINK_PATTERN, (_, rawTitle: string) => {
+    const title = rawTitle.trim()
+    return linkable
+      ? `[${title}](<${WIKI_LINK_HREF_PREFIX}${encodeURIComponent(title)}>)`
+      : title
+  })
+
+// renderWikiLinks 로 만든 링크 주소에서 제목 꺼내기 (위키 링크가 아니면 null)
+export const parseWikiLinkHref = (href: string | null): string | null =>
+  href?.startsWith(WIKI_LINK_HREF_PREFIX)
+    ? decodeURIComponent(href.slice(WIKI_LINK_HREF_PREFIX.length))
+    : null
+
+// 커서 앞에 닫히지 않은 [[ 가 있으면 입력 중인 링크
+export const getWikiLinkQuery = (
+  content: string,
+  cursor: number
+): WikiLinkQuery | null => {
+  const before = content.slice(0, cursor)
+  const start = before.lastIndexOf('[[')
+  if (start === -1) return null
+
+  const query = before.slice(start + 2)
+  if (/[[\]\n]/.test(query)) return null
+  return { start, end: cursor, query }
+}
+
+// 입력 중인 링크를 고른 제목으로 완성 (커서 뒤에 이미 ]] 가 있으면 함께 바꿈)
+export const completeWikiLink = (
+  content: string,
+  linkQuery: WikiLinkQuery,
+  title: string
+): { content: string; cursor: number } => {
+  const after = content.slice(linkQuery.end)
+  const link = `[[${title}]]`
+  return {
+    content:
+      content.slice(0, linkQuery.start) +
+      link +
+      (after.startsWith(']]') ? after.slice(2) : after),
+    cursor: linkQuery.start + link.length,
+  }
+}
+
+// 링크 자동 완성 후보 (검색어로 시작하는 제목을 먼저)
+export const suggestLinkTitles = (
+  query: string,
+  titles: string[],
+  limit = 8
+): string[] => {
+  const normalized = normalizeLinkTitle(query)
+  const candidates = Array.from(new Set(titles)).filter(
+    title =>
+      isLinkableTitle(title) && normalizeLinkTitle(title).includes(normalized)
+  )
+  return [
+    ...candidates.filter(title =>
+      normalizeLinkTitle(title).startsWith(normalized)
+    ),
+    ...candidates.filter(
+      title => !normalizeLinkTitle(title).startsWith(normalized)
+    ),
+  ].slice(0, limit)
+}
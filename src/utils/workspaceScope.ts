@@ -0,0 +1,48 @@
+import { Memo } from '@/types/memo'
+import { WorkspaceRole } from '@/types/workspace'
+import { getCurrentUser } from '@/lib/auth'
+
+// 현재 보고 있는 워크스페이스 (null 이면 개인 메모)
+let currentWorkspaceId: string | null = null
+
+export const getCurrentWorkspaceId = (): string | null => currentWorkspaceId
+
+export const setCurrentWorkspaceId = (workspaceId: string | null): void => {
+  currentWorkspaceId = workspaceId
+}
+
+// 메모가 현재 보고 있는 범위(워크스페이스 또는 내 개인 메모)에 속하는지
+// (소유자 정보가 없는 기존 개인 메모는 모두에게 보임)
+export const isInCurrentScope = (memo: Memo): boolean =>
+  currentWorkspaceId
+    ? memo.workspaceId === currentWorkspaceId
+    : !memo.workspaceId &&
+      (!memo.ownerId || memo.ownerId === getCurrentUser()?.id)
+
+// 범위별 데이터를 LocalStorage 에 나눠 저장할 때 쓰는 키
+// (워크스페이스 ID 또는 personal:<사용자 ID>)
+export const toScopeKey = (
+  workspaceId?: string | null,
+  userId?: string
+): string => workspaceId || `personal:${userId || 'anonymous'}`
+
+export const getCurrentScopeKey = (): string =>
+  toScopeKey(currentWorkspaceId, getCurrentUser()?.id)
+
+// Supabase 쿼리를 현재 범위(워크스페이스 또는 개인)의 행으로 제한
+// (개인 범위의 소유자 조건은 RLS 정책이 검사)
+export const applyWorkspaceScope = <
+  Q extends {
+    eq(column: string, value: string): Q
+    is(column: string, value: null): Q
+  },
+>(
+  query: Q
+): Q =>
+  currentWorkspaceId
+    ? query.eq('workspace_id', currentWorkspaceId)
+    : query.is('workspace_id', null)
+
+// 메모를 만들고 고칠 수 있는 역할인지 (뷰어는 읽기만 가능)
+export const canEditWithRole = (role: WorkspaceRole): boolean =>
+  role !== 'viewer'
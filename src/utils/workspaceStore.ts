@@ -0,0 +1,337 @@
+import { v4 as uuidv4 } from 'uuid'
+import { Workspace, WorkspaceMember, WorkspaceRole } from '@/types/workspace'
+import { getCurrentUser } from '@/lib/auth'
+import { getSupabaseClient } from '@/lib/supabaseClient'
+import { memoStoreBackend } from './memoStore'
+
+// 워크스페이스와 멤버를 관리하는 저장소
+export interface WorkspaceStore {
+  // 현재 사용자가 속한 워크스페이스 (내 역할 포함)
+  getWorkspaces(): Promise<Workspace[]>
+  // 새 워크스페이스 (만든 사람이 소유자)
+  createWorkspace(name: string): Promise<Workspace>
+  getMembers(workspaceId: string): Promise<WorkspaceMember[]>
+  addMember(
+    workspaceId: string,
+    email: string,
+    role: WorkspaceRole
+  ): Promise<WorkspaceMember>
+  updateMemberRole(
+    workspaceId: string,
+    email: string,
+    role: WorkspaceRole
+  ): Promise<WorkspaceMember>
+  removeMember(workspaceId: string, email: string): Promise<void>
+}
+
+const normalizeEmail = (email: string): string => email.trim().toLowerCase()
+
+const requireUser = () => {
+  const user = getCurrentUser()
+  if (!user) {
+    throw new Error('로그인이 필요합니다.')
+  }
+  return user
+}
+
+// workspaces 테이블의 행 구조
+interface WorkspaceRow {
+  id: string
+  name: string
+  owner_id: string
+  created_at: string
+}
+
+// workspace_members 테이블의 행 구조
+interface WorkspaceMemberRow {
+  workspace_id: string
+  email: string
+  role: WorkspaceRole
+  created_at: string
+}
+
+const toWorkspace = (row: WorkspaceRow, role: WorkspaceRole): Workspace => ({
+  id: row.id,
+  name: row.name,
+  ownerId: row.owner_id,
+  createdAt: row.created_at,
+  role,
+})
+
+const toMember = (row: WorkspaceMemberRow): WorkspaceMember => ({
+  workspaceId: row.workspace_id,
+  email: row.email,
+  role: row.role,
+  createdAt: row.created_at,
+})
+
+// Supabase 저장소 (권한은 RLS 정책으로 검사)
+const supabaseWorkspaceStore: WorkspaceStore = {
+  async getWorkspaces() {
+    try {
+      const { data, error } = await getSupabaseClient()
+        .from('workspace_members')
+        .select('role, workspaces (*)')
+        .eq('email', normalizeEmail(requireUser().email))
+        .order('created_at', { ascending: true })
+
+      if (error) {
+        console.error('Error loading workspaces from Supabase:', error)
+        throw error
+      }
+
+      const rows = (data || []) as unknown as {
+        role: WorkspaceRole
+        workspaces: WorkspaceRow | null
+      }[]
+      return rows.flatMap(row =>
+        row.workspaces ? [toWorkspace(row.workspaces, row.role)] : []
+      )
+    } catch (error) {
+      console.error('Error loading workspaces:', error)
+      throw error
+    }
+  },
+
+  async createWorkspace(name) {
+    try {
+      // 소유자 멤버는 트리거가 추가
+      const { data, error } = await getSupabaseClient()
+        .from('workspaces')
+        .insert({ name })
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error creating workspace in Supabase:', error)
+        throw error
+      }
+
+      return toWorkspace(data, 'owner')
+    } catch (error) {
+      console.error('Error creating workspace:', error)
+      throw error
+    }
+  },
+
+  async getMembers(workspaceId) {
+    try {
+      const { data, error } = await getSupabaseClient()
+        .from('workspace_members')
+        .select('*')
+        .eq('workspace_id', workspaceId)
+        .order('created_at', { ascending: true })
+
+      if (error) {
+        console.error('Error loading workspace members from Supabase:', error)
+        throw error
+      }
+
+      return data?.map(toMember) || []
+    } catch (error) {
+      console.error('Error loading workspace members:', error)
+      throw error
+    }
+  },
+
+  async addMember(workspaceId, email, role) {
+    try {
+      const { data, error } = await getSupabaseClient()
+        .from('workspace_members')
+        .insert({
+          workspace_id: workspaceId,
+          email: normalizeEmail(email),
+          role,
+        })
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error adding workspace member in Supabase:', error)
+        throw error
+      }
+
+      return toMember(data)
+    } catch (error) {
+      console.error('Error adding workspace member:', error)
+      throw error
+    }
+  },
+
+  async updateMemberRole(workspaceId, email, role) {
+    try {
+      const { data, error } = await getSupabaseClient()
+        .from('workspace_members')
+        .update({ role })
+        .eq('workspace_id', workspaceId)
+        .eq('email', normalizeEmail(email))
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error updating workspace member in Supabase:', error)
+        throw error
+      }
+
+      return toMember(data)
+    } catch (error) {
+      console.error('Error updating workspace member:', error)
+      throw error
+    }
+  },
+
+  async removeMember(workspaceId, email) {
+    try {
+      const { error } = await getSupabaseClient()
+        .from('workspace_members')
+        .delete()
+        .eq('workspace_id', workspaceId)
+        .eq('email', normalizeEmail(email))
+
+      if (error) {
+        console.error('Error removing workspace member in Supabase:', error)
+        throw error
+      }
+    } catch (error) {
+      console.error('Error removing workspace member:', error)
+      throw error
+    }
+  },
+}
+
+const WORKSPACES_STORAGE_KEY = 'memo-app-workspaces'
+const MEMBERS_STORAGE_KEY = 'memo-app-workspace-members'
+
+const readStored = <T>(key: string): T[] => {
+  if (typeof window === 'undefined') return []
+
+  try {
+    const stored = localStorage.getItem(key)
+    return stored ? JSON.parse(stored) : []
+  } catch (error) {
+    console.error('Error loading workspaces from localStorage:', error)
+    return []
+  }
+}
+
+const writeStored = <T>(key: string, items: T[]): void => {
+  if (typeof window === 'undefined') return
+
+  try {
+    localStorage.setItem(key, JSON.stringify(items))
+  } catch (error) {
+    console.error('Error saving workspaces to localStorage:', error)
+  }
+}
+
+const readMembers = () => readStored<WorkspaceMember>(MEMBERS_STORAGE_KEY)
+
+const findMemberOrThrow = (
+  members: WorkspaceMember[],
+  workspaceId: string,
+  email: string
+): number => {
+  const index = members.findIndex(
+    member => member.workspaceId === workspaceId && member.email === email
+  )
+  if (index === -1) {
+    throw new Error(`Workspace member not found: ${email}`)
+  }
+  return index
+}
+
+// LocalStorage 저장소 (같은 브라우저에서 로그인한 사용자끼리 공유, 개발/테스트용)
+const localWorkspaceStore: WorkspaceStore = {
+  async getWorkspaces() {
+    const email = normalizeEmail(requireUser().email)
+    const roles = new Map(
+      readMembers()
+        .filter(member => member.email === email)
+        .map(member => [member.workspaceId, member.role])
+    )
+
+    return readStored<Omit<Workspace, 'role'>>(WORKSPACES_STORAGE_KEY).flatMap(
+      workspace => {
+        const role = roles.get(workspace.id)
+        return role ? [{ ...workspace, role }] : []
+      }
+    )
+  },
+
+  async createWorkspace(name) {
+    const user = requireUser()
+    const now = new Date().toISOString()
+    const stored: Omit<Workspace, 'role'> = {
+      id: uuidv4(),
+      name,
+      ownerId: user.id,
+      createdAt: now,
+    }
+
+    writeStored(WORKSPACES_STORAGE_KEY, [
+      ...readStored(WORKSPACES_STORAGE_KEY),
+      stored,
+    ])
+    writeStored(MEMBERS_STORAGE_KEY, [
+      ...readMembers(),
+      {
+        workspaceId: stored.id,
+        email: normalizeEmail(user.email),
+        role: 'owner',
+        createdAt: now,
+      },
+    ])
+    return { ...stored, role: 'owner' }
+  },
+
+  async getMembers(workspaceId) {
+    return readMembers().filter(member => member.workspaceId === workspaceId)
+  },
+
+  async addMember(workspaceId, email, role) {
+    const members = readMembers()
+    const normalized = normalizeEmail(email)
+    if (
+      members.some(
+        member =>
+          member.workspaceId === workspaceId && member.email === normalized
+      )
+    ) {
+      throw new Error('이미 워크스페이스에 있는 멤버입니다.')
+    }
+
+    const member: WorkspaceMember = {
+      workspaceId,
+      email: normalized,
+      role,
+      createdAt: new Date().toISOString(),
+    }
+    writeStored(MEMBERS_STORAGE_KEY, [...members, member])
+    return member
+  },
+
+  async updateMemberRole(workspaceId, email, role) {
+    const members = readMembers()
+    const index = findMemberOrThrow(members, workspaceId, normalizeEmail(email))
+    members[index] = { ...members[index], role }
+    writeStored(MEMBERS_STORAGE_KEY, members)
+    return members[index]
+  },
+
+  async removeMember(workspaceId, email) {
+    const normalized = normalizeEmail(email)
+    writeStored(
+      MEMBERS_STORAGE_KEY,
+      readMembers().filter(
+        member =>
+          !(member.workspaceId === workspaceId && member.email === normalized)
+      )
+    )
+  },
+}
+
+// 메모 저장소와 같은 백엔드의 워크스페이스 저장소 가져오기
+export const getWorkspaceStore = (): WorkspaceStore =>
+  memoStoreBackend === 'offline' || memoStoreBackend === 'supabase'
+    ? supabaseWorkspaceStore
+    : localWorkspaceStore
@@ -0,0 +1,218 @@
+// ZIP 파일 만들기와 읽기 (외부 라이브러리 없이)
+// 만들 때는 압축하지 않고(stored), 읽을 때는 stored 와 deflate 를 지원
+
+export interface ZipEntry {
+  // ZIP 안의 경로 (UTF-8)
+  name: string
+  data: Uint8Array
+  modifiedAt?: Date
+}
+
+// 파일 이름을 UTF-8 로 저장했다는 표시 (general purpose bit 11)
+const UTF8_FLAG = 0x0800
+const ZIP_VERSION = 20
+
+let crcTable: Uint32Array | null = null
+
+const getCrcTable = (): Uint32Array => {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+      let c = n
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      }
+      crcTable[n] = c >>> 0
+    }
+  }
+  return crcTable
+}
+
+export const crc32 = (data: Uint8Array): number => {
+  const table = getCrcTable()
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) {
+    crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// ZIP 은 MS-DOS 형식의 날짜/시각(현지 시각, 2초 단위)을 씀
+const toDosDateTime = (date: Date): { time: number; date: number } => ({
+  time:
+    (date.getHours() << 11) |
+    (date.getMinutes() << 5) |
+    Math.floor(date.getSeconds() / 2),
+  date:
+    (Math.max(date.getFullYear() - 1980, 0) << 9) |
+    ((date.getMonth() + 1) << 5) |
+    date.getDate(),
+})
+
+export const createZip = (entries: ZipEntry[]): Uint8Array => {
+  const encoder = new TextEncoder()
+  const localParts: Uint8Array[] = []
+  const centralParts: Uint8Array[] = []
+  let offset = 0
+
+  entries.forEach(entry => {
+    const name = encoder.encode(entry.name)
+    const { time, date } = toDosDateTime(entry.modifiedAt || new Date())
+    const crc = crc32(entry.data)
+
+    const local = new Uint8Array(30 + name.length)
+    const localView = new DataView(local.buffer)
+    localView.setUint32(0, 0x04034b50, true)
+    localView.setUint16(4, ZIP_VERSION, true)
+    localView.setUint16(6, UTF8_FLAG, true)
+    localView.setUint16(8, 0, true) // 압축 방식: stored
+    localView.setUint16(10, time, true)
+    localView.setUint16(12, date, true)
+    localView.setUint32(14, crc, true)
+    localView.setUint32(18, entry.data.length, true)
+    localView.setUint32(22, entry.data.length, true)
+    localView.setUint16(26, name.length, true)
+    localView.setUint16(28, 0, true)
+    local.set(name, 30)
+
+    const central = new Uint8Array(46 + name.length)
+    const centralView = new DataView(central.buffer)
+    centralView.setUint32(0, 0x02014b50, true)
+    centralView.setUint16(4, ZIP_VERSION, true)
+    centralView.setUint16(6, ZIP_VERSION, true)
+    centralView.setUint16(8, UTF8_FLAG, true)
+    centralView.setUint16(10, 0, true)
+    centralView.setUint16(12, time, true)
+    centralView.setUint16(14, date, true)
+    centralView.setUint32(16, crc, true)
+    centralView.setUint32(20, entry.data.length, true)
+    centralView.setUint32(24, entry.data.length, true)
+    centralView.setUint16(28, name.length, true)
+    // 확장 필드, 주석, 디스크 번호, 파일 속성은 모두 0
+    centralView.setUint32(42, offset, true)
+    central.set(name, 46)
+
+    localParts.push(local, entry.data)
+    centralParts.push(central)
+    offset += local.length + entry.data.length
+  })
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0)
+  const end = new Uint8Array(22)
+  const endView = new DataView(end.buffer)
+  endView.setUint32(0, 0x06054b50, true)
+  endView.setUint16(8, entries.length, true)
+  endView.setUint16(10, entries.length, true)
+  endView.setUint32(12, centralSize, true)
+  endView.setUint32(16, offset, true)
+
+  const parts = [...localParts, ...centralParts, end]
+  const zip = new Uint8Array(offset + centralSize + end.length)
+  let position = 0
+  parts.forEach(part => {
+    zip.set(part, position)
+    position += part.length
+  })
+  return zip
+}
+
+// 압축 방식
+const STORED = 0
+const DEFLATED = 8
+
+// 압축을 풀 파일 하나의 최대 크기 (잘못되었거나 악의적인 ZIP 으로 메모리가 가득 차지 않도록)
+const MAX_ENTRY_SIZE = 50 * 1024 * 1024
+
+// 중앙 디렉터리의 크기 값은 믿을 수 없으므로 실제로 풀린 바이트 수를 세며 읽음
+const inflateRaw = async (
+  data: Uint8Array,
+  name: string
+): Promise<Uint8Array> => {
+  const reader = new Blob([data])
+    .stream()
+    .pipeThrough(new DecompressionStream('deflate-raw'))
+    .getReader()
+  const chunks: Uint8Array[] = []
+  let size = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    size += value.length
+    if (size > MAX_ENTRY_SIZE) {
+      await reader.cancel()
+      throw new Error(`ZIP 안의 파일이 너무 큽니다: ${name}`)
+    }
+    chunks.push(value)
+  }
+
+  const inflated = new Uint8Array(size)
+  let offset = 0
+  for (const chunk of chunks) {
+    inflated.set(chunk, offset)
+    offset += chunk.length
+  }
+  return inflated
+}
+
+// ZIP 안의 파일 목록과 내용 (폴더 항목은 제외)
+export const readZip = async (zip: Uint8Array): Promise<ZipEntry[]> => {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength)
+
+  // 끝에서부터 central directory 끝 레코드를 찾음 (뒤에 주석이 붙어 있을 수 있음)
+  const searchStart = Math.max(0, zip.length - 22 - 0xffff)
+  let endOffset = -1
+  for (let i = zip.length - 22; i >= searchStart; i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      endOffset = i
+      break
+    }
+  }
+  if (endOffset === -1) {
+    throw new Error('ZIP 파일이 아니거나 손상된 파일입니다.')
+  }
+
+  const count = view.getUint16(endOffset + 10, true)
+  let offset = view.getUint32(endOffset + 16, true)
+  const decoder = new TextDecoder()
+  const entries: ZipEntry[] = []
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) {
+      throw new Error('ZIP 파일의 목록을 읽을 수 없습니다.')
+    }
+    const method = view.getUint16(offset + 10, true)
+    const compressedSize = view.getUint32(offset + 20, true)
+    const size = view.getUint32(offset + 24, true)
+    const nameLength = view.getUint16(offset + 28, true)
+    const extraLength = view.getUint16(offset + 30, true)
+    const commentLength = view.getUint16(offset + 32, true)
+    const localOffset = view.getUint32(offset + 42, true)
+    const name = decoder.decode(
+      zip.subarray(offset + 46, offset + 46 + nameLength)
+    )
+    offset += 46 + nameLength + extraLength + commentLength
+
+    if (name.endsWith('/')) continue
+    if (size > MAX_ENTRY_SIZE) {
+      throw new Error(`ZIP 안의 파일이 너무 큽니다: ${name}`)
+    }
+
+    // 내용의 위치는 로컬 헤더의 이름/확장 필드 길이로 계산
+    const dataOffset =
+      localOffset +
+      30 +
+      view.getUint16(localOffset + 26, true) +
+      view.getUint16(localOffset + 28, true)
+    const compressed = zip.subarray(dataOffset, dataOffset + compressedSize)
+
+    if (method === STORED) {
+      entries.push({ name, data: compressed })
+    } else if (method === DEFLATED) {
+      entries.push({ name, data: await inflateRaw(compressed, name) })
+    } else {
+      throw new Error(`지원하지 않는 ZIP 압축 방식입니다: ${name}`)
+    }
+  }
+
+  return entries
+}
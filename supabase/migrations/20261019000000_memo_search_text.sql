@@ -0,0 +1,29 @@
+-- 메모 검색용 텍스트 컬럼과 트라이그램 인덱스
+-- 한국어는 형태소 분석 없이도 부분 일치가 되도록 pg_trgm 으로 색인한다.
+
+create extension if not exists pg_trgm;
+
+-- 생성 컬럼에는 immutable 함수만 쓸 수 있으므로 감싸서 정의
+create or replace function memo_search_text(
+  title text,
+  content text,
+  summary text,
+  tags text[]
+) returns text
+language sql
+immutable
+as $$
+  select lower(
+    coalesce(title, '') || ' ' ||
+    coalesce(content, '') || ' ' ||
+    coalesce(summary, '') || ' ' ||
+    coalesce(array_to_string(tags, ' '), '')
+  )
+$$;
+
+alter table memos
+  add column if not exists search_text text
+  generated always as (memo_search_text(title, content, summary, tags)) stored;
+
+create index if not exists memos_search_text_trgm_idx
+  on memos using gin (search_text gin_trgm_ops);
@@ -0,0 +1,3 @@
+-- 메모 목록 키셋 페이지네이션 (created_at desc, id desc) 용 인덱스
+create index if not exists memos_created_at_id_idx
+  on memos (created_at desc, id desc);
@@ -0,0 +1,2 @@
+-- 여러 탭/기기 간 실시간 동기화를 위해 memos 테이블 변경을 Realtime 으로 발행
+alter publication supabase_realtime add table memos;
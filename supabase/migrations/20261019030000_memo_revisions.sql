@@ -0,0 +1,72 @@
+-- 메모 버전 기록
+-- 제목/내용/카테고리/태그가 바뀔 때마다 트리거가 새 버전을 남기므로
+-- 어떤 경로로 저장하든 이전 내용이 사라지지 않는다.
+
+alter table memos add column if not exists updated_by text;
+
+create table if not exists memo_revisions (
+  id uuid primary key default gen_random_uuid(),
+  memo_id uuid not null references memos (id) on delete cascade,
+  title text not null,
+  content text not null,
+  category text not null,
+  tags text[] not null default '{}',
+  author text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists memo_revisions_memo_id_created_at_idx
+  on memo_revisions (memo_id, created_at desc);
+
+-- 기록은 변경할 수 없음 (메모 삭제 시 함께 삭제되는 것만 허용)
+create or replace function prevent_memo_revision_update() returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'memo_revisions are immutable';
+end;
+$$;
+
+drop trigger if exists memo_revisions_immutable on memo_revisions;
+create trigger memo_revisions_immutable
+  before update on memo_revisions
+  for each row execute function prevent_memo_revision_update();
+
+create or replace function record_memo_revision() returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'UPDATE'
+    and new.title is not distinct from old.title
+    and new.content is not distinct from old.content
+    and new.category is not distinct from old.category
+    and new.tags is not distinct from old.tags then
+    return new;
+  end if;
+
+  insert into memo_revisions (memo_id, title, content, category, tags, author, created_at)
+  values (
+    new.id,
+    new.title,
+    new.content,
+    new.category,
+    coalesce(new.tags, '{}'),
+    new.updated_by,
+    new.updated_at
+  );
+  return new;
+end;
+$$;
+
+drop trigger if exists memos_record_revision on memos;
+create trigger memos_record_revision
+  after insert or update on memos
+  for each row execute function record_memo_revision();
+
+-- 기존 메모의 현재 상태를 첫 버전으로 기록
+insert into memo_revisions (memo_id, title, content, category, tags, author, created_at)
+select m.id, m.title, m.content, m.category, coalesce(m.tags, '{}'), null, m.updated_at
+from memos m
+where not exists (
+  select 1 from memo_revisions r where r.memo_id = m.id
+);
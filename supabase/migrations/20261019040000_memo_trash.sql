@@ -0,0 +1,29 @@
+-- 휴지통 (소프트 삭제)
+-- 삭제한 메모는 deleted_at 을 기록해 두고, 보관 기간이 지나면 영구 삭제한다.
+
+alter table memos add column if not exists deleted_at timestamptz;
+
+-- 목록 조회는 휴지통에 없는 메모만 읽으므로 부분 인덱스로 구성
+drop index if exists memos_created_at_id_idx;
+create index if not exists memos_active_created_at_id_idx
+  on memos (created_at desc, id desc)
+  where deleted_at is null;
+
+create index if not exists memos_deleted_at_idx
+  on memos (deleted_at)
+  where deleted_at is not null;
+
+-- 보관 기간이 지난 메모 영구 삭제 (pg_cron 등으로 주기적으로 실행)
+--   select cron.schedule('purge-memo-trash', '0 3 * * *', $$select purge_deleted_memos(interval '30 days')$$);
+create or replace function purge_deleted_memos(retention interval default interval '30 days')
+returns integer
+language sql
+as $$
+  with purged as (
+    delete from memos
+    where deleted_at is not null
+      and deleted_at < now() - retention
+    returning id
+  )
+  select count(*)::integer from purged;
+$$;
@@ -0,0 +1,49 @@
+-- 사용자별 메모 소유권
+-- 메모마다 소유자(owner_id)를 기록하고, 행 수준 보안(RLS)으로 본인 메모만 읽고 쓸 수 있게 한다.
+-- 로그인 기능 이전에 만든 메모는 owner_id 가 비어 있어 아무에게도 보이지 않으므로
+-- 필요하면 소유자를 지정한다:
+--   update memos set owner_id = '<사용자 ID>' where owner_id is null;
+
+alter table memos
+  add column if not exists owner_id uuid references auth.users (id) on delete cascade
+  default auth.uid();
+
+-- 목록 조회는 항상 소유자 조건이 붙으므로 인덱스 앞에 owner_id 추가
+drop index if exists memos_active_created_at_id_idx;
+create index if not exists memos_owner_active_created_at_id_idx
+  on memos (owner_id, created_at desc, id desc)
+  where deleted_at is null;
+
+alter table memos enable row level security;
+
+drop policy if exists "memos_select_own" on memos;
+create policy "memos_select_own" on memos
+  for select using (owner_id = auth.uid());
+
+drop policy if exists "memos_insert_own" on memos;
+create policy "memos_insert_own" on memos
+  for insert with check (owner_id = auth.uid());
+
+drop policy if exists "memos_update_own" on memos;
+create policy "memos_update_own" on memos
+  for update using (owner_id = auth.uid()) with check (owner_id = auth.uid());
+
+drop policy if exists "memos_delete_own" on memos;
+create policy "memos_delete_own" on memos
+  for delete using (owner_id = auth.uid());
+
+-- 버전 기록은 메모 소유자만 읽을 수 있음 (쓰기는 트리거만)
+alter table memo_revisions enable row level security;
+
+drop policy if exists "memo_revisions_select_own" on memo_revisions;
+create policy "memo_revisions_select_own" on memo_revisions
+  for select using (
+    exists (
+      select 1 from memos m
+      where m.id = memo_revisions.memo_id
+        and m.owner_id = auth.uid()
+    )
+  );
+
+-- 트리거가 RLS 와 관계없이 버전 기록을 남길 수 있도록 소유자 권한으로 실행
+alter function record_memo_revision() security definer set search_path = public;
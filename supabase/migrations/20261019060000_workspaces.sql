@@ -0,0 +1,146 @@
+-- 공유 워크스페이스
+-- 워크스페이스의 멤버는 소유자(owner)/편집자(editor)/뷰어(viewer) 역할을 가진다.
+-- workspace_id 가 없는 메모는 지금처럼 소유자만 보는 개인 메모다.
+-- 멤버는 이메일로 초대하며, 초대받은 사람이 같은 이메일로 로그인하면 바로 참여된다.
+
+create table if not exists workspaces (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  owner_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists workspace_members (
+  workspace_id uuid not null references workspaces (id) on delete cascade,
+  email text not null,
+  role text not null check (role in ('owner', 'editor', 'viewer')),
+  created_at timestamptz not null default now(),
+  primary key (workspace_id, email)
+);
+
+create index if not exists workspace_members_email_idx
+  on workspace_members (email);
+
+alter table memos
+  add column if not exists workspace_id uuid references workspaces (id) on delete cascade;
+
+-- 목록 조회는 워크스페이스(또는 개인 메모의 소유자) 단위로 읽음
+create index if not exists memos_workspace_active_created_at_id_idx
+  on memos (workspace_id, created_at desc, id desc)
+  where deleted_at is null;
+
+-- 현재 사용자의 워크스페이스 역할 (멤버가 아니면 null)
+-- RLS 정책 안에서 workspace_members 정책을 다시 타지 않도록 소유자 권한으로 실행
+create or replace function workspace_role(target uuid) returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role from workspace_members
+  where workspace_id = target
+    and email = lower(auth.jwt() ->> 'email');
+$$;
+
+-- 워크스페이스를 만든 사람을 소유자 멤버로 추가
+create or replace function add_workspace_owner() returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into workspace_members (workspace_id, email, role)
+  values (new.id, lower(auth.jwt() ->> 'email'), 'owner');
+  return new;
+end;
+$$;
+
+drop trigger if exists workspaces_add_owner on workspaces;
+create trigger workspaces_add_owner
+  after insert on workspaces
+  for each row execute function add_workspace_owner();
+
+alter table workspaces enable row level security;
+
+drop policy if exists "workspaces_select_member" on workspaces;
+create policy "workspaces_select_member" on workspaces
+  for select using (owner_id = auth.uid() or workspace_role(id) is not null);
+
+drop policy if exists "workspaces_insert_own" on workspaces;
+create policy "workspaces_insert_own" on workspaces
+  for insert with check (owner_id = auth.uid());
+
+drop policy if exists "workspaces_update_owner" on workspaces;
+create policy "workspaces_update_owner" on workspaces
+  for update using (owner_id = auth.uid());
+
+drop policy if exists "workspaces_delete_owner" on workspaces;
+create policy "workspaces_delete_owner" on workspaces
+  for delete using (owner_id = auth.uid());
+
+-- 멤버 목록은 같은 워크스페이스 멤버가 보고, 초대/역할 변경/내보내기는 소유자만
+alter table workspace_members enable row level security;
+
+drop policy if exists "workspace_members_select_member" on workspace_members;
+create policy "workspace_members_select_member" on workspace_members
+  for select using (workspace_role(workspace_id) is not null);
+
+drop policy if exists "workspace_members_insert_owner" on workspace_members;
+create policy "workspace_members_insert_owner" on workspace_members
+  for insert with check (workspace_role(workspace_id) = 'owner');
+
+drop policy if exists "workspace_members_update_owner" on workspace_members;
+create policy "workspace_members_update_owner" on workspace_members
+  for update using (workspace_role(workspace_id) = 'owner' and role <> 'owner')
+  with check (role <> 'owner');
+
+drop policy if exists "workspace_members_delete_owner" on workspace_members;
+create policy "workspace_members_delete_owner" on workspace_members
+  for delete using (workspace_role(workspace_id) = 'owner' and role <> 'owner');
+
+-- 메모 정책: 개인 메모는 소유자만, 워크스페이스 메모는 멤버가 읽고 편집자 이상이 쓴다
+drop policy if exists "memos_select_own" on memos;
+drop policy if exists "memos_insert_own" on memos;
+drop policy if exists "memos_update_own" on memos;
+drop policy if exists "memos_delete_own" on memos;
+
+drop policy if exists "memos_select_access" on memos;
+create policy "memos_select_access" on memos
+  for select using (
+    (workspace_id is null and owner_id = auth.uid())
+    or workspace_role(workspace_id) is not null
+  );
+
+drop policy if exists "memos_insert_access" on memos;
+create policy "memos_insert_access" on memos
+  for insert with check (
+    owner_id = auth.uid()
+    and (workspace_id is null or workspace_role(workspace_id) in ('owner', 'editor'))
+  );
+
+-- 개인 메모로 되돌리는 것은 메모를 만든 사람만 가능
+drop policy if exists "memos_update_access" on memos;
+create policy "memos_update_access" on memos
+  for update using (
+    (workspace_id is null and owner_id = auth.uid())
+    or workspace_role(workspace_id) in ('owner', 'editor')
+  )
+  with check (
+    (workspace_id is null and owner_id = auth.uid())
+    or workspace_role(workspace_id) in ('owner', 'editor')
+  );
+
+drop policy if exists "memos_delete_access" on memos;
+create policy "memos_delete_access" on memos
+  for delete using (
+    (workspace_id is null and owner_id = auth.uid())
+    or workspace_role(workspace_id) in ('owner', 'editor')
+  );
+
+-- 버전 기록은 메모를 볼 수 있는 사람이 읽음 (memos 의 RLS 가 함께 적용됨)
+drop policy if exists "memo_revisions_select_own" on memo_revisions;
+drop policy if exists "memo_revisions_select_access" on memo_revisions;
+create policy "memo_revisions_select_access" on memo_revisions
+  for select using (
+    exists (select 1 from memos m where m.id = memo_revisions.memo_id)
+  );
@@ -0,0 +1,79 @@
+-- 공개 공유 링크
+-- 토큰을 아는 사람은 로그인 없이 메모 내용과 AI 요약을 읽을 수 있다.
+-- 링크는 편집 권한이 있는 사람이 만들고 폐기하며, 만료 시각을 정할 수 있다.
+
+create table if not exists memo_share_links (
+  token text primary key,
+  memo_id uuid not null references memos (id) on delete cascade,
+  created_by uuid default auth.uid() references auth.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz,
+  revoked_at timestamptz
+);
+
+create index if not exists memo_share_links_memo_id_created_at_idx
+  on memo_share_links (memo_id, created_at desc);
+
+alter table memo_share_links enable row level security;
+
+-- 링크 목록은 메모를 볼 수 있는 사람이 읽음 (memos 의 RLS 가 함께 적용됨)
+drop policy if exists "memo_share_links_select_access" on memo_share_links;
+create policy "memo_share_links_select_access" on memo_share_links
+  for select using (
+    exists (select 1 from memos m where m.id = memo_share_links.memo_id)
+  );
+
+-- 만들기와 폐기는 메모를 편집할 수 있는 사람만
+drop policy if exists "memo_share_links_insert_editor" on memo_share_links;
+create policy "memo_share_links_insert_editor" on memo_share_links
+  for insert with check (
+    exists (
+      select 1 from memos m
+      where m.id = memo_share_links.memo_id
+        and (
+          (m.workspace_id is null and m.owner_id = auth.uid())
+          or workspace_role(m.workspace_id) in ('owner', 'editor')
+        )
+    )
+  );
+
+drop policy if exists "memo_share_links_update_editor" on memo_share_links;
+create policy "memo_share_links_update_editor" on memo_share_links
+  for update using (
+    exists (
+      select 1 from memos m
+      where m.id = memo_share_links.memo_id
+        and (
+          (m.workspace_id is null and m.owner_id = auth.uid())
+          or workspace_role(m.workspace_id) in ('owner', 'editor')
+        )
+    )
+  );
+
+-- 토큰으로 공개된 메모 조회 (익명 사용자도 호출 가능)
+-- memos 의 RLS 를 우회하므로 폐기/만료/휴지통 여부를 여기서 검사하고 공개할 필드만 돌려준다
+create or replace function get_shared_memo(share_token text)
+returns table (
+  title text,
+  content text,
+  category text,
+  tags text[],
+  summary text,
+  updated_at timestamptz
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select m.title, m.content, m.category, m.tags, m.summary, m.updated_at
+  from memo_share_links l
+  join memos m on m.id = l.memo_id
+  where l.token = share_token
+    and l.revoked_at is null
+    and (l.expires_at is null or l.expires_at > now())
+    and m.deleted_at is null;
+$$;
+
+revoke all on function get_shared_memo(text) from public;
+grant execute on function get_shared_memo(text) to anon, authenticated;
@@ -0,0 +1,93 @@
+-- 사용자 정의 카테고리
+-- 개인 메모는 사용자별로, 워크스페이스 메모는 워크스페이스별로 카테고리를 가진다.
+-- 메모의 category 컬럼에는 카테고리의 key 가 저장되며, 기본 카테고리(personal, work, ...)도
+-- 같은 key 를 사용하므로 기존 메모는 그대로 보인다. 카테고리를 처음 고칠 때 기본 카테고리가 저장된다.
+
+create table if not exists memo_categories (
+  id uuid primary key default gen_random_uuid(),
+  key text not null,
+  owner_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  workspace_id uuid references workspaces (id) on delete cascade,
+  name text not null,
+  color text not null default 'gray',
+  icon text not null default '📁',
+  position integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+-- 같은 범위(워크스페이스 또는 개인) 안에서 key 는 하나
+create unique index if not exists memo_categories_scope_key_idx
+  on memo_categories (coalesce(workspace_id, owner_id), key);
+
+-- 카테고리 재지정은 범위 안에서 category 로 메모를 찾음
+create index if not exists memos_category_idx
+  on memos (category);
+
+alter table memo_categories enable row level security;
+
+drop policy if exists "memo_categories_select_access" on memo_categories;
+create policy "memo_categories_select_access" on memo_categories
+  for select using (
+    (workspace_id is null and owner_id = auth.uid())
+    or workspace_role(workspace_id) is not null
+  );
+
+drop policy if exists "memo_categories_insert_access" on memo_categories;
+create policy "memo_categories_insert_access" on memo_categories
+  for insert with check (
+    owner_id = auth.uid()
+    and (workspace_id is null or workspace_role(workspace_id) in ('owner', 'editor'))
+  );
+
+drop policy if exists "memo_categories_update_access" on memo_categories;
+create policy "memo_categories_update_access" on memo_categories
+  for update using (
+    (workspace_id is null and owner_id = auth.uid())
+    or workspace_role(workspace_id) in ('owner', 'editor')
+  );
+
+drop policy if exists "memo_categories_delete_access" on memo_categories;
+create policy "memo_categories_delete_access" on memo_categories
+  for delete using (
+    (workspace_id is null and owner_id = auth.uid())
+    or workspace_role(workspace_id) in ('owner', 'editor')
+  );
+
+-- 공유 페이지에서도 카테고리 이름, 색상, 아이콘을 보여주도록 반환 컬럼 추가
+-- (반환 형식이 바뀌므로 다시 만듦)
+drop function if exists get_shared_memo(text);
+create function get_shared_memo(share_token text)
+returns table (
+  title text,
+  content text,
+  category text,
+  tags text[],
+  summary text,
+  updated_at timestamptz,
+  category_name text,
+  category_color text,
+  category_icon text
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select m.title, m.content, m.category, m.tags, m.summary, m.updated_at,
+    c.name, c.color, c.icon
+  from memo_share_links l
+  join memos m on m.id = l.memo_id
+  left join memo_categories c
+    on c.key = m.category
+    and (
+      c.workspace_id = m.workspace_id
+      or (m.workspace_id is null and c.workspace_id is null and c.owner_id = m.owner_id)
+    )
+  where l.token = share_token
+    and l.revoked_at is null
+    and (l.expires_at is null or l.expires_at > now())
+    and m.deleted_at is null;
+$$;
+
+revoke all on function get_shared_memo(text) from public;
+grant execute on function get_shared_memo(text) to anon, authenticated;
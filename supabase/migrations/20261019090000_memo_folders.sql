@@ -0,0 +1,54 @@
+-- 폴더(노트북)
+-- 폴더는 parent_id 로 중첩되며, 개인 메모는 사용자별로, 워크스페이스 메모는 워크스페이스별로 폴더를 가진다.
+-- folder_id 가 없는 메모는 폴더 밖에 있는 메모다.
+-- 폴더를 지우면 안에 있던 메모와 하위 폴더는 앱에서 상위 폴더로 옮기며,
+-- 직접 지워진 경우에도 외래 키가 null 로 바뀌어 최상위(폴더 밖)로 남는다.
+
+create table if not exists memo_folders (
+  id uuid primary key default gen_random_uuid(),
+  parent_id uuid references memo_folders (id) on delete set null,
+  owner_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  workspace_id uuid references workspaces (id) on delete cascade,
+  name text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists memo_folders_parent_id_idx
+  on memo_folders (parent_id);
+
+alter table memos
+  add column if not exists folder_id uuid references memo_folders (id) on delete set null;
+
+-- 폴더 필터와 폴더 삭제 시 메모 이동은 folder_id 로 메모를 찾음
+create index if not exists memos_folder_id_idx
+  on memos (folder_id);
+
+alter table memo_folders enable row level security;
+
+drop policy if exists "memo_folders_select_access" on memo_folders;
+create policy "memo_folders_select_access" on memo_folders
+  for select using (
+    (workspace_id is null and owner_id = auth.uid())
+    or workspace_role(workspace_id) is not null
+  );
+
+drop policy if exists "memo_folders_insert_access" on memo_folders;
+create policy "memo_folders_insert_access" on memo_folders
+  for insert with check (
+    owner_id = auth.uid()
+    and (workspace_id is null or workspace_role(workspace_id) in ('owner', 'editor'))
+  );
+
+drop policy if exists "memo_folders_update_access" on memo_folders;
+create policy "memo_folders_update_access" on memo_folders
+  for update using (
+    (workspace_id is null and owner_id = auth.uid())
+    or workspace_role(workspace_id) in ('owner', 'editor')
+  );
+
+drop policy if exists "memo_folders_delete_access" on memo_folders;
+create policy "memo_folders_delete_access" on memo_folders
+  for delete using (
+    (workspace_id is null and owner_id = auth.uid())
+    or workspace_role(workspace_id) in ('owner', 'editor')
+  );
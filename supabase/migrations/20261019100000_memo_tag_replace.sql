@@ -0,0 +1,36 @@
+-- 태그 일괄 변경 (이름 변경, 합치기, 삭제)
+-- 현재 범위(워크스페이스 또는 개인 메모)의 모든 메모(휴지통 포함)에서 old_tag 를 new_tag 로 바꾼다.
+-- new_tag 가 이미 붙은 메모는 하나로 합치고(처음 나온 위치 유지), new_tag 가 null 이면 태그를 지운다.
+-- 호출한 사용자의 권한으로 실행되므로 memos 의 RLS 정책(편집자 이상만 수정)이 그대로 적용된다.
+
+create index if not exists memos_tags_idx
+  on memos using gin (tags);
+
+create or replace function replace_memo_tag(
+  old_tag text,
+  new_tag text,
+  target_workspace uuid
+) returns integer
+language plpgsql
+set search_path = public
+as $$
+declare
+  replaced integer;
+begin
+  update memos m
+  set
+    tags = array(
+      select t.tag
+      from unnest(array_replace(m.tags, old_tag, new_tag)) with ordinality as t(tag, position)
+      where t.tag is not null
+      group by t.tag
+      order by min(t.position)
+    ),
+    updated_at = now()
+  where m.tags @> array[old_tag]
+    and m.workspace_id is not distinct from target_workspace;
+
+  get diagnostics replaced = row_count;
+  return replaced;
+end;
+$$;
@@ -0,0 +1,16 @@
+-- 목록 맨 위에 고정한 메모
+-- 목록은 고정한 메모를 먼저, 그다음 사용자가 고른 정렬 기준(작성일, 수정일, 제목, 카테고리)으로 읽는다.
+
+alter table memos
+  add column if not exists pinned boolean not null default false;
+
+-- 기본 정렬(작성일 내림차순) 키셋 페이지네이션 용 인덱스
+drop index if exists memos_workspace_active_created_at_id_idx;
+create index if not exists memos_workspace_active_pinned_created_at_id_idx
+  on memos (workspace_id, pinned desc, created_at desc, id desc)
+  where deleted_at is null;
+
+-- 수정일 정렬 용 인덱스 (제목, 카테고리 정렬은 메모 수가 적어 따로 두지 않음)
+create index if not exists memos_workspace_active_pinned_updated_at_id_idx
+  on memos (workspace_id, pinned desc, updated_at desc, id desc)
+  where deleted_at is null;
@@ -0,0 +1,35 @@
+-- 메모 사이 위키 링크 ([[메모 제목]]) 색인
+-- 저장할 때마다 트리거가 내용에서 링크한 제목을 뽑아 links 에 담고(앞뒤 공백 제거, 소문자),
+-- 백링크는 links 에 메모 제목이 들어 있는 메모로 찾는다. (src/utils/wikiLinks.ts 와 같은 규칙)
+
+alter table memos
+  add column if not exists links text[] not null default '{}';
+
+create or replace function extract_memo_links(content text) returns text[]
+language sql
+immutable
+as $$
+  select coalesce(array_agg(distinct lower(btrim(m[1]))), '{}')
+  from regexp_matches(coalesce(content, ''), '\[\[([^][\n]+)\]\]', 'g') as m
+  where btrim(m[1]) <> '';
+$$;
+
+create or replace function set_memo_links() returns trigger
+language plpgsql
+as $$
+begin
+  new.links := extract_memo_links(new.content);
+  return new;
+end;
+$$;
+
+drop trigger if exists memos_set_links on memos;
+create trigger memos_set_links
+  before insert or update of content on memos
+  for each row execute function set_memo_links();
+
+create index if not exists memos_links_idx
+  on memos using gin (links);
+
+-- 기존 메모의 링크 색인
+update memos set links = extract_memo_links(content);
@@ -0,0 +1,30 @@
+-- 카테고리, 폴더, 태그별 메모 수
+-- 현재 범위(워크스페이스 또는 개인 메모)에서 휴지통에 없는 메모를 센다.
+-- kind 가 'category' 면 key 는 카테고리 값, 'folder' 면 폴더 ID (폴더 밖의 메모는 null), 'tag' 면 태그.
+-- 호출한 사용자의 권한으로 실행되므로 memos 의 RLS 정책(읽을 수 있는 메모만)이 그대로 적용된다.
+
+create or replace function count_memos(target_workspace uuid)
+returns table (kind text, key text, memo_count integer)
+language sql
+stable
+set search_path = public
+as $$
+  with scoped as (
+    select m.category, m.folder_id, m.tags
+    from memos m
+    where m.deleted_at is null
+      and m.workspace_id is not distinct from target_workspace
+  )
+  select 'category', s.category, count(*)::integer
+  from scoped s
+  group by s.category
+  union all
+  select 'folder', s.folder_id::text, count(*)::integer
+  from scoped s
+  group by s.folder_id
+  union all
+  select 'tag', t.tag, count(*)::integer
+  from scoped s
+  cross join unnest(s.tags) as t(tag)
+  group by t.tag;
+$$;
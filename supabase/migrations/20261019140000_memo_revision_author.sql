@@ -0,0 +1,41 @@
+-- 버전 기록의 작성자를 로그인한 사용자로 기록
+-- 클라이언트가 보내는 updated_by 는 아무 값이나 넣을 수 있으므로 쓰지 않고,
+-- 저장을 요청한 사용자(auth.uid())의 토큰에 있는 이메일(없으면 사용자 ID)을 작성자로 남긴다.
+-- 트리거나 예약 작업처럼 사용자 없이 저장한 경우 작성자는 null 이다.
+-- create or replace 는 빠진 속성을 기본값으로 되돌리므로, memo_owner_rls 에서 지정한
+-- security definer 를 다시 적어야 RLS 가 켜진 memo_revisions 에 기록할 수 있다.
+-- (security definer 안에서도 auth.uid() 와 auth.jwt() 는 요청한 사용자의 값을 돌려줌)
+
+create or replace function record_memo_revision() returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'UPDATE'
+    and new.title is not distinct from old.title
+    and new.content is not distinct from old.content
+    and new.category is not distinct from old.category
+    and new.tags is not distinct from old.tags then
+    return new;
+  end if;
+
+  insert into memo_revisions (memo_id, title, content, category, tags, author, created_at)
+  values (
+    new.id,
+    new.title,
+    new.content,
+    new.category,
+    coalesce(new.tags, '{}'),
+    case
+      when auth.uid() is not null
+        then coalesce(auth.jwt() ->> 'email', auth.uid()::text)
+    end,
+    new.updated_at
+  );
+  return new;
+end;
+$$;
+
+-- 더 이상 쓰지 않는 클라이언트 작성자 컬럼
+alter table memos drop column if exists updated_by;
@@ -0,0 +1,54 @@
+-- 버전 기록 트리거 확인 (npx supabase test db)
+-- 로그인한 사용자로 메모를 저장해도 RLS 에 막히지 않고 버전이 남고, 작성자가 그 사용자인지 확인한다.
+
+begin;
+create extension if not exists pgtap with schema extensions;
+select plan(4);
+
+insert into auth.users (id, email)
+values ('00000000-0000-0000-0000-0000000000a1', 'writer@example.com');
+
+set local role authenticated;
+select set_config(
+  'request.jwt.claims',
+  '{"sub": "00000000-0000-0000-0000-0000000000a1", "email": "writer@example.com", "role": "authenticated"}',
+  true
+);
+
+select lives_ok(
+  $$
+    insert into memos (id, title, content, category, tags)
+    values ('00000000-0000-0000-0000-0000000000b1', '회의록', '처음', 'work', '{}')
+  $$,
+  '로그인한 사용자가 메모를 추가할 수 있다'
+);
+
+select lives_ok(
+  $$
+    update memos set content = '고친 내용', updated_at = now() + interval '1 second'
+    where id = '00000000-0000-0000-0000-0000000000b1'
+  $$,
+  '로그인한 사용자가 메모 내용을 고칠 수 있다'
+);
+
+select results_eq(
+  $$
+    select content, author from memo_revisions
+    where memo_id = '00000000-0000-0000-0000-0000000000b1'
+    order by created_at
+  $$,
+  $$
+    values ('처음'::text, 'writer@example.com'::text),
+           ('고친 내용'::text, 'writer@example.com'::text)
+  $$,
+  '저장할 때마다 저장한 사용자를 작성자로 버전이 남는다'
+);
+
+select is(
+  (select prosecdef from pg_proc where proname = 'record_memo_revision'),
+  true,
+  '버전 기록 트리거는 소유자 권한으로 실행된다'
+);
+
+select * from finish();
+rollback;
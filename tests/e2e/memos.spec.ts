@@ -0,0 +1,63 @@
+import { expect, Page, test } from '@playwright/test'
+
+// webServer 는 인메모리 저장소와 로컬 인증으로 실행됨 (playwright.config.ts)
+
+const signIn = async (page: Page) => {
+  await page.goto('/')
+  await page.getByLabel('이메일').fill('e2e@example.com')
+  await page.getByRole('button', { name: '로그인', exact: true }).click()
+  await expect(page.getByRole('button', { name: '새 메모' })).toBeEnabled()
+}
+
+const createMemo = async (page: Page, title: string, content: string) => {
+  await page.getByRole('button', { name: '새 메모' }).click()
+  await page.getByLabel('제목 *').fill(title)
+  await page.locator('.w-md-editor-text-input').fill(content)
+  await page.getByRole('button', { name: '저장하기' }).click()
+  await expect(page.getByRole('heading', { name: '새 메모 작성' })).toBeHidden()
+}
+
+test.beforeEach(async ({ page }) => {
+  await signIn(page)
+})
+
+test('메모를 만들면 목록에 나타난다', async ({ page }) => {
+  const title = `E2E 메모 ${Date.now()}`
+  await createMemo(page, title, '인메모리 저장소에 저장되는 메모')
+
+  await expect(page.getByRole('heading', { name: title })).toBeVisible()
+})
+
+test('검색어로 메모를 거를 수 있다', async ({ page }) => {
+  const suffix = Date.now()
+  await createMemo(page, `사과 ${suffix}`, '빨간 과일')
+  await createMemo(page, `바나나 ${suffix}`, '노란 과일')
+
+  await page.getByPlaceholder(/메모 검색/).fill(`사과 ${suffix}`)
+
+  await expect(
+    page.getByRole('heading', { name: `사과 ${suffix}` })
+  ).toBeVisible()
+  await expect(
+    page.getByRole('heading', { name: `바나나 ${suffix}` })
+  ).toBeHidden()
+})
+
+test('삭제한 메모는 휴지통으로 옮겨진다', async ({ page }) => {
+  const title = `지울 메모 ${Date.now()}`
+  await createMemo(page, title, '휴지통으로 옮길 메모')
+
+  page.once('dialog', dialog => dialog.accept())
+  // 제목과 삭제 버튼을 함께 담은 가장 안쪽 요소 (메모 카드의 헤더)
+  await page
+    .locator('div')
+    .filter({ has: page.getByRole('heading', { name: title }) })
+    .filter({ has: page.getByTitle('삭제') })
+    .last()
+    .getByTitle('삭제')
+    .click()
+  await expect(page.getByRole('heading', { name: title })).toBeHidden()
+
+  await page.getByRole('button', { name: /^휴지통/ }).click()
+  await expect(page.getByRole('heading', { name: title })).toBeVisible()
+})
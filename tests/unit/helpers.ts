@@ -0,0 +1,32 @@
+import './setup'
+import { v4 as uuidv4 } from 'uuid'
+import { Memo } from '@/types/memo'
+import { getMemoStore } from '@/utils/memoStore'
+
+// 테스트용 메모 (지정하지 않은 필드는 기본값)
+export const createTestMemo = (overrides: Partial<Memo> = {}): Memo => {
+  const now = new Date().toISOString()
+  return {
+    id: uuidv4(),
+    title: '테스트 메모',
+    content: '테스트 내용',
+    category: 'personal',
+    tags: [],
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  }
+}
+
+// 같은 워커에서 실행되는 테스트끼리 데이터가 섞이지 않도록 저장소와 LocalStorage 비우기
+export const resetMemoStore = async (): Promise<void> => {
+  const store = getMemoStore()
+  const memos = [
+    ...(await store.getMemos()),
+    ...(await store.getDeletedMemos()),
+  ]
+  for (const memo of memos) {
+    await store.purgeMemo(memo.id)
+  }
+  localStorage.clear()
+}
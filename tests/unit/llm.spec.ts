@@ -0,0 +1,41 @@
+import './setup'
+import { expect, test } from '@playwright/test'
+import { getLlmProvider, llmProviderName } from '@/lib/llm'
+
+const memo = {
+  title: 'React 상태 관리 정리',
+  content: 'useState와 useReducer를 비교했다. 다음에는 Context를 본다.',
+}
+
+test('LLM_PROVIDER=mock 이면 mock 제공자를 사용한다', () => {
+  expect(llmProviderName).toBe('mock')
+})
+
+test('mock 태그 응답은 프롬프트가 아니라 요청 종류와 메모 제목으로 만든다', async () => {
+  const text = await getLlmProvider().generateText({
+    task: 'tags',
+    memo,
+    // 프롬프트 내용과 관계없이 같은 응답
+    prompt: '아무 프롬프트',
+    maxOutputTokens: 200,
+  })
+
+  expect(JSON.parse(text)).toEqual(['React', '상태', '관리'])
+})
+
+test('mock 요약은 메모 내용의 첫 문장을 조각으로 나눠 스트리밍한다', async () => {
+  const chunks = await getLlmProvider().streamText({
+    task: 'summary',
+    memo,
+    prompt: 'JSON 배열로 답하세요.\n내용: 프롬프트 속 내용',
+    maxOutputTokens: 500,
+  })
+
+  const pieces: string[] = []
+  for await (const piece of chunks) {
+    pieces.push(piece)
+  }
+
+  expect(pieces.length).toBeGreaterThan(1)
+  expect(pieces.join('')).toBe('[mock] useState와 useReducer를 비교했다.')
+})
@@ -0,0 +1,84 @@
+import { createTestMemo, resetMemoStore } from './helpers'
+import { expect, test } from '@playwright/test'
+import { getMemoStore } from '@/utils/memoStore'
+import { listBackups } from '@/utils/backupStore'
+import {
+  createMemoBackup,
+  diffMemoBackup,
+  previewMemoBackup,
+  restoreMemoBackup,
+} from '@/utils/memoBackup'
+
+const store = getMemoStore()
+
+test.beforeEach(async () => {
+  await resetMemoStore()
+})
+
+test('백업과 현재 메모를 비교해 다시 만들, 되돌릴, 휴지통으로 옮길 메모를 나눈다', () => {
+  const kept = createTestMemo({ title: '그대로' })
+  const edited = createTestMemo({ title: '고칠 메모' })
+  const purged = createTestMemo({ title: '지운 메모' })
+  const created = createTestMemo({ title: '새 메모' })
+  const trashed = createTestMemo({
+    title: '이미 휴지통',
+    deletedAt: new Date().toISOString(),
+  })
+
+  const diff = diffMemoBackup(
+    [kept, edited, purged],
+    [
+      // 수정 시각만 다른 메모는 바뀌지 않은 것으로 봄
+      { ...kept, updatedAt: new Date(Date.now() + 1000).toISOString() },
+      { ...edited, content: '고친 내용' },
+      created,
+      trashed,
+    ]
+  )
+
+  expect(diff.added.map(memo => memo.title)).toEqual(['지운 메모'])
+  expect(diff.changed.map(({ backup }) => backup.title)).toEqual(['고칠 메모'])
+  expect(diff.removed.map(memo => memo.title)).toEqual(['새 메모'])
+  expect(diff.unchangedCount).toBe(1)
+})
+
+test('백업을 복원하면 백업 때 상태로 돌아가고 복원 직전 상태도 백업한다', async () => {
+  const edited = await store.addMemo(createTestMemo({ title: '고칠 메모' }))
+  const trashed = await store.addMemo(createTestMemo({ title: '지울 메모' }))
+  const purged = await store.addMemo(createTestMemo({ title: '없앨 메모' }))
+  const backup = await createMemoBackup('manual')
+
+  await store.updateMemo({
+    ...edited,
+    content: '고친 내용',
+    updatedAt: new Date(Date.now() + 1000).toISOString(),
+  })
+  await store.deleteMemo(trashed.id)
+  await store.deleteMemo(purged.id)
+  await store.purgeMemo(purged.id)
+  const created = await store.addMemo(createTestMemo({ title: '새 메모' }))
+
+  const preview = await previewMemoBackup(backup.id)
+  expect(preview.added.map(memo => memo.id)).toEqual([purged.id])
+  expect(preview.removed.map(memo => memo.id)).toEqual([created.id])
+
+  await restoreMemoBackup(backup.id)
+
+  const titles = (await store.getMemos()).map(memo => memo.title).sort()
+  expect(titles).toEqual(['고칠 메모', '없앨 메모', '지울 메모'].sort())
+  expect((await store.getMemoById(edited.id))?.content).toBe(edited.content)
+  // 백업에 없던 메모는 영구 삭제하지 않고 휴지통으로
+  expect((await store.getDeletedMemos()).map(memo => memo.id)).toEqual([
+    created.id,
+  ])
+  expect(listBackups().map(summary => summary.reason)).toEqual([
+    'beforeRestore',
+    'manual',
+  ])
+})
+
+test('없는 백업은 복원할 수 없다', async () => {
+  await expect(restoreMemoBackup('missing')).rejects.toThrow(
+    '백업을 찾을 수 없습니다.'
+  )
+})
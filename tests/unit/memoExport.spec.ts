@@ -0,0 +1,65 @@
+import { createTestMemo, resetMemoStore } from './helpers'
+import { expect, test } from '@playwright/test'
+import { Category, DEFAULT_CATEGORY_LIST } from '@/types/category'
+import { getMemoStore, MemoStore } from '@/utils/memoStore'
+import { collectMemosForExport } from '@/utils/memoExport'
+
+const store = getMemoStore()
+
+test.beforeEach(async () => {
+  await resetMemoStore()
+})
+
+test('한 페이지보다 많은 메모도 모두 내보낸다', async () => {
+  for (let index = 0; index < 520; index++) {
+    await store.addMemo(createTestMemo({ title: `메모 ${index}` }))
+  }
+
+  expect(await collectMemosForExport(store)).toHaveLength(520)
+})
+
+test('검색어가 있으면 맞는 메모만 검색 순위 순으로 내보낸다', async () => {
+  await store.addMemo(createTestMemo({ title: '사과', content: '과일' }))
+  await store.addMemo(createTestMemo({ title: '바나나', content: '사과 맛' }))
+  await store.addMemo(createTestMemo({ title: '포도', content: '보라색' }))
+
+  const memos = await collectMemosForExport(store, { query: '사과' })
+  expect(memos.map(memo => memo.title)).toEqual(['사과', '바나나'])
+})
+
+test('검색어의 category: 조건은 넘긴 범위의 카테고리 이름으로 내보낸다', async () => {
+  const categories: Category[] = [
+    ...DEFAULT_CATEGORY_LIST,
+    {
+      id: 'minutes',
+      name: '회의록',
+      color: 'red',
+      icon: '📝',
+      position: DEFAULT_CATEGORY_LIST.length,
+    },
+  ]
+  await store.addMemo(
+    createTestMemo({ title: '주간 회의', category: 'minutes' })
+  )
+  await store.addMemo(createTestMemo({ title: '개인 일기' }))
+
+  const options = { query: 'category:회의록', categories }
+  expect(
+    (await collectMemosForExport(store, options)).map(memo => memo.title)
+  ).toEqual(['주간 회의'])
+
+  // 서버 검색이 잘린 경우 전체 메모로 순위를 다시 매길 때도 같은 카테고리를 씀
+  const truncatedStore: Pick<MemoStore, 'getMemosPage' | 'searchMemos'> = {
+    getMemosPage: options => store.getMemosPage(options),
+    searchMemos: async (query, options) => ({
+      ...(await store.searchMemos(query, options)),
+      hits: [],
+      truncated: true,
+    }),
+  }
+  expect(
+    (await collectMemosForExport(truncatedStore, options)).map(
+      memo => memo.title
+    )
+  ).toEqual(['주간 회의'])
+})
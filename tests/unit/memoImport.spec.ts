@@ -0,0 +1,162 @@
+import { createTestMemo } from './helpers'
+import { expect, test } from '@playwright/test'
+import { Category, DEFAULT_CATEGORY_LIST } from '@/types/category'
+import { createMemoExport } from '@/utils/memoExport'
+import {
+  buildImportPreview,
+  MemoImportFile,
+  readImportFiles,
+} from '@/utils/memoImport'
+
+const encoder = new TextEncoder()
+
+const toFile = (name: string, text: string): MemoImportFile => ({
+  name,
+  data: encoder.encode(text),
+})
+
+test('front matter 가 있는 Markdown 의 제목, 카테고리, 태그, 날짜를 읽는다', async () => {
+  const { memos, errors } = await readImportFiles([
+    toFile(
+      'meeting.md',
+      [
+        '---',
+        'title: 주간 회의',
+        'category: work',
+        'tags: [회의, "2026"]',
+        'createdAt: 2026-01-02T03:04:05.000Z',
+        '---',
+        '',
+        '회의 내용',
+      ].join('\n')
+    ),
+  ])
+
+  expect(errors).toEqual([])
+  expect(memos).toMatchObject([
+    {
+      data: {
+        title: '주간 회의',
+        content: '회의 내용',
+        category: 'work',
+        tags: ['회의', '2026'],
+      },
+      createdAt: '2026-01-02T03:04:05.000Z',
+      source: 'markdown',
+    },
+  ])
+})
+
+test('front matter 가 없으면 첫 제목 줄을 제목으로 쓴다', async () => {
+  const { memos } = await readImportFiles([
+    toFile('note.md', '# 장보기\n\n- 우유\n- 달걀'),
+  ])
+
+  expect(memos[0].data).toMatchObject({
+    title: '장보기',
+    content: '- 우유\n- 달걀',
+    category: 'other',
+  })
+})
+
+test('Notion 페이지의 속성과 페이지 링크를 옮긴다', async () => {
+  const { memos } = await readImportFiles([
+    toFile(
+      `여행 계획 ${'0123456789abcdef'.repeat(2)}.md`,
+      [
+        '# 여행 계획',
+        '',
+        'Tags: 여행, 휴가',
+        '',
+        `[숙소](%EC%88%99%EC%86%8C%20${'a'.repeat(32)}.md) 예약하기`,
+      ].join('\n')
+    ),
+  ])
+
+  expect(memos[0]).toMatchObject({
+    data: { title: '여행 계획', tags: ['여행', '휴가'] },
+    source: 'notion',
+  })
+  expect(memos[0].data.content).toBe('[[숙소]] 예약하기')
+})
+
+test('이 앱에서 내보낸 ZIP 과 JSON 을 다시 가져올 수 있다', async () => {
+  const exported = [
+    createTestMemo({ title: '첫째', content: '내용 1', tags: ['a'] }),
+    createTestMemo({ title: '둘째', content: '내용 2', category: 'study' }),
+  ]
+
+  for (const format of ['zip', 'json'] as const) {
+    const file = createMemoExport(exported, format)
+    const { memos, errors } = await readImportFiles([
+      { name: file.fileName, data: file.data },
+    ])
+
+    expect(errors).toEqual([])
+    expect(
+      memos
+        .map(memo => memo.data)
+        .sort((a, b) => a.title.localeCompare(b.title, 'ko'))
+    ).toEqual([
+      { title: '둘째', content: '내용 2', category: 'study', tags: [] },
+      { title: '첫째', content: '내용 1', category: 'personal', tags: ['a'] },
+    ])
+  }
+})
+
+test('지원하지 않는 파일과 읽을 수 없는 파일은 오류로 알려 준다', async () => {
+  const { memos, errors } = await readImportFiles([
+    toFile('photo.png', ''),
+    toFile('broken.json', '{'),
+  ])
+
+  expect(memos).toEqual([])
+  expect(errors.map(error => error.fileName)).toEqual([
+    'photo.png',
+    'broken.json',
+  ])
+})
+
+test('저장된 메모나 함께 가져오는 파일과 겹치는 메모를 표시한다', async () => {
+  const existing = [createTestMemo({ title: '회의록', content: '내용' })]
+  const { memos } = await readImportFiles([
+    toFile('a.md', '# 회의록\n\n내용'),
+    toFile('b.md', '# 회의록\n\n다른 내용'),
+    toFile('c.md', '# 새 메모\n\n내용'),
+    toFile('d.md', '# 새 메모\n\n내용'),
+  ])
+
+  const { items } = buildImportPreview(memos, existing, DEFAULT_CATEGORY_LIST)
+  expect(items.map(item => item.status)).toEqual([
+    'duplicate',
+    'sameTitle',
+    'new',
+    'duplicate',
+  ])
+  expect(items[3].duplicateOf).toEqual({ title: '새 메모', fileName: 'c.md' })
+})
+
+test('가져온 카테고리는 현재 범위의 카테고리 키나 이름으로 맞춘다', async () => {
+  const categories: Category[] = [
+    ...DEFAULT_CATEGORY_LIST,
+    { id: 'recipe-id', name: '요리', color: 'orange', icon: '🛒', position: 5 },
+  ]
+  const { memos } = await readImportFiles(
+    ['work', '업무', '요리', 'Recipe-ID', '없는 카테고리'].map(
+      (category, index) =>
+        toFile(
+          `${index}.md`,
+          `---\ntitle: 메모 ${index}\ncategory: ${category}\n---\n`
+        )
+    )
+  )
+
+  const { items } = buildImportPreview(memos, [], categories)
+  expect(items.map(item => item.memo.data.category)).toEqual([
+    'work',
+    'work',
+    'recipe-id',
+    'recipe-id',
+    'other',
+  ])
+})
@@ -0,0 +1,67 @@
+import { expect, test } from '@playwright/test'
+import { MemoFormData } from '@/types/memo'
+import { mergeMemoFormData } from '@/utils/memoMerge'
+import { CONFLICT_MARKERS, mergeText } from '@/utils/textDiff'
+
+const base: MemoFormData = {
+  title: '회의록',
+  content: '첫째 줄\n둘째 줄\n셋째 줄',
+  category: 'work',
+  tags: ['회의', '2026'],
+}
+
+test('서로 다른 줄을 고친 두 변경은 충돌 없이 합쳐진다', () => {
+  const result = mergeText(
+    base.content,
+    '첫째 줄 (내 수정)\n둘째 줄\n셋째 줄',
+    '첫째 줄\n둘째 줄\n셋째 줄 (다른 곳의 수정)'
+  )
+
+  expect(result).toEqual({
+    text: '첫째 줄 (내 수정)\n둘째 줄\n셋째 줄 (다른 곳의 수정)',
+    hasConflicts: false,
+  })
+})
+
+test('같은 줄을 다르게 고치면 충돌 마커를 남긴다', () => {
+  const result = mergeText(
+    base.content,
+    '첫째 줄\n내 둘째 줄\n셋째 줄',
+    '첫째 줄\n다른 둘째 줄\n셋째 줄'
+  )
+
+  expect(result.hasConflicts).toBe(true)
+  expect(result.text).toBe(
+    [
+      '첫째 줄',
+      CONFLICT_MARKERS.start,
+      '내 둘째 줄',
+      CONFLICT_MARKERS.separator,
+      '다른 둘째 줄',
+      CONFLICT_MARKERS.end,
+      '셋째 줄',
+    ].join('\n')
+  )
+})
+
+test('한쪽만 바꾼 필드는 그 값을, 양쪽이 바꾼 필드는 내 값을 쓴다', () => {
+  const result = mergeMemoFormData(
+    base,
+    { ...base, title: '내 제목', category: 'personal' },
+    { ...base, category: 'study' }
+  )
+
+  expect(result.data.title).toBe('내 제목')
+  expect(result.data.category).toBe('personal')
+  expect(result.hasConflicts).toBe(false)
+})
+
+test('태그는 양쪽에서 추가한 것을 모두 남기고 한쪽에서라도 지운 것은 뺀다', () => {
+  const result = mergeMemoFormData(
+    base,
+    { ...base, tags: ['회의', '2026', '중요'] },
+    { ...base, tags: ['회의', '프로젝트'] }
+  )
+
+  expect(result.data.tags).toEqual(['회의', '중요', '프로젝트'])
+})
@@ -0,0 +1,129 @@
+import { createTestMemo, resetMemoStore } from './helpers'
+import { expect, test } from '@playwright/test'
+import { Memo } from '@/types/memo'
+import { UNFILED_FOLDER } from '@/types/folder'
+import { getMemoStore } from '@/utils/memoStore'
+import { MemoCursor, MemoPage, readAllMemoPages } from '@/utils/memoPagination'
+import { compareSortKeys, MemoSort, toSortKey } from '@/utils/memoSort'
+
+const store = getMemoStore()
+
+// 같은 작성 시각의 메모가 여럿 있어도 ID 로 순서가 정해지는지 보기 위해 시각을 겹치게 만듦
+const addMemos = async (count: number): Promise<Memo[]> => {
+  const memos: Memo[] = []
+  for (let index = 0; index < count; index++) {
+    const createdAt = new Date(
+      Date.UTC(2026, 0, 1 + Math.floor(index / 2))
+    ).toISOString()
+    memos.push(
+      await store.addMemo(
+        createTestMemo({
+          title: `메모 ${String(index).padStart(2, '0')}`,
+          createdAt,
+          updatedAt: createdAt,
+        })
+      )
+    )
+  }
+  return memos
+}
+
+// 커서를 따라 끝까지 읽은 메모 ID
+const readPages = async (sort: MemoSort, limit: number) => {
+  const ids: string[] = []
+  let cursor: MemoCursor | null = null
+  let pages = 0
+  do {
+    const page: MemoPage = await store.getMemosPage({ cursor, limit, sort })
+    ids.push(...page.memos.map(memo => memo.id))
+    cursor = page.nextCursor
+    pages += 1
+  } while (cursor)
+  return { ids, pages }
+}
+
+test.beforeEach(async () => {
+  await resetMemoStore()
+})
+
+test('커서를 따라가면 빠지거나 겹치는 메모 없이 정렬 순서대로 모두 읽는다', async () => {
+  const memos = await addMemos(11)
+
+  for (const sort of [
+    { field: 'createdAt', direction: 'desc' },
+    { field: 'createdAt', direction: 'asc' },
+    { field: 'title', direction: 'asc' },
+  ] as MemoSort[]) {
+    const { ids, pages } = await readPages(sort, 4)
+    const expected = memos
+      .slice()
+      .sort((a, b) =>
+        compareSortKeys(toSortKey(a, sort), toSortKey(b, sort), sort)
+      )
+      .map(memo => memo.id)
+
+    expect(ids).toEqual(expected)
+    expect(pages).toBe(3)
+  }
+})
+
+test('고정한 메모는 정렬 기준과 관계없이 첫 페이지 맨 앞에 온다', async () => {
+  const memos = await addMemos(5)
+  await store.setMemoPinned(memos[0].id, true)
+
+  const page = await store.getMemosPage({ limit: 2 })
+  expect(page.memos[0].id).toBe(memos[0].id)
+  expect(page.total).toBe(5)
+})
+
+test('휴지통에 있는 메모는 페이지에 나오지 않는다', async () => {
+  const memos = await addMemos(3)
+  await store.deleteMemo(memos[1].id)
+
+  expect((await readAllMemoPages(store)).map(memo => memo.id).sort()).toEqual(
+    [memos[0].id, memos[2].id].sort()
+  )
+})
+
+test('마지막 페이지는 다음 커서가 없다', async () => {
+  await addMemos(4)
+
+  const first = await store.getMemosPage({ limit: 4 })
+  expect(first.memos).toHaveLength(4)
+  expect(first.nextCursor).toBeNull()
+})
+
+test('필터를 주면 불러오지 않은 페이지까지 필터에 맞는 메모만 페이지로 나눈다', async () => {
+  const memos = await addMemos(9)
+  // 필터에 맞는 메모가 전체 목록의 앞뒤 페이지에 흩어지도록 가장 오래된 셋과 최신 하나를 바꿈
+  const matching = memos.slice(0, 3)
+  for (const memo of matching) {
+    await store.updateMemo({
+      ...memo,
+      category: 'work',
+      tags: ['회의', '정리'],
+    })
+  }
+  await store.updateMemo({
+    ...memos[8],
+    category: 'work',
+    folderId: 'folder-1',
+  })
+
+  const first = await store.getMemosPage({ limit: 2, category: 'work' })
+  expect(first.total).toBe(4)
+  expect(first.nextCursor).not.toBeNull()
+  expect(first.memos.every(memo => memo.category === 'work')).toBe(true)
+
+  const tagged = await readAllMemoPages(store, {
+    folder: UNFILED_FOLDER,
+    tags: ['회의', '없는 태그'],
+    tagMode: 'or',
+  })
+  expect(tagged.map(memo => memo.id).sort()).toEqual(
+    matching.map(memo => memo.id).sort()
+  )
+  expect(
+    await readAllMemoPages(store, { tags: ['회의', '없는 태그'] })
+  ).toHaveLength(0)
+})
@@ -0,0 +1,125 @@
+import { createTestMemo, resetMemoStore } from './helpers'
+import { expect, test } from '@playwright/test'
+import { getMemoStore, memoStoreBackend } from '@/utils/memoStore'
+import { MemoConflictError } from '@/utils/memoErrors'
+import { UNFILED_FOLDER } from '@/types/folder'
+import { setCurrentWorkspaceId } from '@/utils/workspaceScope'
+
+const store = getMemoStore()
+
+test.beforeEach(async () => {
+  await resetMemoStore()
+})
+
+test('NEXT_PUBLIC_MEMO_STORE=memory 이면 인메모리 저장소를 사용한다', () => {
+  expect(memoStoreBackend).toBe('memory')
+})
+
+test('메모를 추가, 조회, 수정할 수 있다', async () => {
+  const memo = await store.addMemo(createTestMemo({ title: '첫 메모' }))
+
+  expect(await store.getMemos()).toEqual([memo])
+  expect(await store.getMemoById(memo.id)).toEqual(memo)
+
+  const updatedAt = new Date(Date.now() + 1000).toISOString()
+  const updated = await store.updateMemo({
+    ...memo,
+    content: '고친 내용',
+    updatedAt,
+  })
+
+  expect(updated.content).toBe('고친 내용')
+  expect((await store.getMemoById(memo.id))?.content).toBe('고친 내용')
+})
+
+test('다른 곳에서 먼저 수정했으면 MemoConflictError 가 발생한다', async () => {
+  const memo = await store.addMemo(createTestMemo())
+  const seenUpdatedAt = memo.updatedAt
+
+  await store.updateMemo({
+    ...memo,
+    content: '다른 탭의 수정',
+    updatedAt: new Date(Date.now() + 1000).toISOString(),
+  })
+
+  const error = await store
+    .updateMemo({ ...memo, content: '이 탭의 수정' }, seenUpdatedAt)
+    .catch(err => err)
+
+  expect(error).toBeInstanceOf(MemoConflictError)
+  expect((error as MemoConflictError).currentMemo.content).toBe(
+    '다른 탭의 수정'
+  )
+})
+
+test('삭제한 메모는 휴지통으로 옮겨지고 복원하거나 영구 삭제할 수 있다', async () => {
+  const memo = await store.addMemo(createTestMemo())
+
+  await store.deleteMemo(memo.id)
+  expect(await store.getMemos()).toEqual([])
+  expect((await store.getDeletedMemos()).map(({ id }) => id)).toEqual([memo.id])
+
+  await store.restoreMemo(memo.id)
+  expect((await store.getMemos()).map(({ id }) => id)).toEqual([memo.id])
+
+  await store.deleteMemo(memo.id)
+  await store.purgeMemo(memo.id)
+  expect(await store.getDeletedMemos()).toEqual([])
+  expect(await store.getMemoById(memo.id)).toBeNull()
+})
+
+test('수정할 때마다 버전 기록이 남는다', async () => {
+  const memo = await store.addMemo(createTestMemo({ content: '처음' }))
+  await store.updateMemo({
+    ...memo,
+    content: '두 번째',
+    updatedAt: new Date(Date.now() + 1000).toISOString(),
+  })
+
+  const revisions = await store.getRevisions(memo.id)
+  expect(revisions.map(revision => revision.content).sort()).toEqual([
+    '두 번째',
+    '처음',
+  ])
+})
+
+test('카테고리, 폴더, 태그별 개수는 휴지통에 있는 메모를 빼고 센다', async () => {
+  await store.addMemo(createTestMemo({ category: 'work', tags: ['a', 'b'] }))
+  await store.addMemo(
+    createTestMemo({ category: 'work', folderId: 'folder-1', tags: ['a'] })
+  )
+  const trashed = await store.addMemo(
+    createTestMemo({ category: 'study', tags: ['c'] })
+  )
+  await store.deleteMemo(trashed.id)
+
+  expect(await store.getMemoCounts()).toEqual({
+    byCategory: { work: 2 },
+    byFolder: { [UNFILED_FOLDER]: 1, 'folder-1': 1 },
+    byTag: [
+      { tag: 'a', count: 2 },
+      { tag: 'b', count: 1 },
+    ],
+  })
+})
+
+test('보관 기간이 지난 휴지통 정리는 지금 보고 있는 범위의 메모만 지운다', async () => {
+  const deletedAt = new Date(Date.now() - 1000).toISOString()
+  const personal = await store.addMemo(createTestMemo({ deletedAt }))
+  const other = await store.addMemo(
+    createTestMemo({ workspaceId: 'workspace-1', deletedAt })
+  )
+
+  expect(await store.purgeExpiredMemos(new Date().toISOString())).toBe(1)
+  expect(await store.getMemoById(personal.id)).toBeNull()
+
+  setCurrentWorkspaceId('workspace-1')
+  try {
+    expect((await store.getDeletedMemos()).map(({ id }) => id)).toEqual([
+      other.id,
+    ])
+    await store.purgeMemo(other.id)
+  } finally {
+    setCurrentWorkspaceId(null)
+  }
+})
@@ -0,0 +1,87 @@
+import { createTestMemo, resetMemoStore } from './helpers'
+import { expect, test } from '@playwright/test'
+import { offlineStore } from '@/utils/offlineStore'
+import { localStorageUtils } from '@/utils/localStorage'
+import { syncQueue } from '@/utils/syncQueue'
+
+// Supabase 환경 변수가 없으므로 온라인 상태에서의 동기화는 항상 실패함
+const setOnline = (onLine: boolean) => {
+  Object.defineProperty(globalThis, 'navigator', {
+    value: { onLine },
+    configurable: true,
+  })
+}
+
+test.beforeEach(async () => {
+  setOnline(false)
+  await resetMemoStore()
+})
+
+test('오프라인에서 추가한 메모는 로컬에 저장되고 동기화 큐에 쌓인다', async () => {
+  const memo = await offlineStore.addMemo(createTestMemo())
+
+  expect(await offlineStore.getMemos()).toEqual([memo])
+  expect(syncQueue.getPending()).toMatchObject([
+    { type: 'add', memo: { id: memo.id } },
+  ])
+})
+
+test('아직 동기화하지 않은 메모의 수정은 대기 중인 추가에 합쳐진다', async () => {
+  const memo = await offlineStore.addMemo(createTestMemo())
+  await offlineStore.updateMemo({ ...memo, title: '고친 제목' })
+
+  const pending = syncQueue.getPending()
+  expect(pending).toHaveLength(1)
+  expect(pending[0]).toMatchObject({
+    type: 'add',
+    memo: { title: '고친 제목' },
+  })
+})
+
+test('아직 동기화하지 않은 메모를 영구 삭제하면 대기 중인 변경도 취소된다', async () => {
+  const memo = await offlineStore.addMemo(createTestMemo())
+  await offlineStore.deleteMemo(memo.id)
+  await offlineStore.purgeMemo(memo.id)
+
+  expect(syncQueue.getPending()).toEqual([])
+  expect(localStorageUtils.readMemos()).toEqual([])
+})
+
+test('여러 번 실패한 변경은 버리지 않고 멈춰 두었다가 다시 시도할 수 있다', async () => {
+  const memo = await offlineStore.addMemo(createTestMemo())
+
+  setOnline(true)
+  for (let attempt = 0; attempt < 6; attempt++) {
+    await offlineStore.sync?.()
+  }
+
+  const [parked] = syncQueue.getFailed()
+  expect(parked).toMatchObject({ type: 'add', attempts: 5 })
+  expect(parked.lastError).toBeTruthy()
+  // 멈춘 뒤에는 자동으로 다시 시도하지 않지만 큐에는 남아 로컬 수정을 보호함
+  expect(syncQueue.getPendingMemoIds()).toEqual([memo.id])
+  expect(localStorageUtils.readMemos().map(({ id }) => id)).toEqual([memo.id])
+
+  setOnline(false)
+  await offlineStore.retryFailedSync?.()
+  expect(syncQueue.getFailed()).toEqual([])
+  expect(syncQueue.getPending()).toMatchObject([{ attempts: 0 }])
+})
+
+test('멈춘 메모를 다시 수정하면 처음부터 다시 동기화한다', async () => {
+  const memo = await offlineStore.addMemo(createTestMemo())
+
+  setOnline(true)
+  for (let attempt = 0; attempt < 5; attempt++) {
+    await offlineStore.sync?.()
+  }
+  expect(syncQueue.getFailed()).toHaveLength(1)
+
+  setOnline(false)
+  await offlineStore.updateMemo({ ...memo, content: '다시 고친 내용' })
+
+  expect(syncQueue.getFailed()).toEqual([])
+  expect(syncQueue.getPending()).toMatchObject([
+    { attempts: 0, memo: { content: '다시 고친 내용' } },
+  ])
+})
@@ -0,0 +1,114 @@
+import { createTestMemo } from './helpers'
+import { expect, test } from '@playwright/test'
+import { Category, DEFAULT_CATEGORY_LIST } from '@/types/category'
+import { searchMemoCollection } from '@/utils/memoSearch'
+import { parseSearchQuery } from '@/utils/searchQuery'
+
+const categories: Category[] = [
+  ...DEFAULT_CATEGORY_LIST.map(category =>
+    category.id === 'work' ? { ...category, name: '회사' } : category
+  ),
+  { id: 'recipe-id', name: '요리', color: 'orange', icon: '🛒', position: 5 },
+]
+
+const memos = [
+  createTestMemo({ title: '회의록', category: 'work' }),
+  createTestMemo({ title: '김치찌개', category: 'recipe-id' }),
+  createTestMemo({ title: '일기', category: 'personal' }),
+]
+
+const searchTitles = (query: string, scopeCategories?: Category[]) =>
+  searchMemoCollection(memos, query, {
+    categories: scopeCategories,
+  }).hits.map(hit => hit.memo.title)
+
+test('category: 는 현재 범위에서 쓰는 카테고리 이름으로 찾는다', () => {
+  expect(searchTitles('category:회사', categories)).toEqual(['회의록'])
+  expect(searchTitles('category:요리', categories)).toEqual(['김치찌개'])
+  // 이름을 바꾼 기본 카테고리는 예전 이름으로 찾지 않음
+  expect(searchTitles('category:업무', categories)).toEqual([])
+})
+
+test('category: 는 카테고리 키로도 찾는다', () => {
+  expect(searchTitles('category:work', categories)).toEqual(['회의록'])
+  expect(searchTitles('category:recipe-id', categories)).toEqual(['김치찌개'])
+})
+
+test('카테고리 목록을 주지 않으면 기본 카테고리 이름을 쓴다', () => {
+  expect(searchTitles('category:업무')).toEqual(['회의록'])
+})
+
+test('공백은 AND, OR 는 그룹, 따옴표는 구문, - 는 제외로 읽는다', () => {
+  expect(parseSearchQuery('react "exact phrase" -draft OR vue')).toEqual({
+    groups: [
+      [
+        { type: 'text', value: 'react', negated: false },
+        { type: 'phrase', value: 'exact phrase', negated: false },
+        { type: 'text', value: 'draft', negated: true },
+      ],
+      [{ type: 'text', value: 'vue', negated: false }],
+    ],
+    errors: [],
+  })
+})
+
+test('필드 조건과 날짜 비교를 읽는다', () => {
+  expect(
+    parseSearchQuery(
+      'tag:"React Native" cat:study title:회의 updated:>2026-01-01 created:2026-01-31'
+    ).groups
+  ).toEqual([
+    [
+      { type: 'field', field: 'tag', value: 'React Native', negated: false },
+      { type: 'field', field: 'category', value: 'study', negated: false },
+      { type: 'field', field: 'title', value: '회의', negated: false },
+      {
+        type: 'date',
+        field: 'updated',
+        operator: '>',
+        value: '2026-01-01',
+        negated: false,
+      },
+      {
+        type: 'date',
+        field: 'created',
+        operator: '=',
+        value: '2026-01-31',
+        negated: false,
+      },
+    ],
+  ])
+})
+
+test('잘못된 부분은 위치와 함께 오류로 알리고 나머지는 살린다', () => {
+  const parsed = parseSearchQuery(
+    'OR 회의 color:red updated:2026-02-30 "닫지 않은'
+  )
+
+  expect(parsed.groups).toEqual([
+    [
+      { type: 'text', value: '회의', negated: false },
+      { type: 'phrase', value: '닫지 않은', negated: false },
+    ],
+  ])
+  expect(parsed.errors.map(error => error.position)).toEqual([0, 6, 16, 35])
+})
+
+test('검색어 조건으로 메모를 거른다', () => {
+  const notes = [
+    createTestMemo({ title: 'React 회의', tags: ['회의'] }),
+    createTestMemo({ title: 'Vue 스터디', category: 'study' }),
+    createTestMemo({ title: 'React 초안', tags: ['draft'] }),
+  ]
+  const titlesFor = (query: string) =>
+    searchMemoCollection(notes, query)
+      .hits.map(hit => hit.memo.title)
+      .sort()
+
+  expect(titlesFor('react -tag:draft')).toEqual(['React 회의'])
+  expect(titlesFor('tag:회의 OR category:study')).toEqual([
+    'React 회의',
+    'Vue 스터디',
+  ])
+  expect(titlesFor('"react 초안"')).toEqual(['React 초안'])
+})
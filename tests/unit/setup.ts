@@ -0,0 +1,34 @@
+// 브라우저 없이 저장소 코드를 실행하기 위한 준비
+// 저장소 모듈보다 먼저 불러오도록 각 테스트 파일의 첫 import 로 둠
+
+// 인메모리 저장소 사용 (memoStore 가 처음 로드될 때 결정됨)
+process.env.NEXT_PUBLIC_MEMO_STORE = 'memory'
+process.env.NEXT_PUBLIC_AUTH_PROVIDER = 'local'
+// 네트워크 없이 항상 같은 응답을 주는 LLM 제공자
+process.env.LLM_PROVIDER = 'mock'
+
+// LocalStorage 를 쓰는 모듈(오프라인 큐, 백업 등)을 위한 메모리 기반 Storage
+const createStorage = (): Storage => {
+  const items = new Map<string, string>()
+  return {
+    get length() {
+      return items.size
+    },
+    key: index => Array.from(items.keys())[index] ?? null,
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, String(value))
+    },
+    removeItem: key => {
+      items.delete(key)
+    },
+    clear: () => items.clear(),
+  }
+}
+
+Object.assign(globalThis, {
+  window: globalThis,
+  localStorage: createStorage(),
+  addEventListener: () => {},
+  removeEventListener: () => {},
+})
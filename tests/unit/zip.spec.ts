@@ -0,0 +1,48 @@
+import { expect, test } from '@playwright/test'
+import { deflateRawSync } from 'zlib'
+import { createZip, readZip } from '@/utils/zip'
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+// 저장(stored) 방식으로 만든 ZIP 의 첫 항목을 deflate 로 압축한 것처럼 바꿈
+// (중앙 디렉터리에 적힌 원래 크기는 size 로 덮어씀)
+const createDeflatedZip = (name: string, data: Uint8Array, size: number) => {
+  const zip = createZip([{ name, data: deflateRawSync(data) }])
+  const view = new DataView(zip.buffer)
+  const central = zip.findIndex(
+    (_, index) =>
+      index + 4 <= zip.length && view.getUint32(index, true) === 0x02014b50
+  )
+  view.setUint16(central + 10, 8, true)
+  view.setUint32(central + 24, size, true)
+  return zip
+}
+
+test('만든 ZIP 을 다시 읽으면 이름과 내용이 그대로다', async () => {
+  const zip = createZip([
+    { name: '회의록.md', data: encoder.encode('# 회의록\n내용') },
+    { name: '폴더/메모.md', data: encoder.encode('다른 메모') },
+  ])
+
+  const entries = await readZip(zip)
+  expect(
+    entries.map(entry => [entry.name, decoder.decode(entry.data)])
+  ).toEqual([
+    ['회의록.md', '# 회의록\n내용'],
+    ['폴더/메모.md', '다른 메모'],
+  ])
+})
+
+test('deflate 로 압축된 항목의 압축을 푼다', async () => {
+  const data = encoder.encode('반복되는 내용 '.repeat(100))
+  const [entry] = await readZip(createDeflatedZip('memo.md', data, data.length))
+
+  expect(decoder.decode(entry.data)).toBe(decoder.decode(data))
+})
+
+test('적힌 크기와 달리 너무 크게 풀리는 항목은 읽다가 멈춘다', async () => {
+  const zip = createDeflatedZip('bomb.md', new Uint8Array(51 * 1024 * 1024), 1)
+
+  await expect(readZip(zip)).rejects.toThrow('ZIP 안의 파일이 너무 큽니다')
+})